@@ -0,0 +1,94 @@
+/**
+ * Tests for the in-memory database driver
+ */
+
+import { MemoryDatabase } from './MemoryDatabase';
+import { DuplicateRecordError, RecordNotFoundError } from './types';
+import { ProcessingStep, StoredFile } from '../types';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+const makeFile = (id: string, userId: string, uploadedAt: Date): StoredFile => ({
+  id,
+  userId,
+  name: `${id}.las`,
+  size: 100,
+  mimeType: 'application/octet-stream',
+  storageKey: `uploads/${id}/original.las`,
+  uploadedAt,
+  metadata: {
+    version: '2.0',
+    header: {} as StoredFile['metadata']['header'],
+    curves: [],
+    wellItems: [],
+    parameters: [],
+    rowCount: 3,
+    qualityScore: 90,
+    warnings: []
+  }
+});
+
+const makeStep = (operation: string): ProcessingStep => ({
+  id: `step_${operation}`,
+  timestamp: new Date(),
+  operation,
+  parameters: {},
+  curvesAffected: ['GR'],
+  description: operation
+});
+
+describe('MemoryDatabase', () => {
+  let db: MemoryDatabase;
+
+  beforeEach(() => {
+    db = new MemoryDatabase();
+  });
+
+  it('should find users by email case-insensitively and reject duplicates', async () => {
+    const user = await db.users.create({ email: 'Ana@Example.com', name: 'Ana', passwordHash: 'hash' });
+
+    expect(user.credits).toBe(10);
+    expect(user.subscription).toBe('free');
+    expect((await db.users.findByEmail('ana@example.com'))?.id).toBe(user.id);
+    await expect(db.users.create({ email: 'ana@example.com', name: 'Other', passwordHash: 'x' }))
+      .rejects.toBeInstanceOf(DuplicateRecordError);
+  });
+
+  it('should list a user\'s files newest first and not share stored objects', async () => {
+    await db.files.create(makeFile('old', 'u1', new Date('2024-01-01')));
+    await db.files.create(makeFile('new', 'u1', new Date('2024-02-01')));
+    await db.files.create(makeFile('other', 'u2', new Date('2024-03-01')));
+
+    const files = await db.files.listByUser('u1');
+    expect(files.map(f => f.id)).toEqual(['new', 'old']);
+
+    files[0].name = 'changed.las';
+    expect((await db.files.findById('new'))?.name).toBe('new.las');
+  });
+
+  it('should record processing jobs with their steps in order', async () => {
+    const job = await db.jobs.create({ userId: 'u1', fileName: 'a.las', options: { denoise: { enabled: true } } });
+    expect(job.status).toBe('pending');
+
+    await db.jobs.addSteps(job.id, [makeStep('file_parsing'), makeStep('denoising')]);
+    await db.jobs.addSteps(job.id, [makeStep('final_quality_assessment')]);
+    const updated = await db.jobs.update(job.id, { status: 'completed', progress: 100 });
+
+    expect(updated.status).toBe('completed');
+    expect(updated.steps.map(s => s.operation)).toEqual(['file_parsing', 'denoising', 'final_quality_assessment']);
+    await expect(db.jobs.update('missing', { progress: 10 })).rejects.toBeInstanceOf(RecordNotFoundError);
+  });
+
+  it('should keep every version of a recipe and rename them together', async () => {
+    const recipe = await db.recipes.create({ userId: 'u1', name: 'Shale', options: { denoise: { windowSize: 5 } } });
+    await db.recipes.update(recipe.id, { options: { denoise: { windowSize: 7 } } });
+    const renamed = await db.recipes.update(recipe.id, { name: 'Shale v2' });
+
+    expect(renamed.version).toBe(2);
+    expect((await db.recipes.findById(recipe.id, 1))?.options).toEqual({ denoise: { windowSize: 5 } });
+    expect((await db.recipes.findById(recipe.id, 1))?.name).toBe('Shale v2');
+    expect((await db.recipes.listVersions(recipe.id)).map(r => r.version)).toEqual([2, 1]);
+    await expect(db.recipes.create({ userId: 'u1', name: 'Shale v2', options: {} }))
+      .rejects.toBeInstanceOf(DuplicateRecordError);
+    expect(await db.recipes.findById(recipe.id, 3)).toBeNull();
+  });
+});
@@ -0,0 +1,300 @@
+import { v4 as uuidv4 } from 'uuid';
+import { ProcessingStep, StoredFile } from '../types';
+import {
+  CertificateRecord,
+  CertificateRepository,
+  Database,
+  DuplicateRecordError,
+  ExportRecord,
+  ExportRepository,
+  FileRepository,
+  NewProcessingJob,
+  NewRecipe,
+  NewUser,
+  ProcessingJobChanges,
+  ProcessingJobRecord,
+  ProcessingJobRepository,
+  RecipeChanges,
+  RecipeRecord,
+  RecipeRepository,
+  RecordNotFoundError,
+  SessionRecord,
+  SessionRepository,
+  UserRecord,
+  UserRepository
+} from './types';
+
+// Records are copied in and out so callers can't change stored state by accident
+const copy = <T>(value: T): T => structuredClone(value);
+
+const newestFirst = <T extends { createdAt: Date }>(a: T, b: T) =>
+  b.createdAt.getTime() - a.createdAt.getTime();
+
+class MemoryUserRepository implements UserRepository {
+  private users = new Map<string, UserRecord>();
+
+  async create(user: NewUser): Promise<UserRecord> {
+    if (await this.findByEmail(user.email)) {
+      throw new DuplicateRecordError(`A user with email "${user.email}" already exists`);
+    }
+
+    const now = new Date();
+    const record: UserRecord = {
+      id: user.id || uuidv4(),
+      email: user.email,
+      name: user.name,
+      passwordHash: user.passwordHash,
+      credits: user.credits ?? 10,
+      subscription: user.subscription || 'free',
+      createdAt: now,
+      updatedAt: now
+    };
+    this.users.set(record.id, record);
+    return copy(record);
+  }
+
+  async findById(id: string): Promise<UserRecord | null> {
+    const user = this.users.get(id);
+    return user ? copy(user) : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const lower = email.toLowerCase();
+    const user = Array.from(this.users.values()).find(u => u.email.toLowerCase() === lower);
+    return user ? copy(user) : null;
+  }
+
+  async update(id: string, changes: Partial<Omit<NewUser, 'id' | 'email'>>): Promise<UserRecord> {
+    const user = this.users.get(id);
+    if (!user) throw new RecordNotFoundError('User', id);
+
+    Object.assign(user, changes, { updatedAt: new Date() });
+    return copy(user);
+  }
+}
+
+class MemorySessionRepository implements SessionRepository {
+  private sessions = new Map<string, SessionRecord>();
+
+  async create(session: Omit<SessionRecord, 'createdAt'>): Promise<SessionRecord> {
+    if (await this.findByTokenHash(session.tokenHash)) {
+      throw new DuplicateRecordError('Session token already exists');
+    }
+    const record = { ...copy(session), createdAt: new Date() };
+    this.sessions.set(record.id, record);
+    return copy(record);
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<SessionRecord | null> {
+    const session = Array.from(this.sessions.values()).find(s => s.tokenHash === tokenHash);
+    return session ? copy(session) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.sessions.delete(id);
+  }
+
+  async deleteAllForUser(userId: string): Promise<number> {
+    let count = 0;
+    for (const session of Array.from(this.sessions.values())) {
+      if (session.userId === userId && this.sessions.delete(session.id)) count++;
+    }
+    return count;
+  }
+}
+
+class MemoryFileRepository implements FileRepository {
+  private files = new Map<string, StoredFile>();
+
+  async create(file: StoredFile): Promise<StoredFile> {
+    this.files.set(file.id, copy(file));
+    return copy(file);
+  }
+
+  async findById(id: string): Promise<StoredFile | null> {
+    const file = this.files.get(id);
+    return file ? copy(file) : null;
+  }
+
+  async listByUser(userId: string): Promise<StoredFile[]> {
+    return Array.from(this.files.values())
+      .filter(file => file.userId === userId)
+      .sort((a, b) => b.uploadedAt.getTime() - a.uploadedAt.getTime())
+      .map(copy);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.files.delete(id);
+  }
+}
+
+class MemoryProcessingJobRepository implements ProcessingJobRepository {
+  private jobs = new Map<string, ProcessingJobRecord>();
+
+  async create(job: NewProcessingJob): Promise<ProcessingJobRecord> {
+    const record: ProcessingJobRecord = {
+      id: uuidv4(),
+      userId: job.userId,
+      fileId: job.fileId,
+      fileName: job.fileName,
+      status: 'pending',
+      progress: 0,
+      attempts: 0,
+      options: copy(job.options),
+      steps: [],
+      createdAt: new Date()
+    };
+    this.jobs.set(record.id, record);
+    return copy(record);
+  }
+
+  async update(id: string, changes: ProcessingJobChanges): Promise<ProcessingJobRecord> {
+    const job = this.jobs.get(id);
+    if (!job) throw new RecordNotFoundError('Processing job', id);
+
+    Object.assign(job, changes);
+    return copy(job);
+  }
+
+  async addSteps(id: string, steps: ProcessingStep[]): Promise<void> {
+    const job = this.jobs.get(id);
+    if (!job) throw new RecordNotFoundError('Processing job', id);
+
+    job.steps.push(...copy(steps));
+  }
+
+  async findById(id: string): Promise<ProcessingJobRecord | null> {
+    const job = this.jobs.get(id);
+    return job ? copy(job) : null;
+  }
+
+  async listByUser(userId: string): Promise<ProcessingJobRecord[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.userId === userId)
+      .sort(newestFirst)
+      .map(copy);
+  }
+}
+
+class MemoryExportRepository implements ExportRepository {
+  private exports = new Map<string, ExportRecord>();
+
+  async create(record: Omit<ExportRecord, 'createdAt'>): Promise<ExportRecord> {
+    const stored = { ...copy(record), createdAt: new Date() };
+    this.exports.set(stored.id, stored);
+    return copy(stored);
+  }
+
+  async findById(id: string): Promise<ExportRecord | null> {
+    const record = this.exports.get(id);
+    return record ? copy(record) : null;
+  }
+}
+
+class MemoryCertificateRepository implements CertificateRepository {
+  private certificates = new Map<string, CertificateRecord>();
+
+  async create(record: CertificateRecord): Promise<CertificateRecord> {
+    if (this.certificates.has(record.id)) {
+      throw new DuplicateRecordError(`Certificate "${record.id}" already exists`);
+    }
+    this.certificates.set(record.id, copy(record));
+    return copy(record);
+  }
+
+  async findById(id: string): Promise<CertificateRecord | null> {
+    const record = this.certificates.get(id);
+    return record ? copy(record) : null;
+  }
+}
+
+class MemoryRecipeRepository implements RecipeRepository {
+  // Every version of each recipe, oldest first
+  private recipes = new Map<string, RecipeRecord[]>();
+
+  async create(recipe: NewRecipe): Promise<RecipeRecord> {
+    this.checkNameFree(recipe.userId, recipe.name);
+
+    const now = new Date();
+    const record: RecipeRecord = {
+      id: uuidv4(),
+      userId: recipe.userId,
+      name: recipe.name,
+      description: recipe.description,
+      version: 1,
+      options: copy(recipe.options),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.recipes.set(record.id, [record]);
+    return copy(record);
+  }
+
+  async update(id: string, changes: RecipeChanges): Promise<RecipeRecord> {
+    const versions = this.recipes.get(id);
+    if (!versions) throw new RecordNotFoundError('Recipe', id);
+
+    const latest = versions[versions.length - 1];
+    if (changes.name !== undefined && changes.name !== latest.name) {
+      this.checkNameFree(latest.userId, changes.name);
+    }
+
+    for (const version of versions) {
+      if (changes.name !== undefined) version.name = changes.name;
+      if (changes.description !== undefined) version.description = changes.description;
+    }
+    if (changes.options !== undefined) {
+      versions.push({ ...latest, version: latest.version + 1, options: copy(changes.options), updatedAt: new Date() });
+    }
+    return copy(versions[versions.length - 1]);
+  }
+
+  async findById(id: string, version?: number): Promise<RecipeRecord | null> {
+    const versions = this.recipes.get(id);
+    if (!versions) return null;
+
+    const record = version === undefined ? versions[versions.length - 1] : versions.find(v => v.version === version);
+    return record ? copy(record) : null;
+  }
+
+  async listByUser(userId: string): Promise<RecipeRecord[]> {
+    return Array.from(this.recipes.values())
+      .map(versions => versions[versions.length - 1])
+      .filter(recipe => recipe.userId === userId)
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(copy);
+  }
+
+  async listVersions(id: string): Promise<RecipeRecord[]> {
+    return [...(this.recipes.get(id) || [])].reverse().map(copy);
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.recipes.delete(id);
+  }
+
+  private checkNameFree(userId: string, name: string): void {
+    const taken = Array.from(this.recipes.values()).some(([recipe]) => recipe.userId === userId && recipe.name === name);
+    if (taken) {
+      throw new DuplicateRecordError(`A recipe named "${name}" already exists`);
+    }
+  }
+}
+
+/**
+ * Keeps everything in process memory. Data is lost on restart, so this is
+ * meant for tests and local development without Postgres.
+ */
+export class MemoryDatabase implements Database {
+  readonly users = new MemoryUserRepository();
+  readonly sessions = new MemorySessionRepository();
+  readonly files = new MemoryFileRepository();
+  readonly jobs = new MemoryProcessingJobRepository();
+  readonly exports = new MemoryExportRepository();
+  readonly certificates = new MemoryCertificateRepository();
+  readonly recipes = new MemoryRecipeRepository();
+
+  async connect(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
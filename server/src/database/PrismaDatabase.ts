@@ -0,0 +1,599 @@
+import { Prisma, PrismaClient } from '@prisma/client';
+import { LASCurve, LASHeader, LASHeaderItem, ProcessingStep, StoredFile } from '../types';
+import {
+  CertificateRecord,
+  CertificateRepository,
+  Database,
+  DuplicateRecordError,
+  ExportRecord,
+  ExportRepository,
+  FileRepository,
+  NewProcessingJob,
+  NewRecipe,
+  NewUser,
+  ProcessingJobChanges,
+  ProcessingJobRecord,
+  ProcessingJobRepository,
+  ProcessingJobStatus,
+  RecipeChanges,
+  RecipeRecord,
+  RecipeRepository,
+  RecordNotFoundError,
+  SessionRecord,
+  SessionRepository,
+  UserRecord,
+  UserRepository
+} from './types';
+
+const toJson = (value: unknown) => value as Prisma.InputJsonValue;
+
+const optional = <T>(value: T | null): T | undefined => (value === null ? undefined : value);
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+const isMissingRecord = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+
+type UserRow = Prisma.UserGetPayload<object>;
+type SessionRow = Prisma.SessionGetPayload<object>;
+type FileRow = Prisma.FileGetPayload<{ include: { curves: true } }>;
+type JobRow = Prisma.ProcessingJobGetPayload<{ include: { steps: true } }>;
+type ExportRow = Prisma.ExportGetPayload<object>;
+type CertificateRow = Prisma.CertificateGetPayload<object>;
+type RecipeRow = Prisma.RecipeGetPayload<object>;
+type RecipeVersionRow = Prisma.RecipeVersionGetPayload<object>;
+
+class PrismaUserRepository implements UserRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(user: NewUser): Promise<UserRecord> {
+    try {
+      const row = await this.prisma.user.create({
+        data: {
+          id: user.id,
+          email: user.email.toLowerCase(),
+          name: user.name,
+          password: user.passwordHash,
+          credits: user.credits,
+          subscription: user.subscription
+        }
+      });
+      return this.toRecord(row);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new DuplicateRecordError(`A user with email "${user.email}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<UserRecord | null> {
+    const row = await this.prisma.user.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  async findByEmail(email: string): Promise<UserRecord | null> {
+    const row = await this.prisma.user.findUnique({ where: { email: email.toLowerCase() } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  async update(id: string, changes: Partial<Omit<NewUser, 'id' | 'email'>>): Promise<UserRecord> {
+    try {
+      const row = await this.prisma.user.update({
+        where: { id },
+        data: {
+          name: changes.name,
+          password: changes.passwordHash,
+          credits: changes.credits,
+          subscription: changes.subscription
+        }
+      });
+      return this.toRecord(row);
+    } catch (error) {
+      if (isMissingRecord(error)) throw new RecordNotFoundError('User', id);
+      throw error;
+    }
+  }
+
+  private toRecord(row: UserRow): UserRecord {
+    return {
+      id: row.id,
+      email: row.email,
+      name: row.name,
+      passwordHash: row.password,
+      credits: row.credits,
+      subscription: row.subscription,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt
+    };
+  }
+}
+
+class PrismaSessionRepository implements SessionRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(session: Omit<SessionRecord, 'createdAt'>): Promise<SessionRecord> {
+    try {
+      const row = await this.prisma.session.create({
+        data: {
+          id: session.id,
+          userId: session.userId,
+          token: session.tokenHash,
+          expiresAt: session.expiresAt
+        }
+      });
+      return this.toRecord(row);
+    } catch (error) {
+      if (isUniqueViolation(error)) throw new DuplicateRecordError('Session token already exists');
+      throw error;
+    }
+  }
+
+  async findByTokenHash(tokenHash: string): Promise<SessionRecord | null> {
+    const row = await this.prisma.session.findUnique({ where: { token: tokenHash } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { count } = await this.prisma.session.deleteMany({ where: { id } });
+    return count > 0;
+  }
+
+  async deleteAllForUser(userId: string): Promise<number> {
+    const { count } = await this.prisma.session.deleteMany({ where: { userId } });
+    return count;
+  }
+
+  private toRecord(row: SessionRow): SessionRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      tokenHash: row.token,
+      expiresAt: row.expiresAt,
+      createdAt: row.createdAt
+    };
+  }
+}
+
+class PrismaFileRepository implements FileRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(file: StoredFile): Promise<StoredFile> {
+    const { metadata } = file;
+    const row = await this.prisma.file.create({
+      data: {
+        id: file.id,
+        userId: file.userId,
+        name: file.name,
+        size: BigInt(file.size),
+        mimeType: file.mimeType,
+        storagePath: file.storageKey,
+        lasVersion: metadata.version,
+        header: toJson(metadata.header),
+        wellItems: toJson(metadata.wellItems),
+        parameters: toJson(metadata.parameters),
+        rowCount: metadata.rowCount,
+        warnings: metadata.warnings,
+        qualityScore: metadata.qualityScore,
+        depthRange: [metadata.header.startDepth, metadata.header.stopDepth],
+        originalSampling: metadata.header.step,
+        curveCount: metadata.curves.length,
+        createdAt: file.uploadedAt,
+        curves: {
+          create: metadata.curves.map((curve, position) => ({
+            position,
+            mnemonic: curve.mnemonic,
+            unit: curve.unit,
+            description: curve.description,
+            standardMnemonic: curve.standardMnemonic,
+            dataType: curve.dataType,
+            curveType: curve.curveType,
+            track: curve.track,
+            color: curve.color,
+            scale: curve.scale,
+            minValue: curve.minValue,
+            maxValue: curve.maxValue,
+            visible: curve.visible,
+            statistics: curve.statistics ? toJson(curve.statistics) : undefined
+          }))
+        }
+      },
+      include: { curves: true }
+    });
+    return this.toStoredFile(row);
+  }
+
+  async findById(id: string): Promise<StoredFile | null> {
+    const row = await this.prisma.file.findUnique({
+      where: { id },
+      include: { curves: true }
+    });
+    return row ? this.toStoredFile(row) : null;
+  }
+
+  async listByUser(userId: string): Promise<StoredFile[]> {
+    const rows = await this.prisma.file.findMany({
+      where: { userId },
+      include: { curves: true },
+      orderBy: { createdAt: 'desc' }
+    });
+    return rows.map(row => this.toStoredFile(row));
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.file.deleteMany({ where: { id } });
+  }
+
+  private toStoredFile(row: FileRow): StoredFile {
+    const curves = [...row.curves]
+      .sort((a, b) => a.position - b.position)
+      .map((curve): LASCurve => ({
+        mnemonic: curve.mnemonic,
+        unit: curve.unit,
+        description: curve.description,
+        standardMnemonic: optional(curve.standardMnemonic),
+        dataType: curve.dataType as LASCurve['dataType'],
+        curveType: curve.curveType as LASCurve['curveType'],
+        track: curve.track,
+        color: curve.color,
+        scale: curve.scale as LASCurve['scale'],
+        minValue: optional(curve.minValue),
+        maxValue: optional(curve.maxValue),
+        visible: curve.visible,
+        statistics: optional(curve.statistics) as LASCurve['statistics']
+      }));
+
+    return {
+      id: row.id,
+      userId: row.userId,
+      name: row.name,
+      size: Number(row.size),
+      mimeType: row.mimeType,
+      storageKey: row.storagePath || '',
+      uploadedAt: row.createdAt,
+      metadata: {
+        version: row.lasVersion || '',
+        header: row.header as unknown as LASHeader,
+        curves,
+        wellItems: row.wellItems as unknown as LASHeaderItem[],
+        parameters: row.parameters as unknown as LASHeaderItem[],
+        rowCount: row.rowCount,
+        qualityScore: row.qualityScore ? row.qualityScore.toNumber() : 0,
+        warnings: row.warnings
+      }
+    };
+  }
+}
+
+class PrismaProcessingJobRepository implements ProcessingJobRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(job: NewProcessingJob): Promise<ProcessingJobRecord> {
+    const row = await this.prisma.processingJob.create({
+      data: {
+        userId: job.userId,
+        fileId: job.fileId,
+        fileName: job.fileName,
+        options: toJson(job.options)
+      },
+      include: { steps: true }
+    });
+    return this.toRecord(row);
+  }
+
+  async update(id: string, changes: ProcessingJobChanges): Promise<ProcessingJobRecord> {
+    try {
+      const row = await this.prisma.processingJob.update({
+        where: { id },
+        data: changes,
+        include: { steps: true }
+      });
+      return this.toRecord(row);
+    } catch (error) {
+      if (isMissingRecord(error)) throw new RecordNotFoundError('Processing job', id);
+      throw error;
+    }
+  }
+
+  async addSteps(id: string, steps: ProcessingStep[]): Promise<void> {
+    if (steps.length === 0) return;
+
+    await this.prisma.$transaction(async tx => {
+      const offset = await tx.processingStep.count({ where: { jobId: id } });
+      await tx.processingStep.createMany({
+        data: steps.map((step, index) => ({
+          id: step.id,
+          jobId: id,
+          position: offset + index,
+          operation: step.operation,
+          parameters: toJson(step.parameters),
+          curvesAffected: step.curvesAffected,
+          description: step.description,
+          inputs: step.inputs && toJson(step.inputs),
+          outputs: step.outputs && toJson(step.outputs),
+          results: step.results && toJson(step.results),
+          recipeId: step.recipe?.id,
+          recipeVersion: step.recipe?.version,
+          timestamp: step.timestamp
+        }))
+      });
+    });
+  }
+
+  async findById(id: string): Promise<ProcessingJobRecord | null> {
+    const row = await this.prisma.processingJob.findUnique({
+      where: { id },
+      include: { steps: true }
+    });
+    return row ? this.toRecord(row) : null;
+  }
+
+  async listByUser(userId: string): Promise<ProcessingJobRecord[]> {
+    const rows = await this.prisma.processingJob.findMany({
+      where: { userId },
+      include: { steps: true },
+      orderBy: { createdAt: 'desc' }
+    });
+    return rows.map(row => this.toRecord(row));
+  }
+
+  private toRecord(row: JobRow): ProcessingJobRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      fileId: optional(row.fileId),
+      fileName: row.fileName,
+      status: row.status as ProcessingJobStatus,
+      progress: row.progress,
+      attempts: row.attempts,
+      options: row.options,
+      steps: [...row.steps]
+        .sort((a, b) => a.position - b.position)
+        .map(step => ({
+          id: step.id,
+          timestamp: step.timestamp,
+          operation: step.operation,
+          parameters: step.parameters as Record<string, unknown>,
+          curvesAffected: step.curvesAffected,
+          description: step.description,
+          inputs: optional(step.inputs) as ProcessingStep['inputs'],
+          outputs: optional(step.outputs) as ProcessingStep['outputs'],
+          results: optional(step.results) as ProcessingStep['results'],
+          recipe: step.recipeId !== null && step.recipeVersion !== null
+            ? { id: step.recipeId, version: step.recipeVersion }
+            : undefined
+        })),
+      qualityBefore: optional(row.qualityBefore),
+      qualityAfter: optional(row.qualityAfter),
+      executionTime: optional(row.executionTime),
+      error: optional(row.error),
+      createdAt: row.createdAt,
+      startedAt: optional(row.startedAt),
+      completedAt: optional(row.completedAt)
+    };
+  }
+}
+
+class PrismaExportRepository implements ExportRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(record: Omit<ExportRecord, 'createdAt'>): Promise<ExportRecord> {
+    const row = await this.prisma.export.create({
+      data: {
+        id: record.id,
+        userId: record.userId,
+        fileId: record.fileId,
+        format: record.format,
+        fileName: record.fileName,
+        storagePath: record.storageKey,
+        fileSize: BigInt(record.size),
+        status: 'completed',
+        completedAt: new Date()
+      }
+    });
+    return this.toRecord(row);
+  }
+
+  async findById(id: string): Promise<ExportRecord | null> {
+    const row = await this.prisma.export.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  private toRecord(row: ExportRow): ExportRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      fileId: optional(row.fileId),
+      format: row.format,
+      fileName: row.fileName,
+      storageKey: row.storagePath || '',
+      size: Number(row.fileSize ?? 0),
+      createdAt: row.createdAt
+    };
+  }
+}
+
+class PrismaCertificateRepository implements CertificateRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(record: CertificateRecord): Promise<CertificateRecord> {
+    try {
+      const row = await this.prisma.certificate.create({
+        data: {
+          id: record.id,
+          userId: record.userId,
+          jobId: record.jobId,
+          fileName: record.fileName,
+          storagePath: record.storageKey,
+          version: record.version,
+          processingSteps: record.processingSteps,
+          algorithms: record.algorithms,
+          initialQuality: record.initialQuality,
+          finalQuality: record.finalQuality,
+          qualityImprovement: record.qualityImprovement,
+          signature: record.signature,
+          issuedAt: record.timestamp
+        }
+      });
+      return this.toRecord(row);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new DuplicateRecordError(`Certificate "${record.id}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async findById(id: string): Promise<CertificateRecord | null> {
+    const row = await this.prisma.certificate.findUnique({ where: { id } });
+    return row ? this.toRecord(row) : null;
+  }
+
+  private toRecord(row: CertificateRow): CertificateRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      jobId: optional(row.jobId),
+      fileName: row.fileName,
+      storageKey: row.storagePath,
+      timestamp: row.issuedAt,
+      version: row.version,
+      processingSteps: row.processingSteps,
+      algorithms: row.algorithms,
+      initialQuality: row.initialQuality,
+      finalQuality: row.finalQuality,
+      qualityImprovement: row.qualityImprovement,
+      signature: row.signature
+    };
+  }
+}
+
+class PrismaRecipeRepository implements RecipeRepository {
+  constructor(private prisma: PrismaClient) {}
+
+  async create(recipe: NewRecipe): Promise<RecipeRecord> {
+    try {
+      const row = await this.prisma.recipe.create({
+        data: {
+          userId: recipe.userId,
+          name: recipe.name,
+          description: recipe.description,
+          versions: { create: { version: 1, options: toJson(recipe.options) } }
+        },
+        include: { versions: true }
+      });
+      return this.toRecord(row, row.versions[0]);
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new DuplicateRecordError(`A recipe named "${recipe.name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async update(id: string, changes: RecipeChanges): Promise<RecipeRecord> {
+    try {
+      return await this.prisma.$transaction(async tx => {
+        const current = await tx.recipe.findUnique({ where: { id } });
+        if (!current) throw new RecordNotFoundError('Recipe', id);
+
+        const version = changes.options === undefined ? current.version : current.version + 1;
+        if (changes.options !== undefined) {
+          await tx.recipeVersion.create({ data: { recipeId: id, version, options: toJson(changes.options) } });
+        }
+
+        const row = await tx.recipe.update({
+          where: { id },
+          data: { name: changes.name, description: changes.description, version },
+          include: { versions: { where: { version } } }
+        });
+        return this.toRecord(row, row.versions[0]);
+      });
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new DuplicateRecordError(`A recipe named "${changes.name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async findById(id: string, version?: number): Promise<RecipeRecord | null> {
+    const row = await this.prisma.recipe.findUnique({ where: { id } });
+    if (!row) return null;
+
+    const versionRow = await this.prisma.recipeVersion.findUnique({
+      where: { recipeId_version: { recipeId: id, version: version ?? row.version } }
+    });
+    return versionRow ? this.toRecord(row, versionRow) : null;
+  }
+
+  async listByUser(userId: string): Promise<RecipeRecord[]> {
+    const rows = await this.prisma.recipe.findMany({
+      where: { userId },
+      include: { versions: { orderBy: { version: 'desc' }, take: 1 } },
+      orderBy: { name: 'asc' }
+    });
+    return rows.map(row => this.toRecord(row, row.versions[0]));
+  }
+
+  async listVersions(id: string): Promise<RecipeRecord[]> {
+    const row = await this.prisma.recipe.findUnique({
+      where: { id },
+      include: { versions: { orderBy: { version: 'desc' } } }
+    });
+    return row ? row.versions.map(version => this.toRecord(row, version)) : [];
+  }
+
+  async delete(id: string): Promise<boolean> {
+    const { count } = await this.prisma.recipe.deleteMany({ where: { id } });
+    return count > 0;
+  }
+
+  private toRecord(row: RecipeRow, version: RecipeVersionRow): RecipeRecord {
+    return {
+      id: row.id,
+      userId: row.userId,
+      name: row.name,
+      description: optional(row.description),
+      version: version.version,
+      options: version.options,
+      createdAt: row.createdAt,
+      updatedAt: version.createdAt
+    };
+  }
+}
+
+/**
+ * Postgres through Prisma. The schema lives in schema.prisma and is applied
+ * with `npm run migrate` (development) or `npm run migrate:deploy`.
+ */
+export class PrismaDatabase implements Database {
+  readonly users: PrismaUserRepository;
+  readonly sessions: PrismaSessionRepository;
+  readonly files: PrismaFileRepository;
+  readonly jobs: PrismaProcessingJobRepository;
+  readonly exports: PrismaExportRepository;
+  readonly certificates: PrismaCertificateRepository;
+  readonly recipes: PrismaRecipeRepository;
+  private prisma: PrismaClient;
+
+  constructor(url: string) {
+    this.prisma = new PrismaClient({ datasources: { db: { url } } });
+    this.users = new PrismaUserRepository(this.prisma);
+    this.sessions = new PrismaSessionRepository(this.prisma);
+    this.files = new PrismaFileRepository(this.prisma);
+    this.jobs = new PrismaProcessingJobRepository(this.prisma);
+    this.exports = new PrismaExportRepository(this.prisma);
+    this.certificates = new PrismaCertificateRepository(this.prisma);
+    this.recipes = new PrismaRecipeRepository(this.prisma);
+  }
+
+  async connect(): Promise<void> {
+    await this.prisma.$connect();
+  }
+
+  async close(): Promise<void> {
+    await this.prisma.$disconnect();
+  }
+}
@@ -1,23 +1,70 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
 import { config } from '../config';
+import { MemoryDatabase } from './MemoryDatabase';
+import { PrismaDatabase } from './PrismaDatabase';
+import { Database } from './types';
+
+let database: Database | null = null;
+
+/**
+ * The database selected by `config.database.driver`, created on first use
+ */
+export function getDatabase(): Database {
+  if (!database) {
+    database = createDatabase(config.database.driver);
+  }
+  return database;
+}
+
+export function createDatabase(driver: string): Database {
+  switch (driver) {
+    case 'postgres':
+      return new PrismaDatabase(config.database.url);
+    case 'memory':
+      return new MemoryDatabase();
+    default:
+      throw new Error(`Unsupported database driver "${driver}"`);
+  }
+}
 
 export async function initializeDatabase(): Promise<void> {
   try {
-    // In a real implementation, this would initialize the database connection
-    // For now, just log that we're ready
-    console.log('Database initialization - implementation pending');
-    console.log('Database URL:', config.database.url);
-    
+    const db = getDatabase();
+    await db.connect();
+    console.log(`Database connected (${config.database.driver})`);
+
+    // The development auth bypass signs requests in as dev-user, which has to exist
+    if (config.development.bypassAuth && !(await db.users.findById('dev-user'))) {
+      await db.users.create({
+        id: 'dev-user',
+        email: 'dev@example.com',
+        name: 'Development User',
+        passwordHash: await bcrypt.hash(crypto.randomBytes(32).toString('hex'), config.bcryptRounds),
+        subscription: 'premium'
+      });
+    }
+
     // Create logs directory if it doesn't exist
-    const fs = require('fs');
-    const path = require('path');
     const logsDir = path.join(process.cwd(), 'logs');
-    
     if (!fs.existsSync(logsDir)) {
       fs.mkdirSync(logsDir, { recursive: true });
     }
-    
+
   } catch (error) {
     console.error('Database initialization failed:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+export async function closeDatabase(): Promise<void> {
+  if (database) {
+    await database.close();
+    database = null;
+  }
+}
+
+export * from './types';
+export { MemoryDatabase, PrismaDatabase };
@@ -0,0 +1,249 @@
+-- CreateTable
+CREATE TABLE "users" (
+    "id" TEXT NOT NULL,
+    "email" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "password" TEXT NOT NULL,
+    "credits" INTEGER NOT NULL DEFAULT 10,
+    "subscription" TEXT NOT NULL DEFAULT 'free',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "users_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "files" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "mimeType" TEXT NOT NULL DEFAULT 'application/octet-stream',
+    "storagePath" TEXT,
+    "lasVersion" TEXT,
+    "header" JSONB,
+    "wellItems" JSONB NOT NULL DEFAULT '[]',
+    "parameters" JSONB NOT NULL DEFAULT '[]',
+    "rowCount" INTEGER NOT NULL DEFAULT 0,
+    "warnings" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "processed" BOOLEAN NOT NULL DEFAULT false,
+    "qualityScore" DECIMAL(5,2),
+    "depthRange" DECIMAL(65,30)[] DEFAULT ARRAY[]::DECIMAL(65,30)[],
+    "originalSampling" DECIMAL(10,4),
+    "curveCount" INTEGER NOT NULL DEFAULT 0,
+    "visualizationCache" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "files_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "curves" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "mnemonic" TEXT NOT NULL,
+    "unit" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "standardMnemonic" TEXT,
+    "dataType" TEXT NOT NULL,
+    "curveType" TEXT NOT NULL,
+    "track" INTEGER NOT NULL DEFAULT 1,
+    "color" TEXT NOT NULL,
+    "scale" TEXT NOT NULL DEFAULT 'linear',
+    "minValue" DOUBLE PRECISION,
+    "maxValue" DOUBLE PRECISION,
+    "visible" BOOLEAN NOT NULL DEFAULT true,
+    "statistics" JSONB,
+
+    CONSTRAINT "curves_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "processing_jobs" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT,
+    "userId" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "progress" INTEGER NOT NULL DEFAULT 0,
+    "options" JSONB NOT NULL,
+    "result" JSONB,
+    "error" TEXT,
+    "qualityBefore" DOUBLE PRECISION,
+    "qualityAfter" DOUBLE PRECISION,
+    "executionTime" INTEGER,
+    "startedAt" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "processing_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "processing_steps" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "operation" TEXT NOT NULL,
+    "parameters" JSONB NOT NULL,
+    "curvesAffected" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "description" TEXT NOT NULL,
+    "timestamp" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "processing_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "exports" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fileId" TEXT,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "storagePath" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "downloadUrl" TEXT,
+    "fileSize" BIGINT,
+    "processingTime" INTEGER,
+    "error" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "exports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "certificates" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "jobId" TEXT,
+    "fileName" TEXT NOT NULL,
+    "storagePath" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "processingSteps" INTEGER NOT NULL,
+    "algorithms" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "initialQuality" DOUBLE PRECISION NOT NULL,
+    "finalQuality" DOUBLE PRECISION NOT NULL,
+    "qualityImprovement" DOUBLE PRECISION NOT NULL,
+    "signature" TEXT NOT NULL,
+    "issuedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "certificates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "stripePaymentId" TEXT NOT NULL,
+    "amount" INTEGER NOT NULL,
+    "currency" TEXT NOT NULL DEFAULT 'usd',
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "description" TEXT NOT NULL,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sessions" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sessions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "system_logs" (
+    "id" TEXT NOT NULL,
+    "level" TEXT NOT NULL,
+    "message" TEXT NOT NULL,
+    "metadata" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "system_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "configurations" (
+    "id" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "value" TEXT NOT NULL,
+    "description" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "configurations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "users_email_key" ON "users"("email");
+
+-- CreateIndex
+CREATE INDEX "files_userId_createdAt_idx" ON "files"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "curves_fileId_position_key" ON "curves"("fileId", "position");
+
+-- CreateIndex
+CREATE INDEX "processing_jobs_userId_createdAt_idx" ON "processing_jobs"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "processing_steps_jobId_position_key" ON "processing_steps"("jobId", "position");
+
+-- CreateIndex
+CREATE INDEX "exports_userId_createdAt_idx" ON "exports"("userId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "certificates_jobId_key" ON "certificates"("jobId");
+
+-- CreateIndex
+CREATE INDEX "certificates_userId_idx" ON "certificates"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payments_stripePaymentId_key" ON "payments"("stripePaymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sessions_token_key" ON "sessions"("token");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "configurations_key_key" ON "configurations"("key");
+
+-- AddForeignKey
+ALTER TABLE "files" ADD CONSTRAINT "files_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "curves" ADD CONSTRAINT "curves_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "processing_jobs" ADD CONSTRAINT "processing_jobs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "processing_jobs" ADD CONSTRAINT "processing_jobs_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "processing_steps" ADD CONSTRAINT "processing_steps_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "processing_jobs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "exports" ADD CONSTRAINT "exports_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "exports" ADD CONSTRAINT "exports_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "certificates" ADD CONSTRAINT "certificates_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "processing_jobs"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sessions" ADD CONSTRAINT "sessions_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "processing_steps" ADD COLUMN "inputs" JSONB,
+ADD COLUMN "outputs" JSONB;
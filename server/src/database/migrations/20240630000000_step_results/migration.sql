@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "processing_steps" ADD COLUMN "results" JSONB;
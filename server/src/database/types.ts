@@ -0,0 +1,203 @@
+import { ProcessingCertificate, ProcessingStep, StoredFile } from '../types';
+
+export interface UserRecord {
+  id: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+  credits: number;
+  subscription: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * A refresh token that can still be exchanged. Only a hash of the token is kept.
+ */
+export interface SessionRecord {
+  id: string;
+  userId: string;
+  tokenHash: string;
+  expiresAt: Date;
+  createdAt: Date;
+}
+
+export interface NewUser {
+  id?: string;
+  email: string;
+  name: string;
+  passwordHash: string;
+  credits?: number;
+  subscription?: string;
+}
+
+export type ProcessingJobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * One run of the processing pipeline and the steps it performed
+ */
+export interface ProcessingJobRecord {
+  id: string;
+  userId: string;
+  fileId?: string;
+  fileName: string;
+  status: ProcessingJobStatus;
+  progress: number;
+  /** Number of times a worker has started the job */
+  attempts: number;
+  options: unknown;
+  steps: ProcessingStep[];
+  qualityBefore?: number;
+  qualityAfter?: number;
+  executionTime?: number;
+  error?: string;
+  createdAt: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+}
+
+export interface NewProcessingJob {
+  userId: string;
+  fileId?: string;
+  fileName: string;
+  options: unknown;
+}
+
+export type ProcessingJobChanges = Partial<Pick<ProcessingJobRecord,
+  'status' | 'progress' | 'attempts' | 'qualityBefore' | 'qualityAfter' | 'executionTime' | 'error' | 'startedAt' | 'completedAt'
+>>;
+
+export interface ExportRecord {
+  id: string;
+  userId: string;
+  fileId?: string;
+  format: string;
+  fileName: string;
+  storageKey: string;
+  size: number;
+  createdAt: Date;
+}
+
+export interface CertificateRecord extends ProcessingCertificate {
+  jobId?: string;
+  storageKey: string;
+}
+
+/**
+ * One version of a named set of processing options. Changing a recipe's
+ * options adds a version; earlier versions stay readable so jobs that used
+ * them can be reproduced.
+ */
+export interface RecipeRecord {
+  id: string;
+  userId: string;
+  name: string;
+  description?: string;
+  version: number;
+  options: unknown;
+  createdAt: Date;
+  /** When this version was stored */
+  updatedAt: Date;
+}
+
+export interface NewRecipe {
+  userId: string;
+  name: string;
+  description?: string;
+  options: unknown;
+}
+
+export type RecipeChanges = Partial<Pick<RecipeRecord, 'name' | 'description' | 'options'>>;
+
+export interface UserRepository {
+  /** Throws DuplicateRecordError when the email is taken */
+  create(user: NewUser): Promise<UserRecord>;
+  findById(id: string): Promise<UserRecord | null>;
+  /** Emails are matched case-insensitively */
+  findByEmail(email: string): Promise<UserRecord | null>;
+  update(id: string, changes: Partial<Omit<NewUser, 'id' | 'email'>>): Promise<UserRecord>;
+}
+
+export interface SessionRepository {
+  create(session: Omit<SessionRecord, 'createdAt'>): Promise<SessionRecord>;
+  findByTokenHash(tokenHash: string): Promise<SessionRecord | null>;
+  /** Returns false when the session was already gone, e.g. used by a concurrent request */
+  delete(id: string): Promise<boolean>;
+  deleteAllForUser(userId: string): Promise<number>;
+}
+
+export interface FileRepository {
+  /** Store an uploaded file together with its curve metadata */
+  create(file: StoredFile): Promise<StoredFile>;
+  findById(id: string): Promise<StoredFile | null>;
+  /** A user's files, newest first */
+  listByUser(userId: string): Promise<StoredFile[]>;
+  delete(id: string): Promise<void>;
+}
+
+export interface ProcessingJobRepository {
+  create(job: NewProcessingJob): Promise<ProcessingJobRecord>;
+  update(id: string, changes: ProcessingJobChanges): Promise<ProcessingJobRecord>;
+  /** Append steps to the job's history, keeping their order */
+  addSteps(id: string, steps: ProcessingStep[]): Promise<void>;
+  findById(id: string): Promise<ProcessingJobRecord | null>;
+  /** A user's jobs, newest first */
+  listByUser(userId: string): Promise<ProcessingJobRecord[]>;
+}
+
+export interface ExportRepository {
+  create(record: Omit<ExportRecord, 'createdAt'>): Promise<ExportRecord>;
+  findById(id: string): Promise<ExportRecord | null>;
+}
+
+export interface CertificateRepository {
+  create(record: CertificateRecord): Promise<CertificateRecord>;
+  findById(id: string): Promise<CertificateRecord | null>;
+}
+
+export interface RecipeRepository {
+  /** Throws DuplicateRecordError when the user has a recipe with this name */
+  create(recipe: NewRecipe): Promise<RecipeRecord>;
+  /** Stores new options as the next version; name and description apply to every version */
+  update(id: string, changes: RecipeChanges): Promise<RecipeRecord>;
+  /** The latest version, or the given one */
+  findById(id: string, version?: number): Promise<RecipeRecord | null>;
+  /** Latest version of each of a user's recipes, by name */
+  listByUser(userId: string): Promise<RecipeRecord[]>;
+  /** Every version of a recipe, newest first */
+  listVersions(id: string): Promise<RecipeRecord[]>;
+  /** Returns false when the recipe did not exist */
+  delete(id: string): Promise<boolean>;
+}
+
+export interface Database {
+  readonly users: UserRepository;
+  readonly sessions: SessionRepository;
+  readonly files: FileRepository;
+  readonly jobs: ProcessingJobRepository;
+  readonly exports: ExportRepository;
+  readonly certificates: CertificateRepository;
+  readonly recipes: RecipeRepository;
+  connect(): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Raised when a record would break a uniqueness constraint
+ */
+export class DuplicateRecordError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DuplicateRecordError';
+  }
+}
+
+/**
+ * Raised when updating a record that does not exist
+ */
+export class RecordNotFoundError extends Error {
+  constructor(entity: string, id: string) {
+    super(`${entity} "${id}" not found`);
+    this.name = 'RecordNotFoundError';
+  }
+}
@@ -1,6 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
-import jwt from 'jsonwebtoken';
 import { config } from '../config';
+import { authService, AuthenticationError } from '../services/AuthService';
 
 export interface AuthenticatedRequest extends Request {
   user?: {
@@ -11,6 +11,13 @@ export interface AuthenticatedRequest extends Request {
   };
 }
 
+const DEVELOPMENT_USER = {
+  id: 'dev-user',
+  email: 'dev@example.com',
+  name: 'Development User',
+  subscription: 'premium'
+};
+
 export const authenticateToken = (
   req: AuthenticatedRequest,
   res: Response,
@@ -20,14 +27,9 @@ export const authenticateToken = (
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
   if (!token) {
-    // For development, allow requests without token
-    if (config.env === 'development') {
-      req.user = {
-        id: 'dev-user',
-        email: 'dev@example.com',
-        name: 'Development User',
-        subscription: 'premium'
-      };
+    // Requests without a token act as the development user only when explicitly enabled
+    if (config.development.bypassAuth) {
+      req.user = { ...DEVELOPMENT_USER };
       return next();
     }
     
@@ -38,26 +40,18 @@ export const authenticateToken = (
   }
 
   try {
-    const decoded = jwt.verify(token, config.jwt.secret) as any;
+    const payload = authService.verifyAccessToken(token);
     req.user = {
-      id: decoded.userId,
-      email: decoded.email,
-      name: decoded.name,
-      subscription: decoded.subscription
+      id: payload.userId,
+      email: payload.email,
+      name: payload.name,
+      subscription: payload.subscription
     };
     next();
   } catch (error) {
-    // For development, allow invalid tokens
-    if (config.env === 'development') {
-      req.user = {
-        id: 'dev-user',
-        email: 'dev@example.com',
-        name: 'Development User',
-        subscription: 'premium'
-      };
-      return next();
+    if (!(error instanceof AuthenticationError)) {
+      console.error('Token verification error:', error);
     }
-    
     return res.status(403).json({
       success: false,
       error: 'Invalid or expired token'
@@ -0,0 +1,59 @@
+import { Request } from 'express';
+import multer, { StorageEngine } from 'multer';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { getStorageProvider, StorageProvider } from '../storage';
+import { FileValidationError } from '../services/FileService';
+
+/**
+ * Multer storage engine that streams each uploaded file straight to the
+ * storage provider instead of buffering it in memory or a temp directory.
+ * The stored object's key is returned in `file.path` and its id in
+ * `file.filename`.
+ */
+class ProviderStorageEngine implements StorageEngine {
+  constructor(private storage: StorageProvider) {}
+
+  _handleFile(
+    req: Request,
+    file: Express.Multer.File,
+    callback: (error?: Error | null, info?: Partial<Express.Multer.File>) => void
+  ): void {
+    const id = uuidv4();
+    const key = `uploads/${id}/original${path.extname(file.originalname).toLowerCase()}`;
+
+    this.storage.put(key, file.stream)
+      .then(size => callback(null, { filename: id, path: key, size }))
+      .catch(error => callback(error));
+  }
+
+  _removeFile(
+    req: Request,
+    file: Express.Multer.File,
+    callback: (error: Error | null) => void
+  ): void {
+    this.storage.delete(file.path)
+      .then(() => callback(null))
+      .catch(error => callback(error));
+  }
+}
+
+/**
+ * Accepts a single `file` field holding a .las file up to
+ * `config.storage.maxFileSize` bytes
+ */
+export const uploadLASFile = multer({
+  storage: new ProviderStorageEngine(getStorageProvider()),
+  limits: {
+    fileSize: config.storage.maxFileSize,
+    files: 1
+  },
+  fileFilter: (req, file, callback) => {
+    const isLAS = path.extname(file.originalname).toLowerCase() === '.las';
+    if (!isLAS || !config.storage.allowedTypes.includes(file.mimetype)) {
+      return callback(new FileValidationError('Only .las files are accepted'));
+    }
+    callback(null, true);
+  }
+}).single('file');
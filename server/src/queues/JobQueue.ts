@@ -0,0 +1,141 @@
+import { EventEmitter } from 'events';
+import {
+  JobCancelledError,
+  JobEvent,
+  JobHandler,
+  JobQueueOptions,
+  JobTimeoutError,
+  NonRetryableJobError,
+  QueuedJob
+} from './types';
+
+export interface JobQueueEvents {
+  /** An event published for any job */
+  event: [JobEvent];
+  completed: [QueuedJob];
+  /** A run failed; `willRetry` is false once the retries are used up */
+  failed: [QueuedJob, Error, boolean];
+  cancelled: [QueuedJob];
+}
+
+/**
+ * A queue of processing jobs. Backends store and distribute entries;
+ * running them, the timeout and the retry decision are shared here so
+ * every backend behaves the same.
+ */
+export abstract class JobQueue extends EventEmitter {
+  abstract readonly name: string;
+
+  constructor(protected options: JobQueueOptions) {
+    super();
+    // Every open event stream subscribes
+    this.setMaxListeners(0);
+  }
+
+  abstract add(job: QueuedJob): Promise<void>;
+
+  /**
+   * Remove a waiting job or abort a running one. Resolves false when the
+   * job is not waiting or running anywhere.
+   */
+  abstract cancel(jobId: string): Promise<boolean>;
+
+  /**
+   * Start running jobs with the handler, at most `concurrency` at a time
+   */
+  abstract process(handler: JobHandler): void;
+
+  abstract close(): Promise<void>;
+
+  /**
+   * Deliver an event to the subscribers of its job, in every process
+   * sharing the queue
+   */
+  abstract publish(event: JobEvent): Promise<void>;
+
+  /**
+   * Listen to one job's events. Returns a function that stops listening.
+   */
+  subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+    const forJob = (event: JobEvent) => {
+      if (event.jobId === jobId) listener(event);
+    };
+    this.on('event', forJob);
+    return () => {
+      this.off('event', forJob);
+    };
+  }
+
+  on<E extends keyof JobQueueEvents>(event: E, listener: (...args: JobQueueEvents[E]) => void): this {
+    return super.on(event, listener as (...args: unknown[]) => void);
+  }
+
+  emit<E extends keyof JobQueueEvents>(event: E, ...args: JobQueueEvents[E]): boolean {
+    return super.emit(event, ...args);
+  }
+
+  /** Total runs allowed for a job */
+  protected get maxAttempts(): number {
+    return this.options.retryAttempts + 1;
+  }
+
+  /** Milliseconds to wait before the given retry (1 for the first) */
+  protected retryDelay(retry: number): number {
+    return this.options.retryDelay * 2 ** (retry - 1);
+  }
+
+  /**
+   * Run one attempt of a job under the queue timeout. Resolves to the
+   * error the attempt failed with, or null when it succeeded.
+   */
+  protected async runAttempt(
+    handler: JobHandler,
+    job: QueuedJob,
+    attempt: number,
+    controller: AbortController
+  ): Promise<Error | null> {
+    const timer = setTimeout(
+      () => controller.abort(new JobTimeoutError(job.jobId, this.options.timeout)),
+      this.options.timeout
+    );
+
+    try {
+      await handler(job, {
+        attempt,
+        signal: controller.signal,
+        publish: (type, data) => {
+          this.publish({ jobId: job.jobId, type, data }).catch(error => {
+            console.error(`Failed to publish ${type} event of job ${job.jobId}:`, error);
+          });
+        }
+      });
+      // A handler that ignores its signal still can't finish a cancelled or timed out job
+      controller.signal.throwIfAborted();
+      return null;
+    } catch (error) {
+      return controller.signal.aborted && controller.signal.reason instanceof Error
+        ? controller.signal.reason
+        : error instanceof Error ? error : new Error(String(error));
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Emit the outcome of an attempt. Returns whether the job should run again.
+   */
+  protected settle(job: QueuedJob, attempt: number, error: Error | null): boolean {
+    if (!error) {
+      this.emit('completed', job);
+      return false;
+    }
+    if (error instanceof JobCancelledError) {
+      this.emit('cancelled', job);
+      return false;
+    }
+
+    const willRetry = attempt < this.maxAttempts && !(error instanceof NonRetryableJobError);
+    this.emit('failed', job, error, willRetry);
+    return willRetry;
+  }
+}
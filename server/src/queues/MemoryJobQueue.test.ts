@@ -0,0 +1,122 @@
+/**
+ * Tests for the in-process job queue
+ */
+
+import { MemoryJobQueue } from './MemoryJobQueue';
+import { JobContext, JobQueueOptions, JobTimeoutError, NonRetryableJobError, QueuedJob } from './types';
+import { describe, it, expect } from '@jest/globals';
+
+const options: JobQueueOptions = { concurrency: 2, timeout: 1000, retryAttempts: 2, retryDelay: 5 };
+
+const job = (jobId: string): QueuedJob => ({ jobId, userId: 'user-1' });
+
+/** Rejects with the abort reason once the signal aborts, so a handler runs until stopped */
+const untilAborted = (context: JobContext) =>
+  new Promise<void>((resolve, reject) => {
+    context.signal.addEventListener('abort', () => reject(context.signal.reason));
+  });
+
+const nextEvent = (queue: MemoryJobQueue, event: 'completed' | 'failed') =>
+  new Promise<unknown[]>(resolve => queue.once(event, (...args: unknown[]) => resolve(args)));
+
+describe('MemoryJobQueue', () => {
+  it('should run at most `concurrency` jobs at a time', async () => {
+    const queue = new MemoryJobQueue(options);
+    let running = 0;
+    let peak = 0;
+    let completed = 0;
+
+    const done = new Promise<void>(resolve => queue.on('completed', () => ++completed === 5 && resolve()));
+    queue.process(async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 10));
+      running--;
+    });
+    for (let i = 0; i < 5; i++) await queue.add(job(`job-${i}`));
+
+    await done;
+    expect(peak).toBe(2);
+    await queue.close();
+  });
+
+  it('should retry failed jobs until the retries are used up', async () => {
+    const queue = new MemoryJobQueue(options);
+    const attempts: number[] = [];
+    const failures: boolean[] = [];
+    const exhausted = new Promise<void>(resolve => queue.on('failed', (_job, _error, willRetry) => {
+      failures.push(willRetry);
+      if (!willRetry) resolve();
+    }));
+
+    queue.process(async (_job, context) => {
+      attempts.push(context.attempt);
+      throw new Error('Parsing failed');
+    });
+    await queue.add(job('flaky'));
+
+    await exhausted;
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(failures).toEqual([true, true, false]);
+    await queue.close();
+  });
+
+  it('should cancel running and waiting jobs without retrying them', async () => {
+    const queue = new MemoryJobQueue({ ...options, concurrency: 1 });
+    const started: string[] = [];
+    const cancelled: string[] = [];
+    queue.on('cancelled', cancelledJob => cancelled.push(cancelledJob.jobId));
+
+    queue.process(async (queuedJob, context) => {
+      started.push(queuedJob.jobId);
+      context.publish('step_started', { operation: 'denoising', progress: 50 });
+      await untilAborted(context);
+    });
+    const published = new Promise(resolve => queue.subscribe('running', resolve));
+    await queue.add(job('running'));
+    await queue.add(job('waiting'));
+
+    expect(await published).toEqual({
+      jobId: 'running',
+      type: 'step_started',
+      data: { operation: 'denoising', progress: 50 }
+    });
+    expect(await queue.cancel('waiting')).toBe(true);
+    expect(await queue.cancel('running')).toBe(true);
+    await new Promise(resolve => setTimeout(resolve, 20));
+
+    expect(started).toEqual(['running']);
+    expect(cancelled.sort()).toEqual(['running', 'waiting']);
+    expect(await queue.cancel('unknown')).toBe(false);
+    await queue.close();
+  });
+
+  it('should not retry failures that would happen again', async () => {
+    const queue = new MemoryJobQueue(options);
+    const failed = nextEvent(queue, 'failed');
+    let attempts = 0;
+
+    queue.process(async () => {
+      attempts++;
+      throw new NonRetryableJobError('Parsing failed: no ~A section');
+    });
+    await queue.add(job('unparseable'));
+
+    const [, , willRetry] = await failed;
+    expect(willRetry).toBe(false);
+    expect(attempts).toBe(1);
+    await queue.close();
+  });
+
+  it('should abort jobs that run past the timeout', async () => {
+    const queue = new MemoryJobQueue({ ...options, timeout: 20, retryAttempts: 0 });
+    const failed = nextEvent(queue, 'failed');
+
+    queue.process(async (_job, context) => untilAborted(context));
+    await queue.add(job('slow'));
+
+    const [, error, willRetry] = await failed;
+    expect(error).toBeInstanceOf(JobTimeoutError);
+    expect(willRetry).toBe(false);
+    await queue.close();
+  });
+});
@@ -0,0 +1,92 @@
+import { JobQueue } from './JobQueue';
+import { JobCancelledError, JobEvent, JobHandler, QueuedJob } from './types';
+
+interface WaitingJob {
+  job: QueuedJob;
+  attempt: number;
+}
+
+/**
+ * Job queue held in this process. Jobs are lost on restart, so it suits
+ * development and single-instance deployments.
+ */
+export class MemoryJobQueue extends JobQueue {
+  readonly name = 'memory';
+  private waiting: WaitingJob[] = [];
+  private running = new Map<string, AbortController>();
+  /** Retries waiting out their backoff delay */
+  private delayed = new Map<string, { job: QueuedJob; timer: NodeJS.Timeout }>();
+  private handler?: JobHandler;
+  private closed = false;
+
+  async add(job: QueuedJob): Promise<void> {
+    this.waiting.push({ job, attempt: 1 });
+    this.drain();
+  }
+
+  async cancel(jobId: string): Promise<boolean> {
+    const index = this.waiting.findIndex(entry => entry.job.jobId === jobId);
+    if (index !== -1) {
+      const [entry] = this.waiting.splice(index, 1);
+      this.emit('cancelled', entry.job);
+      return true;
+    }
+
+    const retry = this.delayed.get(jobId);
+    if (retry) {
+      clearTimeout(retry.timer);
+      this.delayed.delete(jobId);
+      this.emit('cancelled', retry.job);
+      return true;
+    }
+
+    const controller = this.running.get(jobId);
+    if (controller) {
+      controller.abort(new JobCancelledError(jobId));
+      return true;
+    }
+    return false;
+  }
+
+  process(handler: JobHandler): void {
+    this.handler = handler;
+    this.drain();
+  }
+
+  async close(): Promise<void> {
+    this.closed = true;
+    this.waiting = [];
+    this.delayed.forEach(retry => clearTimeout(retry.timer));
+    this.delayed.clear();
+    this.running.forEach((controller, jobId) => controller.abort(new JobCancelledError(jobId)));
+  }
+
+  async publish(event: JobEvent): Promise<void> {
+    this.emit('event', event);
+  }
+
+  private drain(): void {
+    while (this.handler && !this.closed && this.running.size < this.options.concurrency && this.waiting.length > 0) {
+      const entry = this.waiting.shift()!;
+      this.run(this.handler, entry);
+    }
+  }
+
+  private async run(handler: JobHandler, { job, attempt }: WaitingJob): Promise<void> {
+    const controller = new AbortController();
+    this.running.set(job.jobId, controller);
+
+    const error = await this.runAttempt(handler, job, attempt, controller);
+    this.running.delete(job.jobId);
+
+    if (this.settle(job, attempt, error) && !this.closed) {
+      const timer = setTimeout(() => {
+        this.delayed.delete(job.jobId);
+        this.waiting.push({ job, attempt: attempt + 1 });
+        this.drain();
+      }, this.retryDelay(attempt));
+      this.delayed.set(job.jobId, { job, timer });
+    }
+    this.drain();
+  }
+}
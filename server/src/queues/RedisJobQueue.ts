@@ -0,0 +1,146 @@
+import Bull from 'bull';
+import { createClient } from 'redis';
+import { JobQueue } from './JobQueue';
+import { JobCancelledError, JobEvent, JobHandler, JobQueueOptions, QueuedJob } from './types';
+
+export interface RedisJobQueueOptions extends JobQueueOptions {
+  url: string;
+  password?: string;
+  /** Bull queue name, which also prefixes the pub/sub channels */
+  queueName?: string;
+}
+
+type RedisClient = ReturnType<typeof createClient>;
+
+/**
+ * Job queue stored in Redis through Bull, shared by every server instance
+ * pointing at the same Redis. Running jobs can only be aborted by the
+ * process running them, and a job's event stream may be served by another
+ * instance than the one running it, so cancellations and job events go
+ * through pub/sub channels every instance subscribes to.
+ */
+export class RedisJobQueue extends JobQueue {
+  readonly name = 'redis';
+  private queue: Bull.Queue<QueuedJob>;
+  private publisher: RedisClient;
+  private subscriber: RedisClient;
+  private cancelChannel: string;
+  private eventChannel: string;
+  private connecting?: Promise<void>;
+  private listening?: Promise<void>;
+  private active = new Map<string, AbortController>();
+
+  constructor(options: RedisJobQueueOptions) {
+    super(options);
+    const queueName = options.queueName || 'processing';
+
+    this.queue = new Bull<QueuedJob>(queueName, options.url, {
+      redis: { password: options.password }
+    });
+    this.publisher = createClient({ url: options.url, password: options.password });
+    this.subscriber = this.publisher.duplicate();
+    this.cancelChannel = `${queueName}:cancel`;
+    this.eventChannel = `${queueName}:events`;
+
+    this.publisher.on('error', error => console.error('Job queue Redis error:', error));
+    this.subscriber.on('error', error => console.error('Job queue Redis error:', error));
+  }
+
+  async add(job: QueuedJob): Promise<void> {
+    await this.queue.add(job, {
+      jobId: job.jobId,
+      attempts: this.maxAttempts,
+      backoff: { type: 'exponential', delay: this.options.retryDelay },
+      removeOnComplete: true,
+      removeOnFail: true
+    });
+  }
+
+  async cancel(jobId: string): Promise<boolean> {
+    const job = await this.queue.getJob(jobId);
+    if (!job) return false;
+
+    const state = await job.getState();
+    if (state === 'waiting' || state === 'delayed' || state === 'paused') {
+      await job.remove();
+      this.emit('cancelled', job.data);
+      return true;
+    }
+    if (state === 'active') {
+      await this.connectPublisher();
+      await this.publisher.publish(this.cancelChannel, jobId);
+      return true;
+    }
+    return false;
+  }
+
+  process(handler: JobHandler): void {
+    this.listen();
+
+    this.queue.process(this.options.concurrency, async (job: Bull.Job<QueuedJob>) => {
+      const controller = new AbortController();
+      const attempt = job.attemptsMade + 1;
+      this.active.set(job.data.jobId, controller);
+
+      try {
+        const error = await this.runAttempt(handler, job.data, attempt, controller);
+        const willRetry = this.settle(job.data, attempt, error);
+        if (error) {
+          // Bull retries any failed job with attempts left; cancelled jobs must not be
+          if (!willRetry) await job.discard();
+          throw error;
+        }
+      } finally {
+        this.active.delete(job.data.jobId);
+      }
+    });
+  }
+
+  async close(): Promise<void> {
+    await this.queue.close();
+    if (this.subscriber.isOpen) await this.subscriber.quit();
+    if (this.publisher.isOpen) await this.publisher.quit();
+  }
+
+  async publish(event: JobEvent): Promise<void> {
+    await this.connectPublisher();
+    await this.publisher.publish(this.eventChannel, JSON.stringify(event));
+  }
+
+  subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+    this.listen();
+    return super.subscribe(jobId, listener);
+  }
+
+  private connectPublisher(): Promise<void> {
+    if (!this.connecting) {
+      this.connecting = this.publisher.connect().then(() => undefined);
+      this.connecting.catch(() => {
+        this.connecting = undefined;
+      });
+    }
+    return this.connecting;
+  }
+
+  /**
+   * Subscribe to the cancellation and event channels, once
+   */
+  private listen(): void {
+    if (this.listening) return;
+
+    this.listening = (async () => {
+      await this.subscriber.connect();
+      await this.subscriber.subscribe(this.cancelChannel, jobId => {
+        this.active.get(jobId)?.abort(new JobCancelledError(jobId));
+      });
+      await this.subscriber.subscribe(this.eventChannel, message => {
+        this.emit('event', JSON.parse(message));
+      });
+    })();
+
+    this.listening.catch(error => {
+      console.error('Failed to subscribe to job queue channels:', error);
+      this.listening = undefined;
+    });
+  }
+}
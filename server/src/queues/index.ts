@@ -1,14 +1,58 @@
 import { config } from '../config';
+import { jobService } from '../services/JobService';
+import { JobQueue } from './JobQueue';
+import { MemoryJobQueue } from './MemoryJobQueue';
+import { RedisJobQueue } from './RedisJobQueue';
+import { JobQueueOptions } from './types';
+
+let queue: JobQueue | null = null;
+
+/**
+ * The queue selected by `config.processing.queue`, created on first use
+ */
+export function getJobQueue(): JobQueue {
+  if (!queue) {
+    queue = createJobQueue(config.processing.queue);
+  }
+  return queue;
+}
+
+export function createJobQueue(backend: string): JobQueue {
+  const options: JobQueueOptions = {
+    concurrency: config.processing.maxConcurrentJobs,
+    timeout: config.processing.jobTimeout,
+    retryAttempts: config.processing.retryAttempts,
+    retryDelay: config.processing.retryDelay
+  };
+
+  switch (backend) {
+    case 'memory':
+      return new MemoryJobQueue(options);
+    case 'redis':
+      return new RedisJobQueue({ ...options, url: config.redis.url, password: config.redis.password });
+    default:
+      throw new Error(`Unsupported job queue "${backend}"`);
+  }
+}
 
 export async function initializeQueues(): Promise<void> {
   try {
-    // In a real implementation, this would initialize job queues (Bull, etc.)
-    // For now, just log that we're ready
-    console.log('Job queues initialization - implementation pending');
-    console.log('Max concurrent jobs:', config.processing.maxConcurrentJobs);
-    
+    const jobQueue = getJobQueue();
+    jobService.start(jobQueue);
+    console.log(`Job queue started (${jobQueue.name}), max concurrent jobs: ${config.processing.maxConcurrentJobs}`);
+
   } catch (error) {
     console.error('Job queues initialization failed:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+export async function closeQueues(): Promise<void> {
+  if (queue) {
+    await queue.close();
+    queue = null;
+  }
+}
+
+export * from './types';
+export { JobQueue, MemoryJobQueue, RedisJobQueue };
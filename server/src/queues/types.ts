@@ -0,0 +1,72 @@
+/**
+ * What a queue entry carries. The job record in the database holds
+ * everything else, so entries stay small enough for Redis.
+ */
+export interface QueuedJob {
+  jobId: string;
+  userId: string;
+}
+
+/**
+ * Something that happened while a job ran, delivered to the job's
+ * subscribers in every process sharing the queue
+ */
+export interface JobEvent {
+  jobId: string;
+  type: string;
+  data: Record<string, unknown>;
+}
+
+export interface JobContext {
+  /** 1 for the first run, increasing with each retry */
+  attempt: number;
+  /** Aborted when the job is cancelled or runs past its timeout */
+  signal: AbortSignal;
+  /** Publish an event to the job's subscribers */
+  publish(type: string, data: Record<string, unknown>): void;
+}
+
+export type JobHandler = (job: QueuedJob, context: JobContext) => Promise<void>;
+
+export interface JobQueueOptions {
+  /** Jobs run at the same time by this process */
+  concurrency: number;
+  /** Milliseconds before a running job is aborted */
+  timeout: number;
+  /** Retries after the first failed run */
+  retryAttempts: number;
+  /** Milliseconds before the first retry, doubled for each one after */
+  retryDelay: number;
+}
+
+/**
+ * Raised through a job's signal when the job is cancelled. Cancelled jobs
+ * are not retried.
+ */
+export class JobCancelledError extends Error {
+  constructor(jobId: string) {
+    super(`Job ${jobId} was cancelled`);
+    this.name = 'JobCancelledError';
+  }
+}
+
+/**
+ * Thrown by a job handler for a failure that would happen again on every
+ * attempt, such as a file that can't be parsed. The job is not retried.
+ */
+export class NonRetryableJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NonRetryableJobError';
+  }
+}
+
+/**
+ * Raised through a job's signal when it runs past the queue timeout
+ */
+export class JobTimeoutError extends Error {
+  constructor(jobId: string, timeout: number) {
+    super(`Job ${jobId} timed out after ${timeout}ms`);
+    this.name = 'JobTimeoutError';
+  }
+}
@@ -1,10 +1,21 @@
 import { Router, Request, Response } from 'express';
-import bcrypt from 'bcryptjs';
-import jwt from 'jsonwebtoken';
-import { config } from '../config';
+import { getDatabase, DuplicateRecordError, UserRecord } from '../database';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { authService, AuthenticationError } from '../services/AuthService';
 
 const router = Router();
 
+/**
+ * User fields that are safe to return to clients
+ */
+const toUserInfo = (user: UserRecord) => ({
+  id: user.id,
+  email: user.email,
+  name: user.name,
+  credits: user.credits,
+  subscription: user.subscription
+});
+
 /**
  * POST /api/auth/register
  * Register a new user
@@ -28,54 +39,21 @@ router.post('/register', async (req: Request, res: Response) => {
       });
     }
 
-    // In a real implementation, you would:
-    // 1. Check if user already exists
-    // 2. Hash the password
-    // 3. Save to database
-    // 4. Generate tokens
-
-    // Mock user creation for now
-    const hashedPassword = await bcrypt.hash(password, config.security.bcryptRounds);
-    const userId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-
-    const user = {
-      id: userId,
-      name,
-      email,
-      subscription: 'free',
-      credits: 10
-    };
-
-    // Generate tokens - simplified for now
-    const accessToken = jwt.sign(
-      {
-        userId: user.id,
-        email: user.email,
-        name: user.name,
-        subscription: user.subscription
-      },
-      config.jwt.secret
-    );
-
-    const refreshToken = jwt.sign(
-      { userId: user.id, type: 'refresh' },
-      config.jwt.secret
-    );
+    const { user, tokens } = await authService.register(name, email, password);
 
-    res.json({
+    res.status(201).json({
       success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        credits: user.credits,
-        subscription: user.subscription
-      },
-      token: accessToken,
-      refreshToken
+      user: toUserInfo(user),
+      ...tokens
     });
 
   } catch (error) {
+    if (error instanceof DuplicateRecordError) {
+      return res.status(409).json({
+        success: false,
+        error: 'An account with this email already exists'
+      });
+    }
     console.error('Registration error:', error);
     res.status(500).json({
       success: false,
@@ -100,50 +78,21 @@ router.post('/login', async (req: Request, res: Response) => {
       });
     }
 
-    // In a real implementation, you would:
-    // 1. Find user by email
-    // 2. Verify password
-    // 3. Generate tokens
-
-    // Mock user authentication for now
-    const user = {
-      id: 'user_123',
-      name: 'Test User',
-      email,
-      subscription: 'premium',
-      credits: 100
-    };
-
-    // Generate tokens - simplified for now
-    const accessToken = jwt.sign(
-      {
-        userId: user.id,
-        email: user.email,
-        name: user.name,
-        subscription: user.subscription
-      },
-      config.jwt.secret
-    );
-
-    const refreshToken = jwt.sign(
-      { userId: user.id, type: 'refresh' },
-      config.jwt.secret
-    );
+    const { user, tokens } = await authService.login(email, password);
 
     res.json({
       success: true,
-      user: {
-        id: user.id,
-        email: user.email,
-        name: user.name,
-        credits: user.credits,
-        subscription: user.subscription
-      },
-      token: accessToken,
-      refreshToken
+      user: toUserInfo(user),
+      ...tokens
     });
 
   } catch (error) {
+    if (error instanceof AuthenticationError) {
+      return res.status(401).json({
+        success: false,
+        error: error.message
+      });
+    }
     console.error('Login error:', error);
     res.status(500).json({
       success: false,
@@ -154,7 +103,8 @@ router.post('/login', async (req: Request, res: Response) => {
 
 /**
  * POST /api/auth/refresh
- * Refresh access token
+ * Exchange a refresh token for a new access and refresh token.
+ * The refresh token sent is revoked.
  */
 router.post('/refresh', async (req: Request, res: Response) => {
   try {
@@ -167,37 +117,55 @@ router.post('/refresh', async (req: Request, res: Response) => {
       });
     }
 
-    // Verify refresh token
-    const decoded = jwt.verify(refreshToken, config.jwt.secret) as any;
-    
-    if (decoded.type !== 'refresh') {
+    const { tokens } = await authService.refresh(refreshToken);
+
+    res.json({
+      success: true,
+      ...tokens
+    });
+
+  } catch (error) {
+    if (error instanceof AuthenticationError) {
       return res.status(403).json({
         success: false,
-        error: 'Invalid refresh token'
+        error: error.message
+      });
+    }
+    console.error('Token refresh error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Token refresh failed'
+    });
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * Revoke a refresh token, or with { all: true } every session of its user
+ */
+router.post('/logout', async (req: Request, res: Response) => {
+  try {
+    const { refreshToken, all } = req.body;
+
+    if (!refreshToken) {
+      return res.status(400).json({
+        success: false,
+        error: 'Refresh token is required'
       });
     }
 
-    // Generate new access token
-    const accessToken = jwt.sign(
-      {
-        userId: decoded.userId,
-        email: 'user@example.com', // Would get from database
-        name: 'User', // Would get from database
-        subscription: 'premium' // Would get from database
-      },
-      config.jwt.secret
-    );
+    await authService.logout(refreshToken, all === true);
 
     res.json({
       success: true,
-      token: accessToken
+      message: 'Logged out'
     });
 
   } catch (error) {
-    console.error('Token refresh error:', error);
-    res.status(403).json({
+    console.error('Logout error:', error);
+    res.status(500).json({
       success: false,
-      error: 'Invalid refresh token'
+      error: 'Logout failed'
     });
   }
 });
@@ -206,20 +174,21 @@ router.post('/refresh', async (req: Request, res: Response) => {
  * GET /api/auth/me
  * Get current user info
  */
-router.get('/me', async (req: Request, res: Response) => {
+router.get('/me', authenticateToken, async (req: Request, res: Response) => {
   try {
-    // In a real implementation, you would get user from database
-    const user = {
-      id: 'user_123',
-      name: 'Test User',
-      email: 'user@example.com',
-      subscription: 'premium',
-      credits: 100
-    };
+    const userId = (req as AuthenticatedRequest).user?.id;
+    const user = userId ? await getDatabase().users.findById(userId) : null;
+
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
 
     res.json({
       success: true,
-      user
+      user: toUserInfo(user)
     });
 
   } catch (error) {
@@ -231,4 +200,4 @@ router.get('/me', async (req: Request, res: Response) => {
   }
 });
 
-export { router as authRoutes }; 
\ No newline at end of file
+export { router as authRoutes };
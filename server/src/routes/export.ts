@@ -1,40 +1,58 @@
 import { Router, Request, Response } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
 import { isPaymentEnabled } from '../config';
+import { artifactService } from '../services/ArtifactService';
+import { LASWriter, WriteOptions } from '../utils/lasWriter';
+import { LASFileRows } from '../types';
 
 const router = Router();
+const lasWriter = new LASWriter();
 
 /**
  * POST /api/export/las
  * Export processed LAS file
+ *
+ * Body: { file: LASFileRows, options?: WriteOptions }. Responds with the LAS
+ * text as a download; the export is also kept in storage and its id is
+ * returned in the X-Export-Id header.
  */
 router.post('/las', authenticateToken, async (req: Request, res: Response) => {
   try {
     const user = (req as any).user;
-    
-    // Check if payments are enabled - if not, allow export
-    if (!isPaymentEnabled()) {
-      console.log('Payment system disabled - allowing LAS export');
-      return res.json({
-        success: true,
-        message: 'LAS export completed (payment system disabled)',
-        downloadUrl: '/api/export/download/mock-las-file.las'
-      });
-    }
-    
-    // Check if user has purchased exports
-    if (!user.purchasedExports) {
+    const { file, options = {} } = req.body as { file?: LASFileRows; options?: WriteOptions };
+
+    // Check if user has purchased exports (payment system disabled allows all exports)
+    if (isPaymentEnabled() && !user.purchasedExports) {
       return res.status(403).json({
         success: false,
         error: 'LAS export requires premium purchase. Please purchase export access.'
       });
     }
-    
-    res.json({
-      success: true,
-      message: 'LAS export endpoint - implementation pending'
-    });
+
+    if (!file || !file.header || !Array.isArray(file.curves) || !Array.isArray(file.data)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A parsed LAS file is required'
+      });
+    }
+
+    if (options.version && options.version !== '2.0' && options.version !== '3.0') {
+      return res.status(400).json({
+        success: false,
+        error: 'LAS version must be 2.0 or 3.0'
+      });
+    }
+
+    const content = lasWriter.write(file, options);
+    const fileName = (file.name || 'export').replace(/\.las$/i, '') + (file.processed ? '_processed.las' : '.las');
+    const artifact = await artifactService.saveExport(user?.id || 'anonymous', fileName, content);
+
+    res.setHeader('X-Export-Id', artifact.id);
+    res.type('text/plain');
+    res.attachment(fileName);
+    res.send(content);
   } catch (error) {
+    console.error('LAS export error:', error);
     res.status(500).json({
       success: false,
       error: 'Export failed'
@@ -42,4 +60,30 @@ router.post('/las', authenticateToken, async (req: Request, res: Response) => {
   }
 });
 
-export { router as exportRoutes }; 
\ No newline at end of file
+/**
+ * GET /api/export/:id
+ * Download a previous export through a short-lived storage URL
+ */
+router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const artifact = await artifactService.findExport(userId, req.params.id);
+
+    if (!artifact) {
+      return res.status(404).json({
+        success: false,
+        error: 'Export not found'
+      });
+    }
+
+    res.redirect(await artifactService.getDownloadUrl(artifact));
+  } catch (error) {
+    console.error('Export download error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to download export'
+    });
+  }
+});
+
+export { router as exportRoutes };
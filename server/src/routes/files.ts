@@ -1,19 +1,83 @@
-import { Router, Request, Response } from 'express';
-import { authenticateToken } from '../middleware/auth';
+import { Router, Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { uploadLASFile } from '../middleware/upload';
+import { fileService } from '../services/FileService';
+import { StoredFile } from '../types';
 
 const router = Router();
 
+/**
+ * File info returned to clients; the storage key stays server-side
+ */
+const toFileInfo = (file: StoredFile) => ({
+  id: file.id,
+  name: file.name,
+  size: file.size,
+  mimeType: file.mimeType,
+  uploadedAt: file.uploadedAt,
+  metadata: file.metadata
+});
+
+/**
+ * Run the multer upload and turn its errors into 400 responses
+ */
+const handleUpload = (req: Request, res: Response, next: NextFunction) => {
+  uploadLASFile(req, res, (error: unknown) => {
+    if (!error) return next();
+
+    if (error instanceof multer.MulterError) {
+      return res.status(error.code === 'LIMIT_FILE_SIZE' ? 413 : 400).json({
+        success: false,
+        error: error.code === 'LIMIT_FILE_SIZE' ? 'File exceeds maximum allowed size' : error.message
+      });
+    }
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    next(error);
+  });
+};
+
 /**
  * POST /api/files/upload
- * Upload a file
+ * Upload a LAS file (multipart/form-data, field "file")
  */
-router.post('/upload', authenticateToken, async (req: Request, res: Response) => {
+router.post('/upload', authenticateToken, handleUpload, async (req: Request, res: Response) => {
   try {
-    res.json({
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const upload = req.file;
+
+    if (!upload) {
+      return res.status(400).json({
+        success: false,
+        error: 'No file uploaded'
+      });
+    }
+
+    const storedFile = await fileService.registerUpload(userId, {
+      id: upload.filename,
+      storageKey: upload.path,
+      name: upload.originalname,
+      size: upload.size,
+      mimeType: upload.mimetype
+    });
+
+    res.status(201).json({
       success: true,
-      message: 'File upload endpoint - implementation pending'
+      data: toFileInfo(storedFile)
     });
   } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('File upload error:', error);
     res.status(500).json({
       success: false,
       error: 'File upload failed'
@@ -21,17 +85,48 @@ router.post('/upload', authenticateToken, async (req: Request, res: Response) =>
   }
 });
 
+/**
+ * GET /api/files
+ * List the user's files
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    res.json({
+      success: true,
+      data: (await fileService.listFiles(userId)).map(toFileInfo)
+    });
+  } catch (error) {
+    console.error('File list error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to list files'
+    });
+  }
+});
+
 /**
  * GET /api/files/:id
  * Get file info
  */
 router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
   try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const file = await fileService.getFile(req.params.id, userId);
+
+    if (!file) {
+      return res.status(404).json({
+        success: false,
+        error: 'File not found'
+      });
+    }
+
     res.json({
       success: true,
-      message: 'Get file endpoint - implementation pending'
+      data: toFileInfo(file)
     });
   } catch (error) {
+    console.error('Get file error:', error);
     res.status(500).json({
       success: false,
       error: 'Failed to get file'
@@ -39,4 +134,67 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
   }
 });
 
-export { router as fileRoutes }; 
\ No newline at end of file
+/**
+ * GET /api/files/:id/download
+ * Download the original uploaded file
+ */
+router.get('/:id/download', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const file = await fileService.getFile(req.params.id, userId);
+
+    if (!file) {
+      return res.status(404).json({
+        success: false,
+        error: 'File not found'
+      });
+    }
+
+    const stream = await fileService.openOriginal(file);
+    res.type(file.mimeType);
+    res.attachment(file.name);
+    res.setHeader('Content-Length', file.size.toString());
+    stream.on('error', error => {
+      console.error('File download error:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    console.error('File download error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to download file'
+    });
+  }
+});
+
+/**
+ * DELETE /api/files/:id
+ * Delete a file and its stored contents
+ */
+router.delete('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const deleted = await fileService.deleteFile(req.params.id, userId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'File not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'File deleted'
+    });
+  } catch (error) {
+    console.error('File delete error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete file'
+    });
+  }
+});
+
+export { router as fileRoutes };
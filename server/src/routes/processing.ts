@@ -1,40 +1,84 @@
 import { Router, Request, Response } from 'express';
-import { ProcessingService, ProcessingOptions } from '../services/ProcessingService';
-import { authenticateToken } from '../middleware/auth';
+import { ProcessingOptions } from '../services/ProcessingService';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { fileService } from '../services/FileService';
+import { artifactService } from '../services/ArtifactService';
+import { jobService, FINAL_JOB_EVENTS } from '../services/JobService';
+import { validateStepOrder } from '../services/ProcessingPipeline';
+import {
+  validateBaselineOptions,
+  validateCurveParameters,
+  validateEnvironmentalCorrectionOptions,
+  validateGapFillOptions,
+  validateResampleOptions,
+  validateSpikeConsensusOptions
+} from '../../../shared/src';
+import { recipeService } from '../services/RecipeService';
 
 const router = Router();
-const processingService = new ProcessingService();
 
 /**
  * POST /api/processing/process
- * Process a LAS file with specified options
+ * Queue a LAS file for processing with the specified options
+ *
+ * Body: { fileId, options } for a file uploaded through /api/files/upload,
+ * or { fileBuffer (base64), fileName, options }. Instead of options, send
+ * { recipeId, recipeVersion? } to run a stored recipe, at its latest
+ * version unless one is given.
+ * Responds 202 with the job id; follow it through /status/:jobId and fetch
+ * the output from /jobs/:jobId/result.
  */
 router.post('/process', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const { fileBuffer, fileName, options } = req.body;
-    const userId = (req as any).user?.id || 'anonymous';
+    const { fileId, fileBuffer, fileName, options, recipeId, recipeVersion } = req.body;
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
 
-    // Validate input
-    if (!fileBuffer || !fileName) {
+    const version = recipeVersion !== undefined ? Number(recipeVersion) : undefined;
+    const recipe = recipeId ? await recipeService.get(recipeId, userId, version) : undefined;
+    if (recipeId && !recipe) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recipe not found'
+      });
+    }
+    if (recipe && options) {
       return res.status(400).json({
         success: false,
-        error: 'File buffer and filename are required'
+        error: 'Send either options or a recipe, not both'
       });
     }
 
-    // Convert base64 buffer to Buffer if needed
-    let buffer: Buffer;
-    if (typeof fileBuffer === 'string') {
-      buffer = Buffer.from(fileBuffer, 'base64');
-    } else if (Buffer.isBuffer(fileBuffer)) {
-      buffer = fileBuffer;
-    } else {
+    const storedFile = fileId ? await fileService.getFile(fileId, userId) : undefined;
+    if (fileId && !storedFile) {
+      return res.status(404).json({
+        success: false,
+        error: 'File not found'
+      });
+    }
+
+    // Validate input
+    if (!storedFile && (!fileBuffer || !fileName)) {
       return res.status(400).json({
         success: false,
-        error: 'Invalid file buffer format'
+        error: 'A file id, or a file buffer and filename, are required'
       });
     }
 
+    // Convert base64 buffer to Buffer if needed
+    let buffer: Buffer | undefined;
+    if (!storedFile) {
+      if (typeof fileBuffer === 'string') {
+        buffer = Buffer.from(fileBuffer, 'base64');
+      } else if (Buffer.isBuffer(fileBuffer)) {
+        buffer = fileBuffer;
+      } else {
+        return res.status(400).json({
+          success: false,
+          error: 'Invalid file buffer format'
+        });
+      }
+    }
+
     // Default processing options
     const defaultOptions: ProcessingOptions = {
       denoise: {
@@ -79,36 +123,50 @@ router.post('/process', authenticateToken, async (req: Request, res: Response) =
       }
     };
 
-    // Merge with provided options
-    const processingOptions = { ...defaultOptions, ...options };
-
-    // Process the file
-    const result = await processingService.processFile(
-      buffer,
-      fileName,
-      processingOptions,
-      userId
-    );
+    // Merge with provided options; only the server says which recipe options came from
+    const processingOptions: ProcessingOptions = recipe
+      ? { ...(recipe.options as ProcessingOptions), recipe: { id: recipe.id, version: recipe.version } }
+      : { ...defaultOptions, ...options, recipe: undefined };
 
-    if (result.success) {
-      res.json({
-        success: true,
-        data: result.processedData,
-        qcResults: result.qcResults,
-        processingHistory: result.processingHistory,
-        warnings: result.warnings,
-        executionTime: result.executionTime,
-        memoryUsage: result.memoryUsage
-      });
-    } else {
-      res.status(500).json({
+    const optionErrors = [
+      ...validateStepOrder(processingOptions.stepOrder),
+      ...validateCurveParameters('Denoise', processingOptions.denoise),
+      ...validateCurveParameters('Despike', processingOptions.despike),
+      ...validateSpikeConsensusOptions(processingOptions.despike?.consensus),
+      ...validateGapFillOptions(processingOptions.gapFill),
+      ...validateBaselineOptions(processingOptions.baselineCorrection),
+      ...validateEnvironmentalCorrectionOptions(processingOptions.environmentalCorrection),
+      ...validateResampleOptions(processingOptions.resample, storedFile && {
+        startDepth: storedFile.metadata.header.startDepth,
+        stopDepth: storedFile.metadata.header.stopDepth,
+        samples: storedFile.metadata.rowCount
+      })
+    ];
+    if (optionErrors.length > 0) {
+      return res.status(400).json({
         success: false,
-        error: result.errors?.join(', ') || 'Processing failed',
-        warnings: result.warnings
+        error: optionErrors.join('; ')
       });
     }
 
+    // Buffers are stored like uploads so every job reads its file from storage
+    const file = storedFile || await fileService.storeBuffer(userId, fileName, buffer!);
+    const job = await jobService.submit(userId, file, processingOptions);
+
+    res.status(202).json({
+      success: true,
+      jobId: job.id,
+      status: job.status,
+      fileId: file.id
+    });
+
   } catch (error) {
+    if (error instanceof Error && error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        error: error.message
+      });
+    }
     console.error('Processing route error:', error);
     res.status(500).json({
       success: false,
@@ -124,14 +182,27 @@ router.post('/process', authenticateToken, async (req: Request, res: Response) =
 router.get('/status/:jobId', authenticateToken, async (req: Request, res: Response) => {
   try {
     const { jobId } = req.params;
-    
-    // For now, return a simple status
-    // In a real implementation, this would check a job queue
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const job = await jobService.getJob(jobId, userId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
     res.json({
       success: true,
       jobId,
-      status: 'completed',
-      progress: 100
+      status: job.status,
+      progress: job.progress,
+      attempts: job.attempts,
+      fileName: job.fileName,
+      processingHistory: job.steps,
+      error: job.error,
+      createdAt: job.createdAt,
+      completedAt: job.completedAt
     });
 
   } catch (error) {
@@ -143,6 +214,208 @@ router.get('/status/:jobId', authenticateToken, async (req: Request, res: Respon
   }
 });
 
+/**
+ * GET /api/processing/jobs/:jobId/events
+ * Server-Sent Events stream of a job's progress
+ *
+ * Starts with a `status` event holding the job's current state, followed by
+ * the job's events as they happen. The stream ends after `completed` (which
+ * carries the final QC), `failed` or `cancelled`; for a job that already
+ * finished that event follows `status` straight away.
+ */
+router.get('/jobs/:jobId/events', authenticateToken, async (req: Request, res: Response) => {
+  let stop = () => {};
+
+  try {
+    const { jobId } = req.params;
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+
+    if (!(await jobService.getJob(jobId, userId))) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      // no-transform keeps the compression middleware from buffering events
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    });
+
+    const send = (type: string, data: unknown) => {
+      res.write(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+    };
+
+    // Subscribe before reading the job again so no event is missed in between
+    const unsubscribe = jobService.subscribe(jobId, event => {
+      send(event.type, event.data);
+      if (FINAL_JOB_EVENTS.includes(event.type)) stop();
+    });
+    const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 15000);
+    let stopped = false;
+    stop = () => {
+      if (stopped) return;
+      stopped = true;
+      clearInterval(heartbeat);
+      unsubscribe();
+      res.end();
+    };
+    req.on('close', stop);
+
+    const job = await jobService.getJob(jobId, userId);
+    if (!job) return stop();
+
+    send('status', {
+      status: job.status,
+      progress: job.progress,
+      attempts: job.attempts,
+      error: job.error
+    });
+
+    if (job.status === 'completed') {
+      const result = await jobService.getResult(jobId, userId);
+      send('completed', { progress: 100, qcResults: result?.qcResults ?? null });
+      stop();
+    } else if (job.status === 'failed') {
+      send('failed', { error: job.error });
+      stop();
+    } else if (job.status === 'cancelled') {
+      send('cancelled', {});
+      stop();
+    }
+
+  } catch (error) {
+    console.error('Job events route error:', error);
+    if (res.headersSent) {
+      return stop();
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to stream job events'
+    });
+  }
+});
+
+/**
+ * GET /api/processing/jobs/:jobId/result
+ * Get the output of a completed job
+ */
+router.get('/jobs/:jobId/result', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const job = await jobService.getJob(jobId, userId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    if (job.status !== 'completed') {
+      return res.status(409).json({
+        success: false,
+        error: `Job is ${job.status}`,
+        status: job.status
+      });
+    }
+
+    const result = await jobService.getResult(jobId, userId);
+    if (!result) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job result not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      jobId,
+      ...result
+    });
+
+  } catch (error) {
+    console.error('Job result route error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get job result'
+    });
+  }
+});
+
+/**
+ * POST /api/processing/jobs/:jobId/cancel
+ * Cancel a pending or running job
+ */
+router.post('/jobs/:jobId/cancel', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const { jobId } = req.params;
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const job = await jobService.cancel(jobId, userId);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: 'Job not found'
+      });
+    }
+
+    if (job.status !== 'cancelled') {
+      return res.status(409).json({
+        success: false,
+        error: `Job has already ${job.status === 'completed' ? 'completed' : 'failed'}`,
+        status: job.status
+      });
+    }
+
+    res.json({
+      success: true,
+      jobId,
+      status: job.status
+    });
+
+  } catch (error) {
+    console.error('Job cancel route error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel job'
+    });
+  }
+});
+
+/**
+ * GET /api/processing/certificates/:id
+ * Get a stored processing certificate
+ */
+router.get('/certificates/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const certificate = await artifactService.getCertificate(userId, req.params.id);
+
+    if (!certificate) {
+      return res.status(404).json({
+        success: false,
+        error: 'Certificate not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: certificate
+    });
+  } catch (error) {
+    console.error('Certificate route error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get certificate'
+    });
+  }
+});
+
 /**
  * POST /api/processing/validate
  * Validate processing options without processing
@@ -175,6 +448,17 @@ router.post('/validate', authenticateToken, async (req: Request, res: Response)
       }
     }
 
+    validationErrors.push(
+      ...validateStepOrder(options.stepOrder),
+      ...validateCurveParameters('Denoise', options.denoise),
+      ...validateCurveParameters('Despike', options.despike),
+      ...validateSpikeConsensusOptions(options.despike?.consensus),
+      ...validateGapFillOptions(options.gapFill),
+      ...validateBaselineOptions(options.baselineCorrection),
+      ...validateEnvironmentalCorrectionOptions(options.environmentalCorrection),
+      ...validateResampleOptions(options.resample)
+    );
+
     if (validationErrors.length > 0) {
       return res.status(400).json({
         success: false,
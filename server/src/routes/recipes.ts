@@ -0,0 +1,182 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, AuthenticatedRequest } from '../middleware/auth';
+import { DuplicateRecordError, RecipeRecord } from '../database';
+import { recipeService } from '../services/RecipeService';
+
+const router = Router();
+
+/**
+ * Recipe info returned to clients
+ */
+const toRecipeInfo = (recipe: RecipeRecord) => ({
+  id: recipe.id,
+  name: recipe.name,
+  description: recipe.description,
+  version: recipe.version,
+  options: recipe.options,
+  createdAt: recipe.createdAt,
+  updatedAt: recipe.updatedAt
+});
+
+/**
+ * Answer validation and duplicate-name errors with 400 and 409
+ */
+const sendRecipeError = (res: Response, error: unknown, message: string) => {
+  if (error instanceof Error && error.name === 'ValidationError') {
+    return res.status(400).json({
+      success: false,
+      error: error.message
+    });
+  }
+  if (error instanceof DuplicateRecordError) {
+    return res.status(409).json({
+      success: false,
+      error: error.message
+    });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({
+    success: false,
+    error: message
+  });
+};
+
+/**
+ * GET /api/recipes
+ * List the user's recipes at their latest versions
+ */
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    res.json({
+      success: true,
+      data: (await recipeService.list(userId)).map(toRecipeInfo)
+    });
+  } catch (error) {
+    sendRecipeError(res, error, 'Failed to list recipes');
+  }
+});
+
+/**
+ * POST /api/recipes
+ * Create a recipe. Body: { name, description?, options }
+ */
+router.post('/', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const { name, description, options } = req.body;
+    const recipe = await recipeService.create(userId, { name, description, options });
+
+    res.status(201).json({
+      success: true,
+      data: toRecipeInfo(recipe)
+    });
+  } catch (error) {
+    sendRecipeError(res, error, 'Failed to create recipe');
+  }
+});
+
+/**
+ * GET /api/recipes/:id
+ * Get a recipe at its latest version, or at ?version=
+ */
+router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const version = req.query.version !== undefined ? Number(req.query.version) : undefined;
+    const recipe = await recipeService.get(req.params.id, userId, version);
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recipe not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: toRecipeInfo(recipe)
+    });
+  } catch (error) {
+    sendRecipeError(res, error, 'Failed to get recipe');
+  }
+});
+
+/**
+ * GET /api/recipes/:id/versions
+ * List every version of a recipe, newest first
+ */
+router.get('/:id/versions', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const versions = await recipeService.listVersions(req.params.id, userId);
+
+    if (!versions) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recipe not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: versions.map(toRecipeInfo)
+    });
+  } catch (error) {
+    sendRecipeError(res, error, 'Failed to list recipe versions');
+  }
+});
+
+/**
+ * PUT /api/recipes/:id
+ * Rename a recipe or change its options. Body: { name?, description?, options? };
+ * new options are stored as the next version.
+ */
+router.put('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const { name, description, options } = req.body;
+    const recipe = await recipeService.update(req.params.id, userId, { name, description, options });
+
+    if (!recipe) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recipe not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: toRecipeInfo(recipe)
+    });
+  } catch (error) {
+    sendRecipeError(res, error, 'Failed to update recipe');
+  }
+});
+
+/**
+ * DELETE /api/recipes/:id
+ * Delete a recipe and all its versions. Jobs that used it keep their record of it.
+ */
+router.delete('/:id', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const userId = (req as AuthenticatedRequest).user?.id || 'anonymous';
+    const deleted = await recipeService.delete(req.params.id, userId);
+
+    if (!deleted) {
+      return res.status(404).json({
+        success: false,
+        error: 'Recipe not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Recipe deleted'
+    });
+  } catch (error) {
+    sendRecipeError(res, error, 'Failed to delete recipe');
+  }
+});
+
+export { router as recipeRoutes };
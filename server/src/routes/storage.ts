@@ -0,0 +1,76 @@
+import { Router, Request, Response } from 'express';
+import path from 'path';
+import { getStorageProvider, LocalStorageProvider, ObjectNotFoundError } from '../storage';
+
+const router = Router();
+
+/**
+ * Resolve the object key of a presigned request, or send an error response
+ * when the signature is missing, wrong or expired
+ */
+const verifyRequest = (req: Request, res: Response, method: 'GET' | 'PUT'): string | null => {
+  const storage = getStorageProvider();
+  const key = req.params[0];
+  const { expires, signature } = req.query;
+
+  // Other providers hand out their own presigned URLs
+  if (!(storage instanceof LocalStorageProvider)) {
+    res.status(404).json({ success: false, error: 'Route not found' });
+    return null;
+  }
+
+  const valid = req.query.method === method &&
+    typeof signature === 'string' &&
+    storage.verifyPresigned(key, method, Number(expires), signature);
+
+  if (!valid) {
+    res.status(403).json({ success: false, error: 'Invalid or expired URL' });
+    return null;
+  }
+  return key;
+};
+
+/**
+ * GET /api/storage/*
+ * Download an object through a presigned URL
+ */
+router.get('/*', async (req: Request, res: Response) => {
+  try {
+    const key = verifyRequest(req, res, 'GET');
+    if (!key) return;
+
+    const stream = await getStorageProvider().stream(key);
+    res.type(path.extname(key) || 'application/octet-stream');
+    res.attachment(path.basename(key));
+    stream.on('error', error => {
+      console.error('Storage download error:', error);
+      res.destroy(error);
+    });
+    stream.pipe(res);
+  } catch (error) {
+    if (error instanceof ObjectNotFoundError) {
+      return res.status(404).json({ success: false, error: 'Object not found' });
+    }
+    console.error('Storage download error:', error);
+    res.status(500).json({ success: false, error: 'Download failed' });
+  }
+});
+
+/**
+ * PUT /api/storage/*
+ * Upload an object through a presigned URL; the request body is stored as-is
+ */
+router.put('/*', async (req: Request, res: Response) => {
+  try {
+    const key = verifyRequest(req, res, 'PUT');
+    if (!key) return;
+
+    const size = await getStorageProvider().put(key, req);
+    res.json({ success: true, data: { key, size } });
+  } catch (error) {
+    console.error('Storage upload error:', error);
+    res.status(500).json({ success: false, error: 'Upload failed' });
+  }
+});
+
+export { router as storageRoutes };
@@ -14,9 +14,11 @@ import { exportRoutes } from './routes/export';
 import { conversionRoutes } from './routes/conversion';
 import { paymentRoutes } from './routes/payment';
 import { adminRoutes } from './routes/admin';
+import { storageRoutes } from './routes/storage';
+import { recipeRoutes } from './routes/recipes';
 import { initializeDatabase } from './database';
 import { initializeRedis } from './cache/redis';
-import { initializeQueues } from './queues';
+import { initializeQueues, closeQueues } from './queues';
 
 const app = express();
 const server = createServer(app);
@@ -66,10 +68,12 @@ app.get('/health', (req, res) => {
 app.use('/api/auth', authRoutes);
 app.use('/api/files', fileRoutes);
 app.use('/api/processing', processingRoutes);
+app.use('/api/recipes', recipeRoutes);
 app.use('/api/export', exportRoutes);
 app.use('/api/conversion', conversionRoutes);
 app.use('/api/payment', paymentRoutes);
 app.use('/api/admin', adminRoutes);
+app.use('/api/storage', storageRoutes);
 
 // Error handling
 app.use(errorHandler);
@@ -108,16 +112,20 @@ async function startServer() {
 process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
   server.close(() => {
-    logger.info('Process terminated');
-    process.exit(0);
+    closeQueues().finally(() => {
+      logger.info('Process terminated');
+      process.exit(0);
+    });
   });
 });
 
 process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
   server.close(() => {
-    logger.info('Process terminated');
-    process.exit(0);
+    closeQueues().finally(() => {
+      logger.info('Process terminated');
+      process.exit(0);
+    });
   });
 });
 
@@ -0,0 +1,104 @@
+/**
+ * POLISH Artifact Service
+ *
+ * Stores what the server generates for a user - exported LAS files,
+ * processing certificates and the results of queued processing jobs. The
+ * content goes to the storage provider, under
+ * `exports/<userId>/<exportId>/<fileName>`,
+ * `certificates/<userId>/<certificateId>.json` and
+ * `results/<userId>/<jobId>.json`. The database records who owns exports
+ * and certificates and where they are; results belong to their job record.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { getStorageProvider, ObjectNotFoundError, StorageProvider } from '../storage';
+import { Database, getDatabase } from '../database';
+import { ProcessingCertificate } from '../types';
+
+export interface StoredArtifact {
+  id: string;
+  key: string;
+  name: string;
+  size: number;
+}
+
+export class ArtifactService {
+  constructor(
+    private storage: StorageProvider = getStorageProvider(),
+    private database?: Database
+  ) {}
+
+  private get db(): Database {
+    return this.database || getDatabase();
+  }
+
+  async saveExport(userId: string, fileName: string, content: string): Promise<StoredArtifact> {
+    const id = uuidv4();
+    const name = fileName.replace(/[\\/]/g, '_');
+    const key = `exports/${userId}/${id}/${name}`;
+    const size = await this.storage.put(key, content, { contentType: 'text/plain' });
+
+    await this.db.exports.create({ id, userId, format: 'las', fileName: name, storageKey: key, size });
+    return { id, key, name, size };
+  }
+
+  /**
+   * A previously saved export, or undefined when the user has none with this id
+   */
+  async findExport(userId: string, id: string): Promise<StoredArtifact | undefined> {
+    const record = await this.db.exports.findById(id);
+    if (!record || record.userId !== userId) return undefined;
+
+    return { id, key: record.storageKey, name: record.fileName, size: record.size };
+  }
+
+  async saveCertificate(certificate: ProcessingCertificate, jobId?: string): Promise<StoredArtifact> {
+    const name = `${certificate.id}.json`;
+    const key = `certificates/${certificate.userId}/${name}`;
+    const size = await this.storage.put(key, JSON.stringify(certificate, null, 2), {
+      contentType: 'application/json'
+    });
+
+    await this.db.certificates.create({ ...certificate, jobId, storageKey: key });
+    return { id: certificate.id, key, name, size };
+  }
+
+  /**
+   * A certificate as it was issued, or undefined when the user has none with this id
+   */
+  async getCertificate(userId: string, id: string): Promise<ProcessingCertificate | undefined> {
+    const record = await this.db.certificates.findById(id);
+    if (!record || record.userId !== userId) return undefined;
+
+    const content = await this.storage.get(record.storageKey);
+    return JSON.parse(content.toString('utf8'));
+  }
+
+  async saveResult(userId: string, jobId: string, result: unknown): Promise<void> {
+    await this.storage.put(`results/${userId}/${jobId}.json`, JSON.stringify(result), {
+      contentType: 'application/json'
+    });
+  }
+
+  /**
+   * A job's stored result, or undefined when there is none
+   */
+  async getResult<T>(userId: string, jobId: string): Promise<T | undefined> {
+    try {
+      const content = await this.storage.get(`results/${userId}/${jobId}.json`);
+      return JSON.parse(content.toString('utf8'));
+    } catch (error) {
+      if (error instanceof ObjectNotFoundError) return undefined;
+      throw error;
+    }
+  }
+
+  /**
+   * A short-lived URL the artifact can be downloaded from directly
+   */
+  getDownloadUrl(artifact: StoredArtifact, expiresIn?: number): Promise<string> {
+    return this.storage.presign(artifact.key, { expiresIn });
+  }
+}
+
+export const artifactService = new ArtifactService();
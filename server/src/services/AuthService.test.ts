@@ -0,0 +1,53 @@
+/**
+ * Tests for credential checks and refresh-token rotation
+ */
+
+import jwt from 'jsonwebtoken';
+import { AuthService, AuthenticationError } from './AuthService';
+import { MemoryDatabase } from '../database/MemoryDatabase';
+import { config } from '../config';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+describe('AuthService', () => {
+  let db: MemoryDatabase;
+  let auth: AuthService;
+
+  beforeAll(async () => {
+    db = new MemoryDatabase();
+    auth = new AuthService(db);
+    await auth.register('Ana', 'ana@example.com', 'correct horse');
+  });
+
+  it('should verify passwords and issue expiring tokens', async () => {
+    await expect(auth.login('ana@example.com', 'wrong password')).rejects.toBeInstanceOf(AuthenticationError);
+
+    const { user, tokens } = await auth.login('ANA@example.com', 'correct horse');
+    const payload = auth.verifyAccessToken(tokens.token);
+
+    expect(payload.userId).toBe(user.id);
+    expect(jwt.decode(tokens.token)).toHaveProperty('exp');
+    expect(() => auth.verifyAccessToken(tokens.refreshToken)).toThrow(AuthenticationError);
+  });
+
+  it('should rotate refresh tokens and revoke all sessions when one is reused', async () => {
+    const { tokens: first } = await auth.login('ana@example.com', 'correct horse');
+    const { tokens: other } = await auth.login('ana@example.com', 'correct horse');
+
+    const { tokens: second } = await auth.refresh(first.refreshToken);
+    expect(second.refreshToken).not.toBe(first.refreshToken);
+
+    // The rotated-out token is rejected and takes every session down with it
+    await expect(auth.refresh(first.refreshToken)).rejects.toThrow('Refresh token has been revoked');
+    await expect(auth.refresh(second.refreshToken)).rejects.toBeInstanceOf(AuthenticationError);
+    await expect(auth.refresh(other.refreshToken)).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('should reject refresh tokens after logout and tokens with a bad signature', async () => {
+    const { user, tokens } = await auth.login('ana@example.com', 'correct horse');
+    await auth.logout(tokens.refreshToken);
+    await expect(auth.refresh(tokens.refreshToken)).rejects.toBeInstanceOf(AuthenticationError);
+
+    const forged = jwt.sign({ userId: user.id, type: 'refresh' }, `${config.jwt.secret}-forged`);
+    await expect(auth.refresh(forged)).rejects.toThrow('Invalid refresh token');
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * POLISH Auth Service
+ *
+ * Registration, password login and token issuing. Access tokens are
+ * short-lived JWTs; refresh tokens are JWTs backed by a session row holding
+ * a hash of the token. Each refresh deletes the session it used and issues a
+ * new pair, so a refresh token works once. Presenting one that was already
+ * used revokes every session of its user, since the token has most likely
+ * leaked.
+ */
+
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import jwt, { SignOptions } from 'jsonwebtoken';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../config';
+import { Database, getDatabase, UserRecord } from '../database';
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+export interface AuthResult {
+  user: UserRecord;
+  tokens: AuthTokens;
+}
+
+export interface AccessTokenPayload {
+  userId: string;
+  email: string;
+  name: string;
+  subscription: string;
+}
+
+interface RefreshTokenPayload {
+  userId: string;
+  type: 'refresh';
+  exp: number;
+}
+
+/**
+ * Raised for credentials or tokens that can't be accepted
+ */
+export class AuthenticationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuthenticationError';
+  }
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+export class AuthService {
+  constructor(private database?: Database) {}
+
+  private get db(): Database {
+    return this.database || getDatabase();
+  }
+
+  /**
+   * Create an account and sign it in. Throws DuplicateRecordError when the email is taken.
+   */
+  async register(name: string, email: string, password: string): Promise<AuthResult> {
+    const passwordHash = await bcrypt.hash(password, config.bcryptRounds);
+    const user = await this.db.users.create({ name, email, passwordHash });
+    return { user, tokens: await this.issueTokens(user) };
+  }
+
+  async login(email: string, password: string): Promise<AuthResult> {
+    const user = await this.db.users.findByEmail(email);
+    if (!user || !(await bcrypt.compare(password, user.passwordHash))) {
+      throw new AuthenticationError('Invalid email or password');
+    }
+    return { user, tokens: await this.issueTokens(user) };
+  }
+
+  /**
+   * Exchange a refresh token for a new token pair, revoking the old one
+   */
+  async refresh(refreshToken: string): Promise<AuthResult> {
+    const payload = this.verifyRefreshToken(refreshToken);
+    const session = await this.db.sessions.findByTokenHash(hashToken(refreshToken));
+
+    // Deleting the session claims it, so two concurrent refreshes can't both succeed
+    if (!session || !(await this.db.sessions.delete(session.id))) {
+      await this.db.sessions.deleteAllForUser(payload.userId);
+      throw new AuthenticationError('Refresh token has been revoked');
+    }
+
+    const user = await this.db.users.findById(session.userId);
+    if (!user) {
+      throw new AuthenticationError('Invalid refresh token');
+    }
+    return { user, tokens: await this.issueTokens(user) };
+  }
+
+  /**
+   * Revoke a refresh token, or with `everywhere` all refresh tokens of its
+   * user. Unknown or already revoked tokens are ignored.
+   */
+  async logout(refreshToken: string, everywhere = false): Promise<void> {
+    const session = await this.db.sessions.findByTokenHash(hashToken(refreshToken));
+    if (!session) return;
+
+    if (everywhere) {
+      await this.db.sessions.deleteAllForUser(session.userId);
+    } else {
+      await this.db.sessions.delete(session.id);
+    }
+  }
+
+  verifyAccessToken(token: string): AccessTokenPayload {
+    let decoded: string | jwt.JwtPayload;
+    try {
+      decoded = jwt.verify(token, config.jwt.secret);
+    } catch {
+      throw new AuthenticationError('Invalid or expired token');
+    }
+
+    // Refresh tokens are signed with the same secret but must not grant access
+    if (typeof decoded === 'string' || decoded.type === 'refresh' || typeof decoded.userId !== 'string') {
+      throw new AuthenticationError('Invalid or expired token');
+    }
+    return decoded as AccessTokenPayload & jwt.JwtPayload;
+  }
+
+  private verifyRefreshToken(token: string): RefreshTokenPayload {
+    try {
+      const decoded = jwt.verify(token, config.jwt.secret);
+      if (typeof decoded !== 'string' && decoded.type === 'refresh' && typeof decoded.userId === 'string') {
+        return decoded as RefreshTokenPayload;
+      }
+    } catch {
+      // Reported below
+    }
+    throw new AuthenticationError('Invalid refresh token');
+  }
+
+  private async issueTokens(user: UserRecord): Promise<AuthTokens> {
+    const payload: AccessTokenPayload = {
+      userId: user.id,
+      email: user.email,
+      name: user.name,
+      subscription: user.subscription
+    };
+    const token = jwt.sign(payload, config.jwt.secret, {
+      expiresIn: config.jwt.expiresIn as SignOptions['expiresIn']
+    });
+
+    // The jwtid keeps tokens issued within the same second distinct
+    const refreshToken = jwt.sign({ userId: user.id, type: 'refresh' }, config.jwt.secret, {
+      expiresIn: config.jwt.refreshExpiresIn as SignOptions['expiresIn'],
+      jwtid: uuidv4()
+    });
+    const { exp } = jwt.decode(refreshToken) as RefreshTokenPayload;
+
+    await this.db.sessions.create({
+      id: uuidv4(),
+      userId: user.id,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(exp * 1000)
+    });
+
+    return { token, refreshToken };
+  }
+}
+
+export const authService = new AuthService();
@@ -0,0 +1,132 @@
+/**
+ * POLISH File Service
+ *
+ * Keeps track of uploaded LAS files. The original bytes live with the
+ * storage provider; the database record holds the owner and the metadata
+ * parsed at upload time, so processing jobs can refer to a file by id.
+ */
+
+import path from 'path';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { getStorageProvider, StorageProvider } from '../storage';
+import { Database, getDatabase } from '../database';
+import { LASParser } from '../utils/lasParser';
+import { StoredFile } from '../types';
+
+export interface UploadedObject {
+  id: string;
+  storageKey: string;
+  name: string;
+  size: number;
+  mimeType: string;
+}
+
+/**
+ * Raised when an upload is not a readable LAS file
+ */
+export class FileValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export class FileService {
+  private parser = new LASParser();
+
+  constructor(
+    private storage: StorageProvider = getStorageProvider(),
+    private database?: Database
+  ) {}
+
+  private get db(): Database {
+    return this.database || getDatabase();
+  }
+
+  /**
+   * Parse an object that has just been written to storage and register it.
+   * The object is deleted again when it is not a valid LAS file.
+   */
+  async registerUpload(userId: string, upload: UploadedObject): Promise<StoredFile> {
+    const stream = await this.storage.stream(upload.storageKey);
+    const parseResult = await this.parser.parseStream(stream, upload.name);
+
+    if (!parseResult.success || !parseResult.data || parseResult.data.curves.length === 0) {
+      await this.storage.delete(upload.storageKey);
+      throw new FileValidationError(`Invalid LAS file: ${parseResult.error || 'no curves defined'}`);
+    }
+
+    const lasFile = parseResult.data;
+    const storedFile: StoredFile = {
+      id: upload.id,
+      userId,
+      name: upload.name,
+      size: upload.size,
+      mimeType: upload.mimeType,
+      storageKey: upload.storageKey,
+      uploadedAt: new Date(),
+      metadata: {
+        version: lasFile.version,
+        header: lasFile.header,
+        curves: lasFile.curves,
+        wellItems: lasFile.wellItems || [],
+        parameters: lasFile.parameters || [],
+        rowCount: lasFile.log.length,
+        qualityScore: lasFile.qualityScore || 0,
+        warnings: parseResult.warnings
+      }
+    };
+
+    try {
+      return await this.db.files.create(storedFile);
+    } catch (error) {
+      await this.storage.delete(upload.storageKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Store and register a file sent as a buffer instead of a multipart upload
+   */
+  async storeBuffer(userId: string, name: string, content: Buffer): Promise<StoredFile> {
+    const id = uuidv4();
+    const storageKey = `uploads/${id}/original${path.extname(name).toLowerCase() || '.las'}`;
+    const size = await this.storage.put(storageKey, content);
+
+    return this.registerUpload(userId, { id, storageKey, name, size, mimeType: 'application/octet-stream' });
+  }
+
+  /**
+   * A user's file, or undefined when it does not exist or belongs to someone else
+   */
+  async getFile(id: string, userId: string): Promise<StoredFile | undefined> {
+    const file = await this.db.files.findById(id);
+    return file && file.userId === userId ? file : undefined;
+  }
+
+  /**
+   * A user's files, newest first
+   */
+  listFiles(userId: string): Promise<StoredFile[]> {
+    return this.db.files.listByUser(userId);
+  }
+
+  /**
+   * Stream the original uploaded bytes
+   */
+  async openOriginal(file: StoredFile): Promise<Readable> {
+    return this.storage.stream(file.storageKey);
+  }
+
+  async deleteFile(id: string, userId: string): Promise<boolean> {
+    const file = await this.getFile(id, userId);
+    if (!file) return false;
+
+    await this.db.files.delete(id);
+    await this.storage.delete(file.storageKey);
+    return true;
+  }
+}
+
+export const fileService = new FileService();
@@ -0,0 +1,52 @@
+/**
+ * Tests for recording job cancellations and failures
+ */
+
+import { JobService } from './JobService';
+import { ProcessingOptions } from './ProcessingService';
+import { MemoryDatabase } from '../database/MemoryDatabase';
+import { MemoryJobQueue } from '../queues/MemoryJobQueue';
+import { JobEvent } from '../queues/types';
+import { StoredFile } from '../types';
+import { describe, it, expect } from '@jest/globals';
+
+const file = { id: 'missing-file', name: 'well.las' } as StoredFile;
+
+/** Lets queued event handlers and their database writes settle */
+const settle = () => new Promise(resolve => setTimeout(resolve, 20));
+
+describe('JobService', () => {
+  it('should record and publish a cancellation once', async () => {
+    // Nothing runs, so the job stays waiting on the queue
+    const queue = new MemoryJobQueue({ concurrency: 0, timeout: 1000, retryAttempts: 2, retryDelay: 5 });
+    const jobs = new JobService(undefined, new MemoryDatabase());
+    jobs.start(queue);
+
+    const job = await jobs.submit('u1', file, {} as ProcessingOptions);
+    const events: JobEvent[] = [];
+    jobs.subscribe(job.id, event => events.push(event));
+
+    const cancelled = await jobs.cancel(job.id, 'u1');
+    await settle();
+
+    expect(cancelled?.status).toBe('cancelled');
+    expect(events.map(event => event.type)).toEqual(['cancelled']);
+    await queue.close();
+  });
+
+  it('should fail a job whose file is gone without retrying it', async () => {
+    const queue = new MemoryJobQueue({ concurrency: 1, timeout: 1000, retryAttempts: 2, retryDelay: 5 });
+    const db = new MemoryDatabase();
+    const jobs = new JobService(undefined, db);
+    const failures: boolean[] = [];
+    queue.on('failed', (_job, _error, willRetry) => failures.push(willRetry));
+    jobs.start(queue);
+
+    const job = await jobs.submit('u1', file, {} as ProcessingOptions);
+    await settle();
+
+    expect(failures).toEqual([false]);
+    expect((await db.jobs.findById(job.id))?.status).toBe('failed');
+    await queue.close();
+  });
+});
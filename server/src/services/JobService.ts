@@ -0,0 +1,228 @@
+/**
+ * POLISH Job Service
+ *
+ * Runs processing in the background. Submitting a file creates a pending
+ * job record and puts the job on the queue; a queue worker runs the
+ * pipeline, reports progress on the record and stores the result with the
+ * artifact service. The job record is the source of truth for status, so
+ * clients read the same thing whichever queue backend runs the job.
+ *
+ * Subscribers to a job get `started`, the pipeline's step_started,
+ * curve_progress and step_finished events, `retrying`, and one of
+ * `completed` (with the final QC), `failed` or `cancelled`.
+ */
+
+import { Database, getDatabase, ProcessingJobRecord } from '../database';
+import { JobQueue } from '../queues/JobQueue';
+import { JobContext, JobEvent, NonRetryableJobError, QueuedJob } from '../queues/types';
+import { PipelineEvent, ProcessingOptions, ProcessingService } from './ProcessingService';
+import { fileService } from './FileService';
+import { artifactService } from './ArtifactService';
+import { LASFile, ProcessingCertificate, ProcessingStep, QCResults, StoredFile } from '../types';
+import { EncodedWellLog, ParseDiagnostic } from '../../../shared/src';
+
+/**
+ * What a finished job leaves for the client to fetch
+ */
+export interface ProcessingJobResult {
+  /** The processed file, its curve data as encoded columns for the browser to build rows from */
+  data: (Omit<LASFile, 'log'> & { processedLog: EncodedWellLog }) | null;
+  qcResults: QCResults | null;
+  processingHistory: ProcessingStep[];
+  warnings?: string[];
+  diagnostics?: ParseDiagnostic[];
+  certificate?: ProcessingCertificate;
+  executionTime: number;
+  memoryUsage: number;
+}
+
+const ACTIVE_STATUSES = ['pending', 'processing'];
+
+/** Event types after which a job publishes nothing more */
+export const FINAL_JOB_EVENTS = ['completed', 'failed', 'cancelled'];
+
+export class JobService {
+  private processingService: ProcessingService;
+
+  constructor(private queue?: JobQueue, private database?: Database) {
+    this.processingService = new ProcessingService(database);
+  }
+
+  private get db(): Database {
+    return this.database || getDatabase();
+  }
+
+  private get jobQueue(): JobQueue {
+    if (!this.queue) {
+      throw new Error('Job queue has not been started');
+    }
+    return this.queue;
+  }
+
+  /**
+   * Start running queued jobs, keeping their records up to date
+   */
+  start(queue: JobQueue): void {
+    this.queue = queue;
+
+    queue.on('failed', (job, error, willRetry) => {
+      if (willRetry) {
+        console.warn(`Job ${job.jobId} failed, retrying: ${error.message}`);
+        this.publish(job.jobId, 'retrying', { error: error.message });
+        return;
+      }
+      console.error(`Job ${job.jobId} failed:`, error);
+      this.db.jobs.update(job.jobId, { status: 'failed', error: error.message, completedAt: new Date() })
+        .then(() => this.publish(job.jobId, 'failed', { error: error.message }))
+        .catch(recordError => console.error(`Failed to record failure of job ${job.jobId}:`, recordError));
+    });
+
+    // Jobs cancelled through cancel() are recorded there; this catches ones the queue stops itself, as on shutdown
+    queue.on('cancelled', job => {
+      this.db.jobs.findById(job.jobId)
+        .then(record => (record && ACTIVE_STATUSES.includes(record.status) ? this.recordCancellation(job.jobId) : undefined))
+        .catch(error => console.error(`Failed to record cancellation of job ${job.jobId}:`, error));
+    });
+
+    queue.process((job, context) => this.run(job, context));
+  }
+
+  /**
+   * Queue a stored file for processing. Resolves once the job is queued,
+   * not when it has run.
+   */
+  async submit(userId: string, file: StoredFile, options: ProcessingOptions): Promise<ProcessingJobRecord> {
+    const job = await this.db.jobs.create({ userId, fileId: file.id, fileName: file.name, options });
+
+    try {
+      await this.jobQueue.add({ jobId: job.id, userId });
+    } catch (error) {
+      await this.db.jobs.update(job.id, { status: 'failed', error: 'Job could not be queued', completedAt: new Date() });
+      throw error;
+    }
+    return job;
+  }
+
+  /**
+   * A user's job, or undefined when it does not exist or belongs to someone else
+   */
+  async getJob(jobId: string, userId: string): Promise<ProcessingJobRecord | undefined> {
+    const job = await this.db.jobs.findById(jobId);
+    return job && job.userId === userId ? job : undefined;
+  }
+
+  /**
+   * Cancel a pending or running job. A job that has already finished is
+   * returned unchanged.
+   */
+  async cancel(jobId: string, userId: string): Promise<ProcessingJobRecord | undefined> {
+    const job = await this.getJob(jobId, userId);
+    if (!job || !ACTIVE_STATUSES.includes(job.status)) return job;
+
+    // Recorded before the queue hears of it, so neither the queue's cancelled event nor the run records it again
+    const cancelled = await this.recordCancellation(jobId);
+    await this.jobQueue.cancel(jobId);
+    return cancelled;
+  }
+
+  /**
+   * Listen to a job's events. Returns a function that stops listening.
+   */
+  subscribe(jobId: string, listener: (event: JobEvent) => void): () => void {
+    return this.jobQueue.subscribe(jobId, listener);
+  }
+
+  /**
+   * The result of a completed job
+   */
+  getResult(jobId: string, userId: string): Promise<ProcessingJobResult | undefined> {
+    return artifactService.getResult<ProcessingJobResult>(userId, jobId);
+  }
+
+  /**
+   * Mark a job cancelled and tell its subscribers, the one place either happens
+   */
+  private async recordCancellation(jobId: string): Promise<ProcessingJobRecord | undefined> {
+    const cancelled = await this.db.jobs.update(jobId, { status: 'cancelled', completedAt: new Date() });
+    this.publish(jobId, 'cancelled', {});
+    return cancelled;
+  }
+
+  private publish(jobId: string, type: string, data: Record<string, unknown>): void {
+    this.jobQueue.publish({ jobId, type, data }).catch(error => {
+      console.error(`Failed to publish ${type} event of job ${jobId}:`, error);
+    });
+  }
+
+  private async run({ jobId }: QueuedJob, context: JobContext): Promise<void> {
+    const job = await this.db.jobs.findById(jobId);
+
+    // Cancelled after it was queued but before a worker picked it up
+    if (!job || !ACTIVE_STATUSES.includes(job.status)) return;
+
+    const file = job.fileId ? await this.db.files.findById(job.fileId) : null;
+    if (!file) {
+      throw new NonRetryableJobError('The file for this job no longer exists');
+    }
+
+    await this.db.jobs.update(jobId, {
+      status: 'processing',
+      progress: 0,
+      attempts: context.attempt,
+      startedAt: new Date()
+    });
+    context.publish('started', { attempt: context.attempt, progress: 0 });
+
+    // Steps are recorded on the job; per-curve progress only goes to subscribers
+    const onEvent = ({ type, ...data }: PipelineEvent) => {
+      context.publish(type, data);
+      if (type !== 'curve_progress') {
+        this.db.jobs.update(jobId, { progress: data.progress }).catch(error => {
+          console.error(`Failed to record progress of job ${jobId}:`, error);
+        });
+      }
+    };
+
+    const result = await this.processingService.processStream(
+      await fileService.openOriginal(file),
+      file.name,
+      job.options as ProcessingOptions,
+      job.userId,
+      file.id,
+      { jobId, signal: context.signal, onEvent }
+    );
+
+    if (!result.success) {
+      const message = result.errors?.join(', ') || 'Processing failed';
+      throw result.retryable === false ? new NonRetryableJobError(message) : new Error(message);
+    }
+
+    // A storage failure shouldn't throw away a finished result
+    if (result.certificate) {
+      await artifactService.saveCertificate(result.certificate, jobId).catch(error => {
+        console.error('Failed to store processing certificate:', error);
+        result.warnings?.push('Processing certificate could not be stored');
+      });
+    }
+
+    // Stored as columns; the browser builds rows only to render
+    const { log, ...processedFile } = result.processedData!;
+    const jobResult: ProcessingJobResult = {
+      data: { ...processedFile, processedLog: log.toEncoded() },
+      qcResults: result.qcResults,
+      processingHistory: result.processingHistory,
+      warnings: result.warnings,
+      diagnostics: result.diagnostics,
+      certificate: result.certificate,
+      executionTime: result.executionTime,
+      memoryUsage: result.memoryUsage
+    };
+    await artifactService.saveResult(job.userId, jobId, jobResult);
+
+    context.signal.throwIfAborted();
+    await this.db.jobs.update(jobId, { status: 'completed', progress: 100, completedAt: new Date() });
+    context.publish('completed', { progress: 100, qcResults: result.qcResults });
+  }
+}
+
+export const jobService = new JobService();
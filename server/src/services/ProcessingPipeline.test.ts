@@ -0,0 +1,437 @@
+/**
+ * Tests for chaining processing steps
+ */
+
+import { DEFAULT_STEP_ORDER, ProcessingPipeline, summarizeCurves, validateStepOrder } from './ProcessingPipeline';
+import { ProcessingOptions } from './ProcessingService';
+import { LASParser } from '../utils/lasParser';
+import { LASWriter } from '../utils/lasWriter';
+import {
+  BaselineFit,
+  DepthMatchSummary,
+  EnvironmentalCorrectionSummary,
+  GapFillSummary,
+  LASParser as SharedLASParser,
+  ProcessingAlgorithms,
+  SpikeReport,
+  WellLog
+} from '../../../shared/src';
+import { LASFile, ProcessingStep } from '../types';
+import { describe, it, expect, beforeAll } from '@jest/globals';
+
+const options: ProcessingOptions = {
+  denoise: { enabled: true, method: 'moving_average', windowSize: 5, strength: 1, preserveSpikes: false },
+  despike: { enabled: true, method: 'hampel', threshold: 3, windowSize: 5, replacementMethod: 'linear' },
+  validation: { enabled: false, physicalRanges: {}, crossValidation: false, flagOutliers: false },
+  mnemonics: { enabled: false, standard: 'api', autoStandardize: false, preserveOriginal: true },
+  baselineCorrection: { enabled: false, method: 'polynomial', polynomialOrder: 1 }
+};
+
+/** Gently varying gamma ray and caliper logs, with one gamma ray spike */
+const lasContent = () => {
+  const rows = Array.from({ length: 40 }, (_, i) => {
+    const gr = i === 20 ? 900 : 50 + Math.sin(i / 3) * 5;
+    const cali = 8.5 + Math.cos(i / 4) * 0.2;
+    return `${(1000 + i * 0.5).toFixed(1)}   ${gr.toFixed(4)}   ${cali.toFixed(4)}`;
+  });
+  return `~Version Information
+VERS.                 2.0 : CWLS LOG ASCII STANDARD - VERSION 2.0
+WRAP.                  NO : One line per depth step
+~Well Information
+STRT.FT         1000.0000 : START DEPTH
+STOP.FT         1019.5000 : STOP DEPTH
+STEP.FT            0.5000 : STEP
+NULL.             -999.25 : NULL VALUE
+WELL.            TEST #1 : WELL
+~Curve Information
+DEPT.FT                   : Measured Depth
+GR  .GAPI                 : Gamma Ray
+CALI.IN                   : Caliper
+~A  DEPT GR CALI
+${rows.join('\n')}`;
+};
+
+describe('ProcessingPipeline', () => {
+  const pipeline = new ProcessingPipeline();
+  let lasFile: LASFile;
+
+  beforeAll(async () => {
+    const result = await new LASParser().parse(Buffer.from(lasContent(), 'utf8'), 'pipeline.las');
+    lasFile = result.data!;
+  });
+
+  const run = async (
+    stepOrder?: ProcessingOptions['stepOrder'],
+    overrides: Partial<ProcessingOptions> = {},
+    referenceRun?: LASFile
+  ) => {
+    const steps: ProcessingStep[] = [];
+    const result = await pipeline.run(lasFile, { ...options, stepOrder, ...overrides }, {
+      startStep: step => {
+        const recorded = { id: `step-${steps.length}`, timestamp: new Date(), ...step };
+        steps.push(recorded);
+        return recorded;
+      },
+      onCurve: () => undefined
+    }, referenceRun);
+    return { result, steps };
+  };
+
+  it('should run enabled steps in the default order unless told otherwise', () => {
+    expect(pipeline.plan(options)).toEqual(['despike', 'denoise']);
+    expect(pipeline.plan({ ...options, stepOrder: ['denoise'] })).toEqual(['denoise', 'despike']);
+    expect(pipeline.plan({ ...options, stepOrder: ['baselineCorrection', 'denoise', 'despike'] }))
+      .toEqual(['denoise', 'despike']);
+  });
+
+  it('should give each step the output of the step before it', async () => {
+    const { result, steps } = await run();
+
+    expect(steps.map(step => step.operation)).toEqual(['despiking', 'denoising']);
+    expect(steps[1].inputs).toEqual(steps[0].outputs);
+    expect(steps[0].inputs!.GR.max).toBe(900);
+    expect(steps[0].outputs!.GR.max).toBeLessThan(900);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should produce different data when the order changes', async () => {
+    const despikeFirst = await run(['despike', 'denoise']);
+    const denoiseFirst = await run(['denoise', 'despike']);
+
+    expect(denoiseFirst.steps.map(step => step.operation)).toEqual(['denoising', 'despiking']);
+    // Smoothing first spreads the spike over its neighbours, leaving a higher peak
+    expect(denoiseFirst.steps[1].outputs!.GR.max).toBeGreaterThan(despikeFirst.steps[1].outputs!.GR.max!);
+  });
+
+  it('should apply per-curve overrides and record only the curves changed', async () => {
+    const { result, steps } = await run(undefined, {
+      denoise: { ...options.denoise, overrides: [{ curveType: 'caliper', enabled: false }] }
+    });
+
+    expect(steps.map(step => step.curvesAffected)).toEqual([['GR'], ['GR']]);
+    expect(result.log.getValues('CALI')).toEqual(lasFile.log.getValues('CALI'));
+  });
+
+  it('should use a depth zone\'s parameters inside the zone only', async () => {
+    // A threshold no spike can reach, over the interval holding the spike
+    const { steps } = await run(undefined, {
+      denoise: { ...options.denoise, enabled: false },
+      despike: { ...options.despike, zones: [{ top: 1009, bottom: 1011, curves: ['GR'], parameters: { threshold: 1000 } }] }
+    });
+
+    expect(steps[0].outputs!.GR.max).toBe(900);
+    expect(steps[0].curvesAffected).not.toContain('CALI');
+  });
+
+  it('should match the browser preview, which parses and processes with the shared core', async () => {
+    // The browser reads a File's bytes as a plain Uint8Array rather than a Buffer
+    const bytes = new TextEncoder().encode(lasContent());
+    const preview = (await new SharedLASParser().parse(bytes, 'pipeline.las')).data!;
+    expect(preview.log.toLASData()).toEqual(lasFile.log.toLASData());
+
+    const algorithms = new ProcessingAlgorithms();
+    const despiked = await algorithms.despike(preview, options.despike);
+    const denoised = await algorithms.denoise(despiked.data, options.denoise);
+
+    const { result } = await run();
+    expect(denoised.data.log.toLASData()).toEqual(result.log.toLASData());
+  });
+
+  it('should denoise with the selected wavelet and record its settings', async () => {
+    const wavelet = (waveletType: 'haar' | 'sym4') => run(['denoise'], {
+      denoise: { ...options.denoise, method: 'wavelet', strength: 0.5, waveletType, waveletTransform: 'swt', thresholdRule: 'sureshrink' }
+    });
+    const haar = await wavelet('haar');
+    const sym4 = await wavelet('sym4');
+
+    expect(sym4.steps[0].parameters).toMatchObject({ waveletType: 'sym4', waveletTransform: 'swt', thresholdRule: 'sureshrink' });
+    expect(sym4.result.log.getValues('GR')).not.toEqual(haar.result.log.getValues('GR'));
+  });
+
+  it('should find and correct a depth shift against another logging run', async () => {
+    // A spike-free reference run that logged every feature 1 ft (two samples) shallower
+    const referenceRun = { ...lasFile, log: lasFile.log.clone() };
+    referenceRun.log.setCurve('GR', Array.from(lasFile.log.depth, (_, i) => 50 + Math.sin((i + 2) / 3) * 5));
+    const depthAlignment = { enabled: true, referenceDepth: 0, shiftTolerance: 1.5, autoCorrect: true, curves: ['GR'] };
+
+    for (const method of ['cross_correlation', 'dtw'] as const) {
+      const { result, steps } = await run(['despike', 'depthAlignment'], {
+        denoise: { ...options.denoise, enabled: false },
+        depthAlignment: { ...depthAlignment, method }
+      }, referenceRun);
+      const shift = (steps[1].results!.shifts as Record<string, DepthMatchSummary>).GR;
+
+      expect(steps[1].operation).toBe('depth_matching');
+      expect(steps[1].results!.referenceCurve).toBe('GR');
+      expect(Math.abs(shift.bulkShift - 1)).toBeLessThan(0.1);
+      expect(shift.correlationAfter).toBeGreaterThan(shift.correlationBefore);
+      expect(steps[1].curvesAffected).toEqual(['GR']);
+      expect(result.log.getValues('GR')[10]).toBeCloseTo(lasFile.log.getValues('GR')[12], 0);
+    }
+  });
+
+  it('should keep spikes related curves share as a formation event and replace isolated ones', async () => {
+    // A thin coal at sample 50, seen one sample lower on the sonic, and lone spikes on GR and the caliper
+    const data = Array.from({ length: 200 }, (_, i) => ({
+      depth: 1000 + i * 0.5,
+      RHOB: i === 50 ? 1.5 : 2.4 + i * 0.001,
+      NPHI: i === 50 ? 0.6 : 0.2 + i * 0.0005,
+      DT: i === 51 ? 120 : 80 + i * 0.01,
+      GR: i === 120 ? 400 : 60 + i * 0.05,
+      CALI: i === 50 ? 14 : 8.5
+    }));
+    const file = {
+      ...lasFile,
+      curves: ['RHOB', 'NPHI', 'DT', 'GR', 'CALI'].map(mnemonic => ({
+        ...lasFile.curves[0],
+        mnemonic,
+        curveType: mnemonic === 'CALI' ? 'caliper' as const : 'custom' as const
+      })),
+      log: WellLog.fromLASData(data, ['RHOB', 'NPHI', 'DT', 'GR', 'CALI'])
+    };
+
+    const steps: ProcessingStep[] = [];
+    const result = await pipeline.run(file, {
+      ...options,
+      denoise: { ...options.denoise, enabled: false },
+      despike: { ...options.despike, threshold: 3, consensus: { enabled: true } }
+    }, {
+      startStep: step => {
+        const recorded = { id: `step-${steps.length}`, timestamp: new Date(), ...step };
+        steps.push(recorded);
+        return recorded;
+      },
+      onCurve: () => undefined
+    });
+
+    const output = result.log.toLASData();
+    expect([output[50].RHOB, output[50].NPHI, output[51].DT]).toEqual([1.5, 0.6, 120]);
+    expect(output[120].GR).toBeCloseTo(66, 0);
+    expect(output[50].CALI).toBe(8.5);
+
+    const report = steps[0].results as unknown as SpikeReport;
+    expect(report).toMatchObject({ kept: 3, replaced: 2 });
+    expect(report.spikes.find(spike => spike.curve === 'RHOB')).toEqual({
+      curve: 'RHOB', depth: 1025, value: 1.5, kept: true, reason: 'corroborated', corroborating: ['NPHI', 'DT']
+    });
+    expect(report.spikes.find(spike => spike.curve === 'GR')).toMatchObject({ kept: false, reason: 'uncorroborated', replacement: output[120].GR });
+    expect(report.spikes.find(spike => spike.curve === 'CALI')).toMatchObject({ kept: false, reason: 'ungrouped' });
+    expect(steps[0].description).toContain('consensus');
+  });
+
+  it('should interpolate short gaps, predict long ones from correlated curves and flag both', async () => {
+    const rows = Array.from({ length: 200 }, (_, i) => {
+      const RHOB = 2.4 + 0.2 * Math.sin(i / 13);
+      const NPHI = 0.2 + 0.1 * Math.cos(i / 7);
+      const DT = 200 - 50 * RHOB + 100 * NPHI;
+      return { depth: 1000 + i * 0.5, RHOB, NPHI, DT };
+    });
+    const gapped = rows.map((row, i) => ({ ...row, DT: i === 20 || (i >= 100 && i < 130) ? null : row.DT }));
+    const file = {
+      ...lasFile,
+      curves: ['RHOB', 'NPHI', 'DT'].map(mnemonic => ({ ...lasFile.curves[0], mnemonic, curveType: 'custom' as const })),
+      log: WellLog.fromLASData(gapped, ['RHOB', 'NPHI', 'DT'])
+    };
+
+    const steps: ProcessingStep[] = [];
+    const result = await pipeline.run(file, {
+      ...options,
+      despike: { ...options.despike, enabled: false },
+      denoise: { ...options.denoise, enabled: false },
+      gapFill: { enabled: true, maxGapLength: 20, maxInterpolationLength: 1, interpolationMethod: 'pchip', regression: true }
+    }, {
+      startStep: step => {
+        const recorded = { id: `step-${steps.length}`, timestamp: new Date(), ...step };
+        steps.push(recorded);
+        return recorded;
+      },
+      onCurve: () => undefined
+    });
+
+    const summary = (steps[0].results!.filled as Record<string, GapFillSummary>).DT;
+    expect(summary).toMatchObject({ gaps: 2, interpolated: 1, predicted: 30, unfilled: 0 });
+    expect(summary.models[0].r2).toBeCloseTo(1, 6);
+    const output = result.log.toLASData();
+    expect(output[20].DT).toBeCloseTo(rows[20].DT, 2);
+    expect(output[115].DT).toBeCloseTo(rows[115].DT, 6);
+    expect([output[19].DT_FILL, output[20].DT_FILL, output[115].DT_FILL]).toEqual([0, 1, 2]);
+    expect(result.curves.map(c => c.mnemonic)).toEqual(['RHOB', 'NPHI', 'DT', 'DT_FILL']);
+    expect(steps[0].curvesAffected).toEqual(['DT', 'DT_FILL']);
+    expect(Object.keys(steps[0].inputs!)).toEqual(['RHOB', 'NPHI', 'DT']);
+    expect(steps[0].outputs!.DT_FILL).toMatchObject({ points: 200, nulls: 0, max: 2 });
+  });
+
+  it('should record the curves an earlier step added among those a later one changes', async () => {
+    const log = new WellLog(Array.from({ length: 40 }, (_, i) => 1000 + i * 0.5));
+    log.setCurve('GR', Array.from({ length: 40 }, (_, i) => (i === 10 ? null : 50 + i)));
+    const file = {
+      ...lasFile,
+      curves: [{ ...lasFile.curves[0], mnemonic: 'GR', curveType: 'gamma_ray' as const }],
+      log
+    };
+
+    const steps: ProcessingStep[] = [];
+    const result = await pipeline.run(file, {
+      ...options,
+      despike: { ...options.despike, enabled: false },
+      denoise: { ...options.denoise, enabled: false },
+      gapFill: { enabled: true, maxGapLength: 5, maxInterpolationLength: 5, interpolationMethod: 'linear', regression: false },
+      resample: { enabled: true, step: 0.25, method: 'linear' }
+    }, {
+      startStep: step => {
+        const recorded = { id: `step-${steps.length}`, timestamp: new Date(), ...step };
+        steps.push(recorded);
+        return recorded;
+      },
+      onCurve: () => undefined
+    });
+
+    expect(steps.map(step => step.operation)).toEqual(['gap_filling', 'resampling']);
+    expect(steps[1].curvesAffected).toEqual(['GR', 'GR_FILL']);
+    expect(Object.keys(steps[1].inputs!)).toEqual(['GR', 'GR_FILL']);
+    expect(steps[1].outputs!.GR_FILL.points).toBe(result.log.length);
+    expect(new Set(result.log.getValues('GR_FILL'))).toEqual(new Set([0, 1]));
+  });
+
+  it('should fit each curve\'s baseline by its own method and add the baseline as a curve', async () => {
+    // SP drifting 30 mV down the well, with sands deflecting 40 mV negative off the shale baseline
+    const drift = (i: number) => 30 * i / 400;
+    const data = Array.from({ length: 400 }, (_, i) => ({
+      depth: 1000 + i * 0.5,
+      SP: drift(i) - (Math.floor(i / 50) % 3 === 1 ? 40 : 0) + Math.sin(i) * 0.5,
+      GR: 60 + i * 0.1
+    }));
+    const file = {
+      ...lasFile,
+      curves: [
+        { ...lasFile.curves[0], mnemonic: 'SP', unit: 'MV', curveType: 'sp' as const },
+        { ...lasFile.curves[0], mnemonic: 'GR', curveType: 'gamma_ray' as const }
+      ],
+      log: WellLog.fromLASData(data, ['SP', 'GR'])
+    };
+
+    const steps: ProcessingStep[] = [];
+    const result = await pipeline.run(file, {
+      ...options,
+      despike: { ...options.despike, enabled: false },
+      denoise: { ...options.denoise, enabled: false },
+      baselineCorrection: {
+        enabled: true,
+        method: 'polynomial',
+        polynomialOrder: 1,
+        overrides: [{ mnemonic: 'SP', parameters: { method: 'als', lambda: 1e7, asymmetry: 0.99 } }]
+      }
+    }, {
+      startStep: step => {
+        const recorded = { id: `step-${steps.length}`, timestamp: new Date(), ...step };
+        steps.push(recorded);
+        return recorded;
+      },
+      onCurve: () => undefined
+    });
+
+    const output = result.log.toLASData();
+    [10, 200, 390].forEach(i => expect(Math.abs(output[i].SP_BL! - drift(i))).toBeLessThan(2));
+    expect(Math.abs(output[75].SP! + 40)).toBeLessThan(2);
+    expect(output[300].GR).toBeCloseTo(0, 6);
+    expect(result.curves.filter(c => c.dataType === 'computed').map(c => c.mnemonic)).toEqual(['SP_BL', 'GR_BL']);
+
+    const baselines = steps[0].results!.baselines as Record<string, BaselineFit>;
+    expect(baselines.SP).toEqual({ method: 'als', pointsProcessed: 400 });
+    expect(baselines.GR.polynomialCoefficients![1]).toBeCloseTo(0.1, 6);
+    expect(steps[0].curvesAffected).toEqual(['SP', 'GR', 'SP_BL', 'GR_BL']);
+  });
+
+  it('should add environmentally corrected curves using ~Parameter values and flag density on DRHO', async () => {
+    const file = {
+      ...lasFile,
+      curves: [
+        { ...lasFile.curves[0], mnemonic: 'GR', curveType: 'gamma_ray' as const },
+        { ...lasFile.curves[0], mnemonic: 'NPHI', unit: 'V/V', curveType: 'porosity' as const },
+        { ...lasFile.curves[0], mnemonic: 'RHOB', unit: 'G/C3', curveType: 'custom' as const },
+        { ...lasFile.curves[0], mnemonic: 'DRHO', unit: 'G/C3', curveType: 'custom' as const },
+        { ...lasFile.curves[0], mnemonic: 'CALI', unit: 'IN', curveType: 'caliper' as const }
+      ],
+      parameters: [
+        { mnemonic: 'BS', unit: 'IN', value: '8', description: 'Bit size' },
+        { mnemonic: 'MW', unit: 'LB/G', value: '10', description: 'Mud weight' }
+      ],
+      log: WellLog.fromLASData([8, 8, 12, 12, NaN].map((caliper, i) => ({
+        depth: 1000 + i * 0.5,
+        GR: 100,
+        NPHI: 0.2,
+        RHOB: 2.4,
+        DRHO: i === 3 ? 0.2 : 0.02,
+        CALI: isNaN(caliper) ? null : caliper
+      })), ['GR', 'NPHI', 'RHOB', 'DRHO', 'CALI'])
+    };
+
+    const steps: ProcessingStep[] = [];
+    const result = await pipeline.run(file, {
+      ...options,
+      despike: { ...options.despike, enabled: false },
+      denoise: { ...options.denoise, enabled: false },
+      environmentalCorrection: { enabled: true, gammaRay: true, neutron: true, densityValidation: true }
+    }, {
+      startStep: step => {
+        const recorded = { id: `step-${steps.length}`, timestamp: new Date(), ...step };
+        steps.push(recorded);
+        return recorded;
+      },
+      onCurve: () => undefined
+    });
+
+    // 8 in hole and 10 lb/gal mud are the reference conditions; the bit size stands in where the caliper is null
+    const output = result.log.toLASData();
+    [0, 1, 4].forEach(i => expect(output[i].GR_EC).toBeCloseTo(100, 10));
+    expect(output[2].GR_EC).toBeGreaterThan(110);
+    expect(output[0].NPHI_EC).toBeCloseTo(0.2, 10);
+    expect(output[2].NPHI_EC).toBeLessThan(0.18);
+    expect(output.map(row => row.RHOB_DQ)).toEqual([0, 0, 0, 1, 0]);
+    expect(output[2].GR).toBe(100);
+    expect(result.curves.filter(c => c.dataType === 'computed').map(c => c.mnemonic)).toEqual(['GR_EC', 'NPHI_EC', 'RHOB_DQ']);
+
+    const summary = steps[0].results as unknown as EnvironmentalCorrectionSummary;
+    expect(summary.sources).toEqual({ bitSize: '~Parameter BS', mudWeight: '~Parameter MW' });
+    expect(summary.density).toEqual([
+      { curve: 'RHOB', correctionCurve: 'DRHO', checked: 5, flagged: 1, intervals: [{ top: 1001.5, bottom: 1001.5 }] }
+    ]);
+    expect(summary.skipped).toEqual([]);
+    expect(steps[0].curvesAffected).toEqual(['GR_EC', 'NPHI_EC', 'RHOB_DQ']);
+    expect(steps[0].outputs!.RHOB_DQ).toMatchObject({ points: 5, max: 1 });
+  });
+
+  it('should resample to a new step and describe the new grid in the header', async () => {
+    const { result, steps } = await run(['resample'], {
+      despike: { ...options.despike, enabled: false },
+      denoise: { ...options.denoise, enabled: false },
+      resample: { enabled: true, step: 0.2, method: 'pchip' }
+    });
+
+    expect(steps[0].operation).toBe('resampling');
+    expect(result.header).toMatchObject({ startDepth: 1000, stopDepth: 1019.4, step: 0.2 });
+    expect(Array.from(result.log.depth.slice(0, 4))).toEqual([1000, 1000.2, 1000.4, 1000.6]);
+    expect(result.log.getValues('GR')[5]).toBeCloseTo(lasFile.log.getValues('GR')[2], 9);
+
+    const output = result.log.toLASData();
+    const written = new LASWriter().write({ ...lasFile, header: result.header, data: output });
+    const reparsed = (await new LASParser().parse(Buffer.from(written, 'utf8'), 'resampled.las')).data!;
+    expect(reparsed.header).toMatchObject({ startDepth: 1000, stopDepth: 1019.4, step: 0.2 });
+    expect(reparsed.log.toLASData()).toEqual(output);
+  });
+
+  it('should reject unknown and repeated steps', () => {
+    expect(validateStepOrder(undefined)).toEqual([]);
+    expect(validateStepOrder([...DEFAULT_STEP_ORDER])).toEqual([]);
+    expect(validateStepOrder(['despike', 'despike'])).toHaveLength(1);
+    expect(validateStepOrder(['normalize'])).toHaveLength(1);
+    expect(validateStepOrder('despike')).toHaveLength(1);
+    expect(() => pipeline.plan({ ...options, stepOrder: ['normalize' as 'despike'] })).toThrow('Unknown processing step');
+  });
+
+  it('should summarize curves longer than the call stack allows spreading', () => {
+    const log = new WellLog(Array.from({ length: 200000 }, (_, i) => i));
+    log.setCurve('GR', Array.from(log.depth, i => i % 1000));
+    expect(summarizeCurves(log, ['GR']).GR).toMatchObject({ points: 200000, min: 0, max: 999 });
+  });
+});
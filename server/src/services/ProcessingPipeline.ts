@@ -0,0 +1,414 @@
+/**
+ * POLISH Processing Pipeline
+ *
+ * The steps of a processing run that change curve data. Enabled steps run
+ * in the configured order, each taking the data the step before it
+ * produced, and each records a summary of the curves it read and wrote
+ * and which curves it actually changed.
+ */
+
+import { CurveProgressCallback, ProcessingAlgorithms, WellLog } from '../../../shared/src';
+import { CurveSummary, LASCurve, LASFile, LASHeader, ProcessingStep } from '../types';
+import { ProcessingOptions } from './ProcessingService';
+
+export type PipelineStepName =
+  | 'denoise'
+  | 'despike'
+  | 'depthAlignment'
+  | 'gapFill'
+  | 'baselineCorrection'
+  | 'environmentalCorrection'
+  | 'resample';
+
+/**
+ * Spikes are removed before depth matching and smoothing so they neither
+ * skew the correlation nor get smeared into the samples around them.
+ * Gaps are filled once curves are on depth with each other, so predictions
+ * from other curves line up. Environmental corrections are computed from
+ * the cleaned curves. Resampling comes last so every other step works on
+ * the recorded samples.
+ */
+export const DEFAULT_STEP_ORDER: PipelineStepName[] = [
+  'despike',
+  'depthAlignment',
+  'gapFill',
+  'denoise',
+  'baselineCorrection',
+  'environmentalCorrection',
+  'resample'
+];
+
+interface StepRun {
+  success: boolean;
+  log: WellLog;
+  /** Set by steps that change the depth index */
+  header?: LASHeader;
+  /** Set by steps that add curves */
+  curves?: LASCurve[];
+  message: string;
+  /** What the step measured, recorded on the step */
+  results?: Record<string, unknown>;
+}
+
+interface StepDefinition {
+  operation: string;
+  enabled(options: ProcessingOptions): boolean;
+  parameters(options: ProcessingOptions): Record<string, unknown>;
+  description(options: ProcessingOptions): string;
+  run(input: LASFile, options: ProcessingOptions, onCurve: CurveProgressCallback, referenceRun?: LASFile): Promise<StepRun>;
+}
+
+export interface PipelineHooks {
+  /** Record a step as started; returns the step as recorded */
+  startStep(step: Omit<ProcessingStep, 'id' | 'timestamp'>): ProcessingStep;
+  onCurve: CurveProgressCallback;
+}
+
+export interface PipelineResult {
+  log: WellLog;
+  /** The file's header, updated to describe the depths of `log` */
+  header: LASHeader;
+  /** The file's curves, with any the steps added */
+  curves: LASCurve[];
+  warnings: string[];
+  errors: string[];
+}
+
+/**
+ * Problems with a step order, or none when it is valid. Steps left out of
+ * the order run after the listed ones, in the default order.
+ */
+export function validateStepOrder(order: unknown): string[] {
+  if (order === undefined) return [];
+  if (!Array.isArray(order)) return ['Step order must be a list of step names'];
+
+  const errors: string[] = [];
+  order.forEach((name, index) => {
+    if (!DEFAULT_STEP_ORDER.includes(name)) {
+      errors.push(`Unknown processing step "${name}"; expected one of ${DEFAULT_STEP_ORDER.join(', ')}`);
+    } else if (order.indexOf(name) !== index) {
+      errors.push(`Processing step "${name}" is listed more than once`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * The curves whose values differ between two versions of the same data,
+ * including any that only one of them has
+ */
+export function changedCurves(before: WellLog, after: WellLog, mnemonics: string[]): string[] {
+  return mnemonics.filter(mnemonic => {
+    if (!before.hasCurve(mnemonic) || !after.hasCurve(mnemonic)) return true;
+    if (before.length !== after.length) return true;
+    const was = before.getValues(mnemonic);
+    const is = after.getValues(mnemonic);
+    // Null samples are NaN on both sides, which never equals itself
+    return was.some((value, i) => value !== is[i] && !(isNaN(value) && isNaN(is[i])));
+  });
+}
+
+/**
+ * Per-curve statistics of the non-null samples
+ */
+export function summarizeCurves(log: WellLog, mnemonics: string[]): Record<string, CurveSummary> {
+  const summary: Record<string, CurveSummary> = {};
+
+  for (const mnemonic of mnemonics) {
+    const values = log.getValidValues(mnemonic);
+    const mean = values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null;
+    const variance = mean === null ? null : values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+
+    // A loop rather than spreading into Math.min, which overflows the stack on long logs
+    let min = Infinity;
+    let max = -Infinity;
+    for (const value of values) {
+      if (value < min) min = value;
+      if (value > max) max = value;
+    }
+
+    summary[mnemonic] = {
+      points: values.length,
+      nulls: log.length - values.length,
+      mean,
+      stdDev: variance === null ? null : Math.sqrt(variance),
+      min: values.length > 0 ? min : null,
+      max: values.length > 0 ? max : null
+    };
+  }
+  return summary;
+}
+
+// Every curve with data in the log, recorded and computed, in file order
+function dataCurves(curves: LASCurve[], log: WellLog): string[] {
+  return curves.filter(c => c.dataType !== 'depth' && log.hasCurve(c.mnemonic)).map(c => c.mnemonic);
+}
+
+export class ProcessingPipeline {
+  private steps: Record<PipelineStepName, StepDefinition>;
+
+  constructor(private algorithms: ProcessingAlgorithms = new ProcessingAlgorithms()) {
+    this.steps = {
+      despike: {
+        operation: 'despiking',
+        enabled: options => options.despike.enabled,
+        parameters: options => ({
+          method: options.despike.method,
+          threshold: options.despike.threshold,
+          overrides: options.despike.overrides,
+          zones: options.despike.zones,
+          consensus: options.despike.consensus
+        }),
+        description: options => `Applying ${options.despike.method} spike detection` +
+          (options.despike.consensus?.enabled ? ' with multi-curve consensus' : ''),
+        run: async (input, options, onCurve) => {
+          const result = await this.algorithms.despike(input, options.despike, onCurve);
+          return {
+            success: result.success,
+            log: result.data.log,
+            message: result.success
+              ? `Despiking completed: ${result.spikesDetected} spikes detected` +
+                (result.report ? `, ${result.report.kept} kept as formation events, ${result.report.replaced} replaced` : '')
+              : 'Despiking failed',
+            results: result.report ? { ...result.report } : undefined
+          };
+        }
+      },
+      denoise: {
+        operation: 'denoising',
+        enabled: options => options.denoise.enabled,
+        parameters: options => ({
+          method: options.denoise.method,
+          windowSize: options.denoise.windowSize,
+          ...(options.denoise.method === 'wavelet' && {
+            waveletType: options.denoise.waveletType,
+            waveletLevel: options.denoise.waveletLevel,
+            waveletTransform: options.denoise.waveletTransform,
+            thresholdRule: options.denoise.thresholdRule,
+            thresholdMode: options.denoise.thresholdMode,
+            boundaryMode: options.denoise.boundaryMode
+          }),
+          overrides: options.denoise.overrides,
+          zones: options.denoise.zones
+        }),
+        description: options => `Applying ${options.denoise.method} denoising`,
+        run: async (input, options, onCurve) => {
+          const result = await this.algorithms.denoise(input, options.denoise, onCurve);
+          return {
+            success: result.success,
+            log: result.data.log,
+            message: result.success
+              ? `Denoising completed for ${Object.keys(result.metrics).length} curves`
+              : 'Denoising failed'
+          };
+        }
+      },
+      depthAlignment: {
+        operation: 'depth_matching',
+        enabled: options => Boolean(options.depthAlignment?.enabled),
+        parameters: options => ({
+          method: options.depthAlignment!.method || 'cross_correlation',
+          referenceCurve: options.depthAlignment!.referenceCurve,
+          referenceFileId: options.depthAlignment!.referenceFileId,
+          referenceDepth: options.depthAlignment!.referenceDepth,
+          shiftTolerance: options.depthAlignment!.shiftTolerance,
+          windowLength: options.depthAlignment!.windowLength,
+          autoCorrect: options.depthAlignment!.autoCorrect
+        }),
+        description: options => options.depthAlignment!.autoCorrect
+          ? 'Matching curve depths to the reference curve'
+          : 'Measuring depth shifts against the reference curve',
+        run: async (input, options, onCurve, referenceRun) => {
+          const result = await this.algorithms.depthMatch(input, options.depthAlignment!, onCurve, referenceRun);
+          return {
+            success: result.success,
+            log: result.data.log,
+            message: result.success
+              ? `Depth matching against ${result.referenceCurve} completed for ${Object.keys(result.shifts).length} curves`
+              : `Depth matching failed: ${result.error}`,
+            results: result.success ? { referenceCurve: result.referenceCurve, shifts: result.shifts } : undefined
+          };
+        }
+      },
+      gapFill: {
+        operation: 'gap_filling',
+        enabled: options => Boolean(options.gapFill?.enabled),
+        parameters: options => ({
+          maxGapLength: options.gapFill!.maxGapLength,
+          maxInterpolationLength: options.gapFill!.maxInterpolationLength,
+          interpolationMethod: options.gapFill!.interpolationMethod,
+          regression: options.gapFill!.regression,
+          predictors: options.gapFill!.predictors,
+          minR2: options.gapFill!.minR2
+        }),
+        description: options => options.gapFill!.regression
+          ? `Filling gaps by ${options.gapFill!.interpolationMethod} interpolation and regression on correlated curves`
+          : `Filling gaps by ${options.gapFill!.interpolationMethod} interpolation`,
+        run: async (input, options, onCurve) => {
+          const result = await this.algorithms.fillGaps(input, options.gapFill!, onCurve);
+          const samples = Object.values(result.filled).reduce((sum, f) => sum + f.interpolated + f.predicted, 0);
+          return {
+            success: result.success,
+            log: result.data.log,
+            curves: result.data.curves,
+            message: result.success
+              ? `Gap filling completed: ${samples} samples filled in ${Object.keys(result.filled).length} curves`
+              : 'Gap filling failed',
+            results: result.success ? { filled: result.filled } : undefined
+          };
+        }
+      },
+      baselineCorrection: {
+        operation: 'baseline_correction',
+        enabled: options => options.baselineCorrection.enabled,
+        parameters: options => ({
+          method: options.baselineCorrection.method,
+          ...(options.baselineCorrection.method === 'polynomial' && {
+            polynomialOrder: options.baselineCorrection.polynomialOrder
+          }),
+          ...(options.baselineCorrection.method === 'als' && {
+            lambda: options.baselineCorrection.lambda,
+            asymmetry: options.baselineCorrection.asymmetry
+          }),
+          ...(options.baselineCorrection.method === 'lowess' && { span: options.baselineCorrection.span }),
+          ...(options.baselineCorrection.method === 'piecewise' && { anchors: options.baselineCorrection.anchors }),
+          curves: options.baselineCorrection.curves,
+          overrides: options.baselineCorrection.overrides
+        }),
+        description: options => `Applying ${options.baselineCorrection.method} baseline correction`,
+        run: async (input, options, onCurve) => {
+          const result = await this.algorithms.baselineCorrection(input, options.baselineCorrection, onCurve);
+          return {
+            success: result.success,
+            log: result.data.log,
+            curves: result.data.curves,
+            message: result.success
+              ? `Baseline correction completed: ${Object.keys(result.metrics).length} curves corrected`
+              : `Baseline correction failed: ${result.error}`,
+            results: result.success ? { baselines: result.metrics } : undefined
+          };
+        }
+      },
+      environmentalCorrection: {
+        operation: 'environmental_correction',
+        enabled: options => Boolean(options.environmentalCorrection?.enabled),
+        parameters: options => ({
+          gammaRay: options.environmentalCorrection!.gammaRay,
+          neutron: options.environmentalCorrection!.neutron,
+          densityValidation: options.environmentalCorrection!.densityValidation,
+          parameters: options.environmentalCorrection!.parameters,
+          drhoLimit: options.environmentalCorrection!.drhoLimit
+        }),
+        description: () => 'Correcting for borehole environment',
+        run: async (input, options, onCurve) => {
+          const result = await this.algorithms.correctEnvironment(input, options.environmentalCorrection!, onCurve);
+          const corrected = Object.values(result.summary.corrected);
+          const flagged = result.summary.density.reduce((sum, d) => sum + d.flagged, 0);
+          return {
+            success: result.success,
+            log: result.data.log,
+            curves: result.data.curves,
+            message: result.success
+              ? `Environmental correction completed: ${corrected.length > 0 ? corrected.join(', ') : 'no curves'} added` +
+                (result.summary.density.length > 0 ? `, ${flagged} density samples flagged` : '')
+              : 'Environmental correction failed',
+            results: result.success ? { ...result.summary } : undefined
+          };
+        }
+      },
+      resample: {
+        operation: 'resampling',
+        enabled: options => Boolean(options.resample?.enabled),
+        parameters: options => ({
+          method: options.resample!.method,
+          step: options.resample!.step,
+          startDepth: options.resample!.startDepth,
+          stopDepth: options.resample!.stopDepth
+        }),
+        description: options => `Resampling to a ${options.resample!.step} depth step by ${options.resample!.method}`,
+        run: async (input, options, onCurve) => {
+          const result = await this.algorithms.resample(input, options.resample!, onCurve);
+          return {
+            success: result.success,
+            log: result.data.log,
+            header: result.data.header,
+            message: result.success
+              ? `Resampling completed: ${input.log.length} samples to ${result.data.log.length}`
+              : `Resampling failed: ${result.error}`
+          };
+        }
+      }
+    };
+  }
+
+  /**
+   * The enabled steps, in the order they will run
+   */
+  plan(options: ProcessingOptions): PipelineStepName[] {
+    const errors = validateStepOrder(options.stepOrder);
+    if (errors.length > 0) {
+      throw new Error(errors.join('; '));
+    }
+
+    const listed = options.stepOrder || [];
+    const order = [...listed, ...DEFAULT_STEP_ORDER.filter(name => !listed.includes(name))];
+    return order.filter(name => this.steps[name].enabled(options));
+  }
+
+  /**
+   * Run the enabled steps over the file's data. A step that fails leaves
+   * the data as it was and the next step carries on from there.
+   * `referenceRun` is the other logging run depth matching aligns to.
+   */
+  async run(
+    lasFile: LASFile,
+    options: ProcessingOptions,
+    hooks: PipelineHooks,
+    referenceRun?: LASFile
+  ): Promise<PipelineResult> {
+    const result: PipelineResult = {
+      log: lasFile.log,
+      header: lasFile.header,
+      curves: lasFile.curves,
+      warnings: [],
+      errors: []
+    };
+
+    for (const name of this.plan(options)) {
+      const definition = this.steps[name];
+      const curves = dataCurves(result.curves, result.log);
+      const step = hooks.startStep({
+        operation: definition.operation,
+        parameters: definition.parameters(options),
+        curvesAffected: curves,
+        description: definition.description(options)
+      });
+      step.inputs = summarizeCurves(result.log, curves);
+
+      const run = await definition.run(
+        { ...lasFile, header: result.header, curves: result.curves, log: result.log },
+        options,
+        hooks.onCurve,
+        referenceRun
+      );
+      if (run.results) {
+        step.results = run.results;
+      }
+      if (run.success) {
+        const outputCurves = dataCurves(run.curves || result.curves, run.log);
+        const removed = curves.filter(mnemonic => !outputCurves.includes(mnemonic));
+        step.curvesAffected = changedCurves(result.log, run.log, [...outputCurves, ...removed]);
+        result.log = run.log;
+        result.header = run.header || result.header;
+        result.curves = run.curves || result.curves;
+        step.outputs = summarizeCurves(run.log, outputCurves);
+        result.warnings.push(run.message);
+      } else {
+        step.curvesAffected = [];
+        result.errors.push(run.message);
+      }
+    }
+
+    return result;
+  }
+}
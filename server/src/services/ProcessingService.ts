@@ -4,10 +4,34 @@
  * This service orchestrates the processing pipeline for LAS files.
  */
 
-import { ProcessingAlgorithms } from '../utils/processingAlgorithms';
-import { MnemonicStandardizer } from '../utils/MnemonicStandardizer';
-import { LASParser } from '../utils/lasParser';
-import { LASFile, ProcessingStep, QCResults } from '../types';
+import { Readable } from 'stream';
+import {
+  BAD_HOLE_CURVE,
+  badHoleFlagCurve,
+  badHoleRecommendations,
+  BadHoleResult,
+  badHoleWeights,
+  BaselineCorrectionOptions,
+  CurveOverride,
+  DenoiseOptions,
+  DepthAlignmentOptions,
+  DepthZone,
+  DespikeOptions,
+  detectBadHole,
+  EnvironmentalCorrectionOptions,
+  GapFillOptions,
+  MnemonicStandardizer,
+  ResampleOptions,
+  SpikeConsensusOptions,
+  ParseDiagnostic,
+  ProcessingAlgorithms,
+  WellLog
+} from '../../../shared/src';
+import { LASParser, ParseOptions, ParseResult } from '../utils/lasParser';
+import { Database, getDatabase } from '../database';
+import { PipelineStepName, ProcessingPipeline } from './ProcessingPipeline';
+import { fileService } from './FileService';
+import { LASCurve, LASFile, ProcessingCertificate, ProcessingStep, QCResults, RecipeReference } from '../types';
 
 // Basic interfaces for the service
 export interface ProcessingOptions {
@@ -16,8 +40,16 @@ export interface ProcessingOptions {
     method: 'savitzky_golay' | 'wavelet' | 'moving_average' | 'gaussian';
     windowSize: number;
     polynomialOrder?: number;
+    waveletType?: DenoiseOptions['waveletType'];
+    waveletLevel?: number;
+    waveletTransform?: DenoiseOptions['waveletTransform'];
+    thresholdMode?: DenoiseOptions['thresholdMode'];
+    thresholdRule?: DenoiseOptions['thresholdRule'];
+    boundaryMode?: DenoiseOptions['boundaryMode'];
     strength: number;
     preserveSpikes: boolean;
+    overrides?: CurveOverride<DenoiseOptions>[];
+    zones?: DepthZone<DenoiseOptions>[];
   };
   despike: {
     enabled: boolean;
@@ -25,12 +57,16 @@ export interface ProcessingOptions {
     threshold: number;
     windowSize: number;
     replacementMethod: 'pchip' | 'linear' | 'median' | 'null';
+    overrides?: CurveOverride<DespikeOptions>[];
+    zones?: DepthZone<DespikeOptions>[];
+    consensus?: SpikeConsensusOptions;
   };
   validation: {
     enabled: boolean;
     physicalRanges: Record<string, { min: number; max: number }>;
     crossValidation: boolean;
     flagOutliers: boolean;
+    strictMode?: boolean; // reject files with error-severity parse diagnostics
   };
   mnemonics: {
     enabled: boolean;
@@ -38,11 +74,15 @@ export interface ProcessingOptions {
     autoStandardize: boolean;
     preserveOriginal: boolean;
   };
-  baselineCorrection: {
-    enabled: boolean;
-    method: 'polynomial';
-    polynomialOrder: number;
-  };
+  baselineCorrection: BaselineCorrectionOptions;
+  depthAlignment?: DepthAlignmentOptions;
+  gapFill?: GapFillOptions;
+  environmentalCorrection?: EnvironmentalCorrectionOptions;
+  resample?: ResampleOptions;
+  /** Order the data processing steps run in; see ProcessingPipeline */
+  stepOrder?: PipelineStepName[];
+  /** Set by the server when the options come from a recipe */
+  recipe?: RecipeReference;
 }
 
 export interface ProcessingResult {
@@ -52,38 +92,170 @@ export interface ProcessingResult {
   processingHistory: ProcessingStep[];
   errors?: string[];
   warnings?: string[];
+  diagnostics?: ParseDiagnostic[];
+  certificate?: ProcessingCertificate;
+  jobId?: string;
+  /** False when the failure came from the file itself, so running again would fail the same way */
+  retryable?: boolean;
   executionTime: number;
   memoryUsage: number;
 }
 
+/**
+ * Progress of a pipeline run. `operation` is the ProcessingStep operation
+ * and `progress` the overall percentage done.
+ */
+export type PipelineEvent =
+  | { type: 'step_started'; operation: string; progress: number }
+  | { type: 'curve_progress'; operation: string; progress: number; curve: string; completed: number; total: number }
+  | { type: 'step_finished'; operation: string; progress: number; curvesAffected: string[] };
+
+/**
+ * Lets a caller that already created the job record (such as a queue
+ * worker) follow and abort a pipeline run
+ */
+export interface PipelineControl {
+  /** Existing job to run under; a job is created when omitted */
+  jobId?: string;
+  /** Checked between steps; the run fails with the signal's reason once aborted */
+  signal?: AbortSignal;
+  onEvent?: (event: PipelineEvent) => void;
+}
+
+/**
+ * A failure caused by the file or its options rather than by the server,
+ * such as a file that won't parse
+ */
+export class ProcessingInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProcessingInputError';
+  }
+}
+
 export class ProcessingService {
   private algorithms: ProcessingAlgorithms;
+  private pipeline: ProcessingPipeline;
   private standardizer: MnemonicStandardizer;
   private parser: LASParser;
 
-  constructor() {
+  constructor(private database?: Database) {
     this.algorithms = new ProcessingAlgorithms();
+    this.pipeline = new ProcessingPipeline(this.algorithms);
     this.standardizer = new MnemonicStandardizer();
     this.parser = new LASParser();
   }
+
+  private get db(): Database {
+    return this.database || getDatabase();
+  }
   
   async processFile(
     fileBuffer: Buffer,
     fileName: string,
     options: ProcessingOptions,
-    userId: string
+    userId: string,
+    control: PipelineControl = {}
+  ): Promise<ProcessingResult> {
+    return this.runPipeline(
+      parseOptions => this.parser.parse(fileBuffer, fileName, parseOptions),
+      fileName,
+      options,
+      userId,
+      undefined,
+      control
+    );
+  }
+
+  /**
+   * Process a LAS file read from a stream.
+   *
+   * Unlike processFile, the file is never buffered as a whole, so files above
+   * the parser's default 100MB buffer limit can be processed.
+   */
+  async processStream(
+    stream: Readable,
+    fileName: string,
+    options: ProcessingOptions,
+    userId: string,
+    fileId?: string,
+    control: PipelineControl = {}
+  ): Promise<ProcessingResult> {
+    return this.runPipeline(
+      parseOptions => this.parser.parseStream(stream, fileName, parseOptions),
+      fileName,
+      options,
+      userId,
+      fileId,
+      control
+    );
+  }
+
+  private async runPipeline(
+    parseFile: (parseOptions: ParseOptions) => Promise<ParseResult>,
+    fileName: string,
+    options: ProcessingOptions,
+    userId: string,
+    fileId: string | undefined,
+    control: PipelineControl
   ): Promise<ProcessingResult> {
     const startTime = Date.now();
     const startMemory = this.getMemoryUsage();
     const processingHistory: ProcessingStep[] = [];
     const warnings: string[] = [];
     const errors: string[] = [];
+    let diagnostics: ParseDiagnostic[] = [];
+    let jobId = control.jobId;
+
+    // Parsing and both quality assessments always run; set once the options are checked
+    let plannedSteps = 3;
+
+    const progressOf = (stepsDone: number) => Math.round((stepsDone / plannedSteps) * 100);
+
+    // Starting a step finishes the one before it
+    const finishStep = () => {
+      const step = processingHistory[processingHistory.length - 1];
+      if (!step) return;
+      control.onEvent?.({
+        type: 'step_finished',
+        operation: step.operation,
+        progress: progressOf(processingHistory.length),
+        curvesAffected: step.curvesAffected
+      });
+    };
+
+    const startStep = (step: ProcessingStep) => {
+      finishStep();
+      control.signal?.throwIfAborted();
+      control.onEvent?.({ type: 'step_started', operation: step.operation, progress: progressOf(processingHistory.length) });
+      const recorded = options.recipe ? { ...step, recipe: options.recipe } : step;
+      processingHistory.push(recorded);
+      return recorded;
+    };
+
+    const onCurve = (curve: string, completed: number, total: number) => {
+      control.onEvent?.({
+        type: 'curve_progress',
+        operation: processingHistory[processingHistory.length - 1].operation,
+        progress: progressOf(processingHistory.length - 1 + completed / total),
+        curve,
+        completed,
+        total
+      });
+    };
     
     try {
       console.log(`Starting processing for file: ${fileName}, user: ${userId}`);
+      plannedSteps += (options.mnemonics.enabled ? 1 : 0) + this.pipeline.plan(options).length;
+
+      if (!jobId) {
+        const job = await this.db.jobs.create({ userId, fileId, fileName, options });
+        jobId = job.id;
+        await this.db.jobs.update(jobId, { status: 'processing', startedAt: new Date() });
+      }
 
       // Step 1: Parse LAS file
-      processingHistory.push({
+      startStep({
         id: this.generateStepId(),
         timestamp: new Date(),
         operation: 'file_parsing',
@@ -92,23 +264,24 @@ export class ProcessingService {
         description: 'Parsing LAS file structure and data'
       });
 
-      const parseResult = await this.parser.parse(fileBuffer, fileName, {
+      const parseResult = await parseFile({
         autoStandardizeMnemonics: options.mnemonics.enabled,
         mnemonicStandard: options.mnemonics.standard,
         preserveOriginalMnemonics: options.mnemonics.preserveOriginal,
         validatePhysicalRanges: options.validation.enabled,
-        strictMode: false
+        strictMode: options.validation.strictMode || false
       });
+      diagnostics = parseResult.diagnostics;
 
       if (!parseResult.success || !parseResult.data) {
-        throw new Error(`Parsing failed: ${parseResult.error}`);
+        throw new ProcessingInputError(`Parsing failed: ${parseResult.error}`);
       }
 
       let lasFile = parseResult.data;
       warnings.push(...parseResult.warnings);
 
       // Step 2: Initial Quality Assessment
-      processingHistory.push({
+      startStep({
         id: this.generateStepId(),
         timestamp: new Date(),
         operation: 'quality_assessment',
@@ -121,7 +294,7 @@ export class ProcessingService {
 
       // Step 3: Mnemonic Standardization (if enabled)
       if (options.mnemonics.enabled) {
-        processingHistory.push({
+        startStep({
           id: this.generateStepId(),
           timestamp: new Date(),
           operation: 'mnemonic_standardization',
@@ -137,6 +310,11 @@ export class ProcessingService {
         });
 
         if (standardizationResult.success) {
+          // The parsed log is this run's own, so its columns are renamed in place
+          standardizationResult.standardizedCurves.forEach((curve, i) => {
+            const mnemonic = lasFile.curves[i].mnemonic;
+            if (curve.mnemonic !== mnemonic) lasFile.log.renameCurve(mnemonic, curve.mnemonic);
+          });
           lasFile = {
             ...lasFile,
             curves: standardizationResult.standardizedCurves
@@ -147,71 +325,19 @@ export class ProcessingService {
         }
       }
 
-      // Step 4: Data Processing
-      let processedData = lasFile.data;
-
-      // Denoising
-      if (options.denoise.enabled) {
-        processingHistory.push({
-          id: this.generateStepId(),
-          timestamp: new Date(),
-          operation: 'denoising',
-          parameters: { method: options.denoise.method, windowSize: options.denoise.windowSize },
-          curvesAffected: lasFile.curves.filter(c => c.dataType === 'log').map(c => c.mnemonic),
-          description: `Applying ${options.denoise.method} denoising`
-        });
-
-        const denoiseResult = await this.algorithms.denoise(lasFile, options.denoise);
-        if (denoiseResult.success) {
-          processedData = denoiseResult.data.data;
-          warnings.push(`Denoising completed for ${Object.keys(denoiseResult.metrics).length} curves`);
-        } else {
-          errors.push('Denoising failed');
-        }
-      }
-
-      // Despiking
-      if (options.despike.enabled) {
-        processingHistory.push({
-          id: this.generateStepId(),
-          timestamp: new Date(),
-          operation: 'despiking',
-          parameters: { method: options.despike.method, threshold: options.despike.threshold },
-          curvesAffected: lasFile.curves.filter(c => c.dataType === 'log').map(c => c.mnemonic),
-          description: `Applying ${options.despike.method} spike detection`
-        });
-
-        const despikeResult = await this.algorithms.despike(lasFile, options.despike);
-        if (despikeResult.success) {
-          processedData = despikeResult.data.data;
-          warnings.push(`Despiking completed: ${despikeResult.spikesDetected} spikes detected`);
-        } else {
-          errors.push('Despiking failed');
-        }
-      }
-
-      // Baseline Correction
-      if (options.baselineCorrection.enabled) {
-        processingHistory.push({
-          id: this.generateStepId(),
-          timestamp: new Date(),
-          operation: 'baseline_correction',
-          parameters: { method: options.baselineCorrection.method },
-          curvesAffected: lasFile.curves.filter(c => c.dataType === 'log').map(c => c.mnemonic),
-          description: 'Applying baseline correction'
-        });
+      const referenceFileId = options.depthAlignment?.enabled ? options.depthAlignment.referenceFileId : undefined;
+      const referenceRun = referenceFileId ? await this.loadReferenceRun(referenceFileId, userId, options) : undefined;
 
-        const baselineResult = await this.algorithms.baselineCorrection(lasFile, options.baselineCorrection);
-        if (baselineResult.success) {
-          processedData = baselineResult.data.data;
-          warnings.push('Baseline correction completed');
-        } else {
-          errors.push('Baseline correction failed');
-        }
-      }
+      // Step 4: Data Processing, each step working on the previous step's output
+      const pipelineResult = await this.pipeline.run(lasFile, options, {
+        startStep: step => startStep({ id: this.generateStepId(), timestamp: new Date(), ...step }),
+        onCurve
+      }, referenceRun);
+      warnings.push(...pipelineResult.warnings);
+      errors.push(...pipelineResult.errors);
 
       // Step 5: Final Quality Assessment
-      processingHistory.push({
+      startStep({
         id: this.generateStepId(),
         timestamp: new Date(),
         operation: 'final_quality_assessment',
@@ -220,16 +346,23 @@ export class ProcessingService {
         description: 'Performing final quality assessment'
       });
 
+      const badHole = detectBadHole({ ...lasFile, curves: pipelineResult.curves, log: pipelineResult.log });
+      const curves = this.addBadHoleFlags(pipelineResult.curves, pipelineResult.log, badHole);
       const finalQC = this.performQualityAssessment({
         ...lasFile,
-        data: processedData
-      });
+        header: pipelineResult.header,
+        curves,
+        log: pipelineResult.log
+      }, badHole);
+      finishStep();
 
-      // Create processed file
+      // Create processed file; the header and curves describe the processed data
       const processedFile: LASFile = {
         ...lasFile,
+        header: pipelineResult.header,
+        curves,
+        log: pipelineResult.log,
         processed: true,
-        processedData: processedData,
         processingHistory,
         qcResults: finalQC
       };
@@ -241,12 +374,25 @@ export class ProcessingService {
 
       console.log(`Processing completed for ${fileName} in ${executionTime}ms`);
 
+      control.signal?.throwIfAborted();
+      await this.db.jobs.addSteps(jobId, processingHistory);
+      await this.db.jobs.update(jobId, {
+        // A caller running an existing job marks it completed once it has stored the result
+        ...(control.jobId ? {} : { status: 'completed', progress: 100, completedAt: new Date() }),
+        qualityBefore: initialQC.overallQualityScore,
+        qualityAfter: finalQC.overallQualityScore,
+        executionTime
+      });
+
       return {
         success: true,
         processedData: processedFile,
         qcResults: finalQC,
         processingHistory,
         warnings,
+        diagnostics,
+        certificate: this.generateProcessingCertificate(fileName, userId, processingHistory, initialQC, finalQC),
+        jobId,
         errors: errors.length > 0 ? errors : undefined,
         executionTime,
         memoryUsage
@@ -257,6 +403,11 @@ export class ProcessingService {
       const executionTime = endTime - startTime;
       
       console.error(`Processing failed for ${fileName}:`, error);
+
+      // A caller running an existing job decides itself whether the failure is final
+      if (jobId && !control.jobId) {
+        await this.recordFailure(jobId, processingHistory, error, executionTime);
+      }
       
       return {
         success: false,
@@ -265,6 +416,9 @@ export class ProcessingService {
         processingHistory,
         errors: [error instanceof Error ? error.message : 'Unknown error'],
         warnings,
+        diagnostics,
+        jobId,
+        retryable: !(error instanceof ProcessingInputError),
         executionTime,
         memoryUsage: 0
       };
@@ -272,29 +426,53 @@ export class ProcessingService {
   }
 
   /**
-   * Perform comprehensive quality assessment
+   * Parse another of the user's stored files, the logging run that depth
+   * matching aligns this one to
+   */
+  private async loadReferenceRun(fileId: string, userId: string, options: ProcessingOptions): Promise<LASFile> {
+    const file = await fileService.getFile(fileId, userId);
+    if (!file) {
+      throw new ProcessingInputError('Depth matching reference file not found');
+    }
+
+    const result = await this.parser.parseStream(await fileService.openOriginal(file), file.name, {
+      autoStandardizeMnemonics: options.mnemonics.enabled,
+      mnemonicStandard: options.mnemonics.standard
+    });
+    if (!result.success || !result.data) {
+      throw new ProcessingInputError(`Depth matching reference file could not be parsed: ${result.error}`);
+    }
+    return result.data;
+  }
+
+  /**
+   * Perform comprehensive quality assessment. Valid samples of curves
+   * affected by bad hole count only partly towards completeness.
    */
-  private performQualityAssessment(lasFile: LASFile): QCResults {
-    const totalPoints = lasFile.data.length;
+  private performQualityAssessment(lasFile: LASFile, badHole: BadHoleResult | null = detectBadHole(lasFile)): QCResults {
+    const { log } = lasFile;
+    const totalPoints = log.length;
     let nullPoints = 0;
     let spikesDetected = 0;
     let noiseLevel = 0;
     let depthConsistency = true;
 
-    // Calculate null points
-    for (const curve of lasFile.curves) {
-      if (curve.dataType === 'log') {
-        const nullCount = lasFile.data.filter(d => {
-          const value = d[curve.mnemonic];
-          return value === null || value === undefined || (typeof value === 'number' && isNaN(value));
-        }).length;
-        nullPoints += nullCount;
+    const logCurves = lasFile.curves.filter(c => c.dataType === 'log');
+
+    // Calculate null points, and how much bad hole discounts the valid ones
+    const badHoleDiscount: Record<string, number> = {};
+    for (const curve of logCurves) {
+      nullPoints += log.nullCount(curve.mnemonic);
+      const weights = badHoleWeights(badHole, curve.mnemonic);
+      if (weights) {
+        badHoleDiscount[curve.mnemonic] = weights.reduce((sum, w, i) => sum + (log.isNull(curve.mnemonic, i) ? 0 : 1 - w), 0);
       }
     }
+    const badHolePoints = Object.values(badHoleDiscount).reduce((sum, d) => sum + d, 0);
 
     // Check depth consistency
-    if (lasFile.data.length > 1) {
-      const depths = lasFile.data.map(d => d.depth);
+    if (log.length > 1) {
+      const depths = log.depth;
       const step = depths[1] - depths[0];
       
       for (let i = 1; i < depths.length; i++) {
@@ -307,7 +485,7 @@ export class ProcessingService {
     }
 
     // Calculate overall quality score
-    const completeness = ((totalPoints * lasFile.curves.length - nullPoints) / (totalPoints * lasFile.curves.length)) * 100;
+    const completeness = ((totalPoints * lasFile.curves.length - nullPoints - badHolePoints) / (totalPoints * lasFile.curves.length)) * 100;
     const overallQualityScore = Math.max(0, Math.min(100, completeness - noiseLevel));
 
     // Calculate curve quality
@@ -315,12 +493,14 @@ export class ProcessingService {
     for (const curve of lasFile.curves) {
       if (curve.statistics) {
         curveQuality[curve.mnemonic] = {
-          completeness: ((totalPoints - curve.statistics.nullCount) / totalPoints) * 100,
+          completeness: ((totalPoints - curve.statistics.nullCount - (badHoleDiscount[curve.mnemonic] || 0)) / totalPoints) * 100,
           noiseLevel: curve.statistics.std / Math.abs(curve.statistics.mean) * 100,
           spikes: curve.statistics.outliers,
           physicallyValid: true, // Would need physical validation logic
           qualityGrade: this.getQualityGrade(curve.statistics.qualityScore),
-          issues: []
+          issues: (badHole?.intervals || [])
+            .filter(interval => interval.curves.includes(curve.mnemonic))
+            .map(interval => `Bad hole from ${interval.top} to ${interval.bottom}`)
         };
       }
     }
@@ -343,10 +523,21 @@ export class ProcessingService {
         failed: 0,
         warnings: []
       },
-      recommendations: this.generateRecommendations(lasFile, overallQualityScore)
+      recommendations: [...this.generateRecommendations(lasFile, overallQualityScore), ...badHoleRecommendations(badHole)],
+      badHole: badHole?.intervals
     };
   }
 
+  /**
+   * Add the bad hole flag curve to a processed log, when bad hole could be
+   * checked, and return the curves that describe it
+   */
+  private addBadHoleFlags(curves: LASCurve[], log: WellLog, badHole: BadHoleResult | null): LASCurve[] {
+    if (!badHole) return curves;
+    log.setCurve(BAD_HOLE_CURVE, badHole.flags);
+    return [...curves.filter(c => c.mnemonic !== BAD_HOLE_CURVE), badHoleFlagCurve()];
+  }
+
   /**
    * Get quality grade from score
    */
@@ -373,7 +564,7 @@ export class ProcessingService {
       });
     }
 
-    if (lasFile.data.length < 100) {
+    if (lasFile.log.length < 100) {
       recommendations.push({
         type: 'info',
         message: 'Limited data points - may affect processing accuracy',
@@ -384,6 +575,29 @@ export class ProcessingService {
     return recommendations;
   }
 
+  /**
+   * Mark a job as failed. Errors here are only logged so they can't hide
+   * the processing error being reported.
+   */
+  private async recordFailure(
+    jobId: string,
+    history: ProcessingStep[],
+    error: unknown,
+    executionTime: number
+  ): Promise<void> {
+    try {
+      await this.db.jobs.addSteps(jobId, history);
+      await this.db.jobs.update(jobId, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        executionTime,
+        completedAt: new Date()
+      });
+    } catch (recordError) {
+      console.error(`Failed to record failure of job ${jobId}:`, recordError);
+    }
+  }
+
   private getMemoryUsage(): number {
     // Real memory usage calculation
     if (typeof process !== 'undefined' && process.memoryUsage) {
@@ -402,7 +616,7 @@ export class ProcessingService {
     history: ProcessingStep[],
     initialQC: QCResults,
     finalQC: QCResults
-  ) {
+  ): ProcessingCertificate {
     return {
       id: `POLISH_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       fileName,
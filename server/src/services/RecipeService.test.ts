@@ -0,0 +1,67 @@
+/**
+ * Tests for recipe validation and ownership
+ */
+
+import { RecipeService, RecipeValidationError } from './RecipeService';
+import { ProcessingOptions } from './ProcessingService';
+import { MemoryDatabase } from '../database/MemoryDatabase';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+const options = (): ProcessingOptions => ({
+  denoise: { enabled: true, method: 'savitzky_golay', windowSize: 11, polynomialOrder: 3, strength: 0.7, preserveSpikes: false },
+  despike: { enabled: true, method: 'hampel', threshold: 3, windowSize: 7, replacementMethod: 'pchip' },
+  validation: { enabled: true, physicalRanges: { GR: { min: 0, max: 300 } }, crossValidation: true, flagOutliers: true },
+  mnemonics: { enabled: true, standard: 'api', autoStandardize: true, preserveOriginal: true },
+  baselineCorrection: { enabled: false, method: 'polynomial', polynomialOrder: 2 },
+  stepOrder: ['despike', 'denoise']
+});
+
+describe('RecipeService', () => {
+  let recipes: RecipeService;
+
+  beforeEach(() => {
+    recipes = new RecipeService(new MemoryDatabase());
+  });
+
+  it('should version changes to a recipe\'s options', async () => {
+    const recipe = await recipes.create('u1', { name: ' Shale ', options: options() });
+    const changed = { ...options(), despike: { ...options().despike, threshold: 2.5 } };
+    const renamed = await recipes.update(recipe.id, 'u1', { name: 'Shale washouts' });
+    const updated = await recipes.update(recipe.id, 'u1', { options: changed });
+
+    expect(recipe.name).toBe('Shale');
+    expect(renamed?.version).toBe(1);
+    expect(updated?.version).toBe(2);
+    expect((await recipes.get(recipe.id, 'u1', 1))?.options).toEqual(options());
+    expect(await recipes.get(recipe.id, 'u2')).toBeUndefined();
+    expect(await recipes.update(recipe.id, 'u2', { name: 'Mine' })).toBeUndefined();
+  });
+
+  it('should reject options that do not match the schema', async () => {
+    const invalid = {
+      ...options(),
+      denoise: {
+        ...options().denoise,
+        windowSize: 10,
+        zones: [{ top: 1200, bottom: 1100, parameters: { strength: 2 } }]
+      },
+      stepOrder: ['despike', 'despike']
+    };
+
+    const error = await recipes.create('u1', { name: 'Broken', options: invalid }).catch(e => e);
+    expect(error).toBeInstanceOf(RecipeValidationError);
+    expect(error.message).toContain('"denoise.windowSize" must be odd');
+    expect(error.message).toContain('denoise.zones[0].bottom');
+    expect(error.message).toContain('denoise.zones[0].parameters.strength');
+    expect(error.message).toContain('stepOrder[1]');
+    await expect(recipes.create('u1', { name: '', options: options() })).rejects.toBeInstanceOf(RecipeValidationError);
+  });
+
+  it('should fill in options older clients leave out', async () => {
+    const legacy: Partial<ProcessingOptions> = options();
+    delete legacy.baselineCorrection;
+    const recipe = await recipes.create('u1', { name: 'Legacy', options: legacy });
+
+    expect((recipe.options as ProcessingOptions).baselineCorrection).toEqual({ enabled: false, method: 'polynomial', polynomialOrder: 2 });
+  });
+});
@@ -0,0 +1,244 @@
+/**
+ * POLISH Recipe Service
+ *
+ * Named, versioned processing options a user can run jobs with. Options
+ * are checked against the processing options schema before they are
+ * stored, and every change to a recipe's options adds a version, so the
+ * version recorded on a job's steps always reads back as it ran.
+ */
+
+import Joi from 'joi';
+import { Database, getDatabase, RecipeChanges, RecipeRecord } from '../database';
+import { ProcessingOptions } from './ProcessingService';
+import { BASELINE_METHODS, RESAMPLE_METHODS, WAVELET_NAMES } from '../../../shared/src';
+import { DEFAULT_STEP_ORDER } from './ProcessingPipeline';
+
+/**
+ * Raised when recipe input does not match the schema
+ */
+export class RecipeValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+export interface RecipeInput {
+  name: string;
+  description?: string;
+  options: unknown;
+}
+
+const CURVE_TYPES = ['gamma_ray', 'resistivity', 'porosity', 'caliper', 'sp', 'drilling', 'custom'];
+
+const windowSize = Joi.number().integer().min(3).max(21).custom((value, helpers) =>
+  value % 2 === 1 ? value : helpers.error('number.odd')
+).messages({ 'number.odd': '{{#label}} must be odd' });
+
+const denoiseParameters = {
+  method: Joi.string().valid('savitzky_golay', 'wavelet', 'moving_average', 'gaussian'),
+  windowSize,
+  polynomialOrder: Joi.number().integer().min(1).optional(),
+  waveletType: Joi.string().valid(...WAVELET_NAMES).optional(),
+  waveletLevel: Joi.number().integer().min(1).optional(),
+  waveletTransform: Joi.string().valid('dwt', 'swt').optional(),
+  thresholdMode: Joi.string().valid('soft', 'hard').optional(),
+  thresholdRule: Joi.string().valid('visushrink', 'sureshrink', 'bayesshrink').optional(),
+  boundaryMode: Joi.string().valid('symmetric', 'reflect', 'periodic', 'constant', 'zero').optional(),
+  strength: Joi.number().min(0).max(1),
+  preserveSpikes: Joi.boolean()
+};
+
+const despikeParameters = {
+  method: Joi.string().valid('hampel', 'modified_zscore', 'iqr', 'manual'),
+  threshold: Joi.number().positive(),
+  windowSize,
+  replacementMethod: Joi.string().valid('pchip', 'linear', 'median', 'null')
+};
+
+const baselineParameters = {
+  method: Joi.string().valid(...BASELINE_METHODS),
+  polynomialOrder: Joi.number().integer().min(1).max(6),
+  lambda: Joi.number().positive().optional(),
+  asymmetry: Joi.number().greater(0).less(1).optional(),
+  span: Joi.number().greater(0).max(1).optional(),
+  anchors: Joi.array().items(Joi.object({ depth: Joi.number(), value: Joi.number().optional() })).optional()
+};
+
+// Overrides and zones only change some parameters
+const curveParameters = (parameters: Joi.PartialSchemaMap) => {
+  const partial = Joi.object(parameters).prefs({ presence: 'optional' });
+  return {
+    overrides: Joi.array().optional().items(
+      Joi.object({
+        mnemonic: Joi.string().optional(),
+        curveType: Joi.string().valid(...CURVE_TYPES).optional(),
+        enabled: Joi.boolean().optional(),
+        parameters: partial.optional()
+      }).or('mnemonic', 'curveType')
+    ),
+    zones: Joi.array().optional().items(
+      Joi.object({
+        top: Joi.number(),
+        bottom: Joi.number().greater(Joi.ref('top')),
+        curves: Joi.array().items(Joi.string()).optional(),
+        parameters: partial
+      })
+    )
+  };
+};
+
+/** Every field is required unless marked optional */
+const processingOptionsSchema = Joi.object({
+  denoise: Joi.object({ enabled: Joi.boolean(), ...denoiseParameters, ...curveParameters(denoiseParameters) }),
+  despike: Joi.object({
+    enabled: Joi.boolean(),
+    ...despikeParameters,
+    manualSpikes: Joi.array().optional(),
+    ...curveParameters(despikeParameters),
+    consensus: Joi.object({
+      enabled: Joi.boolean(),
+      minCurves: Joi.number().integer().min(2).optional(),
+      depthTolerance: Joi.number().min(0).optional(),
+      groups: Joi.array().items(Joi.array().items(Joi.string()).min(1)).optional()
+    }).optional()
+  }),
+  validation: Joi.object({
+    enabled: Joi.boolean(),
+    physicalRanges: Joi.object().pattern(Joi.string(), Joi.object({ min: Joi.number(), max: Joi.number() })),
+    crossValidation: Joi.boolean(),
+    flagOutliers: Joi.boolean(),
+    strictMode: Joi.boolean().optional()
+  }),
+  mnemonics: Joi.object({
+    enabled: Joi.boolean(),
+    standard: Joi.string().valid('api', 'cwls', 'custom'),
+    autoStandardize: Joi.boolean(),
+    preserveOriginal: Joi.boolean(),
+    customMappings: Joi.object().pattern(Joi.string(), Joi.string()).optional()
+  }),
+  baselineCorrection: Joi.object({
+    enabled: Joi.boolean(),
+    ...baselineParameters,
+    curves: Joi.array().items(Joi.string()).optional(),
+    overrides: curveParameters(baselineParameters).overrides
+  }).optional().default({ enabled: false, method: 'polynomial', polynomialOrder: 2 }),
+  depthAlignment: Joi.object({
+    enabled: Joi.boolean(),
+    referenceDepth: Joi.number().min(0),
+    shiftTolerance: Joi.number().positive(),
+    autoCorrect: Joi.boolean(),
+    referenceCurve: Joi.string().optional(),
+    referenceFileId: Joi.string().optional(),
+    curves: Joi.array().items(Joi.string()).optional(),
+    method: Joi.string().valid('cross_correlation', 'dtw').optional(),
+    windowLength: Joi.number().positive().optional()
+  }).optional(),
+  gapFill: Joi.object({
+    enabled: Joi.boolean(),
+    maxGapLength: Joi.number().positive(),
+    maxInterpolationLength: Joi.number().min(0),
+    interpolationMethod: Joi.string().valid('linear', 'pchip'),
+    regression: Joi.boolean(),
+    curves: Joi.array().items(Joi.string()).optional(),
+    predictors: Joi.object().pattern(Joi.string(), Joi.array().items(Joi.string()).min(1)).optional(),
+    minR2: Joi.number().min(0).max(1).optional()
+  }).optional(),
+  environmentalCorrection: Joi.object({
+    enabled: Joi.boolean(),
+    gammaRay: Joi.boolean(),
+    neutron: Joi.boolean(),
+    densityValidation: Joi.boolean(),
+    parameters: Joi.object({
+      bitSize: Joi.number().positive().optional(),
+      mudWeight: Joi.number().min(0.8).max(2.6).optional(),
+      mudSalinity: Joi.number().min(0).max(300000).optional(),
+      standoff: Joi.number().min(0).optional()
+    }).optional(),
+    drhoLimit: Joi.number().positive().optional()
+  }).optional(),
+  resample: Joi.object({
+    enabled: Joi.boolean(),
+    step: Joi.number().positive(),
+    method: Joi.string().valid(...RESAMPLE_METHODS),
+    startDepth: Joi.number().optional(),
+    stopDepth: Joi.number().optional()
+  }).optional(),
+  stepOrder: Joi.array().items(Joi.string().valid(...DEFAULT_STEP_ORDER)).unique().optional()
+}).prefs({ presence: 'required' });
+
+/**
+ * Check a complete set of processing options, filling in defaults
+ */
+export function validateProcessingOptions(options: unknown): ProcessingOptions {
+  const { value, error } = processingOptionsSchema.validate(options, { abortEarly: false });
+  if (error) {
+    throw new RecipeValidationError(error.details.map(detail => detail.message).join('; '));
+  }
+  return value;
+}
+
+function validateName(name: unknown): string {
+  if (typeof name !== 'string' || name.trim().length === 0 || name.length > 100) {
+    throw new RecipeValidationError('Recipe name must be between 1 and 100 characters');
+  }
+  return name.trim();
+}
+
+export class RecipeService {
+  constructor(private database?: Database) {}
+
+  private get db(): Database {
+    return this.database || getDatabase();
+  }
+
+  /**
+   * Throws DuplicateRecordError when the user has a recipe with this name
+   */
+  async create(userId: string, input: RecipeInput): Promise<RecipeRecord> {
+    return this.db.recipes.create({
+      userId,
+      name: validateName(input.name),
+      description: input.description,
+      options: validateProcessingOptions(input.options)
+    });
+  }
+
+  /**
+   * Rename a recipe or store new options as its next version. Returns
+   * undefined when the recipe does not exist or belongs to someone else.
+   */
+  async update(id: string, userId: string, input: Partial<RecipeInput>): Promise<RecipeRecord | undefined> {
+    if (!(await this.get(id, userId))) return undefined;
+
+    const changes: RecipeChanges = {};
+    if (input.name !== undefined) changes.name = validateName(input.name);
+    if (input.description !== undefined) changes.description = input.description;
+    if (input.options !== undefined) changes.options = validateProcessingOptions(input.options);
+    return this.db.recipes.update(id, changes);
+  }
+
+  /**
+   * A user's recipe at its latest or the given version
+   */
+  async get(id: string, userId: string, version?: number): Promise<RecipeRecord | undefined> {
+    const recipe = await this.db.recipes.findById(id, version);
+    return recipe && recipe.userId === userId ? recipe : undefined;
+  }
+
+  list(userId: string): Promise<RecipeRecord[]> {
+    return this.db.recipes.listByUser(userId);
+  }
+
+  async listVersions(id: string, userId: string): Promise<RecipeRecord[] | undefined> {
+    if (!(await this.get(id, userId))) return undefined;
+    return this.db.recipes.listVersions(id);
+  }
+
+  async delete(id: string, userId: string): Promise<boolean> {
+    if (!(await this.get(id, userId))) return false;
+    return this.db.recipes.delete(id);
+  }
+}
+
+export const recipeService = new RecipeService();
@@ -0,0 +1,158 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import {
+  DEFAULT_PRESIGN_EXPIRY,
+  ObjectNotFoundError,
+  PresignOptions,
+  StorageBody,
+  StorageObjectInfo,
+  StorageProvider
+} from './types';
+
+export interface LocalStorageOptions {
+  /** Base URL that presigned URLs point at, e.g. `http://localhost:3001/api/storage` */
+  publicUrl: string;
+  /** Secret used to sign presigned URLs */
+  signingSecret: string;
+}
+
+/**
+ * Stores objects as files under a root directory on local disk.
+ *
+ * Presigned URLs point at the storage route, which checks the signature
+ * with verifyPresigned before serving or accepting the object.
+ */
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local';
+  private readonly root: string;
+
+  constructor(root: string, private options: LocalStorageOptions) {
+    this.root = path.resolve(root);
+  }
+
+  async put(key: string, body: StorageBody): Promise<number> {
+    const filePath = this.resolveKey(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+
+    let bytesWritten = 0;
+    const counter = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        bytesWritten += chunk.length;
+        callback(null, chunk);
+      }
+    });
+    const source = body instanceof Readable ? body : Readable.from([Buffer.from(body)]);
+
+    try {
+      await pipeline(source, counter, fs.createWriteStream(filePath));
+    } catch (error) {
+      // Don't leave a partial file behind
+      await fs.promises.rm(filePath, { force: true });
+      throw error;
+    }
+
+    return bytesWritten;
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.promises.readFile(this.resolveKey(key));
+    } catch (error) {
+      throw this.translateError(key, error);
+    }
+  }
+
+  async stream(key: string): Promise<Readable> {
+    const filePath = this.resolveKey(key);
+    try {
+      await fs.promises.access(filePath, fs.constants.R_OK);
+    } catch (error) {
+      throw this.translateError(key, error);
+    }
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.promises.rm(filePath, { force: true });
+
+    // Remove directories left empty, up to the root
+    let dir = path.dirname(filePath);
+    while (dir !== this.root && dir.startsWith(this.root)) {
+      const entries = await fs.promises.readdir(dir).catch(() => null);
+      if (!entries || entries.length > 0) break;
+      await fs.promises.rmdir(dir);
+      dir = path.dirname(dir);
+    }
+  }
+
+  async list(prefix = ''): Promise<StorageObjectInfo[]> {
+    // Only walk the directory the prefix points into
+    const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    const objects: StorageObjectInfo[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const entryPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+        } else if (entry.isFile()) {
+          const key = path.relative(this.root, entryPath).split(path.sep).join('/');
+          if (!key.startsWith(prefix)) continue;
+          const stats = await fs.promises.stat(entryPath);
+          objects.push({ key, size: stats.size, lastModified: stats.mtime });
+        }
+      }
+    };
+
+    await walk(prefixDir ? this.resolveKey(prefixDir) : this.root);
+    return objects.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0));
+  }
+
+  async presign(key: string, options: PresignOptions = {}): Promise<string> {
+    this.resolveKey(key);
+    const method = options.method || 'GET';
+    const expires = Math.floor(Date.now() / 1000) + (options.expiresIn ?? DEFAULT_PRESIGN_EXPIRY);
+    const signature = this.signature(key, method, expires);
+    const encodedKey = key.split('/').map(encodeURIComponent).join('/');
+
+    return `${this.options.publicUrl}/${encodedKey}?method=${method}&expires=${expires}&signature=${signature}`;
+  }
+
+  /**
+   * Check a signature produced by presign. Expired URLs are rejected.
+   */
+  verifyPresigned(key: string, method: string, expires: number, signature: string): boolean {
+    if (!Number.isFinite(expires) || expires * 1000 < Date.now()) return false;
+
+    const expected = Buffer.from(this.signature(key, method, expires), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+  }
+
+  private signature(key: string, method: string, expires: number): string {
+    return crypto
+      .createHmac('sha256', this.options.signingSecret)
+      .update(`${method}\n${key}\n${expires}`)
+      .digest('hex');
+  }
+
+  private translateError(key: string, error: unknown): unknown {
+    return (error as NodeJS.ErrnoException).code === 'ENOENT' ? new ObjectNotFoundError(key) : error;
+  }
+
+  /**
+   * Map a key to a path under the root, rejecting keys that escape it
+   */
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key "${key}"`);
+    }
+    return filePath;
+  }
+}
@@ -0,0 +1,33 @@
+import { config } from '../config';
+import { LocalStorageProvider } from './LocalStorageProvider';
+import { S3StorageProvider } from './S3StorageProvider';
+import { StorageProvider } from './types';
+
+let storageProvider: StorageProvider | null = null;
+
+/**
+ * The provider selected by `config.storage.provider`, created on first use
+ */
+export function getStorageProvider(): StorageProvider {
+  if (!storageProvider) {
+    storageProvider = createStorageProvider(config.storage.provider);
+  }
+  return storageProvider;
+}
+
+export function createStorageProvider(provider: string): StorageProvider {
+  switch (provider) {
+    case 'local':
+      return new LocalStorageProvider(config.storage.uploadPath, {
+        publicUrl: config.storage.publicUrl,
+        signingSecret: config.storage.signingSecret
+      });
+    case 's3':
+      return new S3StorageProvider(config.storage.s3);
+    default:
+      throw new Error(`Unsupported storage provider "${provider}"`);
+  }
+}
+
+export * from './types';
+export { LocalStorageProvider, S3StorageProvider };
@@ -0,0 +1,51 @@
+import { Readable } from 'stream';
+
+export type StorageBody = Readable | Buffer | string;
+
+export interface PutOptions {
+  contentType?: string;
+}
+
+export interface PresignOptions {
+  /** Lifetime of the URL in seconds (default 900) */
+  expiresIn?: number;
+  method?: 'GET' | 'PUT';
+}
+
+export interface StorageObjectInfo {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+/**
+ * Backend that uploaded files and generated artifacts are written to. Keys
+ * are slash-separated paths such as `uploads/<fileId>/original.las`.
+ */
+export interface StorageProvider {
+  readonly name: string;
+  /** Write an object under `key`, returning the number of bytes stored */
+  put(key: string, body: StorageBody, options?: PutOptions): Promise<number>;
+  /** Read a whole object into memory */
+  get(key: string): Promise<Buffer>;
+  /** Open an object for reading */
+  stream(key: string): Promise<Readable>;
+  /** Delete an object; deleting a missing object is not an error */
+  delete(key: string): Promise<void>;
+  /** Objects whose key starts with `prefix`, sorted by key */
+  list(prefix?: string): Promise<StorageObjectInfo[]>;
+  /** A time-limited URL that can be used to read or write `key` without credentials */
+  presign(key: string, options?: PresignOptions): Promise<string>;
+}
+
+/**
+ * Raised by get/stream when no object exists under the key
+ */
+export class ObjectNotFoundError extends Error {
+  constructor(key: string) {
+    super(`Object "${key}" not found`);
+    this.name = 'ObjectNotFoundError';
+  }
+}
+
+export const DEFAULT_PRESIGN_EXPIRY = 900;
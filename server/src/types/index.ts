@@ -4,72 +4,66 @@
  * Core type definitions for the POLISH application.
  */
 
-export interface LASFile {
-  id: string;
-  name: string;
-  size: number;
-  uploadedAt: Date;
-  processed: boolean;
-  version: string;
-  header: LASHeader;
-  curves: LASCurve[];
-  data: LASData[];
-  originalData?: LASData[];
-  processedData?: LASData[];
+import {
+  BadHoleInterval,
+  DenoiseOptions,
+  LASCurve,
+  LASData,
+  LASFile as ParsedLASFile,
+  LASHeader,
+  LASHeaderItem
+} from '../../../shared/src';
+
+export type {
+  LASCurve,
+  LASData,
+  LASDataSet,
+  LASDelimiter,
+  LASHeader,
+  LASHeaderItem
+} from '../../../shared/src';
+
+export interface LASFile extends ParsedLASFile {
   displayOriginalData?: boolean;
   qcResults?: QCResults;
   processingHistory?: ProcessingStep[];
   exportStatus?: 'free' | 'premium' | 'exported';
-  qualityScore?: number;
 }
 
-export interface LASHeader {
-  version: string;
-  wrap: boolean;
-  startDepth: number;
-  stopDepth: number;
-  step: number;
-  nullValue: number;
-  company: string;
-  well: string;
-  field: string;
-  location: string;
-  date: string;
-  uwi: string;
-  serviceCompany?: string;
-  logDate?: string;
-  elevation?: number;
+/**
+ * A LAS file with its curve data as rows, the form it is exchanged with
+ * the browser in
+ */
+export interface LASFileRows extends Omit<LASFile, 'log'> {
+  data: LASData[];
+  originalData?: LASData[];
+  processedData?: LASData[];
 }
 
-export interface LASCurve {
-  mnemonic: string;
-  unit: string;
-  description: string;
-  standardMnemonic?: string;
-  dataType: 'depth' | 'log' | 'computed';
-  curveType: 'gamma_ray' | 'resistivity' | 'porosity' | 'caliper' | 'sp' | 'drilling' | 'custom';
-  track: number;
-  color: string;
-  scale: 'linear' | 'logarithmic';
-  minValue?: number;
-  maxValue?: number;
-  visible: boolean;
-  statistics?: {
-    min: number;
-    max: number;
-    mean: number;
-    std: number;
-    nullCount: number;
-    outliers: number;
+/**
+ * An uploaded LAS file held by the storage provider, with the metadata
+ * parsed from it at upload time. Curve data stays in storage.
+ */
+export interface StoredFile {
+  id: string;
+  userId: string;
+  name: string;
+  size: number;
+  mimeType: string;
+  storageKey: string;
+  uploadedAt: Date;
+  metadata: {
+    version: string;
+    header: LASHeader;
+    curves: LASCurve[];
+    wellItems: LASHeaderItem[];
+    parameters: LASHeaderItem[];
+    rowCount: number;
     qualityScore: number;
+    warnings: string[];
   };
 }
 
-export interface LASData {
-  depth: number;
-  [key: string]: number | null;
-}
-
 export interface QCResults {
   totalPoints: number;
   nullPoints: number;
@@ -90,6 +84,8 @@ export interface QCResults {
     warnings: string[];
   };
   recommendations: QCRecommendation[];
+  /** Washed out or poor pad contact intervals; absent when there was no caliper or DRHO to judge by */
+  badHole?: BadHoleInterval[];
 }
 
 export interface CurveQuality {
@@ -115,6 +111,45 @@ export interface ProcessingStep {
   parameters: Record<string, any>;
   curvesAffected: string[];
   description: string;
+  /** Per-curve summary of the data the step was given */
+  inputs?: Record<string, CurveSummary>;
+  /** Per-curve summary of the data the step produced; absent when it failed */
+  outputs?: Record<string, CurveSummary>;
+  /** What the step measured, such as the depth shifts it found */
+  results?: Record<string, unknown>;
+  /** The recipe version whose options the run used */
+  recipe?: RecipeReference;
+}
+
+export interface RecipeReference {
+  id: string;
+  version: number;
+}
+
+/**
+ * Statistics of one curve's non-null samples
+ */
+export interface CurveSummary {
+  points: number;
+  nulls: number;
+  mean: number | null;
+  stdDev: number | null;
+  min: number | null;
+  max: number | null;
+}
+
+export interface ProcessingCertificate {
+  id: string;
+  fileName: string;
+  userId: string;
+  timestamp: Date;
+  version: string;
+  processingSteps: number;
+  qualityImprovement: number;
+  initialQuality: number;
+  finalQuality: number;
+  algorithms: string[];
+  signature: string;
 }
 
 export interface ProcessingOptions {
@@ -123,7 +158,12 @@ export interface ProcessingOptions {
     method: 'savitzky_golay' | 'wavelet' | 'moving_average' | 'gaussian';
     windowSize: number;
     polynomialOrder?: number;
-    waveletType?: string;
+    waveletType?: DenoiseOptions['waveletType'];
+    waveletLevel?: number;
+    waveletTransform?: DenoiseOptions['waveletTransform'];
+    thresholdMode?: DenoiseOptions['thresholdMode'];
+    thresholdRule?: DenoiseOptions['thresholdRule'];
+    boundaryMode?: DenoiseOptions['boundaryMode'];
     strength: number;
     preserveSpikes: boolean;
   };
@@ -9,8 +9,10 @@
  * - Industry-standard compliance
  */
 
+import { Readable } from 'stream';
 import { LASParser, ParseOptions } from './lasParser';
-import { MnemonicStandardizer } from './MnemonicStandardizer';
+import { LASStreamParser, LASDataChunk } from './lasStreamParser';
+import { MnemonicStandardizer, WellLogBuilder } from '../../../shared/src';
 import { describe, it, expect, beforeEach } from '@jest/globals';
 
 describe('LAS Parser - Enterprise Test Suite', () => {
@@ -153,7 +155,7 @@ MUD .G/CC                    1.25:        Mud Weight
       expect(lasFile.curves.find(c => c.mnemonic === 'RT')).toBeDefined();
 
       // Verify data quality
-      expect(lasFile.data.length).toBeGreaterThan(30);
+      expect(lasFile.log.length).toBeGreaterThan(30);
       expect(lasFile.qualityScore).toBeGreaterThan(70);
 
       // Verify curve statistics
@@ -283,7 +285,7 @@ MUD .G/CC                    1.45:        Mud Weight
       expect(lasFile.header.field).toBe('Thunder Horse Field');
       
       // Verify data parsing with comma delimiter
-      expect(lasFile.data.length).toBeGreaterThan(20);
+      expect(lasFile.log.length).toBeGreaterThan(20);
       expect(lasFile.curves.length).toBe(11);
       
       // Verify high-temperature, high-pressure conditions
@@ -291,6 +293,425 @@ MUD .G/CC                    1.45:        Mud Weight
     });
   });
 
+  describe('LAS 3.0 Section Sets and Delimiters', () => {
+    const las3GroupedContent = `~Version
+VERS.                 3.0 : CWLS LOG ASCII STANDARD - VERSION 3.0
+WRAP.                  NO : One line per depth step
+DLM .               COMMA : Column delimiter
+~Well
+STRT.M             1500.0 : First Index Value
+STOP.M             1500.4 : Last Index Value
+STEP.M                0.2 : Step
+NULL.             -999.25 : Null Value
+WELL.         Offshore A-7 : Well
+~Parameter
+BHT .DEGC            92.0 : Bottom Hole Temperature
+BS  .MM             215.9 : Bit Size
+~Log_Definition
+DEPT.M                    : Depth {F}
+GR  .GAPI                 : Gamma Ray {F}
+RHOB.G/CM3                : Bulk Density {F}
+~Log_Data | Log_Definition
+1500.0, 45.1, 2.41
+1500.2, -999.25, 2.43
+1500.4, 51.7, 2.45
+~Core_Parameter
+C_SRS.              CONV : Core Source
+~Core_Definition
+CORT.M                    : Core Top Depth {F}
+CORB.M                    : Core Bottom Depth {F}
+PHI .%                    : Core Porosity {F}
+LITH.                     : Lithology {S}
+~Core_Data | Core_Definition
+1500.0, 1500.2, 18.5, "Fine sandstone, laminated"
+1500.2, 1500.4, -999.25, "Shale"
+~Tops_Definition
+TOPT.M                    : Top Depth {F}
+TOPN.                     : Formation Name {S}
+~Tops_Data | Tops_Definition
+1500.1, "Brent Group"
+~Other
+Core analysis by Example Labs.
+Tops picked from offset well correlation.`;
+
+    it('should expose parameter, other and data set sections separately', async () => {
+      const result = await parser.parse(Buffer.from(las3GroupedContent, 'utf8'), 'grouped.las');
+
+      expect(result.success).toBe(true);
+      const lasFile = result.data!;
+
+      expect(lasFile.header.delimiter).toBe('COMMA');
+      expect(lasFile.header.startDepth).toBe(1500.0);
+      expect(lasFile.header.depthUnit).toBe('M');
+      expect(lasFile.curves.map(c => c.mnemonic)).toEqual(['GR', 'RHOB']);
+      expect(lasFile.curves[0].unit).toBe('GAPI');
+      expect(lasFile.log.length).toBe(3);
+      expect(lasFile.log.isNull('GR', 1)).toBe(true);
+      expect(lasFile.log.getValues('RHOB')[2]).toBe(2.45);
+
+      expect(lasFile.parameters!.map(p => p.mnemonic)).toEqual(['BHT', 'BS']);
+      expect(lasFile.parameters![1]).toMatchObject({ unit: 'MM', value: '215.9', description: 'Bit Size' });
+      expect(lasFile.otherInformation).toBe(
+        'Core analysis by Example Labs.\nTops picked from offset well correlation.'
+      );
+
+      const core = lasFile.dataSets!.find(d => d.name === 'Core')!;
+      expect(core.parameters[0]).toMatchObject({ mnemonic: 'C_SRS', value: 'CONV' });
+      expect(core.definitions.map(d => d.mnemonic)).toEqual(['CORT', 'CORB', 'PHI', 'LITH']);
+      expect(core.definitions[3].format).toBe('S');
+      expect(core.rows).toEqual([
+        [1500.0, 1500.2, 18.5, 'Fine sandstone, laminated'],
+        [1500.2, 1500.4, null, 'Shale']
+      ]);
+
+      const tops = lasFile.dataSets!.find(d => d.name === 'Tops')!;
+      expect(tops.rows).toEqual([[1500.1, 'Brent Group']]);
+    });
+
+    it('should split data on TAB delimiters', async () => {
+      const tabContent = las3GroupedContent
+        .replace('DLM .               COMMA', 'DLM .                 TAB')
+        .replace(/^(\d[^\n]*)$/gm, line => line.replace(/, /g, '\t'));
+
+      const result = await parser.parse(Buffer.from(tabContent, 'utf8'), 'grouped_tab.las');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.header.delimiter).toBe('TAB');
+      expect(result.data!.log.toLASData()[0]).toEqual({ depth: 1500.0, GR: 45.1, RHOB: 2.41 });
+      expect(result.data!.dataSets!.find(d => d.name === 'Tops')!.rows).toEqual([[1500.1, 'Brent Group']]);
+    });
+
+    it('should keep ~Other text and ~Parameter lines out of curves and data', async () => {
+      const las2Content = `~Version Information
+VERS.   2.0 : CWLS log ASCII Standard -VERSION 2.0
+WRAP.    NO : One line per depth step
+~Well Information
+STRT.F  100.0 : START DEPTH
+STOP.F  101.0 : STOP DEPTH
+STEP.F    0.5 : STEP
+NULL. -999.25 : NULL VALUE
+~Curve Information
+DEPT.F        : Depth
+GR  .GAPI     : Gamma Ray
+~Parameter Information
+MUD .G/CC 1.25 : Mud Weight
+~Other Information
+Logged through casing below 100.5 ft
+~A  DEPT  GR
+100.0  40.0
+100.5  42.0
+101.0  44.0`;
+
+      const result = await parser.parse(Buffer.from(las2Content, 'utf8'), 'las2_other.las');
+
+      expect(result.success).toBe(true);
+      const lasFile = result.data!;
+      expect(lasFile.curves.map(c => c.mnemonic)).toEqual(['GR']);
+      expect(lasFile.log.toLASData().map(d => d.depth)).toEqual([100.0, 100.5, 101.0]);
+      expect(lasFile.parameters).toHaveLength(1);
+      expect(lasFile.otherInformation).toBe('Logged through casing below 100.5 ft');
+      expect(lasFile.dataSets).toEqual([]);
+    });
+  });
+
+  describe('Wrapped Mode Data', () => {
+    const wrappedHeader = `~Version Information
+VERS.   1.2 : CWLS LOG ASCII STANDARD - VERSION 1.2
+WRAP.   YES : Multiple lines per depth step
+~Well Information
+STRT.F  910.0 : START DEPTH
+STOP.F  909.0 : STOP DEPTH
+STEP.F   -0.5 : STEP
+NULL. -999.25 : NULL VALUE
+~Curve Information
+DEPT.F        : Depth
+GR  .GAPI     : Gamma Ray
+NPHI.V/V      : Neutron Porosity
+RHOB.G/CC     : Bulk Density
+RT  .OHMM     : Deep Resistivity
+CALI.IN       : Caliper
+~A`;
+
+    it('should reassemble records spread over several lines', async () => {
+      const content = `${wrappedHeader}
+910.0
+  45.2   0.15   2.35
+  12.5   8.50
+909.5
+  47.8   0.12   2.42
+  -999.25   8.40
+909.0
+  52.1   0.08   2.58   18.7
+  8.30`;
+
+      const result = await parser.parse(Buffer.from(content, 'utf8'), 'wrapped.las');
+
+      expect(result.success).toBe(true);
+      expect(result.warnings).toEqual([]);
+      const lasFile = result.data!;
+      expect(lasFile.header.wrap).toBe(true);
+      expect(lasFile.log.toLASData()).toEqual([
+        { depth: 910.0, GR: 45.2, NPHI: 0.15, RHOB: 2.35, RT: 12.5, CALI: 8.5 },
+        { depth: 909.5, GR: 47.8, NPHI: 0.12, RHOB: 2.42, RT: null, CALI: 8.4 },
+        { depth: 909.0, GR: 52.1, NPHI: 0.08, RHOB: 2.58, RT: 18.7, CALI: 8.3 }
+      ]);
+    });
+
+    it('should warn with line numbers for malformed wrapped records', async () => {
+      const content = `${wrappedHeader}
+910.0
+  45.2   0.15   2.35
+  12.5   8.50   99.9
+909.5
+  47.8   0.12   2.42
+  15.2   8.40
+909.0
+  52.1   0.08`;
+
+      const result = await parser.parse(Buffer.from(content, 'utf8'), 'wrapped_bad.las');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.log.toLASData().map(d => d.depth)).toEqual([909.5]);
+      expect(result.warnings).toHaveLength(4);
+      expect(result.warnings[0]).toContain('Line 19');
+      expect(result.warnings[0]).toContain('starting at line 17');
+      expect(result.warnings[1]).toContain('Line 23');
+      expect(result.warnings[1]).toContain('incomplete wrapped record');
+      // Skipping the first and last records leaves STRT and STOP unmatched
+      expect(result.warnings[2]).toContain('STRT is 910');
+      expect(result.warnings[3]).toContain('STOP is 909');
+    });
+  });
+
+  describe('Parse Diagnostics', () => {
+    const header = `~Version Information
+VERS.   2.0 : CWLS LOG ASCII STANDARD
+WRAP.   NO  : One line per depth step
+~Well Information
+STRT.M  1000.0 : START DEPTH
+STOP.M  1001.0 : STOP DEPTH
+STEP.M  0.5    : STEP
+NULL.   -999.25 : NULL VALUE
+~Curve Information
+DEPT.M   : Depth
+GR  .GAPI : Gamma Ray
+RHOB.G/CC : Bulk Density
+~A`;
+
+    it('should report short rows with line, column, section and suggested fix', async () => {
+      const content = `${header}
+1000.0  45.2  2.35
+  1000.5  47.8
+1001.0  52.1  2.58`;
+
+      const result = await parser.parse(Buffer.from(content, 'utf8'), 'short_row.las');
+
+      expect(result.success).toBe(true);
+      expect(result.data!.log.toLASData()[1].RHOB).toBeNull();
+      expect(result.diagnostics).toEqual([
+        expect.objectContaining({
+          severity: 'error',
+          code: 'ROW_TOO_SHORT',
+          line: 15,
+          column: 15,
+          section: '~A',
+          suggestion: expect.stringContaining('missing values')
+        })
+      ]);
+      expect(result.warnings[0]).toMatch(/^Line 15, column 15: data row has 2 values, expected 3/);
+    });
+
+    it('should skip rows whose index is not a number in both parsers', async () => {
+      const content = `${header}
+1000.0  45.2  2.35
+DEPTH?  47.8  2.42
+1000.5  52.1  2.58
+1001.0  55.0  2.61`;
+
+      const buffered = await parser.parse(Buffer.from(content, 'utf8'), 'bad_index.las', { strictMode: false });
+      const streamed = await parser.parseStream(Readable.from([Buffer.from(content, 'utf8')]), 'bad_index.las', { strictMode: false });
+
+      for (const result of [buffered, streamed]) {
+        expect(result.success).toBe(true);
+        expect(Array.from(result.data!.log.depth)).toEqual([1000, 1000.5, 1001]);
+        expect(result.data!.log.toLASData()[1].GR).toBe(52.1);
+        expect(result.diagnostics).toEqual([
+          expect.objectContaining({ code: 'INVALID_INDEX_VALUE', line: 15, message: expect.stringContaining('row skipped') })
+        ]);
+      }
+    });
+
+    it('should report STRT, STOP and STEP that do not match the data', async () => {
+      const content = `${header}
+1000.0  45.2  2.35
+1000.25 47.8  2.42
+1000.5  52.1  2.58`;
+
+      const result = await parser.parse(Buffer.from(content, 'utf8'), 'depth_mismatch.las');
+
+      const codes = result.diagnostics.map(d => d.code);
+      expect(codes).toEqual(['STOP_DEPTH_MISMATCH', 'STEP_MISMATCH']);
+      expect(result.diagnostics[0]).toMatchObject({ line: 16, suggestion: 'Set STOP.M to 1000.5 in the ~Well section' });
+      expect(result.diagnostics[1]).toMatchObject({ line: 15 });
+      expect(result.diagnostics[1].message).toContain('2 of 2 depth increments differ');
+    });
+
+    it('should fail in strict mode when errors are reported', async () => {
+      const content = `${header}
+1000.0  45.2  2.35
+1000.5  47.8
+1001.0  52.1  2.58`;
+
+      const lenient = await parser.parse(Buffer.from(content, 'utf8'), 'strict.las');
+      const strict = await parser.parse(Buffer.from(content, 'utf8'), 'strict.las', { strictMode: true });
+
+      expect(lenient.success).toBe(true);
+      expect(strict.success).toBe(false);
+      expect(strict.data).toBeUndefined();
+      expect(strict.error).toContain('Line 15, column 13');
+      expect(strict.diagnostics).toEqual(lenient.diagnostics);
+    });
+
+    it('should accept conformant files in strict mode', async () => {
+      const content = `${header}
+1000.0  45.2  2.35
+1000.5  47.8  2.42
+1001.0  52.1  2.58`;
+
+      const result = await parser.parse(Buffer.from(content, 'utf8'), 'conformant.las', { strictMode: true });
+
+      expect(result.success).toBe(true);
+      expect(result.diagnostics).toEqual([]);
+    });
+
+    it('should report missing sections and header items', async () => {
+      const content = `~Version Information
+VERS.   2.0 : CWLS LOG ASCII STANDARD
+~Well Information
+STRT.M  1000.0 : START DEPTH
+NULL.   -999.25 : NULL VALUE
+~A
+1000.0`;
+
+      const result = await parser.parse(Buffer.from(content, 'utf8'), 'incomplete.las');
+
+      expect(result.diagnostics.map(d => `${d.code} ${d.message}`)).toEqual([
+        'MISSING_SECTION No ~Curve section found',
+        'MISSING_HEADER_ITEM ~Version section has no WRAP item',
+        'MISSING_HEADER_ITEM ~Well section has no STOP item',
+        'MISSING_HEADER_ITEM ~Well section has no STEP item'
+      ]);
+    });
+
+    it('should report the same diagnostics when streaming', async () => {
+      const content = `${header}
+1000.0  45.2  2.35
+1000.5  47.8
+1001.0  52.1  2.58  99.0`;
+
+      const buffered = await parser.parse(Buffer.from(content, 'utf8'), 'stream_diag.las');
+      const streamed = await parser.parseStream(Readable.from([Buffer.from(content, 'utf8')]), 'stream_diag.las');
+
+      expect(streamed.diagnostics.map(d => d.code)).toEqual(['ROW_TOO_SHORT', 'ROW_TOO_LONG']);
+      expect(streamed.diagnostics).toEqual(buffered.diagnostics);
+      expect(streamed.diagnostics[1].column).toBe(21);
+    });
+  });
+
+  describe('Streaming Parser', () => {
+    const buildContent = (rows: number) => {
+      let content = `~Version Information
+VERS.   3.0 : CWLS LOG ASCII STANDARD - VERSION 3.0
+WRAP.    NO : One line per depth step
+DLM . COMMA : Column delimiter
+~Well Information
+STRT.M 2000.0 : START DEPTH
+STEP.M    0.5 : STEP
+NULL. -999.25 : NULL VALUE
+~Curve Information
+DEPT.M        : Depth
+GR  .GAPI     : Gamma Ray
+RHOB.G/CC     : Bulk Density
+~ASCII Log Data`;
+      for (let i = 0; i < rows; i++) {
+        const rhob = i % 7 === 0 ? '-999.25' : (2.2 + (i % 10) * 0.03).toFixed(2);
+        content += `\n${(2000 + i * 0.5).toFixed(1)},${(40 + (i % 25)).toFixed(1)},${rhob}`;
+      }
+      return content + `\n~Tops_Definition
+TOPT.M : Top Depth
+TOPN.  : Formation Name
+~Tops_Data | Tops_Definition
+2010.0, "Upper Sand"`;
+    };
+
+    // Feed the content in small, odd-sized pieces so lines are split across chunks
+    const toStream = (content: string) => {
+      const buffer = Buffer.from(content, 'utf8');
+      const pieces: Buffer[] = [];
+      for (let i = 0; i < buffer.length; i += 37) {
+        pieces.push(buffer.subarray(i, i + 37));
+      }
+      return Readable.from(pieces);
+    };
+
+    it('should yield header first, then bounded typed column chunks', async () => {
+      const streamParser = new LASStreamParser(parser, { chunkSize: 100 });
+      const events: string[] = [];
+      const chunks: LASDataChunk[] = [];
+
+      for await (const event of streamParser.parse(toStream(buildContent(250)))) {
+        events.push(event.type);
+        if (event.type === 'chunk') chunks.push(event.chunk);
+        if (event.type === 'end') {
+          expect(event.rowCount).toBe(250);
+          expect(event.metadata.dataSets[0].rows).toEqual([[2010.0, 'Upper Sand']]);
+        }
+      }
+
+      expect(events).toEqual(['header', 'chunk', 'chunk', 'chunk', 'end']);
+      expect(chunks.map(c => [c.offset, c.length])).toEqual([[0, 100], [100, 100], [200, 50]]);
+      expect(chunks[0].depth).toBeInstanceOf(Float64Array);
+      expect(chunks[0].curves.GR[1]).toBe(41.0);
+      expect(Number.isNaN(chunks[0].curves.RHOB[0])).toBe(true);
+    });
+
+    it('should produce the same LASFile as the buffer parser', async () => {
+      const content = buildContent(500);
+
+      const buffered = await parser.parse(Buffer.from(content, 'utf8'), 'stream.las');
+      const streamed = await parser.parseStream(toStream(content), 'stream.las', { chunkSize: 64 });
+
+      expect(streamed.success).toBe(true);
+      expect(streamed.data!.log.toLASData()).toEqual(buffered.data!.log.toLASData());
+      expect(streamed.data!.curves).toEqual(buffered.data!.curves);
+      expect(streamed.data!.header).toEqual({ ...buffered.data!.header, date: expect.any(String) });
+      expect(streamed.data!.dataSets).toEqual(buffered.data!.dataSets);
+      expect(streamed.data!.size).toBe(Buffer.byteLength(content));
+    });
+
+    it('should grow the log as chunks are appended', async () => {
+      const content = buildContent(250);
+      const streamParser = new LASStreamParser(parser, { chunkSize: 100 });
+      const builder = new WellLogBuilder(['GR', 'RHOB'], 16);
+
+      for await (const event of streamParser.parse(toStream(content))) {
+        if (event.type === 'chunk') builder.append(event.chunk);
+      }
+      const log = builder.build();
+      const buffered = await parser.parse(Buffer.from(content, 'utf8'), 'stream.las');
+
+      expect(log.length).toBe(250);
+      expect(log.toLASData()).toEqual(buffered.data!.log.toLASData());
+    });
+
+    it('should stop reading when an explicit size limit is exceeded', async () => {
+      const result = await parser.parseStream(toStream(buildContent(500)), 'stream.las', { maxFileSize: 2048 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('exceeds maximum allowed size');
+    });
+  });
+
   describe('Edge Cases and Error Handling', () => {
     it('should handle empty file gracefully', async () => {
       const buffer = Buffer.from('', 'utf8');
@@ -434,7 +855,7 @@ RHOB.G/CC                    :   Bulk Density
       
       expect(result.success).toBe(true);
       expect(parseTime).toBeLessThan(5000); // Should parse in under 5 seconds
-      expect(result.data!.data.length).toBe(10000);
+      expect(result.data!.log.length).toBe(10000);
     });
   });
 
@@ -10,8 +10,7 @@
  */
 
 import { LASParser, ParseOptions, ParseResult } from './lasParser';
-import { MnemonicStandardizer } from './MnemonicStandardizer';
-import { ProcessingAlgorithms } from './processingAlgorithms';
+import { MnemonicStandardizer, ProcessingAlgorithms } from '../../../shared/src';
 import { LASFile } from '../types';
 import * as fs from 'fs';
 import * as path from 'path';
@@ -80,7 +79,7 @@ export class LASParserProductionExample {
             warnings: result.warnings,
             qualityScore: result.data.qualityScore,
             curveCount: result.data.curves.length,
-            dataPoints: result.data.data.length,
+            dataPoints: result.data.log.length,
             qualityAssessment
           });
 
@@ -165,7 +164,7 @@ export class LASParserProductionExample {
         success: true
       });
 
-      console.log(`✓ Parsed successfully: ${originalFile.curves.length} curves, ${originalFile.data.length} data points`);
+      console.log(`✓ Parsed successfully: ${originalFile.curves.length} curves, ${originalFile.log.length} data points`);
 
       // Step 2: Quality Assessment
       console.log('Step 2: Performing quality assessment...');
@@ -188,7 +187,7 @@ export class LASParserProductionExample {
           processedFile = {
             ...originalFile,
             processed: true,
-            processedData: processingResult.processedData,
+            log: processingResult.processedData,
             processingHistory: [
               ...processingHistory,
               {
@@ -292,7 +291,7 @@ export class LASParserProductionExample {
       ...parseResult.data,
       processed: true,
       qcResults: {
-        totalPoints: parseResult.data.data.length,
+        totalPoints: parseResult.data.log.length,
         nullPoints: 0, // Calculate actual null points
         spikesDetected: 0, // Calculate actual spikes
         noiseLevel: qualityAssessment.noiseLevel,
@@ -332,7 +331,7 @@ export class LASParserProductionExample {
     // Assess each curve
     for (const curve of file.curves) {
       if (curve.statistics) {
-        const completeness = ((file.data.length - curve.statistics.nullCount) / file.data.length) * 100;
+        const completeness = ((file.log.length - curve.statistics.nullCount) / file.log.length) * 100;
         const noiseLevel = curve.statistics.std / Math.abs(curve.statistics.mean) * 100;
         
         assessment.curveQuality[curve.mnemonic] = {
@@ -347,8 +346,8 @@ export class LASParserProductionExample {
     }
 
     // Check depth consistency
-    if (file.data.length > 1) {
-      const depths = file.data.map(d => d.depth);
+    if (file.log.length > 1) {
+      const depths = file.log.depth;
       const step = depths[1] - depths[0];
       
       for (let i = 1; i < depths.length; i++) {
@@ -416,7 +415,7 @@ export class LASParserProductionExample {
 
       return {
         success: true,
-        processedData: file.data,
+        processedData: file.log,
         algorithms
       };
 
@@ -0,0 +1,280 @@
+/**
+ * POLISH Streaming LAS Parser
+ *
+ * Reads LAS files of any size from a Readable stream with bounded memory.
+ * Header sections are parsed as soon as the log data section starts; data
+ * rows are then yielded as typed column chunks (one Float64Array per curve).
+ */
+
+import { Readable } from 'stream';
+import { StringDecoder } from 'string_decoder';
+import { LASCurve } from '../types';
+import { LASMetadata, LASParser } from './lasParser';
+import { DataRecordValidator, LASDataChunk, ParseDiagnostics, SourceLine } from '../../../shared/src';
+
+export type { LASDataChunk } from '../../../shared/src';
+
+export interface StreamParseOptions {
+  chunkSize?: number; // rows per chunk
+  maxFileSize?: number; // in bytes, unlimited when omitted
+}
+
+export type LASStreamEvent =
+  | { type: 'header'; metadata: LASMetadata }
+  | { type: 'chunk'; chunk: LASDataChunk }
+  | { type: 'end'; metadata: LASMetadata; rowCount: number; bytesRead: number; diagnostics: ParseDiagnostics };
+
+// ~A / ~ASCII (LAS 2.0) and ~Log_Data (LAS 3.0), but not other LAS 3.0 groups such as ~Acoustic_Data
+const LOG_DATA_SECTION = /^~(log_data\b|a(?!\w*_(parameter|definition|data)\b))/i;
+
+export class LASStreamParser {
+  private readonly defaultChunkSize = 10000;
+
+  constructor(
+    private parser: LASParser,
+    private options: StreamParseOptions = {}
+  ) {}
+
+  /**
+   * Parse a LAS stream, yielding a header event, data chunks and an end event
+   */
+  async *parse(
+    stream: Readable,
+    diagnostics: ParseDiagnostics = new ParseDiagnostics()
+  ): AsyncGenerator<LASStreamEvent> {
+    const chunkSize = this.options.chunkSize || this.defaultChunkSize;
+    const headerLines: string[] = [];
+    const trailerLines: string[] = [];
+    const byteCounter = { bytesRead: 0 };
+
+    let state: 'header' | 'data' | 'trailer' = 'header';
+    let lineNumber = 0;
+    let trailerStartLine = 0;
+    let metadata: LASMetadata | undefined;
+    let builder: ChunkBuilder | undefined;
+    let validator: DataRecordValidator | undefined;
+    let dataSectionName = '~A';
+
+    // Wrapped-mode record assembly
+    let pendingValues: string[] = [];
+    let recordStart: SourceLine | undefined;
+
+    for await (const line of this.readLines(stream, byteCounter)) {
+      lineNumber++;
+      const trimmedLine = line.trim();
+
+      if (state === 'header') {
+        if (LOG_DATA_SECTION.test(trimmedLine)) {
+          metadata = this.parser.parseHeaderText(headerLines.join('\n'), diagnostics);
+          builder = new ChunkBuilder(metadata.curves, chunkSize);
+          dataSectionName = trimmedLine.split(/[\s|]/)[0];
+          validator = new DataRecordValidator(metadata, diagnostics, dataSectionName);
+          state = 'data';
+          yield { type: 'header', metadata };
+        } else {
+          headerLines.push(line);
+        }
+        continue;
+      }
+
+      if (state === 'trailer') {
+        trailerLines.push(line);
+        continue;
+      }
+
+      // Log data section
+      if (trimmedLine.startsWith('~')) {
+        state = 'trailer';
+        trailerStartLine = lineNumber;
+        trailerLines.push(line);
+        continue;
+      }
+      if (!trimmedLine || trimmedLine.startsWith('#')) continue;
+
+      const header = metadata!.header;
+      const values = this.parser.splitDataLine(trimmedLine, header.delimiter || 'SPACE');
+      if (values.length === 0) continue;
+
+      const sourceLine: SourceLine = { text: trimmedLine, lineNumber, column: line.search(/\S/) + 1 };
+      let record = values;
+      let start = sourceLine;
+      if (header.wrap) {
+        const valuesPerRecord = metadata!.curves.length + 1;
+        if (pendingValues.length === 0) recordStart = sourceLine;
+        pendingValues.push(...values);
+
+        if (pendingValues.length < valuesPerRecord) continue;
+        if (pendingValues.length > valuesPerRecord) {
+          diagnostics.error(
+            'WRAPPED_RECORD_OVERRUN',
+            `wrapped record starting at line ${recordStart!.lineNumber} ` +
+            `has ${pendingValues.length} values, expected ${valuesPerRecord}; record skipped`,
+            {
+              line: lineNumber,
+              column: sourceLine.column,
+              section: dataSectionName,
+              suggestion: 'Check for extra values or a missing index value at the start of the next record'
+            }
+          );
+          pendingValues = [];
+          continue;
+        }
+        record = pendingValues;
+        start = recordStart!;
+        pendingValues = [];
+      }
+
+      if (!validator!.check(record, start, sourceLine)) continue;
+      const chunk = builder!.push(record, header.nullValue);
+      if (chunk) {
+        yield { type: 'chunk', chunk };
+      }
+    }
+
+    if (pendingValues.length > 0) {
+      diagnostics.error(
+        'WRAPPED_RECORD_INCOMPLETE',
+        `incomplete wrapped record at end of data ` +
+        `(${pendingValues.length} of ${metadata!.curves.length + 1} values); record skipped`,
+        {
+          line: recordStart!.lineNumber,
+          column: recordStart!.column,
+          section: dataSectionName,
+          suggestion: 'Complete the last record or remove it'
+        }
+      );
+    }
+    validator?.finish();
+
+    // No log data section: the whole file is header
+    if (!metadata) {
+      metadata = this.parser.parseHeaderText(headerLines.join('\n'), diagnostics);
+      builder = new ChunkBuilder(metadata.curves, chunkSize);
+      if (headerLines.some(line => line.trim())) {
+        diagnostics.error('MISSING_SECTION', 'No ~A (ASCII log data) section found', {
+          suggestion: 'Add a ~A section containing the log data rows'
+        });
+      }
+      yield { type: 'header', metadata };
+    }
+
+    const lastChunk = builder!.flush();
+    if (lastChunk) {
+      yield { type: 'chunk', chunk: lastChunk };
+    }
+
+    // LAS 3.0 allows further sections (~Other, data set groups) after the log data
+    if (trailerLines.length > 0) {
+      const trailer = this.parser.parseHeaderText(
+        trailerLines.join('\n'),
+        diagnostics,
+        trailerStartLine,
+        metadata.header
+      );
+      metadata = {
+        ...metadata,
+        parameters: [...metadata.parameters, ...trailer.parameters],
+        otherInformation: [metadata.otherInformation, trailer.otherInformation]
+          .filter(text => text)
+          .join('\n') || undefined,
+        dataSets: [...metadata.dataSets, ...trailer.dataSets]
+      };
+    }
+
+    yield {
+      type: 'end',
+      metadata,
+      rowCount: builder!.rowCount,
+      bytesRead: byteCounter.bytesRead,
+      diagnostics
+    };
+  }
+
+  /**
+   * Split a byte stream into lines without buffering more than one chunk
+   */
+  private async *readLines(
+    stream: Readable,
+    byteCounter: { bytesRead: number }
+  ): AsyncGenerator<string> {
+    const decoder = new StringDecoder('utf8');
+    let remainder = '';
+
+    for await (const data of stream) {
+      const buffer: Buffer = typeof data === 'string' ? Buffer.from(data, 'utf8') : data;
+      byteCounter.bytesRead += buffer.length;
+
+      if (this.options.maxFileSize && byteCounter.bytesRead > this.options.maxFileSize) {
+        stream.destroy();
+        throw new Error(`File size exceeds maximum allowed size (${this.options.maxFileSize} bytes)`);
+      }
+
+      const lines = (remainder + decoder.write(buffer)).split(/\r?\n/);
+      remainder = lines.pop() || '';
+      yield* lines;
+    }
+
+    remainder += decoder.end();
+    if (remainder) {
+      yield remainder;
+    }
+  }
+}
+
+/**
+ * Accumulates data rows into fixed-size typed column chunks
+ */
+class ChunkBuilder {
+  rowCount = 0;
+  private length = 0;
+  private depth!: Float64Array;
+  private columns!: Record<string, Float64Array>;
+
+  constructor(private curves: LASCurve[], private chunkSize: number) {
+    this.allocate();
+  }
+
+  /**
+   * Add a row of raw values (index first); returns a chunk when one is full
+   */
+  push(values: string[], nullValue: number): LASDataChunk | null {
+    this.depth[this.length] = parseFloat(values[0]);
+    for (let i = 0; i < this.curves.length; i++) {
+      const value = values[i + 1] === undefined ? NaN : parseFloat(values[i + 1]);
+      this.columns[this.curves[i].mnemonic][this.length] = value === nullValue ? NaN : value;
+    }
+    this.length++;
+    this.rowCount++;
+
+    return this.length === this.chunkSize ? this.flush() : null;
+  }
+
+  /**
+   * Emit the rows accumulated so far, if any
+   */
+  flush(): LASDataChunk | null {
+    if (this.length === 0) return null;
+
+    const chunk: LASDataChunk = {
+      offset: this.rowCount - this.length,
+      length: this.length,
+      depth: this.depth.subarray(0, this.length),
+      curves: {}
+    };
+    for (const mnemonic of Object.keys(this.columns)) {
+      chunk.curves[mnemonic] = this.columns[mnemonic].subarray(0, this.length);
+    }
+
+    this.allocate();
+    return chunk;
+  }
+
+  private allocate(): void {
+    this.length = 0;
+    this.depth = new Float64Array(this.chunkSize);
+    this.columns = {};
+    for (const curve of this.curves) {
+      this.columns[curve.mnemonic] = new Float64Array(this.chunkSize);
+    }
+  }
+}
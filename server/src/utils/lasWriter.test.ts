@@ -0,0 +1,126 @@
+/**
+ * POLISH LAS Writer - Round-Trip Test Suite
+ *
+ * parse → write → parse must yield identical curves and values for both
+ * LAS 2.0 and LAS 3.0 output.
+ */
+
+import { LASParser } from './lasParser';
+import { LASWriter } from './lasWriter';
+import { LASFile, LASFileRows } from '../types';
+import { describe, it, expect, beforeEach } from '@jest/globals';
+
+describe('LAS Writer', () => {
+  let parser: LASParser;
+  let writer: LASWriter;
+
+  beforeEach(() => {
+    parser = new LASParser();
+    writer = new LASWriter();
+  });
+
+  const las2Content = `~Version Information
+VERS.                 2.0 : CWLS LOG ASCII STANDARD - VERSION 2.0
+WRAP.                  NO : One line per depth step
+~Well Information
+STRT.FT         5000.0000 : START DEPTH
+STOP.FT         5001.0000 : STOP DEPTH
+STEP.FT            0.5000 : STEP
+NULL.             -999.25 : NULL VALUE
+COMP.         ACME ENERGY : COMPANY
+WELL.          SMITH #1H : WELL
+~Curve Information
+DEPT.FT                   : Measured Depth
+GR  .GAPI                 : Gamma Ray
+NPHI.                     : Neutron Porosity (V/V)
+RHOB.G/CC                 : Bulk Density
+~Parameter Information
+BS  .IN             8.500 : Bit Size
+~Other
+Logged with standard tool string
+~A  DEPT GR NPHI RHOB
+5000.0   45.123456789   0.15   2.35
+5000.5   -999.25        0.1234567890123   2.4
+5001.0   52.1           -999.25   2.58`;
+
+  const parse = async (content: string): Promise<LASFile> => {
+    const result = await parser.parse(Buffer.from(content, 'utf8'), 'roundtrip.las');
+    expect(result.success).toBe(true);
+    return result.data!;
+  };
+
+  // The writer takes rows, the form the browser sends a file for export in
+  const rows = (lasFile: LASFile): LASFileRows => ({ ...lasFile, data: lasFile.log.toLASData() });
+
+  const comparable = (lasFile: LASFile) => ({
+    curves: lasFile.curves,
+    data: lasFile.log.toLASData(),
+    parameters: lasFile.parameters,
+    dataSets: lasFile.dataSets,
+    // DATE is absent from the fixture, so both parses default it to the current time
+    header: { ...lasFile.header, version: undefined, delimiter: undefined, date: undefined }
+  });
+
+  it('should round-trip LAS 2.0 files', async () => {
+    const original = await parse(las2Content);
+    const written = writer.write(rows(original));
+    const reparsed = await parse(written);
+
+    expect(comparable(reparsed)).toEqual(comparable(original));
+    expect(reparsed.wellItems).toEqual(original.wellItems);
+    expect(written).toContain('~A  DEPT GR NPHI RHOB');
+    // Columns are right-aligned to the widest value
+    expect(written).toContain('\n  5000 45.123456789            0.15 2.35\n');
+    expect(written).toContain('\n5000.5      -999.25 0.1234567890123  2.4\n');
+  });
+
+  it('should round-trip LAS 3.0 output, including data sets', async () => {
+    const original = await parse(las2Content);
+    original.dataSets = [{
+      name: 'Tops',
+      parameters: [],
+      definitions: [
+        { mnemonic: 'TOPDEPTH', unit: 'FT', value: '', description: 'Top Depth' },
+        { mnemonic: 'NAME', unit: '', value: '', description: 'Formation Name' }
+      ],
+      rows: [[5000.25, 'Upper Sand'], [5000.75, 'Shale']]
+    }];
+
+    const written = writer.write(rows(original), { version: '3.0', delimiter: 'COMMA' });
+    const reparsed = await parse(written);
+
+    expect(reparsed.version).toBe('3.0');
+    expect(reparsed.header.delimiter).toBe('COMMA');
+    expect(comparable(reparsed)).toEqual(comparable(original));
+    expect(written).toContain('~Log_Definition');
+    expect(written).toContain('"Upper Sand"');
+  });
+
+  it('should write processed data, a substituted NULL value and the processing history', async () => {
+    const original = rows(await parse(las2Content));
+    const processed: LASFileRows = {
+      ...original,
+      processed: true,
+      processedData: original.data.map(d => ({ ...d, GR: d.GR === null ? null : d.GR + 1 })),
+      processingHistory: [{
+        id: 'step_1',
+        timestamp: new Date('2024-05-01T12:00:00Z'),
+        operation: 'denoising',
+        parameters: { method: 'savitzky_golay', windowSize: 5 },
+        curvesAffected: ['GR'],
+        description: 'Applying Savitzky-Golay denoising'
+      }]
+    };
+
+    const written = writer.write(processed, { nullValue: -9999 });
+    const reparsed = await parse(written);
+
+    expect(reparsed.header.nullValue).toBe(-9999);
+    expect(reparsed.log.toLASData().map(d => d.GR)).toEqual([46.123456789, null, 53.1]);
+    expect(reparsed.log.isNull('NPHI', 2)).toBe(true);
+    expect(reparsed.otherInformation).toContain('Logged with standard tool string');
+    expect(reparsed.otherInformation).toContain(
+      '2024-05-01T12:00:00.000Z denoising: Applying Savitzky-Golay denoising [GR] {"method":"savitzky_golay","windowSize":5}'
+    );
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * POLISH LAS Writer
+ *
+ * Serializes a LASFile back to LAS 2.0 or 3.0 text. Values are written with
+ * the shortest representation that parses back to the same number, so
+ * parse → write → parse yields identical curves and values.
+ */
+
+import { LASCurve, LASData, LASDataSet, LASDelimiter, LASFileRows, LASHeaderItem, ProcessingStep } from '../types';
+
+export interface WriteOptions {
+  version?: '2.0' | '3.0'; // defaults to the version of the parsed file
+  dataSource?: 'processed' | 'original'; // defaults to processed data when present
+  nullValue?: number; // defaults to the header NULL value
+  delimiter?: LASDelimiter; // LAS 3.0 only; LAS 2.0 data is always space delimited
+  includeProcessingHistory?: boolean; // write processing steps to ~Other, default true
+}
+
+type ItemRow = Pick<LASHeaderItem, 'mnemonic' | 'unit' | 'value' | 'description' | 'format' | 'association'>;
+
+export class LASWriter {
+  /**
+   * Write a file's rows as LAS text
+   */
+  write(lasFile: LASFileRows, options: WriteOptions = {}): string {
+    const version = options.version || (lasFile.version.startsWith('3') ? '3.0' : '2.0');
+    const isLAS3 = version === '3.0';
+    const nullValue = options.nullValue ?? lasFile.header.nullValue;
+    const delimiter: LASDelimiter = isLAS3 ? options.delimiter || lasFile.header.delimiter || 'SPACE' : 'SPACE';
+    const data = this.selectData(lasFile, options.dataSource);
+    const curves = lasFile.curves;
+
+    const lines: string[] = [];
+
+    lines.push(isLAS3 ? '~Version' : '~Version Information');
+    lines.push(...this.formatItems([
+      { mnemonic: 'VERS', unit: '', value: version, description: isLAS3 ? 'CWLS LOG ASCII STANDARD - VERSION 3.0' : 'CWLS LOG ASCII STANDARD - VERSION 2.0' },
+      { mnemonic: 'WRAP', unit: '', value: 'NO', description: 'One line per depth step' },
+      ...(isLAS3 ? [{ mnemonic: 'DLM', unit: '', value: delimiter, description: 'Column data section delimiter' }] : [])
+    ]));
+
+    lines.push(isLAS3 ? '~Well' : '~Well Information');
+    lines.push(...this.formatItems(this.buildWellItems(lasFile, data, nullValue)));
+
+    if (lasFile.parameters && lasFile.parameters.length > 0) {
+      lines.push(isLAS3 ? '~Log_Parameter' : '~Parameter Information');
+      lines.push(...this.formatItems(lasFile.parameters));
+    }
+
+    lines.push(isLAS3 ? '~Log_Definition' : '~Curve Information');
+    lines.push(...this.formatItems(this.buildCurveItems(lasFile, curves, isLAS3)));
+
+    const other = this.buildOtherText(lasFile, options.includeProcessingHistory !== false);
+    if (other) {
+      lines.push('~Other');
+      lines.push(...other.split('\n'));
+    }
+
+    const indexMnemonic = lasFile.header.indexMnemonic || 'DEPT';
+    lines.push(isLAS3
+      ? '~Log_Data | Log_Definition'
+      : `~A  ${[indexMnemonic, ...curves.map(c => c.mnemonic)].join(' ')}`);
+    lines.push(...this.formatData(data, curves, nullValue, delimiter));
+
+    if (isLAS3) {
+      for (const dataSet of lasFile.dataSets || []) {
+        lines.push(...this.formatDataSet(dataSet, nullValue, delimiter));
+      }
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Pick processed or original rows, falling back to `data`
+   */
+  private selectData(lasFile: LASFileRows, dataSource: WriteOptions['dataSource']): LASData[] {
+    if (dataSource === 'original') {
+      return lasFile.originalData || lasFile.data;
+    }
+    return lasFile.processedData || lasFile.data;
+  }
+
+  /**
+   * ~Well items from the parsed file, with STRT, STOP, STEP and NULL taken
+   * from the header and data so they always describe the rows written
+   */
+  private buildWellItems(lasFile: LASFileRows, data: LASData[], nullValue: number): ItemRow[] {
+    const { header } = lasFile;
+    const depthUnit = header.depthUnit || '';
+
+    const items: ItemRow[] = lasFile.wellItems && lasFile.wellItems.length > 0
+      ? lasFile.wellItems.map(item => ({ ...item }))
+      : [
+        { mnemonic: 'COMP', unit: '', value: header.company, description: 'COMPANY' },
+        { mnemonic: 'WELL', unit: '', value: header.well, description: 'WELL' },
+        { mnemonic: 'FLD', unit: '', value: header.field, description: 'FIELD' },
+        { mnemonic: 'LOC', unit: '', value: header.location, description: 'LOCATION' },
+        { mnemonic: 'SRVC', unit: '', value: header.serviceCompany || '', description: 'SERVICE COMPANY' },
+        { mnemonic: 'DATE', unit: '', value: header.date, description: 'LOG DATE' },
+        { mnemonic: 'UWI', unit: '', value: header.uwi, description: 'UNIQUE WELL ID' },
+        ...(header.elevation !== undefined && !isNaN(header.elevation)
+          ? [{ mnemonic: 'ELEV', unit: depthUnit, value: String(header.elevation), description: 'ELEVATION' }]
+          : [])
+      ];
+
+    const startDepth = data.length > 0 ? data[0].depth : header.startDepth;
+    const stopDepth = data.length > 0 ? data[data.length - 1].depth : header.stopDepth;
+    const required: ItemRow[] = [
+      { mnemonic: 'STRT', unit: depthUnit, value: String(startDepth), description: 'START DEPTH' },
+      { mnemonic: 'STOP', unit: depthUnit, value: String(stopDepth), description: 'STOP DEPTH' },
+      { mnemonic: 'STEP', unit: depthUnit, value: String(header.step), description: 'STEP' },
+      { mnemonic: 'NULL', unit: '', value: String(nullValue), description: 'NULL VALUE' }
+    ];
+
+    // Keep the original text (e.g. "1670.0000") when it still holds the same number
+    for (const requiredItem of required.reverse()) {
+      const existing = items.find(i => i.mnemonic.toUpperCase() === requiredItem.mnemonic);
+      if (!existing) {
+        items.unshift(requiredItem);
+      } else if (parseFloat(existing.value) !== parseFloat(requiredItem.value)) {
+        existing.value = requiredItem.value;
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Index curve followed by one definition per curve
+   */
+  private buildCurveItems(lasFile: LASFileRows, curves: LASCurve[], isLAS3: boolean): ItemRow[] {
+    const format = isLAS3 ? 'F' : undefined;
+    return [
+      {
+        mnemonic: lasFile.header.indexMnemonic || 'DEPT',
+        unit: lasFile.header.depthUnit || '',
+        value: '',
+        description: 'Depth',
+        format
+      },
+      ...curves.map(curve => ({
+        mnemonic: curve.mnemonic,
+        unit: curve.unit === 'N/A' ? '' : curve.unit,
+        value: '',
+        description: curve.description,
+        format
+      }))
+    ];
+  }
+
+  /**
+   * Original ~Other text followed by the processing history, one step per line
+   */
+  private buildOtherText(lasFile: LASFileRows, includeProcessingHistory: boolean): string {
+    const parts: string[] = [];
+    if (lasFile.otherInformation) {
+      parts.push(lasFile.otherInformation);
+    }
+
+    const history = lasFile.processingHistory || [];
+    if (includeProcessingHistory && history.length > 0) {
+      parts.push('POLISH processing history:');
+      parts.push(...history.map(step => this.formatProcessingStep(step)));
+    }
+
+    return parts.join('\n');
+  }
+
+  private formatProcessingStep(step: ProcessingStep): string {
+    const timestamp = new Date(step.timestamp).toISOString();
+    const curves = step.curvesAffected.length > 0 ? ` [${step.curvesAffected.join(', ')}]` : '';
+    const parameters = Object.keys(step.parameters || {}).length > 0
+      ? ` ${JSON.stringify(step.parameters)}`
+      : '';
+    return `${timestamp} ${step.operation}: ${step.description}${curves}${parameters}`;
+  }
+
+  /**
+   * Format header items as aligned `MNEM.UNIT  VALUE : DESCRIPTION` lines
+   */
+  private formatItems(items: ItemRow[]): string[] {
+    const nameWidth = Math.max(0, ...items.map(i => `${i.mnemonic}.${i.unit}`.length));
+    const valueWidth = Math.max(0, ...items.map(i => i.value.length));
+
+    return items.map(item => {
+      const name = `${item.mnemonic}.${item.unit}`.padEnd(nameWidth);
+      let line = ` ${name}  ${item.value.padEnd(valueWidth)} : ${item.description}`;
+      if (item.format) line += ` {${item.format}}`;
+      if (item.association) line += ` | ${item.association}`;
+      return line.trimEnd();
+    });
+  }
+
+  /**
+   * Format log data rows with each column right-aligned to its widest value
+   */
+  private formatData(
+    data: LASData[],
+    curves: LASCurve[],
+    nullValue: number,
+    delimiter: LASDelimiter
+  ): string[] {
+    const nullText = String(nullValue);
+    const format = (value: number | null | undefined) =>
+      value === null || value === undefined || isNaN(value) ? nullText : String(value);
+
+    // Measure first so rows can be written in a single pass
+    const widths = [0, ...curves.map(() => 0)];
+    for (const row of data) {
+      widths[0] = Math.max(widths[0], format(row.depth).length);
+      curves.forEach((curve, i) => {
+        widths[i + 1] = Math.max(widths[i + 1], format(row[curve.mnemonic]).length);
+      });
+    }
+
+    const separator = this.separator(delimiter);
+    return data.map(row => [
+      format(row.depth).padStart(widths[0]),
+      ...curves.map((curve, i) => format(row[curve.mnemonic]).padStart(widths[i + 1]))
+    ].join(separator));
+  }
+
+  /**
+   * Format a LAS 3.0 data set group (parameters, definitions and rows)
+   */
+  private formatDataSet(dataSet: LASDataSet, nullValue: number, delimiter: LASDelimiter): string[] {
+    const lines: string[] = [];
+    if (dataSet.parameters.length > 0) {
+      lines.push(`~${dataSet.name}_Parameter`);
+      lines.push(...this.formatItems(dataSet.parameters));
+    }
+    if (dataSet.definitions.length > 0) {
+      lines.push(`~${dataSet.name}_Definition`);
+      lines.push(...this.formatItems(dataSet.definitions));
+    }
+
+    lines.push(`~${dataSet.name}_Data | ${dataSet.name}_Definition`);
+    const separator = this.separator(delimiter);
+    for (const row of dataSet.rows) {
+      lines.push(row.map(value => {
+        if (value === null) return String(nullValue);
+        if (typeof value === 'number') return String(value);
+        // Quote strings that would otherwise be split on the delimiter
+        return value === '' || /[\s,]/.test(value) ? `"${value}"` : value;
+      }).join(separator));
+    }
+    return lines;
+  }
+
+  private separator(delimiter: LASDelimiter): string {
+    if (delimiter === 'COMMA') return ', ';
+    if (delimiter === 'TAB') return '\t';
+    return ' ';
+  }
+}
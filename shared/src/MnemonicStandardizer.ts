@@ -4,7 +4,7 @@
  * Standardizes curve mnemonics according to industry standards (API RP 33, CWLS)
  */
 
-import { LASFile, LASCurve } from '../types';
+import { LASFile, LASCurve } from './types';
 
 export interface StandardizationOptions {
   standard: 'api' | 'cwls' | 'custom';
@@ -123,7 +123,7 @@ export class MnemonicStandardizer {
    * Standardize mnemonics for a LAS file
    */
   async standardizeMnemonics(
-    lasFile: LASFile,
+    lasFile: Pick<LASFile, 'curves'>,
     options: StandardizationOptions
   ): Promise<StandardizationResult> {
     const warnings: string[] = [];
@@ -148,6 +148,9 @@ export class MnemonicStandardizer {
           
           standardizedCurves.push(standardizedCurve);
           warnings.push(`Standardized ${originalMnemonic} → ${standardMnemonic}`);
+        } else if (standardMnemonic && options.preserveOriginal) {
+          // Already standard; still record it so every recognised curve carries one
+          standardizedCurves.push({ ...curve, standardMnemonic });
         } else {
           standardizedCurves.push(curve);
         }
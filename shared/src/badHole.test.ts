@@ -0,0 +1,80 @@
+/**
+ * Tests for detecting and flagging bad hole
+ */
+
+import { badHoleRecommendations, badHoleWeights, detectBadHole } from './badHole';
+import { WellLog } from './wellLog';
+import { describe, it, expect } from '@jest/globals';
+
+describe('Bad hole detection', () => {
+  const curve = (mnemonic: string, unit = '') => ({
+    mnemonic,
+    unit,
+    description: '',
+    dataType: 'log' as const,
+    curveType: mnemonic === 'CALI' ? 'caliper' as const : 'custom' as const,
+    track: 1,
+    color: '#000',
+    scale: 'linear' as const,
+    visible: true
+  });
+  const file = {
+    curves: ['RHOB', 'NPHI', 'DRHO', 'CALI'].map(mnemonic => curve(mnemonic, mnemonic === 'CALI' ? 'IN' : '')),
+    parameters: [{ mnemonic: 'BS', unit: 'MM', value: '215.9', description: 'Bit size' }],
+    log: WellLog.fromLASData(Array.from({ length: 20 }, (_, i) => ({
+      depth: 2000 + i,
+      RHOB: 2.4,
+      NPHI: 0.2,
+      // Over gauge at 5-8, a single washed out sample at 12, and the pad off the wall at 15-17
+      CALI: (i >= 5 && i <= 8) || i === 12 ? 10.5 : 8.6,
+      DRHO: i >= 15 && i <= 17 ? -0.25 : 0.01
+    })), ['RHOB', 'NPHI', 'DRHO', 'CALI'])
+  };
+
+  it('should find washouts against the bit size and pad contact against DRHO, naming the affected curves', () => {
+    const result = detectBadHole(file)!;
+
+    expect(result.intervals).toEqual([
+      { top: 2005, bottom: 2008, samples: 4, reasons: ['washout'], maxEnlargement: 2, maxDrho: undefined, curves: ['RHOB', 'NPHI'] },
+      { top: 2015, bottom: 2017, samples: 3, reasons: ['density_correction'], maxEnlargement: undefined, maxDrho: 0.25, curves: ['RHOB'] }
+    ]);
+    expect(Array.from(result.flags.slice(4, 18))).toEqual([0, 1, 1, 1, 1, 0, 0, 0, 0, 0, 0, 2, 2, 2]);
+    expect(Array.from(badHoleWeights(result, 'NPHI')!.slice(14, 18))).toEqual([1, 1, 1, 1]);
+    expect(Array.from(badHoleWeights(result, 'RHOB')!.slice(14, 18))).toEqual([1, 0.5, 0.5, 0.5]);
+    expect(badHoleWeights(result, 'CALI')).toBeNull();
+
+    const recommendations = badHoleRecommendations(result);
+    expect(recommendations[0].message).toMatch(/^Bad hole from 2005 to 2008: washout .*; RHOB, NPHI unreliable$/);
+    expect(recommendations[1]).toMatchObject({ type: 'warning', curve: 'RHOB' });
+    expect(detectBadHole({ ...file, curves: file.curves.filter(c => c.mnemonic === 'RHOB') })).toBeNull();
+  });
+
+  it('should report the same intervals, shallow end first, when depths decrease', () => {
+    const reversed = new WellLog(file.log.depth.slice().reverse());
+    for (const mnemonic of file.log.mnemonics) {
+      reversed.setCurve(mnemonic, file.log.getValues(mnemonic).slice().reverse());
+    }
+
+    const result = detectBadHole({ ...file, log: reversed })!;
+    expect(result.intervals).toEqual(detectBadHole(file)!.intervals.slice().reverse());
+    expect(Array.from(result.flags).reverse()).toEqual(Array.from(detectBadHole(file)!.flags));
+  });
+
+  it('should leave samples it cannot check unflagged', () => {
+    const empty = new WellLog(file.log.depth);
+    for (const mnemonic of file.log.mnemonics) {
+      empty.setCurve(mnemonic, Array(empty.length).fill(null));
+    }
+    const result = detectBadHole({ ...file, log: empty })!;
+    expect(Array.from(result.flags).every(isNaN)).toBe(true);
+    expect(result.intervals).toEqual([]);
+    expect(badHoleWeights(result, 'RHOB')).toBeNull();
+
+    const single = new WellLog([2000]);
+    single.setCurve('CALI', [10.5]);
+    single.setCurve('DRHO', [0.01]);
+    const one = detectBadHole({ ...file, log: single }, { minSamples: 1 })!;
+    expect(Array.from(one.flags)).toEqual([1]);
+    expect(one.intervals).toMatchObject([{ top: 2000, bottom: 2000, samples: 1, reasons: ['washout'] }]);
+  });
+});
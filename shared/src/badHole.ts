@@ -0,0 +1,202 @@
+/**
+ * POLISH Bad Hole Detection
+ *
+ * Finds intervals where the borehole is washed out or the density pad has
+ * lost contact with the wall, so pad and near-wall measurements there
+ * can't be trusted. A washout is the caliper reading more than a threshold
+ * over the bit size; poor pad contact is a DRHO correction over its limit.
+ * Quality scores count samples of the affected curves in bad hole at a
+ * reduced weight rather than as fully valid.
+ */
+
+import { curvesWithRole, DEFAULT_DRHO_LIMIT, readBoreholeParameters, toInches } from './environmentalCorrections';
+import { LASCurve, LASHeaderItem } from './types';
+import { WellLog } from './wellLog';
+
+export interface BadHoleOptions {
+  /** Caliper reading over the bit size that marks a washout, in inches; default 1 */
+  washoutThreshold?: number;
+  /** Largest |DRHO| with the density pad on the wall, in g/cm³; default 0.15 */
+  drhoLimit?: number;
+  /** Fewest consecutive flagged samples reported as bad hole; default 3 */
+  minSamples?: number;
+}
+
+export type BadHoleReason = 'washout' | 'density_correction';
+
+/** Flag curve values; a sample with both problems is 3 */
+export const BAD_HOLE_FLAG = {
+  good: 0,
+  washout: 1,
+  densityCorrection: 2
+} as const;
+
+/** Mnemonic of the bad hole flag curve */
+export const BAD_HOLE_CURVE = 'BADHOLE';
+
+/** Weight quality scores give a valid sample of an affected curve in bad hole */
+export const BAD_HOLE_WEIGHT = 0.5;
+
+export interface BadHoleInterval {
+  top: number;
+  bottom: number;
+  samples: number;
+  reasons: BadHoleReason[];
+  /** Largest caliper reading over the bit size, in inches */
+  maxEnlargement?: number;
+  maxDrho?: number;
+  /** Curves that can't be trusted over the interval */
+  curves: string[];
+}
+
+export interface BadHoleResult {
+  /** One flag per sample, NaN where neither check could be made */
+  flags: Float64Array;
+  intervals: BadHoleInterval[];
+  /** Every curve affected somewhere */
+  curves: string[];
+}
+
+const DEFAULT_WASHOUT_THRESHOLD = 1;
+const DEFAULT_MIN_SAMPLES = 3;
+
+/**
+ * Bad hole in a file, or null when it has neither a caliper with a known
+ * bit size nor a DRHO curve to judge by
+ */
+export function detectBadHole(
+  file: { curves: LASCurve[]; log: WellLog; parameters?: LASHeaderItem[] },
+  options: BadHoleOptions = {}
+): BadHoleResult | null {
+  const logCurves = file.curves.filter(c => c.dataType === 'log');
+  const caliperCurve = curvesWithRole(logCurves, 'caliper')[0];
+  const bitSizeCurve = curvesWithRole(logCurves, 'bitSize')[0];
+  const drhoCurve = curvesWithRole(logCurves, 'densityCorrection')[0];
+  const { log } = file;
+
+  const { bitSize } = readBoreholeParameters(file.parameters).parameters;
+  const caliper = caliperCurve && toInches(log.getValues(caliperCurve.mnemonic), caliperCurve.unit);
+  const bitSizes = bitSizeCurve && toInches(log.getValues(bitSizeCurve.mnemonic), bitSizeCurve.unit);
+  const enlargement = caliper && (bitSizes || bitSize !== undefined)
+    ? caliper.map((reading, i) => reading - (bitSizes && !isNaN(bitSizes[i]) ? bitSizes[i] : bitSize ?? NaN))
+    : undefined;
+  const drho = drhoCurve && log.getValues(drhoCurve.mnemonic);
+  if (!enlargement && !drho) return null;
+
+  const washoutThreshold = options.washoutThreshold ?? DEFAULT_WASHOUT_THRESHOLD;
+  const drhoLimit = options.drhoLimit ?? DEFAULT_DRHO_LIMIT;
+  const flags = new Float64Array(log.length).fill(NaN);
+  for (let i = 0; i < flags.length; i++) {
+    const checked = [enlargement?.[i], drho?.[i]].some(v => v !== undefined && !isNaN(v));
+    if (!checked) continue;
+    flags[i] = (enlargement && enlargement[i] > washoutThreshold ? BAD_HOLE_FLAG.washout : 0) |
+      (drho && Math.abs(drho[i]) > drhoLimit ? BAD_HOLE_FLAG.densityCorrection : 0);
+  }
+
+  // A washout spoils every pad and near-wall reading; a large DRHO only the density tool's
+  const washoutCurves = (['density', 'neutron', 'photoelectric', 'microresistivity'] as const)
+    .flatMap(role => curvesWithRole(logCurves, role))
+    .map(c => c.mnemonic);
+  const densityCurves = (['density', 'photoelectric'] as const)
+    .flatMap(role => curvesWithRole(logCurves, role))
+    .map(c => c.mnemonic);
+
+  const intervals: BadHoleInterval[] = [];
+  const minSamples = options.minSamples ?? DEFAULT_MIN_SAMPLES;
+  for (let start = 0; start < flags.length; start++) {
+    if (!(flags[start] > 0)) continue;
+    let end = start;
+    while (end + 1 < flags.length && flags[end + 1] > 0) end++;
+
+    if (end - start + 1 < minSamples) {
+      flags.fill(BAD_HOLE_FLAG.good, start, end + 1);
+    } else {
+      const run = Array.from(flags.subarray(start, end + 1));
+      const reasons: BadHoleReason[] = [];
+      if (run.some(flag => flag & BAD_HOLE_FLAG.washout)) reasons.push('washout');
+      if (run.some(flag => flag & BAD_HOLE_FLAG.densityCorrection)) reasons.push('density_correction');
+      intervals.push({
+        top: Math.min(log.depth[start], log.depth[end]),
+        bottom: Math.max(log.depth[start], log.depth[end]),
+        samples: end - start + 1,
+        reasons,
+        maxEnlargement: reasons.includes('washout') ? maxOf(enlargement!.subarray(start, end + 1)) : undefined,
+        maxDrho: reasons.includes('density_correction') ? maxOf(drho!.subarray(start, end + 1).map(Math.abs)) : undefined,
+        curves: reasons.includes('washout') ? washoutCurves : densityCurves
+      });
+    }
+    start = end;
+  }
+
+  return { flags, intervals, curves: [...new Set(intervals.flatMap(interval => interval.curves))] };
+}
+
+/**
+ * The weight of each of a curve's samples in quality scores: reduced in
+ * bad hole intervals that affect it, otherwise 1
+ */
+export function badHoleWeights(result: BadHoleResult | null, mnemonic: string): Float64Array | null {
+  if (!result || !result.curves.includes(mnemonic)) return null;
+
+  // Runs of flagged samples are the intervals, in the same order
+  const weights = new Float64Array(result.flags.length).fill(1);
+  let interval = 0;
+  for (let i = 0; i < weights.length; i++) {
+    if (!(result.flags[i] > 0)) continue;
+    let end = i;
+    while (end + 1 < weights.length && result.flags[end + 1] > 0) end++;
+    if (result.intervals[interval++]?.curves.includes(mnemonic)) {
+      weights.fill(BAD_HOLE_WEIGHT, i, end + 1);
+    }
+    i = end;
+  }
+  return weights;
+}
+
+/**
+ * One warning per bad hole interval, naming the curves it affects
+ */
+export function badHoleRecommendations(
+  result: BadHoleResult | null
+): Array<{ type: 'warning'; curve?: string; message: string; action: string }> {
+  return (result?.intervals || []).map(interval => {
+    const causes = interval.reasons.map(reason => reason === 'washout'
+      ? `washout (caliper up to ${interval.maxEnlargement!.toFixed(1)} in over bit size)`
+      : `poor pad contact (|DRHO| up to ${interval.maxDrho!.toFixed(2)} g/cm3)`);
+    const curves = interval.curves.length > 0 ? interval.curves.join(', ') : 'pad and near-wall curves';
+    return {
+      type: 'warning',
+      curve: interval.curves.length === 1 ? interval.curves[0] : undefined,
+      message: `Bad hole from ${interval.top} to ${interval.bottom}: ${causes.join(' and ')}; ${curves} unreliable`,
+      action: `Use ${curves} with caution over this interval, or replace them with environmentally corrected or predicted values`
+    };
+  });
+}
+
+/**
+ * The bad hole flag curve definition
+ */
+export function badHoleFlagCurve(): LASCurve {
+  return {
+    mnemonic: BAD_HOLE_CURVE,
+    unit: '',
+    description: 'Bad hole: 0 good, 1 washout, 2 DRHO over limit, 3 both',
+    dataType: 'computed',
+    categorical: true,
+    curveType: 'custom',
+    track: 4,
+    color: '#DC2626',
+    scale: 'linear',
+    minValue: 0,
+    maxValue: 3,
+    visible: false
+  };
+}
+
+function maxOf(values: ArrayLike<number>): number {
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] > max) max = values[i];
+  }
+  return max;
+}
@@ -0,0 +1,56 @@
+/**
+ * Tests for fitting curve baselines
+ */
+
+import { alsBaseline, lowessBaseline, piecewiseBaseline } from './baselines';
+import { describe, it, expect } from '@jest/globals';
+
+describe('Baselines', () => {
+  // SP drifting 30 mV down the well, with sands deflecting 40 mV negative off the shale baseline
+  const drift = (i: number) => 30 * i / 400;
+  const sp = Array.from({ length: 400 }, (_, i) => drift(i) - (Math.floor(i / 50) % 3 === 1 ? 40 : 0) + Math.sin(i) * 0.5);
+  const depth = sp.map((_, i) => 1000 + i * 0.5);
+  // Gamma ray trending up, with a hot spike every 40 samples and one null
+  const trend = (i: number) => 60 + i * 0.1;
+  const gr = depth.map((_, i) => (i === 100 ? NaN : trend(i) + (i % 40 === 0 ? 80 : 0)));
+
+  it('should fit ALS to one side of the deflections and run it smoothly across gaps', () => {
+    const gapped = sp.map((v, i) => (i >= 180 && i < 200 ? NaN : v));
+    const baseline = alsBaseline(gapped, 1e7, 0.99);
+
+    [10, 190, 390].forEach(i => expect(Math.abs(baseline[i] - drift(i))).toBeLessThan(2));
+  });
+
+  it('should return ALS input too short or too empty to fit unchanged', () => {
+    expect(Array.from(alsBaseline([NaN, NaN, NaN, NaN]))).toEqual([NaN, NaN, NaN, NaN]);
+    expect(Array.from(alsBaseline([5]))).toEqual([5]);
+    expect(Array.from(alsBaseline([1, NaN, NaN]))).toEqual([1, NaN, NaN]);
+  });
+
+  it('should fit LOWESS through the trend, ignoring spikes and leaving nulls null', () => {
+    const baseline = lowessBaseline(depth, gr);
+
+    [10, 99, 101, 200, 390].forEach(i => expect(baseline[i]).toBeCloseTo(trend(i), 6));
+    expect(baseline[100]).toBeNaN();
+  });
+
+  it('should fit LOWESS the same way when depths decrease', () => {
+    const forward = lowessBaseline(depth, gr);
+    const backward = Array.from(lowessBaseline([...depth].reverse(), [...gr].reverse())).reverse();
+
+    backward.forEach((value, i) => (isNaN(forward[i]) ? expect(value).toBeNaN() : expect(value).toBeCloseTo(forward[i], 9)));
+  });
+
+  it('should fit LOWESS to a single sample and not at all to an all-null curve', () => {
+    expect(Array.from(lowessBaseline([1000], [7]))).toEqual([7]);
+    expect(Array.from(lowessBaseline([1000, 1000.5], [NaN, NaN]))).toEqual([NaN, NaN]);
+  });
+
+  it('should join picks linearly and hold flat beyond the ends, whichever way depths run', () => {
+    const anchors = [{ depth: 1, value: 10 }, { depth: 3, value: 20 }];
+
+    expect(Array.from(piecewiseBaseline([0, 1, 2, 3, 4], [5, 5, 5, 5, 5], anchors))).toEqual([10, 10, 15, 20, 20]);
+    expect(Array.from(piecewiseBaseline([4, 3, 2, 1, 0], [5, 5, NaN, 5, 5], anchors))).toEqual([20, 20, NaN, 10, 10]);
+    expect(() => piecewiseBaseline([0, 1], [5, 5], [{ depth: 1, value: NaN }])).toThrow('No piecewise baseline anchor has a value');
+  });
+});
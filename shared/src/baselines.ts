@@ -0,0 +1,312 @@
+/**
+ * POLISH Baselines
+ *
+ * Baselines for drift correction that follow the slow trend of a curve
+ * without bending into the formation signal. Asymmetric least squares fits
+ * a smooth curve that hugs one side of the data; LOWESS fits local lines
+ * over a span of the well, down-weighting deflections; a piecewise
+ * baseline joins shale baseline points picked by the user. Polynomial
+ * baselines over the full well are fitted by ProcessingAlgorithms.
+ */
+
+import { CurveOverride } from './curveParameters';
+
+export type BaselineMethod = 'polynomial' | 'als' | 'lowess' | 'piecewise';
+
+export const BASELINE_METHODS: BaselineMethod[] = ['polynomial', 'als', 'lowess', 'piecewise'];
+
+/** A shale baseline pick */
+export interface BaselineAnchor {
+  depth: number;
+  /** Baseline value at the pick; the curve's median around the pick when omitted */
+  value?: number;
+}
+
+export interface BaselineOptions {
+  method: BaselineMethod;
+  /** Polynomial only */
+  polynomialOrder: number;
+  /** ALS smoothness; larger is stiffer, default 1e5 */
+  lambda?: number;
+  /**
+   * ALS weight of samples above the baseline, default 0.01: small values fit
+   * under the curve, values near 1 over it, as SP needs with sands deflecting negative
+   */
+  asymmetry?: number;
+  /** LOWESS share of the curve's samples in each local fit, (0, 1], default 0.3 */
+  span?: number;
+  /** Piecewise only; at least one */
+  anchors?: BaselineAnchor[];
+}
+
+export interface BaselineCorrectionOptions extends BaselineOptions {
+  enabled: boolean;
+  /** Curves to correct; every log curve when omitted */
+  curves?: string[];
+  overrides?: CurveOverride<BaselineOptions>[];
+}
+
+/** How one curve's baseline was fitted */
+export interface BaselineFit {
+  method: BaselineMethod;
+  pointsProcessed: number;
+  /** Polynomial only, lowest order first, in sample index */
+  polynomialCoefficients?: number[];
+}
+
+/** Suffix of the fitted baseline curve added for each corrected curve, e.g. SP_BL */
+export const BASELINE_SUFFIX = '_BL';
+
+const DEFAULT_LAMBDA = 1e5;
+const DEFAULT_ASYMMETRY = 0.01;
+const ALS_ITERATIONS = 10;
+const DEFAULT_SPAN = 0.3;
+const LOWESS_ROBUSTNESS_ITERATIONS = 2;
+// Above this many samples LOWESS fits at evenly spaced samples and interpolates between them
+const LOWESS_MAX_FITS = 1000;
+// Samples either side of a pick whose median is the pick's value
+const ANCHOR_HALF_WINDOW = 2;
+
+/**
+ * Problems with a method's parameters, prefixed with where they came from
+ */
+export function validateBaselineOptions(options: Partial<BaselineCorrectionOptions> | undefined): string[] {
+  if (!options?.enabled) return [];
+
+  const check = (where: string, parameters: Partial<BaselineOptions>): string[] => {
+    const errors: string[] = [];
+    if (parameters.method !== undefined && !BASELINE_METHODS.includes(parameters.method)) {
+      errors.push(`${where} method "${parameters.method}" is unknown; expected one of ${BASELINE_METHODS.join(', ')}`);
+    }
+    if (parameters.lambda !== undefined && !(parameters.lambda > 0)) {
+      errors.push(`${where} ALS smoothness must be positive`);
+    }
+    if (parameters.asymmetry !== undefined && !(parameters.asymmetry > 0 && parameters.asymmetry < 1)) {
+      errors.push(`${where} ALS asymmetry must be between 0 and 1`);
+    }
+    if (parameters.span !== undefined && !(parameters.span > 0 && parameters.span <= 1)) {
+      errors.push(`${where} LOWESS span must be more than 0 and at most 1`);
+    }
+    if (parameters.anchors !== undefined && !Array.isArray(parameters.anchors)) {
+      errors.push(`${where} anchors must be a list`);
+    } else if (parameters.anchors?.some(anchor => typeof anchor.depth !== 'number')) {
+      errors.push(`${where} anchors need a depth`);
+    }
+    return errors;
+  };
+
+  const errors = check('Baseline correction', options);
+  if (options.method === 'piecewise' && !options.anchors?.length) {
+    errors.push('Piecewise baseline correction needs at least one anchor');
+  }
+  for (const override of Array.isArray(options.overrides) ? options.overrides : []) {
+    const where = `Baseline correction override for ${override.mnemonic || override.curveType}`;
+    errors.push(...check(where, override.parameters || {}));
+    if (override.parameters?.method === 'piecewise' && !override.parameters.anchors?.length) {
+      errors.push(`${where} needs at least one anchor for a piecewise baseline`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Asymmetric least squares baseline (Eilers and Boelens): a smooth curve,
+ * penalized on its second differences, reweighted towards one side of the
+ * data until the weights settle. NaN samples carry no weight, so the
+ * baseline runs smoothly across gaps.
+ */
+export function alsBaseline(
+  values: ArrayLike<number>,
+  lambda = DEFAULT_LAMBDA,
+  asymmetry = DEFAULT_ASYMMETRY
+): Float64Array {
+  const n = values.length;
+  const y = Float64Array.from(values, v => (isNaN(v) ? 0 : v));
+  const valid = Array.from(values, v => !isNaN(v));
+  if (n < 3 || valid.filter(Boolean).length < 2) {
+    return Float64Array.from(values);
+  }
+
+  const weights = Float64Array.from(valid, isValid => (isValid ? 1 : 0));
+  let baseline = new Float64Array(n);
+  for (let iteration = 0; iteration < ALS_ITERATIONS; iteration++) {
+    baseline = solvePenalized(y, weights, lambda);
+
+    let changed = false;
+    for (let i = 0; i < n; i++) {
+      if (!valid[i]) continue;
+      const weight = y[i] > baseline[i] ? asymmetry : 1 - asymmetry;
+      if (weight !== weights[i]) changed = true;
+      weights[i] = weight;
+    }
+    if (!changed) break;
+  }
+  return baseline;
+}
+
+/**
+ * LOWESS baseline: at each sample a line fitted by tricube-weighted least
+ * squares to the nearest `span` of the valid samples by depth, then refitted
+ * with bisquare robustness weights so deflections pull it less. NaN where
+ * the curve is null.
+ */
+export function lowessBaseline(depth: ArrayLike<number>, values: ArrayLike<number>, span = DEFAULT_SPAN): Float64Array {
+  const result = new Float64Array(values.length).fill(NaN);
+  const order = Array.from({ length: values.length }, (_, i) => i)
+    .filter(i => !isNaN(values[i]) && !isNaN(depth[i]))
+    .sort((a, b) => depth[a] - depth[b]);
+  const n = order.length;
+  if (n === 0) return result;
+
+  const x = order.map(i => depth[i]);
+  const y = order.map(i => values[i]);
+  const k = Math.min(n, Math.max(3, Math.ceil(span * n)));
+  const stride = Math.max(1, Math.ceil(n / LOWESS_MAX_FITS));
+  const fitAt = Array.from({ length: n }, (_, i) => i).filter(i => i % stride === 0 || i === n - 1);
+
+  let robustness = new Float64Array(n).fill(1);
+  let fitted = new Float64Array(n);
+  for (let pass = 0; pass <= LOWESS_ROBUSTNESS_ITERATIONS; pass++) {
+    fitted = new Float64Array(n);
+    let left = 0;
+    for (const i of fitAt) {
+      // Slide the window of k nearest samples along
+      while (left + k < n && x[i] - x[left] > x[left + k] - x[i]) left++;
+      fitted[i] = localLinearFit(x, y, robustness, left, left + k - 1, x[i]);
+    }
+    interpolateBetweenFits(x, fitted, fitAt);
+
+    if (pass === LOWESS_ROBUSTNESS_ITERATIONS) break;
+    const residuals = y.map((v, i) => Math.abs(v - fitted[i]));
+    const scale = 6 * median(residuals);
+    if (!(scale > 0)) break;
+    robustness = Float64Array.from(residuals, r => (r < scale ? (1 - (r / scale) ** 2) ** 2 : 0));
+  }
+
+  order.forEach((index, i) => { result[index] = fitted[i]; });
+  return result;
+}
+
+/**
+ * Piecewise linear baseline through the picks, flat beyond the first and
+ * last. A pick without a value takes the median of the valid samples
+ * nearest its depth. NaN where the curve is null.
+ */
+export function piecewiseBaseline(
+  depth: ArrayLike<number>,
+  values: ArrayLike<number>,
+  anchors: BaselineAnchor[]
+): Float64Array {
+  const result = new Float64Array(values.length).fill(NaN);
+  const valid = Array.from({ length: values.length }, (_, i) => i)
+    .filter(i => !isNaN(values[i]))
+    .sort((a, b) => depth[a] - depth[b]);
+  if (valid.length === 0) return result;
+
+  const points = anchors
+    .map(anchor => ({ depth: anchor.depth, value: anchor.value ?? valueNear(depth, values, valid, anchor.depth) }))
+    .filter(point => !isNaN(point.value))
+    .sort((a, b) => a.depth - b.depth);
+  if (points.length === 0) {
+    throw new Error('No piecewise baseline anchor has a value');
+  }
+
+  for (const i of valid) {
+    const at = depth[i];
+    const next = points.findIndex(point => point.depth >= at);
+    if (next === 0) {
+      result[i] = points[0].value;
+    } else if (next === -1) {
+      result[i] = points[points.length - 1].value;
+    } else {
+      const a = points[next - 1];
+      const b = points[next];
+      result[i] = b.depth === a.depth ? b.value : a.value + ((at - a.depth) / (b.depth - a.depth)) * (b.value - a.value);
+    }
+  }
+  return result;
+}
+
+// Solves (W + λD'D)z = Wy, D the second difference operator, by banded Cholesky
+function solvePenalized(y: Float64Array, weights: Float64Array, lambda: number): Float64Array {
+  const n = y.length;
+  // Diagonals of W + λD'D, adding up each row [1, -2, 1] of D
+  const main = Float64Array.from(weights);
+  const off1 = new Float64Array(n - 1);
+  const off2 = new Float64Array(n - 2);
+  for (let r = 0; r + 2 < n; r++) {
+    main[r] += lambda;
+    main[r + 1] += 4 * lambda;
+    main[r + 2] += lambda;
+    off1[r] -= 2 * lambda;
+    off1[r + 1] -= 2 * lambda;
+    off2[r] += lambda;
+  }
+
+  // Lower triangular factor with two subdiagonals
+  const l0 = new Float64Array(n);
+  const l1 = new Float64Array(n);
+  const l2 = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    l2[i] = i >= 2 ? off2[i - 2] / l0[i - 2] : 0;
+    l1[i] = i >= 1 ? (off1[i - 1] - (i >= 2 ? l2[i] * l1[i - 1] : 0)) / l0[i - 1] : 0;
+    l0[i] = Math.sqrt(Math.max(main[i] - l2[i] * l2[i] - l1[i] * l1[i], 1e-12));
+  }
+
+  const z = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    z[i] = (weights[i] * y[i] - (i >= 1 ? l1[i] * z[i - 1] : 0) - (i >= 2 ? l2[i] * z[i - 2] : 0)) / l0[i];
+  }
+  for (let i = n - 1; i >= 0; i--) {
+    z[i] = (z[i] - (i + 1 < n ? l1[i + 1] * z[i + 1] : 0) - (i + 2 < n ? l2[i + 2] * z[i + 2] : 0)) / l0[i];
+  }
+  return z;
+}
+
+// Weighted least squares line through samples from..to, evaluated at `at`
+function localLinearFit(x: number[], y: number[], robustness: Float64Array, from: number, to: number, at: number): number {
+  const reach = Math.max(at - x[from], x[to] - at) * 1.000001 || 1;
+  let sw = 0, sx = 0, sy = 0, sxx = 0, sxy = 0;
+  for (let j = from; j <= to; j++) {
+    const distance = Math.abs(x[j] - at) / reach;
+    const w = (1 - distance ** 3) ** 3 * robustness[j];
+    const dx = x[j] - at;
+    sw += w;
+    sx += w * dx;
+    sy += w * y[j];
+    sxx += w * dx * dx;
+    sxy += w * dx * y[j];
+  }
+  if (!(sw > 0)) return y.slice(from, to + 1).reduce((sum, v) => sum + v, 0) / (to - from + 1);
+
+  // Intercept of the line centred on `at`
+  const denominator = sw * sxx - sx * sx;
+  return Math.abs(denominator) > 1e-12 * sw * sw ? (sy * sxx - sx * sxy) / denominator : sy / sw;
+}
+
+function interpolateBetweenFits(x: number[], fitted: Float64Array, fitAt: number[]): void {
+  for (let k = 0; k + 1 < fitAt.length; k++) {
+    const a = fitAt[k];
+    const b = fitAt[k + 1];
+    for (let i = a + 1; i < b; i++) {
+      const t = x[b] === x[a] ? 0 : (x[i] - x[a]) / (x[b] - x[a]);
+      fitted[i] = fitted[a] + t * (fitted[b] - fitted[a]);
+    }
+  }
+}
+
+function valueNear(depth: ArrayLike<number>, values: ArrayLike<number>, valid: number[], at: number): number {
+  let nearest = 0;
+  for (let k = 1; k < valid.length; k++) {
+    if (Math.abs(depth[valid[k]] - at) < Math.abs(depth[valid[nearest]] - at)) nearest = k;
+  }
+  const window = valid.slice(Math.max(0, nearest - ANCHOR_HALF_WINDOW), nearest + ANCHOR_HALF_WINDOW + 1);
+  return median(window.map(i => values[i]));
+}
+
+function median(values: ArrayLike<number>): number {
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  if (sorted.length === 0) return NaN;
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
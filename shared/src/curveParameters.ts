@@ -0,0 +1,107 @@
+/**
+ * POLISH Per-Curve Parameters
+ *
+ * A processing step's options apply to every log curve unless overridden.
+ * Overrides match curves by curve type or mnemonic, and depth zones swap
+ * in other parameters over an interval, such as heavier despiking across
+ * a washout. For each curve the step's options are layered with its curve
+ * type overrides, then its mnemonic overrides, then any zone it falls in.
+ */
+
+import { LASCurve } from './types';
+
+export interface CurveOverride<T> {
+  /** Curve mnemonic to match, also checked against the standard mnemonic */
+  mnemonic?: string;
+  curveType?: LASCurve['curveType'];
+  /** false leaves matching curves untouched by the step */
+  enabled?: boolean;
+  parameters?: Partial<T>;
+}
+
+export interface DepthZone<T> {
+  top: number;
+  bottom: number;
+  /** Mnemonics the zone applies to; every curve when omitted */
+  curves?: string[];
+  parameters: Partial<T>;
+}
+
+export interface CurveParameterOptions<T> {
+  overrides?: CurveOverride<T>[];
+  zones?: DepthZone<T>[];
+}
+
+export interface ResolvedZone<T> {
+  top: number;
+  bottom: number;
+  parameters: T;
+}
+
+export interface ResolvedCurveParameters<T> {
+  enabled: boolean;
+  parameters: T;
+  /** Zones covering this curve, later zones taking precedence where they overlap */
+  zones: ResolvedZone<T>[];
+}
+
+const sameMnemonic = (a: string, b?: string) => b !== undefined && a.toUpperCase() === b.toUpperCase();
+
+const matchesMnemonic = (curve: LASCurve, mnemonic?: string) =>
+  sameMnemonic(curve.mnemonic, mnemonic) ||
+  (curve.standardMnemonic !== undefined && sameMnemonic(curve.standardMnemonic, mnemonic));
+
+/**
+ * The parameters a step uses for one curve
+ */
+export function resolveCurveParameters<T>(
+  curve: LASCurve,
+  base: T,
+  options: CurveParameterOptions<T>
+): ResolvedCurveParameters<T> {
+  const overrides = options.overrides || [];
+  const matching = [
+    ...overrides.filter(o => !o.mnemonic && o.curveType === curve.curveType),
+    ...overrides.filter(o => matchesMnemonic(curve, o.mnemonic))
+  ];
+
+  let enabled = true;
+  let parameters = base;
+  for (const override of matching) {
+    if (override.enabled !== undefined) enabled = override.enabled;
+    parameters = { ...parameters, ...override.parameters };
+  }
+
+  const zones = (options.zones || [])
+    .filter(zone => !zone.curves || zone.curves.some(mnemonic => matchesMnemonic(curve, mnemonic)))
+    .map(zone => ({ top: zone.top, bottom: zone.bottom, parameters: { ...parameters, ...zone.parameters } }));
+
+  return { enabled, parameters, zones };
+}
+
+/**
+ * Problems with a step's overrides and zones, prefixed with the step name
+ */
+export function validateCurveParameters(step: string, options: CurveParameterOptions<unknown> | undefined): string[] {
+  const errors: string[] = [];
+  if (!options) return errors;
+
+  if (options.overrides !== undefined && !Array.isArray(options.overrides)) {
+    errors.push(`${step} overrides must be a list`);
+  }
+  for (const override of Array.isArray(options.overrides) ? options.overrides : []) {
+    if (!override.mnemonic && !override.curveType) {
+      errors.push(`${step} overrides need a mnemonic or curve type`);
+    }
+  }
+
+  if (options.zones !== undefined && !Array.isArray(options.zones)) {
+    errors.push(`${step} zones must be a list`);
+  }
+  for (const zone of Array.isArray(options.zones) ? options.zones : []) {
+    if (typeof zone.top !== 'number' || typeof zone.bottom !== 'number' || zone.top >= zone.bottom) {
+      errors.push(`${step} zones need a top depth above their bottom depth`);
+    }
+  }
+  return errors;
+}
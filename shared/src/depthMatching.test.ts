@@ -0,0 +1,67 @@
+/**
+ * Tests for matching curves on depth against a reference
+ */
+
+import { matchDepths, resampleCurve, summarizeDepthMatch } from './depthMatching';
+import { describe, it, expect } from '@jest/globals';
+
+describe('Depth matching', () => {
+  // A reference and the same curve recorded two samples, one depth unit, late
+  const wave = (i: number) => 50 + Math.sin(i / 3) * 5 + Math.sin(i / 11) * 8;
+  const depth = Float64Array.from({ length: 200 }, (_, i) => 1000 + i * 0.5);
+  const reference = Float64Array.from(depth, (_, i) => wave(i));
+  const target = Float64Array.from(depth, (_, i) => wave(i - 2));
+  const reversed = (values: Float64Array) => values.slice().reverse();
+
+  it('should find a bulk shift by cross-correlation and line the curve up with it', () => {
+    const match = matchDepths(depth, reference, target, { referenceDepth: 0, shiftTolerance: 2 });
+
+    expect(match.bulkShift).toBeCloseTo(1, 1);
+    expect(Array.from(match.shifts).every(shift => shift === match.bulkShift)).toBe(true);
+    expect(match.correlationAfter).toBeGreaterThan(0.99);
+    expect(match.correlationAfter).toBeGreaterThan(match.correlationBefore);
+  });
+
+  it('should find per-sample shifts by dynamic time warping, within the tolerance', () => {
+    const match = matchDepths(depth, reference, target, { referenceDepth: 0, shiftTolerance: 2, method: 'dtw' });
+    const summary = summarizeDepthMatch(match);
+
+    expect(summary.bulkShift).toBeCloseTo(1, 1);
+    expect(summary.minShift).toBeGreaterThanOrEqual(-2);
+    expect(summary.maxShift).toBeLessThanOrEqual(2);
+    expect(summary.correlationAfter).toBeGreaterThan(summary.correlationBefore);
+  });
+
+  it('should find the same shift in depth units when depths decrease', () => {
+    for (const method of ['cross_correlation', 'dtw'] as const) {
+      const match = matchDepths(reversed(depth), reversed(reference), reversed(target), {
+        referenceDepth: 0,
+        shiftTolerance: 2,
+        method
+      });
+      expect(match.bulkShift).toBeCloseTo(1, 1);
+      expect(match.correlationAfter).toBeGreaterThan(match.correlationBefore);
+    }
+  });
+
+  it('should leave a single sample or an all-null curve unshifted', () => {
+    const single = matchDepths(depth.slice(0, 1), reference.slice(0, 1), target.slice(0, 1), {
+      referenceDepth: 0,
+      shiftTolerance: 2
+    });
+    expect(single.bulkShift).toBe(0);
+    expect(Array.from(single.shifts)).toEqual([0]);
+
+    const nulls = new Float64Array(depth.length).fill(NaN);
+    for (const method of ['cross_correlation', 'dtw'] as const) {
+      const match = matchDepths(depth, reference, nulls, { referenceDepth: 0, shiftTolerance: 2, method });
+      expect(match.bulkShift).toBe(0);
+      expect(Array.from(match.shifts).every(shift => shift === 0)).toBe(true);
+    }
+  });
+
+  it('should sample another run\'s curve on these depths without bridging nulls', () => {
+    const values = resampleCurve([3, 2, 1, 0], [30, 20, NaN, 0], [2.5, 1.5, 0.5, 5]);
+    expect(Array.from(values)).toEqual([25, NaN, NaN, NaN]);
+  });
+});
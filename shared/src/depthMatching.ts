@@ -0,0 +1,337 @@
+/**
+ * POLISH Depth Matching
+ *
+ * Finds how far curves are shifted in depth against a reference curve,
+ * typically the gamma ray of the same or another logging run, and moves
+ * them back on depth. A bulk shift is found by cross-correlation; shifts
+ * that vary with depth come from windowed cross-correlation or dynamic time
+ * warping. Every shift is limited to the shift tolerance.
+ *
+ * Curves are taken to be regularly sampled, as LAS data sections are.
+ */
+
+export interface DepthAlignmentOptions {
+  enabled: boolean;
+  /** Shallowest depth used for matching; 0 matches over the whole log */
+  referenceDepth: number;
+  /** Largest shift allowed, in depth units */
+  shiftTolerance: number;
+  /** Move curves by the shifts found; otherwise the shifts are only measured */
+  autoCorrect: boolean;
+  /** Reference curve mnemonic; the gamma ray when omitted */
+  referenceCurve?: string;
+  /** Curves to match; every other log curve when omitted */
+  curves?: string[];
+  method?: 'cross_correlation' | 'dtw';
+  /** Window for depth-variable shifts, in depth units; cross-correlation finds a bulk shift only when omitted */
+  windowLength?: number;
+  /** Stored file of another logging run to take the reference curve from */
+  referenceFileId?: string;
+}
+
+export interface DepthMatch {
+  /** Shift of the curve as a whole, in depth units */
+  bulkShift: number;
+  /**
+   * Shift at each sample, in depth units: the value recorded at
+   * depth + shift belongs at depth
+   */
+  shifts: Float64Array;
+  /** Correlation with the reference before and after shifting */
+  correlationBefore: number;
+  correlationAfter: number;
+}
+
+/** Recorded for each matched curve */
+export interface DepthMatchSummary {
+  bulkShift: number;
+  minShift: number;
+  maxShift: number;
+  correlationBefore: number;
+  correlationAfter: number;
+}
+
+// Windows whose best correlation is weaker than this keep the bulk shift
+const MIN_WINDOW_CORRELATION = 0.3;
+
+/**
+ * Mean spacing between samples; negative for depths that decrease
+ */
+export function sampleStep(depth: ArrayLike<number>): number {
+  return depth.length > 1 ? (depth[depth.length - 1] - depth[0]) / (depth.length - 1) : 0;
+}
+
+/**
+ * Pearson correlation of reference[i] with target[i + lag] over the samples
+ * in [start, end) where both are present. NaN with too few pairs to tell.
+ */
+function laggedCorrelation(reference: Float64Array, target: Float64Array, lag: number, start = 0, end = reference.length): number {
+  let n = 0, sumX = 0, sumY = 0, sumXX = 0, sumYY = 0, sumXY = 0;
+  for (let i = Math.max(start, -lag); i < Math.min(end, target.length - lag); i++) {
+    const x = reference[i];
+    const y = target[i + lag];
+    if (isNaN(x) || isNaN(y)) continue;
+    n++;
+    sumX += x;
+    sumY += y;
+    sumXX += x * x;
+    sumYY += y * y;
+    sumXY += x * y;
+  }
+
+  if (n < 3) return NaN;
+  const covariance = sumXY - (sumX * sumY) / n;
+  const varianceX = sumXX - (sumX * sumX) / n;
+  const varianceY = sumYY - (sumY * sumY) / n;
+  if (varianceX <= 0 || varianceY <= 0) return NaN;
+  return covariance / Math.sqrt(varianceX * varianceY);
+}
+
+/**
+ * Lag in samples, within ±maxLag, that best correlates target with the
+ * reference over [start, end), refined between samples with a parabola
+ * through the peak
+ */
+function bestLag(
+  reference: Float64Array,
+  target: Float64Array,
+  maxLag: number,
+  start = 0,
+  end = reference.length
+): { lag: number; correlation: number } {
+  const correlations = new Map<number, number>();
+  let best = { lag: 0, correlation: -Infinity };
+
+  for (let lag = -maxLag; lag <= maxLag; lag++) {
+    const correlation = laggedCorrelation(reference, target, lag, start, end);
+    if (isNaN(correlation)) continue;
+    correlations.set(lag, correlation);
+    if (correlation > best.correlation) best = { lag, correlation };
+  }
+  if (best.correlation === -Infinity) return { lag: 0, correlation: NaN };
+
+  const before = correlations.get(best.lag - 1);
+  const after = correlations.get(best.lag + 1);
+  if (before !== undefined && after !== undefined) {
+    const curvature = before - 2 * best.correlation + after;
+    if (curvature < 0) {
+      return { lag: best.lag + (0.5 * (before - after)) / curvature, correlation: best.correlation };
+    }
+  }
+  return best;
+}
+
+/**
+ * Values standardized to zero mean and unit variance; nulls become 0
+ */
+function standardize(values: Float64Array): Float64Array {
+  let n = 0, sum = 0, sumSquares = 0;
+  for (const v of values) {
+    if (isNaN(v)) continue;
+    n++;
+    sum += v;
+    sumSquares += v * v;
+  }
+  const mean = n > 0 ? sum / n : 0;
+  const sd = n > 0 ? Math.sqrt(Math.max(sumSquares / n - mean * mean, 0)) : 0;
+  return values.map(v => (isNaN(v) || sd === 0 ? 0 : (v - mean) / sd));
+}
+
+/**
+ * Dynamic time warping within a band of ±maxLag samples. Returns, for each
+ * reference sample, the mean lag of the target samples the warping path
+ * pairs it with.
+ */
+function dtwLags(reference: Float64Array, target: Float64Array, maxLag: number): Float64Array {
+  const n = reference.length;
+  const m = target.length;
+  const width = 2 * maxLag + 1;
+  const a = standardize(reference);
+  const b = standardize(target);
+
+  // cost[i * width + (j - i + maxLag)] is the cheapest path to (i, j)
+  const cost = new Float64Array(n * width).fill(Infinity);
+  const at = (i: number, j: number) => {
+    const offset = j - i + maxLag;
+    return i < 0 || j < 0 || offset < 0 || offset >= width ? Infinity : cost[i * width + offset];
+  };
+
+  for (let i = 0; i < n; i++) {
+    for (let j = Math.max(0, i - maxLag); j <= Math.min(m - 1, i + maxLag); j++) {
+      const distance = (a[i] - b[j]) ** 2;
+      const previous = i === 0 && j === 0 ? 0 : Math.min(at(i - 1, j - 1), at(i - 1, j), at(i, j - 1));
+      cost[i * width + (j - i + maxLag)] = distance + previous;
+    }
+  }
+
+  // Walk back from the last reference sample's cheapest end
+  let i = n - 1;
+  let j = Math.min(m - 1, i + maxLag);
+  for (let k = Math.max(0, i - maxLag); k <= Math.min(m - 1, i + maxLag); k++) {
+    if (at(i, k) < at(i, j)) j = k;
+  }
+
+  const lagSums = new Float64Array(n);
+  const counts = new Float64Array(n);
+  while (i >= 0 && j >= 0) {
+    lagSums[i] += j - i;
+    counts[i]++;
+    if (i === 0 && j === 0) break;
+
+    const diagonal = at(i - 1, j - 1);
+    const up = at(i - 1, j);
+    const left = at(i, j - 1);
+    if (diagonal <= up && diagonal <= left) {
+      i--;
+      j--;
+    } else if (up <= left) {
+      i--;
+    } else {
+      j--;
+    }
+  }
+
+  return lagSums.map((sum, index) => (counts[index] > 0 ? sum / counts[index] : 0));
+}
+
+/**
+ * Moving average over `window` samples, keeping DTW's steps from showing
+ * up as jumps in the shifts
+ */
+function smooth(values: Float64Array, window: number): Float64Array {
+  const half = Math.floor(window / 2);
+  if (half < 1) return values;
+  return values.map((_, i) => {
+    let sum = 0;
+    let count = 0;
+    for (let k = Math.max(0, i - half); k <= Math.min(values.length - 1, i + half); k++) {
+      sum += values[k];
+      count++;
+    }
+    return sum / count;
+  });
+}
+
+/**
+ * Linear interpolation of a curve at a depth; NaN outside the curve or
+ * next to a null sample
+ */
+export function valueAtDepth(depth: ArrayLike<number>, values: ArrayLike<number>, at: number): number {
+  const n = depth.length;
+  if (n === 0) return NaN;
+  const ascending = depth[n - 1] >= depth[0];
+  const position = (i: number) => (ascending ? depth[i] : -depth[i]);
+  const target = ascending ? at : -at;
+  if (target < position(0) || target > position(n - 1)) return NaN;
+
+  let low = 0;
+  let high = n - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (position(mid) <= target) low = mid;
+    else high = mid;
+  }
+
+  if (position(low) === target) return values[low];
+  if (position(high) === target) return values[high];
+  const t = (target - position(low)) / (position(high) - position(low));
+  return values[low] + t * (values[high] - values[low]);
+}
+
+/**
+ * A curve sampled at other depths, such as another logging run's curve on
+ * this run's depths
+ */
+export function resampleCurve(fromDepth: ArrayLike<number>, values: ArrayLike<number>, toDepth: ArrayLike<number>): Float64Array {
+  return Float64Array.from({ length: toDepth.length }, (_, i) => valueAtDepth(fromDepth, values, toDepth[i]));
+}
+
+/**
+ * A curve moved on depth: each sample takes the value recorded at its
+ * depth plus the shift there
+ */
+export function applyDepthShifts(depth: ArrayLike<number>, values: ArrayLike<number>, shifts: ArrayLike<number>): Float64Array {
+  return Float64Array.from({ length: depth.length }, (_, i) =>
+    shifts[i] === 0 ? values[i] : valueAtDepth(depth, values, depth[i] + shifts[i])
+  );
+}
+
+/**
+ * Find the shifts that line a curve up with a reference sampled on the
+ * same depths
+ */
+export function matchDepths(
+  depth: Float64Array,
+  reference: Float64Array,
+  target: Float64Array,
+  options: Pick<DepthAlignmentOptions, 'referenceDepth' | 'shiftTolerance' | 'method' | 'windowLength'>
+): DepthMatch {
+  const step = sampleStep(depth);
+  const noShift: DepthMatch = {
+    bulkShift: 0,
+    shifts: new Float64Array(depth.length),
+    correlationBefore: laggedCorrelation(reference, target, 0),
+    correlationAfter: laggedCorrelation(reference, target, 0)
+  };
+  if (step === 0) return noShift;
+
+  // Only the reference below the reference depth takes part
+  const matched = reference.map((v, i) => (depth[i] >= options.referenceDepth ? v : NaN));
+  const maxLag = Math.floor(options.shiftTolerance / Math.abs(step));
+  if (maxLag < 1) return noShift;
+
+  let lags: Float64Array;
+  let bulkLag: number;
+  if (options.method === 'dtw') {
+    lags = smooth(dtwLags(matched, target, maxLag), options.windowLength ? Math.round(options.windowLength / Math.abs(step)) : 2 * maxLag + 1);
+    const valid = Array.from(lags).filter((_, i) => !isNaN(matched[i]));
+    bulkLag = valid.length > 0 ? valid.reduce((sum, lag) => sum + lag, 0) / valid.length : 0;
+  } else {
+    bulkLag = bestLag(matched, target, maxLag).lag;
+    lags = new Float64Array(depth.length).fill(bulkLag);
+
+    const window = options.windowLength ? Math.round(options.windowLength / Math.abs(step)) : 0;
+    if (window >= 3) {
+      // Windows overlapping by half, each shift placed at its window's centre
+      const centres: number[] = [];
+      const windowLags: number[] = [];
+      for (let start = 0; start < depth.length; start += Math.max(1, Math.floor(window / 2))) {
+        const end = Math.min(depth.length, start + window);
+        const { lag, correlation } = bestLag(matched, target, maxLag, start, end);
+        centres.push((start + end - 1) / 2);
+        windowLags.push(correlation >= MIN_WINDOW_CORRELATION ? lag : bulkLag);
+        if (end === depth.length) break;
+      }
+      lags = lags.map((_, i) => valueAtDepth(centres, windowLags, Math.min(Math.max(i, centres[0]), centres[centres.length - 1])));
+    }
+  }
+
+  const shifts = lags.map(lag => Math.max(-options.shiftTolerance, Math.min(options.shiftTolerance, lag * step)));
+  const shifted = applyDepthShifts(depth, target, shifts);
+  return {
+    bulkShift: Math.max(-options.shiftTolerance, Math.min(options.shiftTolerance, bulkLag * step)),
+    shifts,
+    correlationBefore: noShift.correlationBefore,
+    correlationAfter: laggedCorrelation(reference, shifted, 0)
+  };
+}
+
+/**
+ * The shifts of a match, as recorded in the processing history
+ */
+export function summarizeDepthMatch(match: DepthMatch): DepthMatchSummary {
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  let minShift = match.shifts.length > 0 ? match.shifts[0] : 0;
+  let maxShift = minShift;
+  for (const shift of match.shifts) {
+    minShift = Math.min(minShift, shift);
+    maxShift = Math.max(maxShift, shift);
+  }
+  return {
+    bulkShift: round(match.bulkShift),
+    minShift: round(minShift),
+    maxShift: round(maxShift),
+    correlationBefore: round(match.correlationBefore),
+    correlationAfter: round(match.correlationAfter)
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Tests for borehole environmental corrections
+ */
+
+import {
+  correctGammaRay,
+  correctNeutron,
+  curveRole,
+  isFractionalPorosity,
+  readBoreholeParameters,
+  toInches,
+  validateDensity
+} from './environmentalCorrections';
+import { LASCurve } from './types';
+import { describe, it, expect } from '@jest/globals';
+
+const curve = (mnemonic: string): LASCurve => ({
+  mnemonic,
+  unit: '',
+  description: '',
+  dataType: 'log',
+  curveType: 'custom',
+  track: 1,
+  color: '#000',
+  scale: 'linear',
+  visible: true
+});
+
+describe('Environmental corrections', () => {
+  it('should read borehole parameters in their units, letting the user override them', () => {
+    const { parameters, sources } = readBoreholeParameters([
+      { mnemonic: 'BS', unit: 'MM', value: '215.9', description: 'Bit size' },
+      { mnemonic: 'MW', unit: 'LB/G', value: '10', description: 'Mud weight' },
+      { mnemonic: 'SAL', unit: 'KPPM', value: '50', description: 'Mud salinity' }
+    ], { standoff: 0.25 });
+
+    expect(parameters).toEqual({ bitSize: 8.5, mudWeight: expect.closeTo(1.198, 3), mudSalinity: 50000, standoff: 0.25 });
+    expect(sources).toEqual({ bitSize: '~Parameter BS', mudWeight: '~Parameter MW', mudSalinity: '~Parameter SAL', standoff: 'user' });
+    expect(readBoreholeParameters(undefined)).toEqual({ parameters: {}, sources: {} });
+  });
+
+  it('should tell bit size, caliper, DRHO and density apart', () => {
+    expect(['BS', 'CALI', 'DRHO', 'RHOB', 'NPHI', 'GR'].map(mnemonic => curveRole(curve(mnemonic))))
+      .toEqual(['bitSize', 'caliper', 'densityCorrection', 'density', 'neutron', 'gammaRay']);
+    expect(curveRole(curve('FOO'))).toBeUndefined();
+  });
+
+  it('should leave readings in the reference borehole alone and correct larger holes, keeping nulls', () => {
+    const gammaRay = correctGammaRay([60, 60, NaN], [8, 12, 8], 10 * 0.119826);
+    expect(gammaRay[0]).toBeCloseTo(60, 9);
+    expect(gammaRay[1]).toBeGreaterThan(60);
+    expect(gammaRay[2]).toBeNaN();
+
+    expect(Array.from(correctNeutron([0.25, NaN], [8, 8], {}, true))).toEqual([0.25, NaN]);
+    expect(correctNeutron([0.25], [10], {}, true)[0]).toBeCloseTo(correctNeutron([25], [10], {}, false)[0] / 100, 9);
+    expect(correctNeutron([25], [10], {}, false)[0]).toBeLessThan(25);
+  });
+
+  it('should take porosity units and caliper units from the curve unit, or else its values', () => {
+    expect(isFractionalPorosity([0.2], '')).toBe(true);
+    expect(isFractionalPorosity([0.2], 'PU')).toBe(false);
+    expect(isFractionalPorosity([20], 'V/V')).toBe(true);
+    // An all-null curve has no values to judge by
+    expect(isFractionalPorosity([NaN, NaN], '')).toBe(false);
+    expect(Array.from(toInches([215.9, NaN], 'MM'))).toEqual([8.5, NaN]);
+    expect(Array.from(toInches([215.9], ''))).toEqual([8.5]);
+  });
+
+  it('should flag density where DRHO is over the limit, with shallow tops whichever way depths run', () => {
+    expect(validateDensity([2000, 2001, 2002, 2003], [NaN, 2.4, 2.4, 2.4], [0.3, 0.01, 0.2, 0.2])).toEqual({
+      flags: Float64Array.from([NaN, 0, 1, 1]),
+      checked: 3,
+      flagged: 2,
+      intervals: [{ top: 2002, bottom: 2003 }]
+    });
+    expect(validateDensity([2003, 2002, 2001, 2000], [2.4, 2.4, 2.4, NaN], [0.2, 0.2, 0.01, 0.3]).intervals)
+      .toEqual([{ top: 2002, bottom: 2003 }]);
+    expect(validateDensity([2000], [2.4], [0.2]).intervals).toEqual([{ top: 2000, bottom: 2000 }]);
+    expect(validateDensity([2000, 2001], [NaN, NaN], [NaN, NaN])).toMatchObject({ checked: 0, flagged: 0, intervals: [] });
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * POLISH Environmental Corrections
+ *
+ * Corrects gamma ray and neutron porosity for borehole conditions, in the
+ * way the service companies' correction charts do, and checks bulk density
+ * against its DRHO correction curve. Hole size comes from the caliper where
+ * it reads, else the bit size; mud weight, salinity, standoff and bit size
+ * come from the ~Parameter section unless given by the user. The chart
+ * fits here are smooth approximations, referenced to an 8 in hole full of
+ * 10 lb/gal fresh mud with the tool eccentered against the borehole wall.
+ */
+
+import { LASCurve, LASHeaderItem } from './types';
+
+export interface BoreholeParameters {
+  /** Bit size, in inches */
+  bitSize?: number;
+  /** Mud weight, in g/cm³ */
+  mudWeight?: number;
+  /** Mud salinity, in ppm NaCl */
+  mudSalinity?: number;
+  /** Neutron tool standoff from the borehole wall, in inches */
+  standoff?: number;
+}
+
+export interface EnvironmentalCorrectionOptions {
+  enabled: boolean;
+  /** Correct gamma ray for hole size and mud weight */
+  gammaRay: boolean;
+  /** Correct neutron porosity for hole size, standoff and mud salinity */
+  neutron: boolean;
+  /** Flag density samples whose DRHO correction is too large to trust */
+  densityValidation: boolean;
+  /** Values that take precedence over the ~Parameter section */
+  parameters?: BoreholeParameters;
+  /** Largest |DRHO| of a trusted density sample, in g/cm³; default 0.15 */
+  drhoLimit?: number;
+}
+
+/** The measurements environmental corrections and bad hole checks look for among a file's curves */
+export type BoreholeCurveRole =
+  | 'bitSize'
+  | 'caliper'
+  | 'densityCorrection'
+  | 'density'
+  | 'neutron'
+  | 'photoelectric'
+  | 'microresistivity'
+  | 'resistivity'
+  | 'sonic'
+  | 'gammaRay';
+
+/** Suffix of each corrected curve, e.g. GR_EC */
+export const ENV_CORRECTION_SUFFIX = '_EC';
+
+/** Suffix of the density quality flag curve, e.g. RHOB_DQ: 0 trusted, 1 DRHO over the limit */
+export const DENSITY_FLAG_SUFFIX = '_DQ';
+
+export const DEFAULT_DRHO_LIMIT = 0.15;
+
+/** A borehole parameter and the ~Parameter entry or user input it came from */
+export type BoreholeParameterSources = Partial<Record<keyof BoreholeParameters, string>>;
+
+/** Recorded for a density curve checked against DRHO */
+export interface DensityValidation {
+  curve: string;
+  correctionCurve: string;
+  checked: number;
+  flagged: number;
+  /** Depth intervals of consecutive flagged samples */
+  intervals: Array<{ top: number; bottom: number }>;
+}
+
+/** Recorded on the environmental correction step */
+export interface EnvironmentalCorrectionSummary {
+  parameters: BoreholeParameters;
+  sources: BoreholeParameterSources;
+  /** Corrected curve mnemonics by the curve they were computed from */
+  corrected: Record<string, string>;
+  density: DensityValidation[];
+  /** Corrections that were asked for but couldn't be made, and why */
+  skipped: string[];
+}
+
+// Gamma ray tool diameter, in inches (3-5/8 in)
+const GR_TOOL_DIAMETER = 3.625;
+// Effective mass attenuation of borehole mud for gamma rays, in cm²/g
+const GR_MUD_ATTENUATION = 0.04;
+const REFERENCE_HOLE_SIZE = 8;
+const LB_PER_GAL_TO_G_PER_CC = 0.119826;
+const REFERENCE_MUD_WEIGHT = 10 * LB_PER_GAL_TO_G_PER_CC;
+
+// ~Parameter mnemonics read for each borehole parameter, in order of preference
+const PARAMETER_MNEMONICS: Record<keyof BoreholeParameters, string[]> = {
+  bitSize: ['BS', 'BIT', 'BITS', 'BSZ'],
+  mudWeight: ['MW', 'MDWT', 'MUDWT', 'DFD', 'MDEN', 'DMUD'],
+  mudSalinity: ['SAL', 'MSAL', 'MUDSAL', 'DFS', 'SALN'],
+  standoff: ['SO', 'STOF', 'SOFF', 'STDF']
+};
+
+// Checked in order, so DRHO isn't taken for a density and BS isn't taken for a caliper
+const CURVE_ROLES: Array<[BoreholeCurveRole, (curve: LASCurve, name: string) => boolean]> = [
+  ['bitSize', (_, name) => /^(BS|BIT)$/i.test(name)],
+  ['caliper', (curve, name) => curve.curveType === 'caliper' || /^(CALI?|HCAL|CALX|C1)$/i.test(name)],
+  ['densityCorrection', (_, name) => /^(DRHO|DCOR|ZCOR|HDRA)$/i.test(name)],
+  ['density', (_, name) => /^(RHOB|RHOZ|DENS?|ZDEN|FDC)$/i.test(name)],
+  ['neutron', (_, name) => /^(NPHI|TNPH|NPOR|NEUT|PHIN|CNL|CNC|NPHS|NPSS|NPLS)$/i.test(name)],
+  ['photoelectric', (_, name) => /^(PEF|PE|PEFZ|PHOT)$/i.test(name)],
+  ['microresistivity', (_, name) => /^(RXOZ?|MSFL|MLL|MCFL|MINV|MNOR)$/i.test(name)],
+  ['resistivity', (curve, name) => curve.curveType === 'resistivity' || /^(RT|RD|RM|RS|ILD|ILM|LLD|LLS|SFLU?|RES|AT\d0|RLA\d)$/i.test(name)],
+  ['sonic', (_, name) => /^(DT|DTC|DTCO|DTS|DTSM|AC|SON)$/i.test(name)],
+  ['gammaRay', (curve, name) => curve.curveType === 'gamma_ray' || /^(GR|SGR|CGR)/i.test(name)]
+];
+
+/**
+ * What a curve measures, by its standard mnemonic or else its own
+ */
+export function curveRole(curve: LASCurve): BoreholeCurveRole | undefined {
+  const name = curve.standardMnemonic || curve.mnemonic;
+  return CURVE_ROLES.find(([, matches]) => matches(curve, name) || matches(curve, curve.mnemonic))?.[0];
+}
+
+/**
+ * The log curves measuring one thing, in file order
+ */
+export function curvesWithRole(curves: LASCurve[], role: BoreholeCurveRole): LASCurve[] {
+  return curves.filter(c => c.dataType === 'log' && curveRole(c) === role);
+}
+
+/**
+ * Problems with environmental correction options, or none when they are valid or corrections are off
+ */
+export function validateEnvironmentalCorrectionOptions(
+  options: Partial<EnvironmentalCorrectionOptions> | undefined
+): string[] {
+  if (!options?.enabled) return [];
+
+  const errors: string[] = [];
+  const parameters = options.parameters || {};
+  if (parameters.bitSize !== undefined && !(parameters.bitSize > 0)) {
+    errors.push('Environmental correction bit size must be a positive number of inches');
+  }
+  if (parameters.mudWeight !== undefined && !(parameters.mudWeight >= 0.8 && parameters.mudWeight <= 2.6)) {
+    errors.push('Environmental correction mud weight must be between 0.8 and 2.6 g/cm³');
+  }
+  if (parameters.mudSalinity !== undefined && !(parameters.mudSalinity >= 0 && parameters.mudSalinity <= 300000)) {
+    errors.push('Environmental correction mud salinity must be between 0 and 300000 ppm');
+  }
+  if (parameters.standoff !== undefined && !(parameters.standoff >= 0)) {
+    errors.push('Environmental correction standoff must be zero or more inches');
+  }
+  if (options.drhoLimit !== undefined && !(options.drhoLimit > 0)) {
+    errors.push('Environmental correction DRHO limit must be a positive number');
+  }
+  return errors;
+}
+
+/**
+ * Borehole parameters from the ~Parameter section, converted to inches,
+ * g/cm³ and ppm, overlaid with any the user gave
+ */
+export function readBoreholeParameters(
+  items: LASHeaderItem[] | undefined,
+  overrides: BoreholeParameters = {}
+): { parameters: BoreholeParameters; sources: BoreholeParameterSources } {
+  const parameters: BoreholeParameters = {};
+  const sources: BoreholeParameterSources = {};
+
+  for (const name of Object.keys(PARAMETER_MNEMONICS) as Array<keyof BoreholeParameters>) {
+    if (overrides[name] !== undefined) {
+      parameters[name] = overrides[name];
+      sources[name] = 'user';
+      continue;
+    }
+    for (const mnemonic of PARAMETER_MNEMONICS[name]) {
+      const item = items?.find(i => i.mnemonic.toUpperCase() === mnemonic);
+      const value = item ? convertParameter(name, parseFloat(item.value), item.unit) : NaN;
+      if (item && isFinite(value)) {
+        parameters[name] = value;
+        sources[name] = `~Parameter ${item.mnemonic}`;
+        break;
+      }
+    }
+  }
+  return { parameters, sources };
+}
+
+/**
+ * Caliper readings in inches; a curve in millimetres or centimetres is converted
+ */
+export function toInches(values: ArrayLike<number>, unit: string): Float64Array {
+  const scale = lengthScale(unit, values);
+  return Float64Array.from(values, v => v * scale);
+}
+
+/**
+ * Gamma ray corrected to the reference borehole. Mud between the tool and
+ * the formation absorbs gamma rays in proportion to its thickness times its
+ * density, so readings in larger holes or heavier mud are scaled up.
+ */
+export function correctGammaRay(
+  gammaRay: ArrayLike<number>,
+  holeSize: ArrayLike<number>,
+  mudWeight: number
+): Float64Array {
+  const mudThickness = (diameter: number) => (Math.max(diameter - GR_TOOL_DIAMETER, 0) / 2) * 2.54;
+  const reference = REFERENCE_MUD_WEIGHT * mudThickness(REFERENCE_HOLE_SIZE);
+  return Float64Array.from(gammaRay, (value, i) =>
+    value * Math.exp(GR_MUD_ATTENUATION * (mudWeight * mudThickness(holeSize[i]) - reference))
+  );
+}
+
+/**
+ * Neutron porosity corrected to the reference borehole, in the units it
+ * came in. Hole size and standoff put extra hydrogen in front of the tool
+ * and salt mud absorbs thermal neutrons; all three make the tool read too
+ * much porosity, more so at higher porosity.
+ */
+export function correctNeutron(
+  porosity: ArrayLike<number>,
+  holeSize: ArrayLike<number>,
+  parameters: BoreholeParameters,
+  fraction: boolean
+): Float64Array {
+  const scale = fraction ? 100 : 1;
+  const standoff = parameters.standoff ?? 0;
+  const salinity = (parameters.mudSalinity ?? 0) / 100000;
+
+  return Float64Array.from(porosity, (value, i) => {
+    const pu = value * scale;
+    const holeCorrection = (0.5 + 0.025 * pu) * (holeSize[i] - REFERENCE_HOLE_SIZE);
+    const standoffCorrection = (1.2 + 0.06 * pu) * standoff;
+    const salinityCorrection = 0.03 * pu * salinity;
+    return (pu - holeCorrection - standoffCorrection - salinityCorrection) / scale;
+  });
+}
+
+/**
+ * Whether a neutron porosity curve is in v/v rather than porosity units,
+ * from its unit or else its values
+ */
+export function isFractionalPorosity(values: ArrayLike<number>, unit: string): boolean {
+  const normalized = unit.toUpperCase().replace(/[\s.]/g, '');
+  if (['V/V', 'DEC', 'FRAC', 'FRACTION', 'CFCF', 'M3/M3'].includes(normalized)) return true;
+  if (['PU', '%', 'PERCENT'].includes(normalized)) return false;
+  return median(values) <= 1;
+}
+
+/**
+ * Density quality flags: 1 where |DRHO| exceeds the limit, 0 where it
+ * doesn't and NaN where either curve is null
+ */
+export function validateDensity(
+  depth: ArrayLike<number>,
+  density: ArrayLike<number>,
+  correction: ArrayLike<number>,
+  limit = DEFAULT_DRHO_LIMIT
+): { flags: Float64Array; checked: number; flagged: number; intervals: DensityValidation['intervals'] } {
+  const flags = Float64Array.from(density, (value, i) =>
+    isNaN(value) || isNaN(correction[i]) ? NaN : Math.abs(correction[i]) > limit ? 1 : 0
+  );
+
+  const intervals: DensityValidation['intervals'] = [];
+  let checked = 0;
+  let flagged = 0;
+  for (let i = 0; i < flags.length; i++) {
+    if (isNaN(flags[i])) continue;
+    checked++;
+    if (flags[i] !== 1) continue;
+    flagged++;
+    if (i > 0 && flags[i - 1] === 1) {
+      // Top is the shallower end whichever way the depths run
+      const interval = intervals[intervals.length - 1];
+      interval.top = Math.min(interval.top, depth[i]);
+      interval.bottom = Math.max(interval.bottom, depth[i]);
+    } else {
+      intervals.push({ top: depth[i], bottom: depth[i] });
+    }
+  }
+  return { flags, checked, flagged, intervals };
+}
+
+function convertParameter(name: keyof BoreholeParameters, value: number, unit: string): number {
+  const normalized = unit.toUpperCase().replace(/\s/g, '');
+  switch (name) {
+    case 'bitSize':
+    case 'standoff':
+      return value * lengthScale(unit, [value]);
+    case 'mudWeight':
+      if (['LB/G', 'LB/GAL', 'LBM/GAL', 'PPG'].includes(normalized)) return value * LB_PER_GAL_TO_G_PER_CC;
+      if (['KG/M3', 'KG/M³'].includes(normalized)) return value / 1000;
+      if (['G/C3', 'G/CC', 'G/CM3', 'G/CM³', 'SG'].includes(normalized)) return value;
+      // Unitless: lb/gal readings start around 8.3 for fresh water
+      return value > 3 ? value * LB_PER_GAL_TO_G_PER_CC : value;
+    case 'mudSalinity':
+      if (['KPPM', 'G/L'].includes(normalized)) return value * 1000;
+      return value;
+  }
+}
+
+// Inches per unit of a length; unitless readings above 50 are taken as millimetres
+function lengthScale(unit: string, values: ArrayLike<number>): number {
+  const normalized = unit.toUpperCase().replace(/\s/g, '');
+  if (normalized === 'MM') return 1 / 25.4;
+  if (normalized === 'CM') return 1 / 2.54;
+  if (normalized === 'IN' || normalized === 'INCH' || normalized === 'INCHES' || normalized === '"') return 1;
+  return median(values) > 50 ? 1 / 25.4 : 1;
+}
+
+function median(values: ArrayLike<number>): number {
+  const valid = Array.from(values).filter(v => !isNaN(v)).sort((a, b) => a - b);
+  return valid.length === 0 ? NaN : valid[Math.floor(valid.length / 2)];
+}
@@ -0,0 +1,64 @@
+/**
+ * Tests for filling gaps by interpolation and regression
+ */
+
+import { fillGaps, findGaps, GAP_FLAG, GapFillOptions } from './gapFilling';
+import { describe, it, expect } from '@jest/globals';
+
+describe('Gap filling', () => {
+  // Density follows neutron porosity; a two-sample gap and a ten-sample gap in density
+  const depth = Array.from({ length: 60 }, (_, i) => 1000 + i * 0.5);
+  const nphi = depth.map((_, i) => 0.2 + Math.sin(i / 4) * 0.05 + i * 0.001);
+  const rhob = nphi.map(v => 2.9 - 2 * v);
+  const gapped = rhob.map((v, i) => (i === 10 || i === 11 || (i >= 30 && i < 40) ? NaN : v));
+  const options: GapFillOptions = {
+    enabled: true,
+    maxGapLength: 6,
+    maxInterpolationLength: 1.5,
+    interpolationMethod: 'linear',
+    regression: true
+  };
+
+  it('should find each run of nulls', () => {
+    expect(findGaps(gapped)).toEqual([{ start: 10, end: 11 }, { start: 30, end: 39 }]);
+    expect(findGaps([1, 2, 3])).toEqual([]);
+  });
+
+  it('should interpolate short gaps, predict long ones from a correlated curve and flag both', () => {
+    const { values, flags, summary } = fillGaps(depth, gapped, { NPHI: nphi }, options);
+
+    expect(summary).toMatchObject({ gaps: 2, interpolated: 2, predicted: 10, unfilled: 0 });
+    expect(summary.models).toEqual([{ predictors: ['NPHI'], r2: expect.any(Number), samples: 48 }]);
+    expect(values[10]).toBeCloseTo(rhob[10], 2);
+    expect(values[35]).toBeCloseTo(rhob[35], 6);
+    expect(Array.from(flags.slice(9, 13))).toEqual([0, 1, 1, 0]);
+    expect(Array.from(flags.slice(29, 41))).toEqual([0, ...Array(10).fill(GAP_FLAG.predicted), 0]);
+  });
+
+  it('should fill the same way when depths decrease', () => {
+    const forward = fillGaps(depth, gapped, { NPHI: nphi }, options);
+    const backward = fillGaps([...depth].reverse(), [...gapped].reverse(), { NPHI: [...nphi].reverse() }, options);
+
+    expect(backward.summary).toEqual(forward.summary);
+    Array.from(backward.values).reverse().forEach((value, i) => expect(value).toBeCloseTo(forward.values[i], 9));
+  });
+
+  it('should leave gaps it cannot fill null, counting them as unfilled', () => {
+    const leading = fillGaps(depth, rhob.map((v, i) => (i < 2 ? NaN : v)), {}, { ...options, regression: false });
+    expect(leading.summary).toMatchObject({ interpolated: 0, unfilled: 2 });
+
+    const tooLong = fillGaps(depth, gapped, { NPHI: nphi }, { ...options, maxGapLength: 4 });
+    expect(tooLong.summary).toMatchObject({ interpolated: 2, predicted: 0, unfilled: 10 });
+    expect(tooLong.values[35]).toBeNaN();
+  });
+
+  it('should leave an all-null curve and a single null sample as they are', () => {
+    const empty = fillGaps(depth, depth.map(() => NaN), { NPHI: nphi }, options);
+    expect(empty.summary).toEqual({ gaps: 1, interpolated: 0, predicted: 0, unfilled: 60, models: [] });
+    expect(Array.from(empty.values).every(isNaN)).toBe(true);
+
+    const single = fillGaps([1000], [NaN], {}, options);
+    expect(single.summary).toMatchObject({ gaps: 1, unfilled: 1 });
+    expect(Array.from(single.flags)).toEqual([NaN]);
+  });
+});
@@ -0,0 +1,357 @@
+/**
+ * POLISH Gap Filling
+ *
+ * Fills runs of null samples. Gaps up to the interpolation limit that have
+ * valid samples on both sides are interpolated; longer gaps, and gaps at
+ * the ends of a curve, are predicted by a multivariate linear regression
+ * on correlated curves, trained on the samples where all of them were
+ * logged. Gaps longer than the maximum gap length stay null. Every filled
+ * sample is marked in a flag curve.
+ */
+
+import { pchipInterpolation } from './resampling';
+
+export interface GapFillOptions {
+  enabled: boolean;
+  /** Longest gap filled at all, in depth units */
+  maxGapLength: number;
+  /** Longest gap filled by interpolation, in depth units; longer gaps are predicted */
+  maxInterpolationLength: number;
+  interpolationMethod: 'linear' | 'pchip';
+  /** Predict gaps too long to interpolate from correlated curves */
+  regression: boolean;
+  /** Curves to fill; every log curve when omitted */
+  curves?: string[];
+  /** Predictor curves by the mnemonic they predict; the best correlated curves when omitted */
+  predictors?: Record<string, string[]>;
+  /** Smallest R² on the training samples for a regression's predictions to be used; default 0.6 */
+  minR2?: number;
+}
+
+/** Flag curve values */
+export const GAP_FLAG = {
+  measured: 0,
+  interpolated: 1,
+  predicted: 2
+} as const;
+
+/** Suffix of the flag curve added for each filled curve, e.g. DT_FILL */
+export const GAP_FLAG_SUFFIX = '_FILL';
+
+/** An inclusive run of null sample indices */
+export interface Gap {
+  start: number;
+  end: number;
+}
+
+export interface RegressionModel {
+  predictors: string[];
+  /** Intercept first, then one coefficient per predictor */
+  coefficients: number[];
+  /** Coefficient of determination on the training samples */
+  r2: number;
+  samples: number;
+}
+
+/** Recorded for each curve that had gaps */
+export interface GapFillSummary {
+  gaps: number;
+  interpolated: number;
+  predicted: number;
+  unfilled: number;
+  models: Omit<RegressionModel, 'coefficients'>[];
+}
+
+export interface GapFillResult {
+  values: Float64Array;
+  flags: Float64Array;
+  summary: GapFillSummary;
+}
+
+const DEFAULT_MIN_R2 = 0.6;
+// Curves correlating more weakly than this with the target aren't used as predictors
+const MIN_PREDICTOR_CORRELATION = 0.5;
+const MAX_PREDICTORS = 3;
+// Training samples needed per regression coefficient
+const SAMPLES_PER_COEFFICIENT = 10;
+// Valid samples either side of a gap that shape a PCHIP fill
+const PCHIP_CONTEXT = 3;
+
+/**
+ * Problems with gap filling options, or none when they are valid or gap filling is off
+ */
+export function validateGapFillOptions(options: Partial<GapFillOptions> | undefined): string[] {
+  if (!options?.enabled) return [];
+
+  const errors: string[] = [];
+  if (typeof options.maxGapLength !== 'number' || !(options.maxGapLength > 0)) {
+    errors.push('Gap filling maximum gap length must be a positive number');
+  }
+  if (typeof options.maxInterpolationLength !== 'number' || options.maxInterpolationLength < 0) {
+    errors.push('Gap filling interpolation length must be zero or more');
+  }
+  if (options.interpolationMethod !== 'linear' && options.interpolationMethod !== 'pchip') {
+    errors.push(`Unknown gap filling interpolation method "${options.interpolationMethod}"; expected linear or pchip`);
+  }
+  if (options.minR2 !== undefined && !(options.minR2 >= 0 && options.minR2 <= 1)) {
+    errors.push('Gap filling minimum R² must be between 0 and 1');
+  }
+  return errors;
+}
+
+/**
+ * Runs of NaN samples, in depth order
+ */
+export function findGaps(values: ArrayLike<number>): Gap[] {
+  const gaps: Gap[] = [];
+  for (let i = 0; i < values.length; i++) {
+    if (!isNaN(values[i])) continue;
+    const start = i;
+    while (i + 1 < values.length && isNaN(values[i + 1])) i++;
+    gaps.push({ start, end: i });
+  }
+  return gaps;
+}
+
+/**
+ * Least-squares fit of the target on the predictors over the given rows,
+ * or null when the rows are too few or the predictors collinear
+ */
+export function fitRegression(
+  predictors: Record<string, ArrayLike<number>>,
+  target: ArrayLike<number>,
+  rows: number[]
+): RegressionModel | null {
+  const names = Object.keys(predictors);
+  const size = names.length + 1;
+  if (rows.length < SAMPLES_PER_COEFFICIENT * size) return null;
+
+  const row = (i: number) => [1, ...names.map(name => predictors[name][i])];
+
+  // Normal equations, XᵀX b = Xᵀy
+  const matrix = Array.from({ length: size }, () => new Array(size + 1).fill(0));
+  for (const i of rows) {
+    const x = row(i);
+    for (let a = 0; a < size; a++) {
+      for (let b = 0; b < size; b++) matrix[a][b] += x[a] * x[b];
+      matrix[a][size] += x[a] * target[i];
+    }
+  }
+  const coefficients = solve(matrix);
+  if (!coefficients) return null;
+
+  const mean = rows.reduce((sum, i) => sum + target[i], 0) / rows.length;
+  let residual = 0;
+  let total = 0;
+  for (const i of rows) {
+    residual += (target[i] - predict(coefficients, row(i))) ** 2;
+    total += (target[i] - mean) ** 2;
+  }
+
+  return {
+    predictors: names,
+    coefficients,
+    r2: total > 0 ? 1 - residual / total : 0,
+    samples: rows.length
+  };
+}
+
+/**
+ * Fill one curve's gaps. `others` are the curves it may be predicted from,
+ * on the same depths, with NaN for nulls.
+ */
+export function fillGaps(
+  depth: ArrayLike<number>,
+  values: ArrayLike<number>,
+  others: Record<string, ArrayLike<number>>,
+  options: GapFillOptions,
+  predictorNames?: string[]
+): GapFillResult {
+  const filled = Float64Array.from(values);
+  const flags = Float64Array.from(values, value => (isNaN(value) ? NaN : GAP_FLAG.measured));
+  const gaps = findGaps(values);
+  const summary: GapFillSummary = { gaps: gaps.length, interpolated: 0, predicted: 0, unfilled: 0, models: [] };
+  if (gaps.length === 0 || depth.length < 2) {
+    // A lone sample has no step to measure gaps by, so its null stays
+    summary.unfilled = gaps.reduce((sum, gap) => sum + gap.end - gap.start + 1, 0);
+    return { values: filled, flags, summary };
+  }
+
+  const step = Math.abs(depth[depth.length - 1] - depth[0]) / (depth.length - 1);
+  const candidates = predictorNames
+    ? predictorNames.filter(name => others[name])
+    : rankPredictors(values, others);
+  const models = new Map<string, RegressionModel | null>();
+
+  for (const gap of gaps) {
+    const length = Math.abs(depth[gap.end] - depth[gap.start]) + step;
+    const bounded = gap.start > 0 && gap.end < values.length - 1;
+
+    if (length > options.maxGapLength) {
+      summary.unfilled += gap.end - gap.start + 1;
+    } else if (bounded && length <= options.maxInterpolationLength) {
+      interpolateGap(depth, values, gap, options.interpolationMethod, filled);
+      fillFlags(flags, gap, GAP_FLAG.interpolated);
+      summary.interpolated += gap.end - gap.start + 1;
+    } else if (options.regression && predictGap(values, others, candidates, gap, options, models, filled)) {
+      fillFlags(flags, gap, GAP_FLAG.predicted);
+      summary.predicted += gap.end - gap.start + 1;
+    } else {
+      summary.unfilled += gap.end - gap.start + 1;
+    }
+  }
+
+  summary.models = Array.from(models.values())
+    .filter((model): model is RegressionModel => model !== null && model.r2 >= (options.minR2 ?? DEFAULT_MIN_R2))
+    .map(({ predictors, r2, samples }) => ({ predictors, r2, samples }));
+  return { values: filled, flags, summary };
+}
+
+/**
+ * Other curves by how strongly they correlate with the target, strongest
+ * first, leaving out weak ones
+ */
+function rankPredictors(target: ArrayLike<number>, others: Record<string, ArrayLike<number>>): string[] {
+  return Object.entries(others)
+    .map(([name, values]) => ({ name, r: Math.abs(correlation(target, values)) }))
+    .filter(({ r }) => r >= MIN_PREDICTOR_CORRELATION)
+    .sort((a, b) => b.r - a.r)
+    .slice(0, MAX_PREDICTORS)
+    .map(({ name }) => name);
+}
+
+function correlation(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  let n = 0;
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (isNaN(a[i]) || isNaN(b[i])) continue;
+    n++;
+    sumA += a[i];
+    sumB += b[i];
+  }
+  if (n < 3) return 0;
+
+  const meanA = sumA / n;
+  const meanB = sumB / n;
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (isNaN(a[i]) || isNaN(b[i])) continue;
+    covariance += (a[i] - meanA) * (b[i] - meanB);
+    varianceA += (a[i] - meanA) ** 2;
+    varianceB += (b[i] - meanB) ** 2;
+  }
+  return varianceA > 0 && varianceB > 0 ? covariance / Math.sqrt(varianceA * varianceB) : 0;
+}
+
+function interpolateGap(
+  depth: ArrayLike<number>,
+  values: ArrayLike<number>,
+  gap: Gap,
+  method: GapFillOptions['interpolationMethod'],
+  filled: Float64Array
+): void {
+  // Valid samples next to the gap, as positions increasing along the curve
+  const context = method === 'pchip' ? PCHIP_CONTEXT : 1;
+  const direction = depth[depth.length - 1] >= depth[0] ? 1 : -1;
+  const indices: number[] = [];
+  for (let i = gap.start - 1; i >= 0 && indices.length < context && !isNaN(values[i]); i--) indices.unshift(i);
+  const before = indices.length;
+  for (let i = gap.end + 1; i < values.length && indices.length < before + context && !isNaN(values[i]); i++) indices.push(i);
+
+  const x = indices.map(i => direction * depth[i]);
+  const y = indices.map(i => values[i]);
+  const at = Array.from({ length: gap.end - gap.start + 1 }, (_, k) => direction * depth[gap.start + k]);
+
+  const result = method === 'pchip' && x.length > 2
+    ? pchipInterpolation(x, y, at)
+    : at.map(position => {
+      const [x0, x1] = [x[before - 1], x[before]];
+      return y[before - 1] + ((position - x0) / (x1 - x0)) * (y[before] - y[before - 1]);
+    });
+  result.forEach((value, k) => { filled[gap.start + k] = value; });
+}
+
+/**
+ * Predict a gap from the candidates logged all through it. The prediction
+ * is shifted to meet the measured samples either side of the gap, so the
+ * fill joins the curve without a step.
+ */
+function predictGap(
+  values: ArrayLike<number>,
+  others: Record<string, ArrayLike<number>>,
+  candidates: string[],
+  gap: Gap,
+  options: GapFillOptions,
+  models: Map<string, RegressionModel | null>,
+  filled: Float64Array
+): boolean {
+  const usable = candidates.filter(name => {
+    for (let i = gap.start; i <= gap.end; i++) {
+      if (isNaN(others[name][i])) return false;
+    }
+    return true;
+  });
+  if (usable.length === 0) return false;
+
+  const key = usable.join('|');
+  if (!models.has(key)) {
+    const predictors = Object.fromEntries(usable.map(name => [name, others[name]]));
+    const rows: number[] = [];
+    for (let i = 0; i < values.length; i++) {
+      if (!isNaN(values[i]) && usable.every(name => !isNaN(others[name][i]))) rows.push(i);
+    }
+    models.set(key, fitRegression(predictors, values, rows));
+  }
+  const model = models.get(key);
+  if (!model || model.r2 < (options.minR2 ?? DEFAULT_MIN_R2)) return false;
+
+  const estimate = (i: number) => predict(model.coefficients, [1, ...usable.map(name => others[name][i])]);
+  const misfit = (i: number) => {
+    if (i < 0 || i >= values.length || isNaN(values[i]) || usable.some(name => isNaN(others[name][i]))) return NaN;
+    return values[i] - estimate(i);
+  };
+  const before = misfit(gap.start - 1);
+  const after = misfit(gap.end + 1);
+
+  const span = gap.end - gap.start + 2;
+  for (let i = gap.start; i <= gap.end; i++) {
+    const t = (i - gap.start + 1) / span;
+    const offset = isNaN(before) ? (isNaN(after) ? 0 : after) : isNaN(after) ? before : before + t * (after - before);
+    filled[i] = estimate(i) + offset;
+  }
+  return true;
+}
+
+function fillFlags(flags: Float64Array, gap: Gap, flag: number): void {
+  flags.fill(flag, gap.start, gap.end + 1);
+}
+
+function predict(coefficients: number[], row: number[]): number {
+  return coefficients.reduce((sum, coefficient, k) => sum + coefficient * row[k], 0);
+}
+
+/**
+ * Gaussian elimination with partial pivoting on an augmented matrix;
+ * null when it is singular
+ */
+function solve(matrix: number[][]): number[] | null {
+  const size = matrix.length;
+  for (let column = 0; column < size; column++) {
+    let pivot = column;
+    for (let r = column + 1; r < size; r++) {
+      if (Math.abs(matrix[r][column]) > Math.abs(matrix[pivot][column])) pivot = r;
+    }
+    if (Math.abs(matrix[pivot][column]) < 1e-12) return null;
+    [matrix[column], matrix[pivot]] = [matrix[pivot], matrix[column]];
+
+    for (let r = 0; r < size; r++) {
+      if (r === column) continue;
+      const factor = matrix[r][column] / matrix[column][column];
+      for (let c = column; c <= size; c++) matrix[r][c] -= factor * matrix[column][c];
+    }
+  }
+  return matrix.map((row, r) => row[size] / row[r]);
+}
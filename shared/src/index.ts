@@ -0,0 +1,22 @@
+/**
+ * POLISH Shared Core
+ *
+ * LAS parsing and curve processing used by both the browser and the server,
+ * so a preview in the browser gives the same numbers as a server job.
+ */
+
+export * from './types';
+export * from './wellLog';
+export * from './lasDiagnostics';
+export * from './lasParser';
+export * from './MnemonicStandardizer';
+export * from './curveParameters';
+export * from './processingAlgorithms';
+export * from './wavelets';
+export * from './depthMatching';
+export * from './resampling';
+export * from './gapFilling';
+export * from './environmentalCorrections';
+export * from './badHole';
+export * from './baselines';
+export * from './spikeConsensus';
@@ -0,0 +1,314 @@
+/**
+ * POLISH LAS Parse Diagnostics
+ *
+ * Structured findings from LAS parsing: each diagnostic carries a severity,
+ * a stable code, the source line and column, the section it belongs to and,
+ * where one exists, a suggested fix. Strict mode rejects a file when any
+ * error-severity diagnostic is reported.
+ */
+
+import type { LASMetadata } from './lasParser';
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'MISSING_SECTION'
+  | 'UNRECOGNIZED_SECTION'
+  | 'MALFORMED_HEADER_LINE'
+  | 'MISSING_HEADER_ITEM'
+  | 'INVALID_HEADER_VALUE'
+  | 'UNSUPPORTED_DELIMITER'
+  | 'DUPLICATE_CURVE'
+  | 'MISSING_DEFINITION'
+  | 'ROW_TOO_SHORT'
+  | 'ROW_TOO_LONG'
+  | 'INVALID_INDEX_VALUE'
+  | 'WRAPPED_RECORD_OVERRUN'
+  | 'WRAPPED_RECORD_INCOMPLETE'
+  | 'START_DEPTH_MISMATCH'
+  | 'STOP_DEPTH_MISMATCH'
+  | 'STEP_MISMATCH'
+  | 'NON_MONOTONIC_INDEX'
+  | 'PHYSICAL_RANGE'
+  | 'MNEMONIC_STANDARDIZATION'
+  | 'DIAGNOSTICS_TRUNCATED';
+
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+  line?: number; // 1-based
+  column?: number; // 1-based
+  section?: string; // e.g. "~Well", "~A", "~Core_Data"
+  suggestion?: string;
+}
+
+export type DiagnosticDetails = Pick<ParseDiagnostic, 'line' | 'column' | 'section' | 'suggestion'>;
+
+/**
+ * A source line with the 1-based column its (trimmed) text starts at
+ */
+export interface SourceLine {
+  text: string;
+  lineNumber: number;
+  column: number;
+}
+
+/**
+ * Collects diagnostics for one parse. Each code is capped so a systematic
+ * problem in a 100k-row file reports a sample of rows instead of every one;
+ * the number suppressed is reported at the end.
+ */
+export class ParseDiagnostics {
+  private items: ParseDiagnostic[] = [];
+  private counts = new Map<DiagnosticCode, number>();
+  private errors = 0;
+
+  constructor(private maxPerCode = 100) {}
+
+  error(code: DiagnosticCode, message: string, details: DiagnosticDetails = {}): void {
+    this.report({ severity: 'error', code, message, ...details });
+  }
+
+  warning(code: DiagnosticCode, message: string, details: DiagnosticDetails = {}): void {
+    this.report({ severity: 'warning', code, message, ...details });
+  }
+
+  info(code: DiagnosticCode, message: string, details: DiagnosticDetails = {}): void {
+    this.report({ severity: 'info', code, message, ...details });
+  }
+
+  report(diagnostic: ParseDiagnostic): void {
+    const count = (this.counts.get(diagnostic.code) || 0) + 1;
+    this.counts.set(diagnostic.code, count);
+    if (diagnostic.severity === 'error') this.errors++;
+    if (count <= this.maxPerCode) {
+      this.items.push(diagnostic);
+    }
+  }
+
+  get hasErrors(): boolean {
+    return this.errors > 0;
+  }
+
+  get errorCount(): number {
+    return this.errors;
+  }
+
+  /**
+   * All diagnostics in report order, followed by a note for each capped code
+   */
+  get list(): ParseDiagnostic[] {
+    const truncated: ParseDiagnostic[] = [];
+    for (const [code, count] of this.counts) {
+      if (count > this.maxPerCode) {
+        truncated.push({
+          severity: 'info',
+          code: 'DIAGNOSTICS_TRUNCATED',
+          message: `${count - this.maxPerCode} further ${code} diagnostics suppressed`
+        });
+      }
+    }
+    return [...this.items, ...truncated];
+  }
+
+  /**
+   * Error and warning diagnostics as "Line N, column M: message" strings
+   */
+  get warnings(): string[] {
+    return this.list
+      .filter(d => d.severity !== 'info')
+      .map(formatDiagnostic);
+  }
+}
+
+export function formatDiagnostic(diagnostic: ParseDiagnostic): string {
+  if (diagnostic.line === undefined) return diagnostic.message;
+  const location = diagnostic.column !== undefined
+    ? `Line ${diagnostic.line}, column ${diagnostic.column}`
+    : `Line ${diagnostic.line}`;
+  return `${location}: ${diagnostic.message}`;
+}
+
+/**
+ * Checks log data records as they are read: row width, index values, index
+ * direction, and the declared STRT/STOP/STEP against the actual depths.
+ * Shared by the buffer and stream parsers so both report the same findings.
+ */
+export class DataRecordValidator {
+  private readonly valuesPerRecord: number;
+  private readonly declared: { start?: number; stop?: number; step?: number };
+  private readonly depthUnit: string;
+
+  private rowCount = 0;
+  private first?: { depth: number; line: number };
+  private last?: { depth: number; line: number };
+  private direction = 0;
+  private stepMismatches = 0;
+  private firstStepMismatch?: { increment: number; line: number };
+
+  constructor(
+    metadata: LASMetadata,
+    private diagnostics: ParseDiagnostics,
+    private section: string
+  ) {
+    this.valuesPerRecord = metadata.curves.length + 1;
+    this.depthUnit = metadata.header.depthUnit ? `.${metadata.header.depthUnit}` : '.';
+
+    const declaredValue = (mnemonic: string) => {
+      const item = metadata.wellItems.find(i => i.mnemonic.toUpperCase() === mnemonic);
+      const value = item ? parseFloat(item.value) : NaN;
+      return isNaN(value) ? undefined : value;
+    };
+    this.declared = {
+      start: declaredValue('STRT'),
+      stop: declaredValue('STOP'),
+      step: declaredValue('STEP')
+    };
+    if (this.declared.step) {
+      this.direction = Math.sign(this.declared.step);
+    }
+  }
+
+  /**
+   * Check one data record. `line` is the line the record starts on.
+   * Returns false when the record has no numeric index and must be skipped.
+   */
+  check(values: string[], line: SourceLine, endLine: SourceLine = line): boolean {
+    const { section } = this;
+
+    if (values.length < this.valuesPerRecord) {
+      this.diagnostics.error(
+        'ROW_TOO_SHORT',
+        `data row has ${values.length} values, expected ${this.valuesPerRecord}; missing values read as null`,
+        {
+          line: endLine.lineNumber,
+          column: endLine.column + endLine.text.length,
+          section,
+          suggestion: `Add the missing values or the NULL value for the last ${this.valuesPerRecord - values.length} curve(s)`
+        }
+      );
+    } else if (values.length > this.valuesPerRecord) {
+      this.diagnostics.error(
+        'ROW_TOO_LONG',
+        `data row has ${values.length} values, expected ${this.valuesPerRecord}; extra values ignored`,
+        {
+          line: line.lineNumber,
+          column: locateValue(line, values, this.valuesPerRecord),
+          section,
+          suggestion: 'Remove the extra values or add a ~Curve entry for each column'
+        }
+      );
+    }
+
+    const depth = parseFloat(values[0]);
+    if (isNaN(depth)) {
+      this.diagnostics.error('INVALID_INDEX_VALUE', `index value "${values[0]}" is not a number; row skipped`, {
+        line: line.lineNumber,
+        column: line.column,
+        section,
+        suggestion: 'Every data row must start with a numeric depth or time index'
+      });
+      return false;
+    }
+
+    this.addDepth(depth, line);
+    return true;
+  }
+
+  /**
+   * Compare the index range seen against the declared STRT and STOP
+   */
+  finish(): void {
+    const { declared, first, last, section } = this;
+    if (!first || !last) return;
+
+    const tolerance = Math.max(Math.abs(declared.step || 0) * 0.01, 1e-4);
+
+    if (declared.start !== undefined && Math.abs(first.depth - declared.start) > tolerance) {
+      this.diagnostics.error(
+        'START_DEPTH_MISMATCH',
+        `STRT is ${declared.start} but the first data row is at ${first.depth}`,
+        {
+          line: first.line,
+          section,
+          suggestion: `Set STRT${this.depthUnit} to ${first.depth} in the ~Well section`
+        }
+      );
+    }
+
+    if (declared.stop !== undefined && Math.abs(last.depth - declared.stop) > tolerance) {
+      this.diagnostics.error(
+        'STOP_DEPTH_MISMATCH',
+        `STOP is ${declared.stop} but the last data row is at ${last.depth}`,
+        {
+          line: last.line,
+          section,
+          suggestion: `Set STOP${this.depthUnit} to ${last.depth} in the ~Well section`
+        }
+      );
+    }
+
+    if (this.firstStepMismatch) {
+      const { increment, line } = this.firstStepMismatch;
+      this.diagnostics.error(
+        'STEP_MISMATCH',
+        `STEP is ${declared.step} but ${this.stepMismatches} of ${this.rowCount - 1} ` +
+        `depth increments differ (first: ${increment})`,
+        {
+          line,
+          section,
+          suggestion: 'Correct STEP in the ~Well section, or set it to 0 for irregularly sampled data'
+        }
+      );
+    }
+  }
+
+  private addDepth(depth: number, line: SourceLine): void {
+    this.rowCount++;
+
+    if (this.last) {
+      const increment = depth - this.last.depth;
+      const step = this.declared.step;
+
+      if (!this.direction && increment !== 0) {
+        this.direction = Math.sign(increment);
+      }
+      if (increment === 0 || Math.sign(increment) !== this.direction) {
+        this.diagnostics.error(
+          'NON_MONOTONIC_INDEX',
+          `index ${depth} does not ${this.direction < 0 ? 'decrease' : 'increase'} from ${this.last.depth}`,
+          {
+            line: line.lineNumber,
+            column: line.column,
+            section: this.section,
+            suggestion: 'Sort the data rows by index and remove duplicate depths'
+          }
+        );
+      } else if (step && Math.abs(increment - step) > Math.abs(step) * 0.01) {
+        this.stepMismatches++;
+        if (!this.firstStepMismatch) {
+          this.firstStepMismatch = { increment: Number(increment.toFixed(6)), line: line.lineNumber };
+        }
+      }
+    } else {
+      this.first = { depth, line: line.lineNumber };
+    }
+
+    this.last = { depth, line: line.lineNumber };
+  }
+}
+
+/**
+ * Column of the value at `index`, found by scanning the line left to right
+ */
+function locateValue(line: SourceLine, values: string[], index: number): number {
+  let cursor = 0;
+  for (let i = 0; i <= index && i < values.length; i++) {
+    const position = line.text.indexOf(values[i], cursor);
+    if (position === -1) break;
+    if (i === index) return line.column + position;
+    cursor = position + values[i].length;
+  }
+  return line.column;
+}
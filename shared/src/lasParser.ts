@@ -0,0 +1,1213 @@
+/**
+ * POLISH LAS File Parser
+ * 
+ * A production-ready LAS file parser supporting LAS 2.0 and 3.0 formats.
+ * Handles real-world LAS files with varying formats and standards. It has
+ * no Node or DOM dependencies, so the browser preview and the server read
+ * a file the same way.
+ */
+
+import { LASFile, LASHeader, LASCurve, LASDataSet, LASDelimiter, LASHeaderItem } from './types';
+import { MnemonicStandardizer } from './MnemonicStandardizer';
+import { WellLog } from './wellLog';
+import {
+  DataRecordValidator,
+  DiagnosticDetails,
+  formatDiagnostic,
+  ParseDiagnostic,
+  ParseDiagnostics,
+  SourceLine
+} from './lasDiagnostics';
+
+export interface ParseResult {
+  success: boolean;
+  data?: LASFile;
+  error?: string;
+  warnings: string[]; // error and warning diagnostics, formatted
+  diagnostics: ParseDiagnostic[];
+  parseTime: number;
+}
+
+export interface ParseOptions {
+  autoStandardizeMnemonics?: boolean;
+  mnemonicStandard?: 'api' | 'cwls' | 'custom';
+  preserveOriginalMnemonics?: boolean;
+  validatePhysicalRanges?: boolean;
+  maxFileSize?: number; // in bytes
+  strictMode?: boolean; // fail when any error-severity diagnostic is reported
+}
+
+export interface LASMetadata {
+  header: LASHeader;
+  curves: LASCurve[];
+  wellItems: LASHeaderItem[];
+  parameters: LASHeaderItem[];
+  otherInformation?: string;
+  dataSets: LASDataSet[];
+}
+
+type RawSectionKind = 'version' | 'well' | 'parameter' | 'curve' | 'other' | 'data' | 'unknown';
+
+interface RawSection {
+  kind: RawSectionKind;
+  group: string;
+  title: string;
+  name: string; // first word of the title, e.g. "~Well" or "~Core_Data"
+  association?: string;
+  lineNumber: number;
+  lines: SourceLine[];
+}
+
+interface HeaderEntry {
+  item: LASHeaderItem;
+  line: SourceLine;
+  section: string;
+}
+
+interface DataRecord {
+  values: string[];
+  line: SourceLine; // first line of the record
+  endLine: SourceLine; // last line, differs from `line` in wrapped mode
+}
+
+export class LASParser {
+  private standardizer: MnemonicStandardizer;
+  private readonly defaultMaxFileSize = 100 * 1024 * 1024; // 100MB
+
+  constructor() {
+    this.standardizer = new MnemonicStandardizer();
+  }
+
+  /**
+   * Parse a LAS file from its bytes, such as a Node Buffer or the contents
+   * of a browser File
+   */
+  async parse(
+    buffer: Uint8Array,
+    fileName: string,
+    options: ParseOptions = {}
+  ): Promise<ParseResult> {
+    const startTime = Date.now();
+    const diagnostics = new ParseDiagnostics();
+
+    try {
+      // Validate file size
+      if (buffer.length > (options.maxFileSize || this.defaultMaxFileSize)) {
+        return this.createResult(startTime, diagnostics, {
+          success: false,
+          error: `File size (${buffer.length} bytes) exceeds maximum allowed size`
+        });
+      }
+
+      // Decode as UTF-8, keeping any byte order mark as Buffer.toString does
+      const content = new TextDecoder('utf-8', { ignoreBOM: true }).decode(buffer);
+      if (!content.trim()) {
+        return this.createResult(startTime, diagnostics, {
+          success: false,
+          error: 'File is empty or contains no valid content'
+        });
+      }
+
+      // Split into sections
+      const sections = this.parseSections(content, diagnostics);
+      if (sections.length === 0) {
+        return this.createResult(startTime, diagnostics, {
+          success: false,
+          error: 'File is empty or contains no valid content'
+        });
+      }
+      
+      // Parse header, well, curve, parameter and other sections
+      const metadata = this.parseMetadata(sections, diagnostics);
+      
+      // Parse data
+      const dataSection = sections.find(s => s.kind === 'data' && s.group === 'Log');
+      if (!dataSection) {
+        diagnostics.error('MISSING_SECTION', 'No ~A (ASCII log data) section found', {
+          suggestion: 'Add a ~A section containing the log data rows'
+        });
+      }
+      const log = this.parseData(dataSection, metadata, diagnostics);
+
+      const lasFile = await this.buildLASFile(metadata, log, fileName, buffer.length, options, diagnostics);
+
+      if (options.strictMode && diagnostics.hasErrors) {
+        return this.createResult(startTime, diagnostics, {
+          success: false,
+          error: this.strictModeError(diagnostics)
+        });
+      }
+
+      return this.createResult(startTime, diagnostics, {
+        success: true,
+        data: lasFile
+      });
+
+    } catch (error) {
+      return this.createResult(startTime, diagnostics, {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown parsing error'
+      });
+    }
+  }
+
+  /**
+   * Parse LAS header text: every section except the log data lines.
+   *
+   * Used by the server's LASStreamParser, which reads the log data itself.
+   * `firstLineNumber` keeps diagnostics pointing at the right lines when the
+   * text is a fragment of a larger file, and `baseHeader` supplies the
+   * delimiter and NULL value for sections that follow the log data.
+   */
+  parseHeaderText(
+    content: string,
+    diagnostics: ParseDiagnostics,
+    firstLineNumber = 1,
+    baseHeader?: LASHeader
+  ): LASMetadata {
+    const sections = this.parseSections(content, diagnostics, firstLineNumber);
+    return this.parseMetadata(sections, diagnostics, baseHeader);
+  }
+
+  /**
+   * Parse header, well, curve, parameter, other and data set sections.
+   *
+   * Without a `baseHeader` the sections are the primary header of a file, so
+   * the required ~Version, ~Well and ~Curve sections are checked for.
+   */
+  private parseMetadata(
+    sections: RawSection[],
+    diagnostics: ParseDiagnostics,
+    baseHeader?: LASHeader
+  ): LASMetadata {
+    if (!baseHeader) {
+      this.checkRequiredSections(sections, diagnostics);
+    }
+
+    const versionEntries = this.getSectionEntries(sections, 'version', diagnostics);
+    const wellEntries = this.getSectionEntries(sections, 'well', diagnostics);
+    const curveEntries = this.getSectionEntries(sections, 'curve', diagnostics);
+    const parameterEntries = this.getSectionEntries(sections, 'parameter', diagnostics);
+
+    const header: LASHeader = {
+      ...(baseHeader || this.parseHeader(versionEntries, diagnostics)),
+      ...this.parseWellInfo(wellEntries, diagnostics)
+    };
+
+    if (!baseHeader) {
+      this.checkRequiredItems(sections, 'version', versionEntries, ['VERS', 'WRAP'], diagnostics);
+      this.checkRequiredItems(sections, 'well', wellEntries, ['STRT', 'STOP', 'STEP', 'NULL'], diagnostics);
+    }
+
+    const curves = this.parseCurves(curveEntries, diagnostics);
+    if (curveEntries.length > 0) {
+      header.indexMnemonic = curveEntries[0].item.mnemonic;
+      if (!header.depthUnit && curveEntries[0].item.unit) {
+        header.depthUnit = curveEntries[0].item.unit;
+      }
+    }
+
+    const otherInformation = sections
+      .filter(s => s.kind === 'other')
+      .flatMap(s => s.lines.map(l => l.text))
+      .join('\n');
+
+    return {
+      header,
+      curves,
+      wellItems: wellEntries.map(e => e.item),
+      parameters: parameterEntries.map(e => e.item),
+      otherInformation: otherInformation || undefined,
+      dataSets: this.parseDataSets(sections, header, diagnostics)
+    };
+  }
+
+  /**
+   * Report missing ~Version, ~Well and ~Curve sections
+   */
+  private checkRequiredSections(sections: RawSection[], diagnostics: ParseDiagnostics): void {
+    const required: Array<{ kind: RawSectionKind; name: string }> = [
+      { kind: 'version', name: '~Version' },
+      { kind: 'well', name: '~Well' },
+      { kind: 'curve', name: '~Curve' }
+    ];
+
+    for (const { kind, name } of required) {
+      if (!sections.some(s => s.kind === kind && s.group === 'Log')) {
+        diagnostics.error('MISSING_SECTION', `No ${name} section found`, {
+          suggestion: `Add a ${name} section before the ~A section`
+        });
+      }
+    }
+  }
+
+  /**
+   * Report required header items missing from a section that is present
+   */
+  private checkRequiredItems(
+    sections: RawSection[],
+    kind: RawSectionKind,
+    entries: HeaderEntry[],
+    mnemonics: string[],
+    diagnostics: ParseDiagnostics
+  ): void {
+    const section = sections.find(s => s.kind === kind && s.group === 'Log');
+    if (!section) return;
+
+    for (const mnemonic of mnemonics) {
+      if (!entries.some(e => e.item.mnemonic.toUpperCase() === mnemonic)) {
+        diagnostics.error('MISSING_HEADER_ITEM', `${section.name} section has no ${mnemonic} item`, {
+          line: section.lineNumber,
+          section: section.name,
+          suggestion: `Add a ${mnemonic} line to the ${section.name} section`
+        });
+      }
+    }
+  }
+
+  /**
+   * Wrap a result with the collected diagnostics and elapsed time
+   */
+  protected createResult(
+    startTime: number,
+    diagnostics: ParseDiagnostics,
+    result: Pick<ParseResult, 'success' | 'data' | 'error'>
+  ): ParseResult {
+    return {
+      ...result,
+      warnings: diagnostics.warnings,
+      diagnostics: diagnostics.list,
+      parseTime: Date.now() - startTime
+    };
+  }
+
+  /**
+   * Failure message for a file rejected in strict mode
+   */
+  protected strictModeError(diagnostics: ParseDiagnostics): string {
+    const firstError = diagnostics.list.find(d => d.severity === 'error')!;
+    return `Strict mode: ${diagnostics.errorCount} error(s) found, first: ${formatDiagnostic(firstError)}`;
+  }
+
+  /**
+   * Apply mnemonic standardization and range validation, then assemble the LASFile
+   */
+  protected async buildLASFile(
+    metadata: LASMetadata,
+    log: WellLog,
+    fileName: string,
+    size: number,
+    options: ParseOptions,
+    diagnostics: ParseDiagnostics
+  ): Promise<LASFile> {
+    const { header, curves } = metadata;
+
+    // Standardize mnemonics if requested
+    if (options.autoStandardizeMnemonics) {
+      const standardizationResult = await this.standardizeMnemonics(
+        curves,
+        options.mnemonicStandard || 'api',
+        options.preserveOriginalMnemonics || false
+      );
+      if (standardizationResult.success) {
+        // Columns follow their curves to the standardized mnemonics
+        standardizationResult.standardizedCurves.forEach((curve, i) => {
+          if (curve.mnemonic !== curves[i].mnemonic) log.renameCurve(curves[i].mnemonic, curve.mnemonic);
+        });
+        curves.splice(0, curves.length, ...standardizationResult.standardizedCurves);
+        for (const warning of standardizationResult.warnings) {
+          diagnostics.warning('MNEMONIC_STANDARDIZATION', warning, { section: '~Curve' });
+        }
+      }
+    }
+
+    // Validate physical ranges if requested
+    if (options.validatePhysicalRanges) {
+      this.validatePhysicalRanges(log, curves, diagnostics);
+    }
+
+    return {
+      id: this.generateFileId(),
+      name: fileName,
+      size,
+      uploadedAt: new Date(),
+      processed: false,
+      version: header.version,
+      header,
+      curves,
+      log,
+      qualityScore: this.calculateInitialQualityScore(log, curves),
+      wellItems: metadata.wellItems,
+      parameters: metadata.parameters,
+      otherInformation: metadata.otherInformation,
+      dataSets: metadata.dataSets
+    };
+  }
+
+  /**
+   * Split LAS content into sections, keeping source line numbers.
+   *
+   * LAS 2.0 sections are identified by their first letter (~V, ~W, ~P, ~C,
+   * ~O, ~A). LAS 3.0 grouped sections are named `<Group>_Parameter`,
+   * `<Group>_Definition` and `<Group>_Data`; the `Log` group and the plain
+   * LAS 2.0 sections together make up the primary log.
+   */
+  private parseSections(content: string, diagnostics: ParseDiagnostics, firstLineNumber = 1): RawSection[] {
+    const lines = content.split(/\r?\n/);
+    const sections: RawSection[] = [];
+    let currentSection: RawSection | null = null;
+
+    for (let i = 0; i < lines.length; i++) {
+      const trimmedLine = lines[i].trim();
+      const lineNumber = firstLineNumber + i;
+      const column = lines[i].search(/\S/) + 1;
+      
+      // Skip empty lines and comments
+      if (!trimmedLine || trimmedLine.startsWith('#')) {
+        continue;
+      }
+
+      // Check for section headers
+      if (trimmedLine.startsWith('~')) {
+        currentSection = {
+          ...this.classifySection(trimmedLine),
+          title: trimmedLine,
+          name: trimmedLine.split(/[\s|]/)[0],
+          lineNumber,
+          lines: []
+        };
+        if (currentSection.kind === 'unknown') {
+          diagnostics.warning('UNRECOGNIZED_SECTION', `unrecognized section "${trimmedLine}" ignored`, {
+            line: lineNumber,
+            column,
+            section: currentSection.name,
+            suggestion: 'Use a standard section name: ~V, ~W, ~P, ~C, ~O or ~A'
+          });
+        }
+        sections.push(currentSection);
+        continue;
+      }
+
+      // Content before the first section header is not part of any section
+      if (currentSection) {
+        currentSection.lines.push({ text: trimmedLine, lineNumber, column });
+      }
+    }
+
+    return sections;
+  }
+
+  /**
+   * Determine the kind and LAS 3.0 group of a section from its header line
+   */
+  private classifySection(title: string): Pick<RawSection, 'kind' | 'group' | 'association'> {
+    const [namePart, association] = title.substring(1).split('|').map(p => p.trim());
+    const name = namePart.split(/\s+/)[0] || '';
+
+    const grouped = name.match(/^(\w+?)_(parameter|definition|data)$/i);
+    if (grouped) {
+      const groupKinds: Record<string, RawSectionKind> = {
+        parameter: 'parameter',
+        definition: 'curve',
+        data: 'data'
+      };
+      return {
+        kind: groupKinds[grouped[2].toLowerCase()],
+        group: grouped[1].toLowerCase() === 'log' ? 'Log' : grouped[1],
+        association
+      };
+    }
+
+    const sectionKinds: Record<string, RawSectionKind> = {
+      v: 'version',
+      w: 'well',
+      p: 'parameter',
+      c: 'curve',
+      o: 'other',
+      a: 'data'
+    };
+    return {
+      kind: sectionKinds[name.charAt(0).toLowerCase()] || 'unknown',
+      group: 'Log',
+      association
+    };
+  }
+
+  /**
+   * Collect the header items of every section of a given kind within a group
+   */
+  private getSectionEntries(
+    sections: RawSection[],
+    kind: RawSectionKind,
+    diagnostics: ParseDiagnostics,
+    group = 'Log'
+  ): HeaderEntry[] {
+    return sections
+      .filter(s => s.kind === kind && s.group === group)
+      .flatMap(s => this.parseSectionEntries(s, diagnostics));
+  }
+
+  /**
+   * Parse the header lines of one section, reporting lines that are not
+   * `MNEM.UNIT VALUE : DESCRIPTION`
+   */
+  private parseSectionEntries(section: RawSection, diagnostics: ParseDiagnostics): HeaderEntry[] {
+    const entries: HeaderEntry[] = [];
+    for (const line of section.lines) {
+      const item = this.parseHeaderLine(line.text);
+      if (item) {
+        entries.push({ item, line, section: section.name });
+      } else {
+        diagnostics.warning('MALFORMED_HEADER_LINE', `"${line.text}" is not a MNEM.UNIT VALUE : DESCRIPTION line; ignored`, {
+          line: line.lineNumber,
+          column: line.column,
+          section: section.name,
+          suggestion: 'Separate the mnemonic from the unit with a period'
+        });
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Location details for a diagnostic about a header entry's value
+   */
+  private entryDetails(entry: HeaderEntry, suggestion?: string): DiagnosticDetails {
+    const valueIndex = entry.item.value ? entry.line.text.indexOf(entry.item.value, entry.item.mnemonic.length) : -1;
+    return {
+      line: entry.line.lineNumber,
+      column: entry.line.column + Math.max(0, valueIndex),
+      section: entry.section,
+      ...(suggestion && { suggestion })
+    };
+  }
+
+  /**
+   * Parse a `MNEM.UNIT  VALUE : DESCRIPTION {FORMAT} | ASSOCIATION` line.
+   *
+   * The unit starts right after the first dot and runs to the first space;
+   * the description follows the last colon.
+   */
+  private parseHeaderLine(line: string): LASHeaderItem | null {
+    const dotIndex = line.indexOf('.');
+    if (dotIndex === -1) return null;
+
+    const mnemonic = line.substring(0, dotIndex).trim();
+    if (!mnemonic) return null;
+
+    const rest = line.substring(dotIndex + 1);
+    const unit = (rest.match(/^[^\s:]*/) || [''])[0];
+    let remainder = rest.substring(unit.length);
+
+    let association: string | undefined;
+    const pipeIndex = remainder.lastIndexOf('|');
+    if (pipeIndex !== -1) {
+      association = remainder.substring(pipeIndex + 1).trim();
+      remainder = remainder.substring(0, pipeIndex);
+    }
+
+    let value = remainder;
+    let description = '';
+    const colonIndex = remainder.lastIndexOf(':');
+    if (colonIndex !== -1) {
+      value = remainder.substring(0, colonIndex);
+      description = remainder.substring(colonIndex + 1);
+    }
+
+    let format: string | undefined;
+    const formatMatch = description.match(/\{([^}]*)\}\s*$/);
+    if (formatMatch) {
+      format = formatMatch[1].trim();
+      description = description.substring(0, formatMatch.index);
+    }
+
+    return {
+      mnemonic,
+      unit,
+      value: value.trim(),
+      description: description.trim(),
+      ...(format !== undefined && { format }),
+      ...(association !== undefined && { association })
+    };
+  }
+
+  /**
+   * Parse version section
+   */
+  private parseHeader(versionEntries: HeaderEntry[], diagnostics: ParseDiagnostics): LASHeader {
+    const header: Partial<LASHeader> = {
+      version: '2.0',
+      wrap: false,
+      startDepth: 0,
+      stopDepth: 0,
+      step: 0,
+      nullValue: -999.25,
+      company: '',
+      well: '',
+      field: '',
+      location: '',
+      date: new Date().toISOString(),
+      uwi: '',
+      delimiter: 'SPACE'
+    };
+
+    for (const entry of versionEntries) {
+      const item = entry.item;
+      switch (item.mnemonic.toLowerCase()) {
+        case 'vers':
+          header.version = item.value;
+          if (![1.2, 2, 3].includes(parseFloat(item.value))) {
+            diagnostics.warning(
+              'INVALID_HEADER_VALUE',
+              `Unknown LAS version "${item.value}", parsing as LAS 2.0`,
+              this.entryDetails(entry, 'Set VERS. to 2.0 or 3.0')
+            );
+          }
+          break;
+        case 'wrap':
+          header.wrap = item.value.toLowerCase() === 'yes';
+          if (!['yes', 'no'].includes(item.value.toLowerCase())) {
+            diagnostics.error(
+              'INVALID_HEADER_VALUE',
+              `WRAP must be YES or NO, found "${item.value}"; assuming NO`,
+              this.entryDetails(entry, 'Set WRAP. to YES or NO')
+            );
+          }
+          break;
+        case 'dlm': {
+          const delimiter = item.value.toUpperCase();
+          if (delimiter === 'SPACE' || delimiter === 'COMMA' || delimiter === 'TAB') {
+            header.delimiter = delimiter;
+          } else {
+            diagnostics.warning(
+              'UNSUPPORTED_DELIMITER',
+              `Unsupported delimiter "${item.value}", assuming SPACE`,
+              this.entryDetails(entry, 'Set DLM. to SPACE, COMMA or TAB')
+            );
+          }
+          break;
+        }
+      }
+    }
+
+    return header as LASHeader;
+  }
+
+  /**
+   * Parse well information section
+   */
+  private parseWellInfo(wellEntries: HeaderEntry[], diagnostics: ParseDiagnostics): Partial<LASHeader> {
+    const wellInfo: Partial<LASHeader> = {};
+
+    // STRT, STOP and STEP must be numeric
+    const depthValue = (entry: HeaderEntry, numericValue: number): number => {
+      if (!isNaN(numericValue)) return numericValue;
+      diagnostics.error(
+        'INVALID_HEADER_VALUE',
+        `${entry.item.mnemonic} value "${entry.item.value}" is not a number; using 0`,
+        this.entryDetails(entry, `Give ${entry.item.mnemonic} a numeric value`)
+      );
+      return 0;
+    };
+
+    for (const entry of wellEntries) {
+      const item = entry.item;
+      const value = item.value;
+      const numericValue = parseFloat(value);
+
+      switch (item.mnemonic.toLowerCase()) {
+        case 'strt':
+          wellInfo.startDepth = depthValue(entry, numericValue);
+          if (item.unit) wellInfo.depthUnit = item.unit;
+          break;
+        case 'stop':
+          wellInfo.stopDepth = depthValue(entry, numericValue);
+          break;
+        case 'step':
+          wellInfo.step = depthValue(entry, numericValue);
+          break;
+        case 'null':
+          if (isNaN(numericValue)) {
+            diagnostics.error(
+              'INVALID_HEADER_VALUE',
+              `Invalid NULL value "${value}", using -999.25`,
+              this.entryDetails(entry, 'Set NULL. to a numeric value such as -999.25')
+            );
+          } else {
+            wellInfo.nullValue = numericValue;
+          }
+          break;
+        case 'comp':
+          wellInfo.company = value;
+          break;
+        case 'well':
+          wellInfo.well = value;
+          break;
+        case 'fld':
+          wellInfo.field = value;
+          break;
+        case 'loc':
+          wellInfo.location = value;
+          break;
+        case 'date':
+          wellInfo.date = value;
+          break;
+        case 'uwi':
+          wellInfo.uwi = value;
+          break;
+        case 'srvc':
+        case 'srv':
+          wellInfo.serviceCompany = value;
+          break;
+        case 'log':
+          wellInfo.logDate = value;
+          break;
+        case 'elev':
+          wellInfo.elevation = numericValue;
+          break;
+      }
+    }
+
+    return wellInfo;
+  }
+
+  /**
+   * Parse curve information section
+   *
+   * The first curve is the index (depth) curve and is handled separately.
+   */
+  private parseCurves(curveEntries: HeaderEntry[], diagnostics: ParseDiagnostics): LASCurve[] {
+    const curves: LASCurve[] = [];
+    let curveIndex = 0;
+
+    for (const { item, line, section } of curveEntries.slice(1)) {
+      const mnemonic = item.mnemonic;
+
+      if (curves.some(c => c.mnemonic === mnemonic)) {
+        diagnostics.error('DUPLICATE_CURVE', `Duplicate curve mnemonic "${mnemonic}"`, {
+          line: line.lineNumber,
+          column: line.column,
+          section,
+          suggestion: `Rename one of the ${mnemonic} curves, e.g. ${mnemonic}:2`
+        });
+      }
+
+      const curve: LASCurve = {
+        mnemonic,
+        unit: item.unit || this.extractUnit(item.description),
+        description: this.extractDescription(item.description),
+        dataType: 'log',
+        curveType: this.inferCurveType(mnemonic, item.description),
+        track: this.determineTrack(mnemonic, curveIndex),
+        color: this.getCurveColor(curveIndex),
+        scale: this.determineScale(mnemonic),
+        visible: true,
+        statistics: {
+          min: 0,
+          max: 0,
+          mean: 0,
+          std: 0,
+          nullCount: 0,
+          outliers: 0,
+          qualityScore: 0
+        }
+      };
+
+      curves.push(curve);
+      curveIndex++;
+    }
+
+    return curves;
+  }
+
+  /**
+   * Parse data section
+   */
+  private parseData(
+    dataSection: RawSection | undefined,
+    metadata: LASMetadata,
+    diagnostics: ParseDiagnostics
+  ): WellLog {
+    const { curves, header } = metadata;
+    const nullValue = header.nullValue;
+    const delimiter = header.delimiter || 'SPACE';
+    const dataLines = dataSection ? dataSection.lines : [];
+    const sectionName = dataSection ? dataSection.name : '~A';
+
+    const records: DataRecord[] = header.wrap
+      ? this.unwrapRecords(dataLines, curves.length + 1, delimiter, sectionName, diagnostics)
+      : dataLines
+        .map(line => ({ values: this.splitDataLine(line.text, delimiter), line, endLine: line }))
+        .filter(record => record.values.length > 0);
+
+    const validator = new DataRecordValidator(metadata, diagnostics, sectionName);
+
+    // Fill columns directly rather than building row objects per curve
+    const depth = new Float64Array(records.length);
+    const columns = curves.map(() => new Array<number | null>(records.length));
+
+    let rows = 0;
+    for (const { values, line, endLine } of records) {
+      if (!validator.check(values, line, endLine)) continue;
+      depth[rows] = parseFloat(values[0]);
+      for (let i = 0; i < curves.length; i++) {
+        columns[i][rows] = this.parseNumericValue(values[i + 1], nullValue);
+      }
+      rows++;
+    }
+    validator.finish();
+
+    // Skipped records leave room at the end
+    const log = new WellLog(depth.subarray(0, rows));
+    curves.forEach((curve, i) => log.setCurve(curve.mnemonic, columns[i].slice(0, rows)));
+
+    // Calculate statistics for each curve
+    this.calculateCurveStatistics(log, curves);
+
+    return log;
+  }
+
+  /**
+   * Reassemble wrapped (WRAP. YES) data records.
+   *
+   * In wrapped mode the index value starts each record and the curve values
+   * continue over as many lines as needed, so records are rebuilt by counting
+   * values against the number of curves. Records that overrun or are cut
+   * short are skipped with an error naming the offending lines.
+   */
+  private unwrapRecords(
+    dataLines: SourceLine[],
+    valuesPerRecord: number,
+    delimiter: LASDelimiter,
+    section: string,
+    diagnostics: ParseDiagnostics
+  ): DataRecord[] {
+    const records: DataRecord[] = [];
+    let current: string[] = [];
+    let recordStart: SourceLine | undefined;
+
+    for (const line of dataLines) {
+      const values = this.splitDataLine(line.text, delimiter);
+      if (values.length === 0) continue;
+
+      if (current.length === 0) {
+        recordStart = line;
+      }
+      current.push(...values);
+
+      if (current.length === valuesPerRecord) {
+        records.push({ values: current, line: recordStart!, endLine: line });
+        current = [];
+      } else if (current.length > valuesPerRecord) {
+        diagnostics.error(
+          'WRAPPED_RECORD_OVERRUN',
+          `wrapped record starting at line ${recordStart!.lineNumber} ` +
+          `has ${current.length} values, expected ${valuesPerRecord}; record skipped`,
+          {
+            line: line.lineNumber,
+            column: line.column,
+            section,
+            suggestion: 'Check for extra values or a missing index value at the start of the next record'
+          }
+        );
+        current = [];
+      }
+    }
+
+    if (current.length > 0) {
+      diagnostics.error(
+        'WRAPPED_RECORD_INCOMPLETE',
+        `incomplete wrapped record at end of data ` +
+        `(${current.length} of ${valuesPerRecord} values); record skipped`,
+        {
+          line: recordStart!.lineNumber,
+          column: recordStart!.column,
+          section,
+          suggestion: 'Complete the last record or remove it'
+        }
+      );
+    }
+
+    return records;
+  }
+
+  /**
+   * Parse LAS 3.0 data set groups other than the primary log
+   * (e.g. ~Core_Definition / ~Core_Data, ~Tops_Definition / ~Tops_Data)
+   */
+  private parseDataSets(
+    sections: RawSection[],
+    header: LASHeader,
+    diagnostics: ParseDiagnostics
+  ): LASDataSet[] {
+    const dataSets = new Map<string, LASDataSet>();
+    const dataSections = new Map<string, RawSection>();
+    const delimiter = header.delimiter || 'SPACE';
+
+    for (const section of sections) {
+      if (section.group === 'Log' || section.kind === 'unknown') continue;
+
+      let dataSet = dataSets.get(section.group);
+      if (!dataSet) {
+        dataSet = { name: section.group, parameters: [], definitions: [], rows: [] };
+        dataSets.set(section.group, dataSet);
+      }
+
+      if (section.kind === 'parameter') {
+        dataSet.parameters.push(...this.parseSectionEntries(section, diagnostics).map(e => e.item));
+      } else if (section.kind === 'curve') {
+        dataSet.definitions.push(...this.parseSectionEntries(section, diagnostics).map(e => e.item));
+      } else if (section.kind === 'data') {
+        dataSections.set(section.group, section);
+        for (const line of section.lines) {
+          const values = this.splitDataLine(line.text, delimiter);
+          if (values.length === 0) continue;
+          this.checkDataSetRow(values, dataSet, line, section.name, diagnostics);
+          dataSet.rows.push(values.map(v => this.parseDataSetValue(v, header.nullValue)));
+        }
+      }
+    }
+
+    for (const dataSet of dataSets.values()) {
+      if (dataSet.rows.length > 0 && dataSet.definitions.length === 0) {
+        const section = dataSections.get(dataSet.name)!;
+        diagnostics.warning(
+          'MISSING_DEFINITION',
+          `${dataSet.name} data section has no matching ${dataSet.name}_Definition section`,
+          {
+            line: section.lineNumber,
+            section: section.name,
+            suggestion: `Add a ~${dataSet.name}_Definition section describing each column`
+          }
+        );
+      }
+    }
+
+    return Array.from(dataSets.values());
+  }
+
+  /**
+   * Check a data set row's width against its definition section, when one
+   * has been read
+   */
+  private checkDataSetRow(
+    values: string[],
+    dataSet: LASDataSet,
+    line: SourceLine,
+    section: string,
+    diagnostics: ParseDiagnostics
+  ): void {
+    const expected = dataSet.definitions.length;
+    if (expected === 0 || values.length === expected) return;
+
+    diagnostics.error(
+      values.length < expected ? 'ROW_TOO_SHORT' : 'ROW_TOO_LONG',
+      `${dataSet.name} data row has ${values.length} values, expected ${expected}`,
+      {
+        line: line.lineNumber,
+        column: line.column,
+        section,
+        suggestion: `Give every row one value per ~${dataSet.name}_Definition entry`
+      }
+    );
+  }
+
+  /**
+   * Split a data line on the declared delimiter, honoring double-quoted strings
+   */
+  splitDataLine(line: string, delimiter: LASDelimiter): string[] {
+    if (delimiter === 'SPACE' && !line.includes('"')) {
+      return line.split(/\s+/).filter(v => v);
+    }
+
+    const values: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    let quoted = false;
+
+    const isDelimiter = (ch: string) => {
+      if (delimiter === 'COMMA') return ch === ',';
+      if (delimiter === 'TAB') return ch === '\t';
+      return ch === ' ' || ch === '\t';
+    };
+
+    for (const ch of line) {
+      if (ch === '"') {
+        // Whitespace between a delimiter and an opening quote is not part of the value
+        if (!inQuotes && !quoted) current = current.trim();
+        inQuotes = !inQuotes;
+        quoted = true;
+        continue;
+      }
+      if (!inQuotes && isDelimiter(ch)) {
+        // Runs of spaces count as a single delimiter
+        if (delimiter !== 'SPACE' || current || quoted) {
+          values.push(quoted ? current : current.trim());
+        }
+        current = '';
+        quoted = false;
+        continue;
+      }
+      // Ignore whitespace after a closing quote
+      if (!inQuotes && quoted && (ch === ' ' || ch === '\t')) continue;
+      current += ch;
+    }
+
+    if (delimiter !== 'SPACE' || current || quoted) {
+      values.push(quoted ? current : current.trim());
+    }
+
+    return values;
+  }
+
+  /**
+   * Parse a curve value, mapping the NULL value and non-numeric values to null
+   */
+  private parseNumericValue(value: string | undefined, nullValue: number): number | null {
+    if (value === undefined) return null;
+    const numericValue = parseFloat(value);
+    return isNaN(numericValue) || numericValue === nullValue ? null : numericValue;
+  }
+
+  /**
+   * Parse a LAS 3.0 data set value, which may be numeric or a string
+   */
+  private parseDataSetValue(value: string, nullValue: number): number | string | null {
+    if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(value)) {
+      const numericValue = parseFloat(value);
+      return numericValue === nullValue ? null : numericValue;
+    }
+    return value;
+  }
+
+  /**
+   * Extract unit from curve description
+   */
+  private extractUnit(description: string): string {
+    const unitMatch = description.match(/\(([^)]+)\)/);
+    return unitMatch ? unitMatch[1] : 'N/A';
+  }
+
+  /**
+   * Extract description without unit
+   */
+  private extractDescription(description: string): string {
+    return description.replace(/\s*\([^)]+\)\s*/, '').trim();
+  }
+
+  /**
+   * Infer curve type from mnemonic and description
+   */
+  private inferCurveType(mnemonic: string, description: string): LASCurve['curveType'] {
+    const mnemonicLower = mnemonic.toLowerCase();
+    const descLower = description.toLowerCase();
+
+    if (mnemonicLower.includes('gr') || descLower.includes('gamma')) {
+      return 'gamma_ray';
+    }
+    if (mnemonicLower.includes('rt') || mnemonicLower.includes('res') || descLower.includes('resistivity')) {
+      return 'resistivity';
+    }
+    if (mnemonicLower.includes('phi') || mnemonicLower.includes('por') || descLower.includes('porosity')) {
+      return 'porosity';
+    }
+    if (mnemonicLower.includes('cal') || descLower.includes('caliper')) {
+      return 'caliper';
+    }
+    if (mnemonicLower.includes('sp') || descLower.includes('spontaneous')) {
+      return 'sp';
+    }
+    if (mnemonicLower.includes('pe') || descLower.includes('photoelectric')) {
+      return 'custom';
+    }
+    
+    return 'custom';
+  }
+
+  /**
+   * Determine track for curve display
+   */
+  private determineTrack(mnemonic: string, index: number): number {
+    const mnemonicLower = mnemonic.toLowerCase();
+    
+    if (mnemonicLower.includes('gr')) return 1;
+    if (mnemonicLower.includes('rt') || mnemonicLower.includes('res')) return 2;
+    if (mnemonicLower.includes('phi') || mnemonicLower.includes('por')) return 3;
+    if (mnemonicLower.includes('cal')) return 4;
+    if (mnemonicLower.includes('sp')) return 5;
+    
+    return Math.floor(index / 3) + 1;
+  }
+
+  /**
+   * Get curve color
+   */
+  private getCurveColor(index: number): string {
+    const colors = [
+      '#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6',
+      '#EC4899', '#06B6D4', '#84CC16', '#F97316', '#6366F1'
+    ];
+    return colors[index % colors.length];
+  }
+
+  /**
+   * Determine scale for curve
+   */
+  private determineScale(mnemonic: string): 'linear' | 'logarithmic' {
+    const mnemonicLower = mnemonic.toLowerCase();
+    
+    // Resistivity curves typically use logarithmic scale
+    if (mnemonicLower.includes('rt') || mnemonicLower.includes('res')) {
+      return 'logarithmic';
+    }
+    
+    return 'linear';
+  }
+
+  /**
+   * Calculate statistics for each curve
+   */
+  protected calculateCurveStatistics(log: WellLog, curves: LASCurve[]): void {
+    for (const curve of curves) {
+      const values = log.getValidValues(curve.mnemonic);
+
+      if (values.length === 0) continue;
+
+      // Avoid spreading into Math.min/max, which overflows the stack on large logs
+      const min = values.reduce((a, b) => (b < a ? b : a), values[0]);
+      const max = values.reduce((a, b) => (b > a ? b : a), values[0]);
+      const mean = values.reduce((sum, val) => sum + val, 0) / values.length;
+      const variance = values.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / values.length;
+      const std = Math.sqrt(variance);
+      const nullCount = log.length - values.length;
+
+      // Simple outlier detection (values beyond 3 standard deviations)
+      const outliers = values.filter(val => Math.abs(val - mean) > 3 * std).length;
+
+      // Calculate quality score (0-100)
+      const completeness = (values.length / log.length) * 100;
+      const noiseLevel = Math.min(100, (std / mean) * 100);
+      const qualityScore = Math.max(0, 100 - (100 - completeness) - noiseLevel);
+
+      curve.statistics = {
+        min,
+        max,
+        mean,
+        std,
+        nullCount,
+        outliers,
+        qualityScore
+      };
+    }
+  }
+
+  /**
+   * Standardize mnemonics using MnemonicStandardizer
+   */
+  private async standardizeMnemonics(
+    curves: LASCurve[],
+    standard: 'api' | 'cwls' | 'custom',
+    preserveOriginal: boolean
+  ): Promise<{
+    success: boolean;
+    standardizedCurves: LASCurve[];
+    warnings: string[];
+  }> {
+    try {
+      const result = await this.standardizer.standardizeMnemonics({ curves }, {
+        standard,
+        autoStandardize: true,
+        preserveOriginal
+      });
+
+      return {
+        success: result.success,
+        standardizedCurves: result.standardizedCurves,
+        warnings: result.warnings
+      };
+    } catch (error) {
+      return {
+        success: false,
+        standardizedCurves: curves,
+        warnings: [`Mnemonic standardization failed: ${error}`]
+      };
+    }
+  }
+
+  /**
+   * Validate physical ranges for curve values
+   */
+  private validatePhysicalRanges(log: WellLog, curves: LASCurve[], diagnostics: ParseDiagnostics): void {
+    const physicalRanges: Record<string, { min: number; max: number }> = {
+      'GR': { min: 0, max: 300 },
+      'NPHI': { min: -0.15, max: 1.0 },
+      'RHOB': { min: 1.0, max: 3.5 },
+      'RT': { min: 0.1, max: 10000 },
+      'CALI': { min: 4, max: 20 },
+      'SP': { min: -200, max: 50 },
+      'PEF': { min: 1.0, max: 10.0 }
+    };
+
+    for (const curve of curves) {
+      const range = physicalRanges[curve.mnemonic];
+      if (!range || !log.hasCurve(curve.mnemonic)) continue;
+
+      const outOfRange = log.getValidValues(curve.mnemonic).filter(value => value < range.min || value > range.max);
+
+      if (outOfRange.length > 0) {
+        diagnostics.warning(
+          'PHYSICAL_RANGE',
+          `${curve.mnemonic}: ${outOfRange.length} values outside physical range (${range.min}-${range.max})`,
+          { section: '~A' }
+        );
+      }
+    }
+  }
+
+  /**
+   * Calculate initial quality score for the file
+   */
+  private calculateInitialQualityScore(log: WellLog, curves: LASCurve[]): number {
+    if (log.length === 0 || curves.length === 0) return 0;
+
+    const completenessScores = curves.map(curve => {
+      const validValues = log.hasCurve(curve.mnemonic) ? log.length - log.nullCount(curve.mnemonic) : 0;
+      return (validValues / log.length) * 100;
+    });
+
+    const avgCompleteness = completenessScores.reduce((sum, score) => sum + score, 0) / curves.length;
+    
+    // Additional factors
+    const depthConsistency = this.checkDepthConsistency(log.depth) ? 100 : 50;
+    const curveCount = Math.min(curves.length / 5, 100); // Bonus for more curves
+
+    return Math.min(100, (avgCompleteness + depthConsistency + curveCount) / 3);
+  }
+
+  /**
+   * Check depth consistency
+   */
+  private checkDepthConsistency(depths: Float64Array): boolean {
+    if (depths.length < 2) return true;
+
+    const step = depths[1] - depths[0];
+    
+    for (let i = 1; i < depths.length; i++) {
+      const actualStep = depths[i] - depths[i - 1];
+      if (Math.abs(actualStep - step) > step * 0.1) {
+        return false;
+      }
+    }
+    
+    return true;
+  }
+
+  /**
+   * Generate unique file ID
+   */
+  private generateFileId(): string {
+    const timestamp = Date.now();
+    const random = Math.random().toString(36).substr(2, 9);
+    return `las_${timestamp}_${random}`;
+  }
+} 
\ No newline at end of file
@@ -0,0 +1,1124 @@
+/**
+ * POLISH Processing Algorithms
+ * 
+ * This module contains the core signal processing algorithms used in POLISH
+ * for petrophysical data cleaning and enhancement.
+ */
+
+import { LASCurve, LASHeader, LASHeaderItem } from './types';
+import { WellLog } from './wellLog';
+import { CurveParameterOptions, ResolvedCurveParameters, resolveCurveParameters } from './curveParameters';
+import {
+  applyDepthShifts,
+  DepthAlignmentOptions,
+  DepthMatchSummary,
+  matchDepths,
+  resampleCurve,
+  summarizeDepthMatch
+} from './depthMatching';
+import {
+  alsBaseline,
+  BASELINE_SUFFIX,
+  BaselineCorrectionOptions,
+  BaselineFit,
+  BaselineOptions,
+  lowessBaseline,
+  piecewiseBaseline
+} from './baselines';
+import {
+  correctGammaRay,
+  correctNeutron,
+  curvesWithRole,
+  DEFAULT_DRHO_LIMIT,
+  DENSITY_FLAG_SUFFIX,
+  ENV_CORRECTION_SUFFIX,
+  EnvironmentalCorrectionOptions,
+  EnvironmentalCorrectionSummary,
+  isFractionalPorosity,
+  readBoreholeParameters,
+  toInches,
+  validateDensity
+} from './environmentalCorrections';
+import { relatedCurveGroups, spikeConsensus, SpikeConsensusOptions, SpikeRecord, SpikeReport } from './spikeConsensus';
+import { fillGaps, GAP_FLAG_SUFFIX, GapFillOptions, GapFillSummary } from './gapFilling';
+import { nearestValues, regularDepths, resampleValues, ResampleOptions, validateResampleOptions } from './resampling';
+import {
+  BoundaryMode,
+  isWaveletName,
+  ThresholdMode,
+  ThresholdRule,
+  waveletDenoise,
+  WaveletName,
+  WaveletTransform
+} from './wavelets';
+
+export interface DenoiseOptions {
+  method: 'savitzky_golay' | 'wavelet' | 'moving_average' | 'gaussian';
+  windowSize: number;
+  polynomialOrder?: number;
+  strength: number;
+  preserveSpikes: boolean;
+  // Wavelet method only
+  waveletType?: WaveletName;
+  waveletLevel?: number;
+  waveletTransform?: WaveletTransform;
+  thresholdMode?: ThresholdMode;
+  thresholdRule?: ThresholdRule;
+  boundaryMode?: BoundaryMode;
+}
+
+/** Recorded for each denoised curve */
+export interface DenoiseMetrics {
+  noiseReduction: number;
+  pointsProcessed: number;
+  method: DenoiseOptions['method'];
+  /** Depth zones with their own parameters */
+  zones: number;
+}
+
+export interface DespikeOptions {
+  method: 'hampel' | 'modified_zscore' | 'iqr' | 'manual';
+  threshold: number;
+  windowSize: number;
+  replacementMethod: 'pchip' | 'linear' | 'median' | 'null';
+}
+
+/**
+ * Called after each curve a method has processed
+ */
+export type CurveProgressCallback = (curve: string, completed: number, total: number) => void;
+
+export class ProcessingAlgorithms {
+  
+  /**
+   * Savitzky-Golay Filter Implementation (scientifically rigorous)
+   *
+   * Uses least-squares polynomial fitting to compute convolution coefficients.
+   * Reference: https://en.wikipedia.org/wiki/Savitzky%E2%80%93Golay_filter
+   */
+  private savitzkyGolay(data: number[], windowSize: number, polynomialOrder: number): number[] {
+    if (windowSize % 2 === 0) {
+      throw new Error('Window size must be odd');
+    }
+    if (polynomialOrder >= windowSize) {
+      throw new Error('Polynomial order must be less than window size');
+    }
+    const halfWindow = Math.floor(windowSize / 2);
+    const result = new Array(data.length);
+    // Compute convolution coefficients for the central point
+    const coeffs = this.computeSGCoefficients(windowSize, polynomialOrder);
+    for (let i = 0; i < data.length; i++) {
+      let acc = 0;
+      let norm = 0;
+      for (let j = -halfWindow; j <= halfWindow; j++) {
+        const idx = i + j;
+        if (idx >= 0 && idx < data.length && !isNaN(data[idx])) {
+          acc += data[idx] * coeffs[j + halfWindow];
+          norm += coeffs[j + halfWindow];
+        }
+      }
+      result[i] = norm !== 0 ? acc / norm : data[i];
+    }
+    return result;
+  }
+
+  /**
+   * Compute Savitzky-Golay convolution coefficients using least-squares fitting.
+   * Returns the coefficients for smoothing at the central point.
+   */
+  private computeSGCoefficients(windowSize: number, polynomialOrder: number): number[] {
+    // Build the Vandermonde matrix
+    const half: number = Math.floor(windowSize / 2);
+    const A: number[][] = [];
+    for (let i = -half; i <= half; i++) {
+      const row: number[] = [];
+      for (let j = 0; j <= polynomialOrder; j++) {
+        row.push(Math.pow(i, j));
+      }
+      A.push(row);
+    }
+    // Compute (A^T A)^-1 A^T
+    const AT: number[][] = this.transpose(A);
+    const ATA: number[][] = this.multiply(AT, A);
+    const ATAinv: number[][] = this.inverse(ATA);
+    const pseudoInv: number[][] = this.multiply(ATAinv, AT);
+    // The filter coefficients are the first row of the pseudo-inverse
+    return pseudoInv[0] as number[];
+  }
+
+  // Matrix helpers for small matrices (sufficient for window sizes < 25)
+  private transpose(m: number[][]): number[][] {
+    return m[0].map((_, i: number) => m.map((row: number[]) => row[i]));
+  }
+  private multiply(a: number[][], b: number[][]): number[][] {
+    const result: number[][] = [];
+    for (let i = 0; i < a.length; i++) {
+      result[i] = [];
+      for (let j = 0; j < b[0].length; j++) {
+        let sum = 0;
+        for (let k = 0; k < a[0].length; k++) {
+          sum += a[i][k] * b[k][j];
+        }
+        result[i][j] = sum;
+      }
+    }
+    return result;
+  }
+  private inverse(m: number[][]): number[][] {
+    // Gauss-Jordan elimination for small matrices
+    const n: number = m.length;
+    const I: number[][] = Array.from({ length: n }, (_, i) =>
+      Array.from({ length: n }, (_, j) => (i === j ? 1 : 0))
+    );
+    const M: number[][] = m.map((row: number[]) => row.slice());
+    for (let i = 0; i < n; i++) {
+      // Find pivot
+      let maxRow = i;
+      for (let k = i + 1; k < n; k++) {
+        if (Math.abs(M[k][i]) > Math.abs(M[maxRow][i])) maxRow = k;
+      }
+      // Swap rows
+      [M[i], M[maxRow]] = [M[maxRow], M[i]];
+      [I[i], I[maxRow]] = [I[maxRow], I[i]];
+      // Normalize pivot row
+      const pivot = M[i][i];
+      if (Math.abs(pivot) < 1e-12) throw new Error('Matrix is singular');
+      for (let j = 0; j < n; j++) {
+        M[i][j] /= pivot;
+        I[i][j] /= pivot;
+      }
+      // Eliminate other rows
+      for (let k = 0; k < n; k++) {
+        if (k === i) continue;
+        const factor = M[k][i];
+        for (let j = 0; j < n; j++) {
+          M[k][j] -= factor * M[i][j];
+          I[k][j] -= factor * I[i][j];
+        }
+      }
+    }
+    return I;
+  }
+
+  /**
+   * Hampel Filter for Spike Detection
+   * 
+   * The Hampel filter is a robust outlier detection method that uses the median
+   * absolute deviation (MAD) to identify and replace outliers.
+   * 
+   * @param data - Input data array
+   * @param windowSize - Size of the moving window
+   * @param threshold - Threshold multiplier for MAD
+   * @returns Object with cleaned data and spike indices
+   */
+  private hampelFilter(data: number[], windowSize: number, threshold: number): {
+    cleanedData: number[];
+    spikeIndices: number[];
+  } {
+    const halfWindow = Math.floor(windowSize / 2);
+    const cleanedData = [...data];
+    const spikeIndices: number[] = [];
+    
+    for (let i = halfWindow; i < data.length - halfWindow; i++) {
+      const window = data.slice(i - halfWindow, i + halfWindow + 1)
+        .filter(val => !isNaN(val));
+      
+      if (window.length === 0) continue;
+      
+      // Calculate median
+      const sortedWindow = [...window].sort((a, b) => a - b);
+      const median = sortedWindow[Math.floor(sortedWindow.length / 2)];
+      
+      // Calculate MAD (Median Absolute Deviation)
+      const deviations = window.map(val => Math.abs(val - median));
+      const sortedDeviations = deviations.sort((a, b) => a - b);
+      const mad = sortedDeviations[Math.floor(sortedDeviations.length / 2)];
+      
+      // Check if current point is an outlier
+      const deviation = Math.abs(data[i] - median);
+      if (deviation > threshold * mad) {
+        spikeIndices.push(i);
+        cleanedData[i] = median; // Replace with median
+      }
+    }
+    
+    return { cleanedData, spikeIndices };
+  }
+
+  /**
+   * Wavelet Shrinkage Denoising
+   *
+   * Multi-level DWT or SWT with the selected wavelet family, thresholding the
+   * detail coefficients by the selected rule. Strength scales the estimated
+   * threshold: 0.5 applies it as estimated, 1 doubles it and 0 leaves the
+   * data unchanged.
+   */
+  private waveletDenoise(data: number[], options: DenoiseOptions): number[] {
+    return waveletDenoise(data, {
+      waveletType: options.waveletType,
+      waveletLevel: options.waveletLevel,
+      waveletTransform: options.waveletTransform,
+      thresholdMode: options.thresholdMode,
+      thresholdRule: options.thresholdRule,
+      boundaryMode: options.boundaryMode,
+      thresholdScale: options.strength * 2
+    });
+  }
+
+  /**
+   * Baseline Correction
+   *
+   * Fits a baseline to each selected curve by its resolved method and
+   * subtracts it to remove low-frequency drift, adding the fitted baseline
+   * as a curve of its own for review. Polynomial baselines span the full
+   * well; see baselines.ts for the others.
+   */
+  async baselineCorrection<T extends { curves: LASCurve[]; log: WellLog }>(
+    data: T,
+    options: BaselineCorrectionOptions,
+    onCurve?: CurveProgressCallback
+  ): Promise<{
+    success: boolean;
+    data: T;
+    metrics: Record<string, BaselineFit>;
+    error?: string;
+  }> {
+    try {
+      const wanted = (curve: LASCurve) => !options.curves ||
+        options.curves.some(mnemonic => mnemonic.toUpperCase() === curve.mnemonic.toUpperCase());
+      const logCurves = data.curves.filter(c => c.dataType === 'log' && wanted(c));
+      const log = data.log.clone();
+      const metrics: Record<string, BaselineFit> = {};
+      const baselineCurves: LASCurve[] = [];
+
+      for (const [index, curve] of logCurves.entries()) {
+        const { enabled, parameters } = resolveCurveParameters<BaselineOptions>(curve, options, options);
+        const originalValues = log.getValues(curve.mnemonic);
+        const nonNullIndices = log.getValidIndices(curve.mnemonic);
+
+        const minimumPoints = parameters.method === 'polynomial' ? parameters.polynomialOrder + 1 : 3;
+        if (!enabled || nonNullIndices.length < minimumPoints) {
+          onCurve?.(curve.mnemonic, index + 1, logCurves.length);
+          continue;
+        }
+
+        let baseline: Float64Array;
+        let polynomialCoefficients: number[] | undefined;
+        switch (parameters.method) {
+          case 'als':
+            baseline = alsBaseline(originalValues, parameters.lambda, parameters.asymmetry);
+            break;
+          case 'lowess':
+            baseline = lowessBaseline(log.depth, originalValues, parameters.span);
+            break;
+          case 'piecewise':
+            baseline = piecewiseBaseline(log.depth, originalValues, parameters.anchors || []);
+            break;
+          default: {
+            // Fit polynomial using least squares
+            const y = nonNullIndices.map((i: number) => originalValues[i]);
+            polynomialCoefficients = this.polynomialFit(nonNullIndices, y, parameters.polynomialOrder);
+            baseline = Float64Array.from(originalValues, (_, i) =>
+              polynomialCoefficients!.reduce((trend, c, j) => trend + c * Math.pow(i, j), 0)
+            );
+          }
+        }
+
+        // Subtract the baseline where the curve has values; the baseline curve keeps them null too
+        const trendCorrectedValues = originalValues.map((value, i) => value - baseline[i]);
+        const mnemonic = curve.mnemonic + BASELINE_SUFFIX;
+        log.setCurve(curve.mnemonic, trendCorrectedValues);
+        log.setCurve(mnemonic, originalValues.map((value, i) => (isNaN(value) ? NaN : baseline[i])));
+        baselineCurves.push({
+          ...curve,
+          mnemonic,
+          description: `${curve.mnemonic} ${parameters.method} baseline`,
+          standardMnemonic: undefined,
+          dataType: 'computed',
+          statistics: undefined
+        });
+
+        metrics[curve.mnemonic] = {
+          method: parameters.method,
+          pointsProcessed: nonNullIndices.length,
+          ...(polynomialCoefficients ? { polynomialCoefficients } : {})
+        };
+        onCurve?.(curve.mnemonic, index + 1, logCurves.length);
+      }
+
+      const added = new Set(baselineCurves.map(c => c.mnemonic));
+      return {
+        success: true,
+        data: {
+          ...data,
+          curves: [...data.curves.filter(c => !added.has(c.mnemonic)), ...baselineCurves],
+          log
+        },
+        metrics
+      };
+    } catch (error) {
+      console.error('Baseline correction failed:', error);
+      return { success: false, data, metrics: {}, error: error instanceof Error ? error.message : 'Baseline correction failed' };
+    }
+  }
+
+  /**
+   * Depth Matching
+   *
+   * Finds each curve's depth shifts against the reference curve, taken from
+   * this data or from another logging run of the same well, and with
+   * autoCorrect moves the curves by them.
+   */
+  async depthMatch<T extends { curves: LASCurve[]; log: WellLog }>(
+    data: T,
+    options: DepthAlignmentOptions,
+    onCurve?: CurveProgressCallback,
+    referenceRun?: { curves: LASCurve[]; log: WellLog }
+  ): Promise<{
+    success: boolean;
+    data: T;
+    referenceCurve?: string;
+    shifts: Record<string, DepthMatchSummary>;
+    error?: string;
+  }> {
+    try {
+      const logCurves = data.curves.filter(c => c.dataType === 'log');
+      const log = data.log.clone();
+
+      const source = referenceRun || data;
+      const referenceCurve = this.findReferenceCurve(source.curves, options.referenceCurve);
+      if (!referenceCurve) {
+        return { success: false, data, shifts: {}, error: `Reference curve ${options.referenceCurve || 'GR'} not found` };
+      }
+      const reference = referenceRun
+        ? resampleCurve(source.log.depth, source.log.getValues(referenceCurve.mnemonic), log.depth)
+        : log.getValues(referenceCurve.mnemonic);
+
+      const wanted = (curve: LASCurve) => options.curves
+        ? options.curves.some(mnemonic => mnemonic.toUpperCase() === curve.mnemonic.toUpperCase())
+        : referenceRun !== undefined || curve !== referenceCurve;
+      const targets = logCurves.filter(wanted);
+
+      const shifts: Record<string, DepthMatchSummary> = {};
+      for (const [index, curve] of targets.entries()) {
+        const values = log.getValues(curve.mnemonic);
+        const match = matchDepths(log.depth, reference, values, options);
+        shifts[curve.mnemonic] = summarizeDepthMatch(match);
+
+        if (options.autoCorrect) {
+          log.setCurve(curve.mnemonic, applyDepthShifts(log.depth, values, match.shifts));
+        }
+        onCurve?.(curve.mnemonic, index + 1, targets.length);
+      }
+
+      return {
+        success: true,
+        data: { ...data, log },
+        referenceCurve: referenceCurve.mnemonic,
+        shifts
+      };
+    } catch (error) {
+      console.error('Depth matching failed:', error);
+      return { success: false, data, shifts: {}, error: 'Depth matching failed' };
+    }
+  }
+
+  /**
+   * Gap Filling
+   *
+   * Interpolates short null runs and predicts long ones from correlated
+   * curves, adding a flag curve for each curve with filled samples.
+   * Curves on a logarithmic scale are filled and used as predictors in
+   * log space.
+   */
+  async fillGaps<T extends { curves: LASCurve[]; log: WellLog }>(
+    data: T,
+    options: GapFillOptions,
+    onCurve?: CurveProgressCallback
+  ): Promise<{ success: boolean; data: T; filled: Record<string, GapFillSummary>; error?: string }> {
+    try {
+      const logCurves = data.curves.filter(c => c.dataType === 'log');
+      const log = data.log.clone();
+
+      const logarithmic = (curve: LASCurve) => curve.scale === 'logarithmic';
+      const inFillSpace = (curve: LASCurve) => {
+        const values = log.getValues(curve.mnemonic);
+        return logarithmic(curve) ? values.map(v => (v > 0 ? Math.log10(v) : NaN)) : values;
+      };
+      const columns = Object.fromEntries(logCurves.map(c => [c.mnemonic, inFillSpace(c)]));
+
+      const wanted = (curve: LASCurve) => !options.curves ||
+        options.curves.some(mnemonic => mnemonic.toUpperCase() === curve.mnemonic.toUpperCase());
+      const targets = logCurves.filter(wanted);
+
+      const filled: Record<string, GapFillSummary> = {};
+      const flagCurves: LASCurve[] = [];
+      for (const [index, curve] of targets.entries()) {
+        const { [curve.mnemonic]: values, ...others } = columns;
+        const result = fillGaps(log.depth, values, others, options, options.predictors?.[curve.mnemonic]);
+
+        if (result.summary.gaps > 0) {
+          filled[curve.mnemonic] = result.summary;
+        }
+        if (result.summary.interpolated + result.summary.predicted > 0) {
+          log.setCurve(curve.mnemonic, logarithmic(curve) ? result.values.map(v => 10 ** v) : result.values);
+          log.setCurve(curve.mnemonic + GAP_FLAG_SUFFIX, result.flags);
+          flagCurves.push(this.gapFlagCurve(curve));
+        }
+        onCurve?.(curve.mnemonic, index + 1, targets.length);
+      }
+
+      const flagNames = new Set(flagCurves.map(c => c.mnemonic));
+      return {
+        success: true,
+        data: {
+          ...data,
+          curves: [...data.curves.filter(c => !flagNames.has(c.mnemonic)), ...flagCurves],
+          log
+        },
+        filled
+      };
+    } catch (error) {
+      console.error('Gap filling failed:', error);
+      return { success: false, data, filled: {}, error: 'Gap filling failed' };
+    }
+  }
+
+  /**
+   * The curve marking which of a curve's samples were filled
+   */
+  private gapFlagCurve(curve: LASCurve): LASCurve {
+    return {
+      mnemonic: curve.mnemonic + GAP_FLAG_SUFFIX,
+      unit: '',
+      description: `${curve.mnemonic} gap fill: 0 measured, 1 interpolated, 2 predicted`,
+      dataType: 'computed',
+      categorical: true,
+      curveType: 'custom',
+      track: curve.track,
+      color: curve.color,
+      scale: 'linear',
+      minValue: 0,
+      maxValue: 2,
+      visible: false
+    };
+  }
+
+  /**
+   * Environmental Corrections
+   *
+   * Adds gamma ray and neutron porosity curves corrected for hole size and
+   * mud, and a quality flag curve for each density checked against DRHO.
+   * The recorded curves are left as they are.
+   */
+  async correctEnvironment<T extends { curves: LASCurve[]; log: WellLog; parameters?: LASHeaderItem[] }>(
+    data: T,
+    options: EnvironmentalCorrectionOptions,
+    onCurve?: CurveProgressCallback
+  ): Promise<{ success: boolean; data: T; summary: EnvironmentalCorrectionSummary; error?: string }> {
+    const { parameters, sources } = readBoreholeParameters(data.parameters, options.parameters);
+    const summary: EnvironmentalCorrectionSummary = { parameters, sources, corrected: {}, density: [], skipped: [] };
+
+    try {
+      const logCurves = data.curves.filter(c => c.dataType === 'log');
+      const log = data.log.clone();
+      const gammaRays = options.gammaRay ? curvesWithRole(logCurves, 'gammaRay') : [];
+      const neutrons = options.neutron ? curvesWithRole(logCurves, 'neutron') : [];
+      const densities = options.densityValidation ? curvesWithRole(logCurves, 'density') : [];
+      const targets = [...gammaRays, ...neutrons, ...densities];
+
+      const holeSize = this.holeSize(logCurves, log, parameters.bitSize);
+      const added: LASCurve[] = [];
+      const addCurve = (source: LASCurve, mnemonic: string, values: Float64Array, curve: Partial<LASCurve>) => {
+        log.setCurve(mnemonic, values);
+        added.push({ ...source, mnemonic, dataType: 'computed', standardMnemonic: undefined, statistics: undefined, ...curve });
+      };
+
+      for (const [index, curve] of targets.entries()) {
+        const values = log.getValues(curve.mnemonic);
+        if (densities.includes(curve)) {
+          const correction = curvesWithRole(logCurves, 'densityCorrection')[0];
+          if (!correction) {
+            summary.skipped.push(`${curve.mnemonic} not validated: no DRHO curve`);
+          } else {
+            const mnemonic = curve.mnemonic + DENSITY_FLAG_SUFFIX;
+            const validation = validateDensity(log.depth, values, log.getValues(correction.mnemonic), options.drhoLimit);
+            addCurve(curve, mnemonic, validation.flags, {
+              unit: '',
+              description: `${curve.mnemonic} quality: 1 where |${correction.mnemonic}| exceeds ${options.drhoLimit ?? DEFAULT_DRHO_LIMIT} g/cm3`,
+              curveType: 'custom',
+              categorical: true,
+              scale: 'linear',
+              minValue: 0,
+              maxValue: 1,
+              visible: false
+            });
+            summary.density.push({
+              curve: curve.mnemonic,
+              correctionCurve: correction.mnemonic,
+              checked: validation.checked,
+              flagged: validation.flagged,
+              intervals: validation.intervals
+            });
+          }
+        } else if (!holeSize) {
+          summary.skipped.push(`${curve.mnemonic} not corrected: no caliper or bit size`);
+        } else if (gammaRays.includes(curve)) {
+          if (parameters.mudWeight === undefined) {
+            summary.skipped.push(`${curve.mnemonic} not corrected: no mud weight`);
+          } else {
+            const mnemonic = curve.mnemonic + ENV_CORRECTION_SUFFIX;
+            addCurve(curve, mnemonic, correctGammaRay(values, holeSize, parameters.mudWeight), {
+              description: `${curve.mnemonic} corrected for hole size and mud weight`
+            });
+            summary.corrected[curve.mnemonic] = mnemonic;
+          }
+        } else {
+          const mnemonic = curve.mnemonic + ENV_CORRECTION_SUFFIX;
+          const fraction = isFractionalPorosity(values, curve.unit);
+          addCurve(curve, mnemonic, correctNeutron(values, holeSize, parameters, fraction), {
+            description: `${curve.mnemonic} corrected for hole size, standoff and mud salinity`
+          });
+          summary.corrected[curve.mnemonic] = mnemonic;
+        }
+        onCurve?.(curve.mnemonic, index + 1, targets.length);
+      }
+
+      const addedNames = new Set(added.map(c => c.mnemonic));
+      return {
+        success: true,
+        data: {
+          ...data,
+          curves: [...data.curves.filter(c => !addedNames.has(c.mnemonic)), ...added],
+          log
+        },
+        summary
+      };
+    } catch (error) {
+      console.error('Environmental correction failed:', error);
+      return { success: false, data, summary, error: 'Environmental correction failed' };
+    }
+  }
+
+  /**
+   * Hole size in inches at each sample: the caliper where it reads, else a
+   * bit size curve, else the bit size parameter. Null when there is none.
+   */
+  private holeSize(curves: LASCurve[], log: WellLog, bitSize?: number): Float64Array | null {
+    const sources = [curvesWithRole(curves, 'caliper')[0], curvesWithRole(curves, 'bitSize')[0]]
+      .filter((c): c is LASCurve => c !== undefined)
+      .map(c => toInches(log.getValues(c.mnemonic), c.unit));
+
+    const holeSize = new Float64Array(log.length).fill(bitSize ?? NaN);
+    for (let i = 0; i < holeSize.length; i++) {
+      const reading = sources.find(values => !isNaN(values[i]));
+      if (reading) holeSize[i] = reading[i];
+    }
+    return holeSize.some(v => !isNaN(v)) ? holeSize : null;
+  }
+
+  /**
+   * Resampling
+   *
+   * Moves every curve onto a regular depth grid and updates the header's
+   * start, stop and step to describe it. Categorical curves take the
+   * nearest sample's code. A negative header step marks a grid that runs
+   * up the hole.
+   */
+  async resample<T extends { header: LASHeader; curves: LASCurve[]; log: WellLog }>(
+    data: T,
+    options: ResampleOptions,
+    onCurve?: CurveProgressCallback
+  ): Promise<{ success: boolean; data: T; error?: string }> {
+    try {
+      const { log } = data;
+      if (log.length === 0) {
+        return { success: false, data, error: 'There is no data to resample' };
+      }
+      const curves = data.curves.filter(c => c.dataType !== 'depth');
+      const startDepth = options.startDepth ?? log.depth[0];
+      const stopDepth = options.stopDepth ?? log.depth[log.length - 1];
+      const errors = validateResampleOptions(options, { startDepth, stopDepth, samples: log.length });
+      if (errors.length > 0) {
+        return { success: false, data, error: errors.join('; ') };
+      }
+      const depth = regularDepths(startDepth, stopDepth, options.step);
+
+      const resampled = new WellLog(depth);
+      for (const [index, curve] of curves.entries()) {
+        const values = log.getValues(curve.mnemonic);
+        resampled.setCurve(curve.mnemonic, curve.categorical
+          ? nearestValues(log.depth, values, depth)
+          : resampleValues(log.depth, values, depth, options.method));
+        onCurve?.(curve.mnemonic, index + 1, curves.length);
+      }
+
+      return {
+        success: true,
+        data: {
+          ...data,
+          header: {
+            ...data.header,
+            startDepth: depth[0],
+            stopDepth: depth[depth.length - 1],
+            step: stopDepth >= startDepth ? options.step : -options.step
+          },
+          log: resampled
+        }
+      };
+    } catch (error) {
+      console.error('Resampling failed:', error);
+      return { success: false, data, error: error instanceof Error ? error.message : 'Resampling failed' };
+    }
+  }
+
+  /**
+   * The named curve, or else the gamma ray
+   */
+  private findReferenceCurve(curves: LASCurve[], mnemonic?: string): LASCurve | undefined {
+    const logCurves = curves.filter(c => c.dataType === 'log');
+    if (mnemonic) {
+      const name = mnemonic.toUpperCase();
+      return logCurves.find(c => c.mnemonic.toUpperCase() === name || c.standardMnemonic?.toUpperCase() === name);
+    }
+    return logCurves.find(c => c.curveType === 'gamma_ray') ||
+      logCurves.find(c => /^(GR|SGR|CGR)/i.test(c.standardMnemonic || c.mnemonic));
+  }
+
+  /**
+   * Fits a polynomial of a given order to the data (x, y) using least squares.
+   * Returns the polynomial coefficients.
+   */
+  private polynomialFit(x: number[], y: number[], order: number): number[] {
+    const n = x.length;
+    const A: number[][] = [];
+    const b: number[][] = [];
+
+    for (let i = 0; i < n; i++) {
+      const row: number[] = [];
+      for (let j = 0; j <= order; j++) {
+        row.push(Math.pow(x[i], j));
+      }
+      A.push(row);
+      b.push([y[i]]);
+    }
+
+    const AT = this.transpose(A);
+    const ATA = this.multiply(AT, A);
+    const ATb = this.multiply(AT, b);
+    const ATAinv = this.inverse(ATA);
+    const coeffsMatrix = this.multiply(ATAinv, ATb);
+
+    return coeffsMatrix.map(row => row[0]);
+  }
+
+  /**
+   * Main denoising function that applies the selected algorithm, with any
+   * per-curve overrides and depth zones
+   */
+  async denoise<T extends { curves: LASCurve[]; log: WellLog }>(
+    data: T,
+    options: DenoiseOptions & CurveParameterOptions<DenoiseOptions>,
+    onCurve?: CurveProgressCallback
+  ): Promise<{
+    success: boolean;
+    data: T;
+    metrics: Record<string, DenoiseMetrics>;
+  }> {
+    try {
+      this.validateProcessingParams(options);
+      const logCurves = data.curves.filter(c => c.dataType === 'log');
+      const log = data.log.clone();
+      const metrics: Record<string, DenoiseMetrics> = {};
+      
+      // Process each curve
+      for (const [index, curve] of logCurves.entries()) {
+        const resolved = resolveCurveParameters<DenoiseOptions>(curve, options, options);
+        if (!resolved.enabled) {
+          onCurve?.(curve.mnemonic, index + 1, logCurves.length);
+          continue;
+        }
+        this.validateResolvedParams(resolved);
+
+        const originalValues = log.getValidValues(curve.mnemonic);
+        
+        this.validateCurveData(originalValues);
+        
+        const depths = log.getValidIndices(curve.mnemonic).map(i => log.depth[i]);
+        const { cleanedData: blendedValues } = this.applyInZones(depths, resolved, parameters => ({
+          cleanedData: this.denoiseValues(originalValues, parameters),
+          spikeIndices: []
+        }));
+        
+        // Update data
+        log.setValidValues(curve.mnemonic, blendedValues);
+        
+        // Calculate metrics
+        const noiseReduction = this.calculateNoiseReduction(originalValues, blendedValues);
+        metrics[curve.mnemonic] = {
+          noiseReduction,
+          pointsProcessed: originalValues.length,
+          method: resolved.parameters.method,
+          zones: resolved.zones.length
+        };
+        onCurve?.(curve.mnemonic, index + 1, logCurves.length);
+      }
+      
+      return { success: true, data: { ...data, log }, metrics };
+      
+    } catch (error) {
+      console.error('Denoising failed:', error);
+      return { success: false, data, metrics: {} };
+    }
+  }
+
+  /**
+   * Main despiking function, with any per-curve overrides and depth zones.
+   * In consensus mode spikes that related curves share are kept as geology;
+   * the report records every spike and why it was kept or replaced.
+   */
+  async despike<T extends { curves: LASCurve[]; log: WellLog }>(
+    data: T,
+    options: DespikeOptions & CurveParameterOptions<DespikeOptions> & { consensus?: SpikeConsensusOptions },
+    onCurve?: CurveProgressCallback
+  ): Promise<{
+    success: boolean;
+    data: T;
+    spikesDetected: number;
+    spikesRemoved: number;
+    report?: SpikeReport;
+  }> {
+    try {
+      this.validateProcessingParams(options);
+      const logCurves = data.curves.filter(c => c.dataType === 'log');
+      const log = data.log.clone();
+      // Each curve's spikes by sample index, with the values to put in their place
+      const detected: Record<string, { indices: number[]; replacements: number[] }> = {};
+
+      for (const [index, curve] of logCurves.entries()) {
+        const resolved = resolveCurveParameters<DespikeOptions>(curve, options, options);
+        if (!resolved.enabled) {
+          onCurve?.(curve.mnemonic, index + 1, logCurves.length);
+          continue;
+        }
+        this.validateResolvedParams(resolved);
+
+        const validValues = log.getValidValues(curve.mnemonic);
+        
+        this.validateCurveData(validValues);
+        
+        const validIndices = log.getValidIndices(curve.mnemonic);
+        const depths = validIndices.map(i => log.depth[i]);
+        const result = this.applyInZones(depths, resolved, parameters => this.detectSpikes(validValues, parameters));
+        detected[curve.mnemonic] = {
+          indices: result.spikeIndices.map(i => validIndices[i]),
+          replacements: result.spikeIndices.map(i => result.cleanedData[i])
+        };
+        onCurve?.(curve.mnemonic, index + 1, logCurves.length);
+      }
+
+      const consensus = options.consensus?.enabled
+        ? spikeConsensus(
+          log.depth,
+          Object.fromEntries(Object.entries(detected).map(([mnemonic, spikes]) => [mnemonic, spikes.indices])),
+          relatedCurveGroups(logCurves, options.consensus.groups),
+          options.consensus
+        )
+        : undefined;
+
+      // Replace the spikes consensus doesn't keep
+      const spikes: SpikeRecord[] = [];
+      for (const [mnemonic, { indices, replacements }] of Object.entries(detected)) {
+        const values = log.getValues(mnemonic);
+        const cleaned = Float64Array.from(values);
+        indices.forEach((i, n) => {
+          const decision = consensus?.[mnemonic][n];
+          const kept = Boolean(decision?.kept);
+          if (!kept) cleaned[i] = replacements[n];
+          spikes.push({
+            curve: mnemonic,
+            depth: log.depth[i],
+            value: values[i],
+            ...(kept ? {} : { replacement: replacements[n] }),
+            kept,
+            reason: decision?.reason ?? 'ungrouped',
+            corroborating: decision?.corroborating ?? []
+          });
+        });
+        log.setCurve(mnemonic, cleaned);
+      }
+
+      const removed = spikes.filter(spike => !spike.kept).length;
+      return {
+        success: true,
+        data: { ...data, log },
+        spikesDetected: spikes.length,
+        spikesRemoved: removed,
+        report: consensus ? { kept: spikes.length - removed, replaced: removed, spikes } : undefined
+      };
+      
+    } catch (error) {
+      console.error('Despiking failed:', error);
+      return {
+        success: false,
+        data,
+        spikesDetected: 0,
+        spikesRemoved: 0
+      };
+    }
+  }
+
+  private denoiseValues(originalValues: number[], options: DenoiseOptions): number[] {
+    let processedValues: number[];
+    
+    switch (options.method) {
+      case 'savitzky_golay':
+        processedValues = this.savitzkyGolay(
+          originalValues,
+          options.windowSize,
+          options.polynomialOrder || 3
+        );
+        break;
+        
+      case 'wavelet':
+        // Strength scales the threshold rather than blending
+        return this.waveletDenoise(originalValues, options);
+        
+      case 'moving_average':
+        processedValues = this.movingAverage(originalValues, options.windowSize);
+        break;
+        
+      case 'gaussian':
+        processedValues = this.gaussianFilter(originalValues, options.windowSize);
+        break;
+        
+      default:
+        processedValues = originalValues;
+    }
+    
+    // Apply strength parameter (blend original and processed)
+    return originalValues.map((orig: number, idx: number) => 
+      orig * (1 - options.strength) + processedValues[idx] * options.strength
+    );
+  }
+
+  private detectSpikes(validValues: number[], options: DespikeOptions): { cleanedData: number[]; spikeIndices: number[] } {
+    switch (options.method) {
+      case 'hampel':
+        return this.hampelFilter(validValues, options.windowSize, options.threshold);
+        
+      case 'modified_zscore':
+        return this.modifiedZScore(validValues, options.threshold);
+        
+      case 'iqr':
+        return this.iqrMethod(validValues, options.threshold);
+        
+      default:
+        return { cleanedData: validValues, spikeIndices: [] };
+    }
+  }
+
+  /**
+   * Run a method over a curve's valid samples with the curve's parameters,
+   * then once more per depth zone, keeping that run's output inside the
+   * zone. Every run sees the whole curve, so samples at a zone boundary get
+   * the same neighbours they would without the zone.
+   */
+  private applyInZones<T>(
+    depths: number[],
+    resolved: ResolvedCurveParameters<T>,
+    run: (parameters: T) => { cleanedData: number[]; spikeIndices: number[] }
+  ): { cleanedData: number[]; spikeIndices: number[] } {
+    let { cleanedData, spikeIndices } = run(resolved.parameters);
+
+    for (const zone of resolved.zones) {
+      const inside = (i: number) => depths[i] >= zone.top && depths[i] <= zone.bottom;
+      if (!depths.some((_, i) => inside(i))) continue;
+
+      const zoned = run(zone.parameters);
+      cleanedData = cleanedData.map((value, i) => (inside(i) ? zoned.cleanedData[i] : value));
+      spikeIndices = [...spikeIndices.filter(i => !inside(i)), ...zoned.spikeIndices.filter(inside)];
+    }
+
+    return { cleanedData, spikeIndices };
+  }
+
+  // Helper methods
+  private movingAverage(data: number[], windowSize: number): number[] {
+    const result = new Array(data.length);
+    const halfWindow = Math.floor(windowSize / 2);
+    
+    for (let i = 0; i < data.length; i++) {
+      let sum = 0;
+      let count = 0;
+      
+      for (let j = Math.max(0, i - halfWindow); j <= Math.min(data.length - 1, i + halfWindow); j++) {
+        if (!isNaN(data[j])) {
+          sum += data[j];
+          count++;
+        }
+      }
+      
+      result[i] = count > 0 ? sum / count : data[i];
+    }
+    
+    return result;
+  }
+
+  private gaussianFilter(data: number[], windowSize: number): number[] {
+    const sigma = windowSize / 6; // Standard deviation
+    const halfWindow = Math.floor(windowSize / 2);
+    const result = new Array(data.length);
+    
+    // Generate Gaussian kernel
+    const kernel: number[] = [];
+    let kernelSum = 0;
+    
+    for (let i = -halfWindow; i <= halfWindow; i++) {
+      const weight = Math.exp(-(i * i) / (2 * sigma * sigma));
+      kernel.push(weight);
+      kernelSum += weight;
+    }
+    
+    // Normalize kernel
+    for (let i = 0; i < kernel.length; i++) {
+      kernel[i] /= kernelSum;
+    }
+    
+    // Apply filter
+    for (let i = 0; i < data.length; i++) {
+      let sum = 0;
+      let weightSum = 0;
+      
+      for (let j = -halfWindow; j <= halfWindow; j++) {
+        const index = i + j;
+        if (index >= 0 && index < data.length && !isNaN(data[index])) {
+          sum += data[index] * kernel[j + halfWindow];
+          weightSum += kernel[j + halfWindow];
+        }
+      }
+      
+      result[i] = weightSum > 0 ? sum / weightSum : data[i];
+    }
+    
+    return result;
+  }
+
+  private modifiedZScore(data: number[], threshold: number): {
+    cleanedData: number[];
+    spikeIndices: number[];
+  } {
+    const median = this.calculateMedian(data);
+    const mad = this.calculateMAD(data, median);
+    const cleanedData = [...data];
+    const spikeIndices: number[] = [];
+    
+    for (let i = 0; i < data.length; i++) {
+      const modifiedZScore = 0.6745 * (data[i] - median) / mad;
+      if (Math.abs(modifiedZScore) > threshold) {
+        spikeIndices.push(i);
+        cleanedData[i] = median;
+      }
+    }
+    
+    return { cleanedData, spikeIndices };
+  }
+
+  private iqrMethod(data: number[], threshold: number): {
+    cleanedData: number[];
+    spikeIndices: number[];
+  } {
+    const sortedData = [...data].sort((a, b) => a - b);
+    const q1 = sortedData[Math.floor(sortedData.length * 0.25)];
+    const q3 = sortedData[Math.floor(sortedData.length * 0.75)];
+    const iqr = q3 - q1;
+    
+    const lowerBound = q1 - threshold * iqr;
+    const upperBound = q3 + threshold * iqr;
+    
+    const cleanedData = [...data];
+    const spikeIndices: number[] = [];
+    const median = this.calculateMedian(data);
+    
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] < lowerBound || data[i] > upperBound) {
+        spikeIndices.push(i);
+        cleanedData[i] = median;
+      }
+    }
+    
+    return { cleanedData, spikeIndices };
+  }
+
+  private calculateMedian(data: number[]): number {
+    const sorted = [...data].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 
+      ? (sorted[mid - 1] + sorted[mid]) / 2 
+      : sorted[mid];
+  }
+
+  private calculateMAD(data: number[], median: number): number {
+    const deviations = data.map(val => Math.abs(val - median));
+    return this.calculateMedian(deviations);
+  }
+
+  private calculateNoiseReduction(original: number[], processed: number[]): number {
+    const originalVariance = this.calculateVariance(original);
+    const processedVariance = this.calculateVariance(processed);
+    return ((originalVariance - processedVariance) / originalVariance) * 100;
+  }
+
+  private calculateVariance(data: number[]): number {
+    const mean = data.reduce((sum, val) => sum + val, 0) / data.length;
+    const squaredDiffs = data.map(val => Math.pow(val - mean, 2));
+    return squaredDiffs.reduce((sum, val) => sum + val, 0) / data.length;
+  }
+
+  private validateResolvedParams(resolved: ResolvedCurveParameters<DenoiseOptions | DespikeOptions>): void {
+    this.validateProcessingParams(resolved.parameters);
+    resolved.zones.forEach(zone => this.validateProcessingParams(zone.parameters));
+  }
+
+  private validateProcessingParams(options: DenoiseOptions | DespikeOptions): void {
+    if (options.windowSize < 3 || options.windowSize > 21) {
+      throw new Error('Window size must be between 3 and 21');
+    }
+    if (options.windowSize % 2 === 0) {
+      throw new Error('Window size must be odd');
+    }
+    
+    if ('polynomialOrder' in options) {
+      const { polynomialOrder } = options as DenoiseOptions;
+      if (polynomialOrder !== undefined && (polynomialOrder < 1 || polynomialOrder >= options.windowSize)) {
+        throw new Error('Polynomial order must be between 1 and window size - 1');
+      }
+    }
+    
+    const { waveletType, waveletLevel } = options as DenoiseOptions;
+    if (waveletType !== undefined && !isWaveletName(waveletType)) {
+      throw new Error(`Unknown wavelet: ${waveletType}`);
+    }
+    if (waveletLevel !== undefined && (!Number.isInteger(waveletLevel) || waveletLevel < 1)) {
+      throw new Error('Wavelet level must be a positive integer');
+    }
+    
+    if ('threshold' in options) {
+      const { threshold } = options as DespikeOptions;
+      if (threshold <= 0) {
+        throw new Error('Threshold must be positive');
+      }
+    }
+  }
+
+  private validateCurveData(data: number[]): void {
+    if (!Array.isArray(data) || data.length === 0) {
+      throw new Error('Invalid curve data: must be non-empty array');
+    }
+    
+    const validPoints = data.filter(v => v !== null && v !== undefined && !isNaN(v));
+    if (validPoints.length < 3) {
+      throw new Error('Insufficient valid data points for processing');
+    }
+  }
+}
\ No newline at end of file
@@ -0,0 +1,87 @@
+/**
+ * Tests for resampling logs onto a new depth grid
+ */
+
+import { ProcessingAlgorithms } from './processingAlgorithms';
+import { nearestValues, regularDepths, resampleValues, validateResampleOptions } from './resampling';
+import { LASCurve, LASHeader } from './types';
+import { WellLog } from './wellLog';
+import { describe, it, expect } from '@jest/globals';
+
+describe('Resampling', () => {
+  it('should interpolate irregular depths without bridging nulls', () => {
+    const depth = [100, 100.4, 101, 101.2, 102, 102.5];
+    const values = [1, 2, 3, NaN, 5, 6];
+    const linear = resampleValues(depth, values, regularDepths(100, 102.5, 0.5), 'linear');
+
+    expect(linear[0]).toBe(1);
+    expect(linear[1]).toBeCloseTo(2 + 0.1 / 0.6, 9);
+    expect(linear[2]).toBe(3);
+    expect(linear[3]).toBeNaN();
+    expect(Array.from(linear.slice(4))).toEqual([5, 6]);
+    expect(Array.from(resampleValues([...depth].reverse(), [...values].reverse(), [101, 102], 'pchip'))).toEqual([3, 5]);
+  });
+
+  it('should build grids running either way down the log', () => {
+    expect(Array.from(regularDepths(8, 10, 0.5))).toEqual([8, 8.5, 9, 9.5, 10]);
+    expect(Array.from(regularDepths(10, 8, 0.5))).toEqual([10, 9.5, 9, 8.5, 8]);
+  });
+
+  it('should keep a single sample at its own depth only and leave all-null curves null', () => {
+    for (const method of ['linear', 'pchip', 'decimate'] as const) {
+      expect(Array.from(resampleValues([100], [5], [99.5, 100, 100.5], method))).toEqual([NaN, 5, NaN]);
+      expect(Array.from(resampleValues([100, 101, 102], [NaN, NaN, NaN], [100, 100.5, 101], method))).toEqual([NaN, NaN, NaN]);
+    }
+  });
+
+  it('should filter out detail finer than the new step when decimating', () => {
+    const depth = regularDepths(0, 100, 0.5);
+    const values = Array.from(depth, (d, i) => 10 + (i % 2 === 0 ? 1 : -1));
+    const coarse = regularDepths(2, 98, 2);
+
+    expect(Array.from(resampleValues(depth, values, coarse, 'linear')).every(v => v === 11)).toBe(true);
+    resampleValues(depth, values, coarse, 'decimate').forEach(v => expect(v).toBeCloseTo(10, 1));
+  });
+
+  it('should move flag curves by nearest sample so no code is invented', async () => {
+    const log = new WellLog([0, 1, 2, 3, 4]);
+    log.setCurve('GR', [40, 50, 60, 70, 80]);
+    log.setCurve('GR_FILL', [0, 0, 2, 0, 0]);
+    const curves = [
+      { mnemonic: 'GR', dataType: 'log' },
+      { mnemonic: 'GR_FILL', dataType: 'computed', categorical: true }
+    ] as LASCurve[];
+
+    for (const method of ['linear', 'pchip', 'decimate'] as const) {
+      const result = await new ProcessingAlgorithms().resample(
+        { header: { startDepth: 0, stopDepth: 4, step: 1 } as LASHeader, curves, log },
+        { enabled: true, step: 0.5, method }
+      );
+      expect(result.success).toBe(true);
+      expect(Array.from(result.data.log.getValues('GR_FILL'))).toEqual([0, 0, 0, 0, 2, 2, 0, 0, 0]);
+      expect(result.data.log.getValues('GR')[1]).toBeCloseTo(45, 0);
+    }
+  });
+
+  it('should take the nearest code on either grid direction and keep nulls', () => {
+    const depth = [100, 101, 102, 103];
+    const flags = [1, NaN, 3, 0];
+
+    expect(Array.from(nearestValues(depth, flags, [99.5, 100.4, 100.6, 102.5, 103, 103.5]))).toEqual([NaN, 1, NaN, 3, 0, NaN]);
+    expect(Array.from(nearestValues([...depth].reverse(), [...flags].reverse(), [102.8, 101.6]))).toEqual([0, 3]);
+  });
+
+  it('should reject a step that would outgrow the log many times over', async () => {
+    const extent = { startDepth: 0, stopDepth: 10000, samples: 20001 };
+    const [error] = validateResampleOptions({ enabled: true, step: 1e-6, method: 'linear' }, extent);
+    expect(error).toContain('use a step of at least 0.05');
+    expect(validateResampleOptions({ enabled: true, step: 0.05, method: 'linear' }, extent)).toEqual([]);
+
+    const log = new WellLog(Array.from({ length: 11 }, (_, i) => i));
+    const result = await new ProcessingAlgorithms().resample(
+      { header: { startDepth: 0, stopDepth: 10, step: 1 } as LASHeader, curves: [], log },
+      { enabled: true, step: 1e-6, method: 'linear' }
+    );
+    expect(result).toMatchObject({ success: false, data: { log } });
+  });
+});
@@ -0,0 +1,316 @@
+/**
+ * POLISH Resampling
+ *
+ * Interpolates curves onto a regular depth grid. Linear and PCHIP
+ * interpolation work between neighbouring valid samples, so nulls stay
+ * null rather than being bridged; decimation low-pass filters with a
+ * Lanczos kernel scaled to the new step so coarser grids don't alias.
+ * Categorical curves, such as flags, take the nearest sample's code instead.
+ * Input depths may be irregular and in either direction.
+ */
+
+export type ResampleMethod = 'linear' | 'pchip' | 'decimate';
+
+export interface ResampleOptions {
+  enabled: boolean;
+  /** Depth step of the new grid, in depth units */
+  step: number;
+  method: ResampleMethod;
+  /** First depth of the new grid; the first input depth when omitted */
+  startDepth?: number;
+  /** Last depth of the new grid, or the last one before it; the last input depth when omitted */
+  stopDepth?: number;
+}
+
+export const RESAMPLE_METHODS: ResampleMethod[] = ['linear', 'pchip', 'decimate'];
+
+// Lobes either side of the centre of the decimation kernel
+const LANCZOS_LOBES = 3;
+
+/**
+ * PCHIP (Piecewise Cubic Hermite Interpolating Polynomial) Interpolation
+ *
+ * PCHIP interpolation preserves monotonicity and is shape-preserving,
+ * making it ideal for petrophysical data where physical relationships
+ * must be maintained.
+ */
+export function pchipInterpolation(
+  x: number[],
+  y: number[],
+  xi: number[]
+): number[] {
+  const n = x.length;
+  const h = new Array(n - 1);
+  const delta = new Array(n - 1);
+
+  for (let i = 0; i < n - 1; i++) {
+    h[i] = x[i + 1] - x[i];
+    delta[i] = (y[i + 1] - y[i]) / h[i];
+  }
+
+  // Fritsch-Carlson method for slope calculation
+  const d = new Array(n);
+  d[0] = delta[0];
+  d[n - 1] = delta[n - 2];
+  for (let i = 1; i < n - 1; i++) {
+    if (delta[i - 1] * delta[i] <= 0) {
+      d[i] = 0;
+    } else {
+      const w1 = 2 * h[i] + h[i - 1];
+      const w2 = h[i] + 2 * h[i - 1];
+      d[i] = (w1 + w2) / (w1 / delta[i - 1] + w2 / delta[i]);
+    }
+  }
+
+  const result: number[] = [];
+  for (const val of xi) {
+    // First interval whose right end is at or beyond val
+    let i = 0;
+    let high = n - 1;
+    while (i < high) {
+      const mid = (i + high) >> 1;
+      if (x[mid + 1] < val) i = mid + 1;
+      else high = mid;
+    }
+
+    if (i === n - 1) {
+      result.push(y[i]);
+      continue;
+    }
+
+    const t = (val - x[i]) / h[i];
+    const t2 = t * t;
+    const t3 = t2 * t;
+
+    const h00 = 2 * t3 - 3 * t2 + 1;
+    const h10 = t3 - 2 * t2 + t;
+    const h01 = -2 * t3 + 3 * t2;
+    const h11 = t3 - t2;
+
+    const interpolatedValue =
+      h00 * y[i] + h10 * h[i] * d[i] + h01 * y[i + 1] + h11 * h[i] * d[i + 1];
+
+    result.push(interpolatedValue);
+  }
+  return result;
+}
+
+/** A new grid may have at most this many times the samples of the log it comes from */
+export const MAX_RESAMPLE_FACTOR = 10;
+
+/** The depth range and sample count of the log being resampled */
+export interface ResampleExtent {
+  startDepth: number;
+  stopDepth: number;
+  samples: number;
+}
+
+/**
+ * Problems with resampling options, or none when they are valid or
+ * resampling is off. Given the log's extent, steps so fine that the grid
+ * would outgrow the log many times over are rejected too.
+ */
+export function validateResampleOptions(options: Partial<ResampleOptions> | undefined, extent?: ResampleExtent): string[] {
+  if (!options?.enabled) return [];
+
+  const errors: string[] = [];
+  if (typeof options.step !== 'number' || !(options.step > 0)) {
+    errors.push('Resampling step must be a positive number');
+  } else if (extent) {
+    const start = options.startDepth ?? extent.startDepth;
+    const stop = options.stopDepth ?? extent.stopDepth;
+    const limit = Math.max(extent.samples, 1) * MAX_RESAMPLE_FACTOR;
+    const samples = gridSamples(start, stop, options.step);
+    if (samples > limit) {
+      errors.push(
+        `Resampling step ${options.step} would make ${samples} samples from ${start} to ${stop}, ` +
+        `more than ${MAX_RESAMPLE_FACTOR} times the log's ${extent.samples}; ` +
+        `use a step of at least ${+(Math.abs(stop - start) / (limit - 1)).toPrecision(3)}`
+      );
+    }
+  }
+  if (!RESAMPLE_METHODS.includes(options.method as ResampleMethod)) {
+    errors.push(`Unknown resampling method "${options.method}"; expected one of ${RESAMPLE_METHODS.join(', ')}`);
+  }
+  return errors;
+}
+
+/**
+ * Depths from start towards stop, `step` apart, rounded to the precision
+ * of start and step so the grid writes back as e.g. 1000.5 rather than
+ * 1000.5000000000001
+ */
+export function regularDepths(start: number, stop: number, step: number): Float64Array {
+  if (!(step > 0)) {
+    throw new Error('Resampling step must be positive');
+  }
+  const direction = stop >= start ? 1 : -1;
+  const scale = 10 ** Math.max(decimals(start), decimals(step));
+  return Float64Array.from({ length: gridSamples(start, stop, step) }, (_, i) =>
+    Math.round((start + direction * i * step) * scale) / scale
+  );
+}
+
+function gridSamples(start: number, stop: number, step: number): number {
+  return Math.floor(Math.abs(stop - start) / step + 1e-9) + 1;
+}
+
+/**
+ * A curve's values at the target depths; NaN marks nulls in and out
+ */
+export function resampleValues(
+  depth: ArrayLike<number>,
+  values: ArrayLike<number>,
+  targetDepth: ArrayLike<number>,
+  method: ResampleMethod
+): Float64Array {
+  const { x, y } = ascendingSamples(depth, values);
+
+  if (method === 'decimate') {
+    return decimate(x, y, targetDepth);
+  }
+
+  const result = new Float64Array(targetDepth.length).fill(NaN);
+  const targets = Array.from({ length: targetDepth.length }, (_, i) => i)
+    .sort((a, b) => targetDepth[a] - targetDepth[b]);
+
+  // Interpolate within each run of valid samples only
+  let t = 0;
+  for (let start = 0; start < x.length;) {
+    if (isNaN(y[start])) {
+      start++;
+      continue;
+    }
+    let end = start;
+    while (end + 1 < x.length && !isNaN(y[end + 1])) end++;
+
+    while (t < targets.length && targetDepth[targets[t]] < x[start]) t++;
+    const inRun: number[] = [];
+    while (t < targets.length && targetDepth[targets[t]] <= x[end]) inRun.push(targets[t++]);
+
+    if (inRun.length > 0) {
+      const runX = x.slice(start, end + 1);
+      const runY = y.slice(start, end + 1);
+      const at = inRun.map(i => targetDepth[i]);
+      const interpolated = method === 'pchip' && runX.length > 2
+        ? pchipInterpolation(runX, runY, at)
+        : linearInterpolation(runX, runY, at);
+      inRun.forEach((i, k) => { result[i] = interpolated[k]; });
+    }
+    start = end + 1;
+  }
+  return result;
+}
+
+/**
+ * Codes, such as flags, at the target depths: each target takes the value
+ * of the nearest sample, the shallower on a tie, so no code appears that
+ * wasn't recorded. NaN marks nulls in and out; targets beyond the input
+ * depths are null.
+ */
+export function nearestValues(
+  depth: ArrayLike<number>,
+  values: ArrayLike<number>,
+  targetDepth: ArrayLike<number>
+): Float64Array {
+  const { x, y } = ascendingSamples(depth, values);
+  const result = new Float64Array(targetDepth.length).fill(NaN);
+
+  for (let i = 0; i < targetDepth.length; i++) {
+    const at = targetDepth[i];
+    if (!(at >= x[0] && at <= x[x.length - 1])) continue;
+    const j = lowerBound(x, at);
+    result[i] = j > 0 && at - x[j - 1] <= x[j] - at ? y[j - 1] : y[j];
+  }
+  return result;
+}
+
+// Samples in ascending depth order, dropping repeated depths after the first
+function ascendingSamples(depth: ArrayLike<number>, values: ArrayLike<number>): { x: number[]; y: number[] } {
+  const order = Array.from({ length: depth.length }, (_, i) => i)
+    .filter(i => !isNaN(depth[i]))
+    .sort((a, b) => depth[a] - depth[b] || a - b)
+    .filter((i, k, sorted) => k === 0 || depth[i] !== depth[sorted[k - 1]]);
+  return { x: order.map(i => depth[i]), y: order.map(i => values[i]) };
+}
+
+function linearInterpolation(x: number[], y: number[], at: number[]): number[] {
+  let i = 0;
+  return at.map(value => {
+    while (i < x.length - 1 && x[i + 1] < value) i++;
+    if (x[i] === value || i === x.length - 1) return y[i];
+    const t = (value - x[i]) / (x[i + 1] - x[i]);
+    return y[i] + t * (y[i + 1] - y[i]);
+  });
+}
+
+/**
+ * Lanczos-filtered values at the target depths. The kernel spans the
+ * coarser of the target step and the input spacing, weighting each sample
+ * by the depth it covers so irregular spacing is handled. A target is null
+ * unless valid samples lie within one kernel step on both sides of it.
+ */
+function decimate(x: number[], y: number[], targetDepth: ArrayLike<number>): Float64Array {
+  const result = new Float64Array(targetDepth.length).fill(NaN);
+  if (x.length === 0) return result;
+
+  const targetStep = targetDepth.length > 1
+    ? Math.abs(targetDepth[targetDepth.length - 1] - targetDepth[0]) / (targetDepth.length - 1)
+    : 0;
+  const inputStep = x.length > 1 ? (x[x.length - 1] - x[0]) / (x.length - 1) : 0;
+  const width = Math.max(targetStep, inputStep);
+  if (!(width > 0)) {
+    return resampleValues(x, y, targetDepth, 'linear');
+  }
+
+  const cover = x.map((_, j) => ((x[Math.min(j + 1, x.length - 1)] - x[Math.max(j - 1, 0)]) / 2) || width);
+  const reach = LANCZOS_LOBES * width;
+
+  for (let i = 0; i < targetDepth.length; i++) {
+    const at = targetDepth[i];
+    let weight = 0;
+    let sum = 0;
+    let below = false;
+    let above = false;
+
+    for (let j = lowerBound(x, at - reach); j < x.length && x[j] <= at + reach; j++) {
+      if (isNaN(y[j])) continue;
+      const offset = (x[j] - at) / width;
+      if (offset <= 0 && offset >= -1) below = true;
+      if (offset >= 0 && offset <= 1) above = true;
+      const w = lanczos(offset) * cover[j];
+      weight += w;
+      sum += w * y[j];
+    }
+    if (below && above && weight > 0) {
+      result[i] = sum / weight;
+    }
+  }
+  return result;
+}
+
+function lanczos(x: number): number {
+  if (x === 0) return 1;
+  if (Math.abs(x) >= LANCZOS_LOBES) return 0;
+  const px = Math.PI * x;
+  return (LANCZOS_LOBES * Math.sin(px) * Math.sin(px / LANCZOS_LOBES)) / (px * px);
+}
+
+// First index whose value is at least `value`
+function lowerBound(sorted: number[], value: number): number {
+  let low = 0;
+  let high = sorted.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (sorted[mid] < value) low = mid + 1;
+    else high = mid;
+  }
+  return low;
+}
+
+function decimals(value: number): number {
+  const text = String(value);
+  if (text.includes('e')) return 10;
+  const point = text.indexOf('.');
+  return point === -1 ? 0 : Math.min(10, text.length - point - 1);
+}
@@ -0,0 +1,72 @@
+/**
+ * Tests for deciding spikes by consensus across related curves
+ */
+
+import { relatedCurveGroups, spikeConsensus, validateSpikeConsensusOptions } from './spikeConsensus';
+import { LASCurve } from './types';
+import { describe, it, expect } from '@jest/globals';
+
+const curve = (mnemonic: string, dataType: LASCurve['dataType'] = 'log'): LASCurve => ({
+  mnemonic,
+  unit: '',
+  description: '',
+  dataType,
+  curveType: 'custom',
+  track: 1,
+  color: '#000',
+  scale: 'linear',
+  visible: true
+});
+
+describe('Spike consensus', () => {
+  const depth = Array.from({ length: 100 }, (_, i) => 1000 + i * 0.5);
+  const groups = [['RHOB', 'NPHI', 'DT']];
+  // A bed at sample 50 on density and neutron, seen a sample lower on the sonic; a lone density spike at 80
+  const spikes = { RHOB: [50, 80], NPHI: [50], DT: [51], CALI: [30] };
+
+  it('should keep spikes enough related curves share and replace the rest', () => {
+    const decisions = spikeConsensus(depth, spikes, groups, { enabled: true });
+
+    expect(decisions.RHOB).toEqual([
+      { index: 50, kept: true, reason: 'corroborated', corroborating: ['NPHI', 'DT'] },
+      { index: 80, kept: false, reason: 'uncorroborated', corroborating: [] }
+    ]);
+    expect(decisions.DT[0]).toMatchObject({ kept: true, corroborating: ['RHOB', 'NPHI'] });
+    expect(decisions.CALI).toEqual([{ index: 30, kept: false, reason: 'ungrouped', corroborating: [] }]);
+  });
+
+  it('should take the tolerance in depth units, whichever way depths run', () => {
+    const exact = spikeConsensus(depth, spikes, groups, { enabled: true, minCurves: 3, depthTolerance: 0 });
+    expect(exact.RHOB[0]).toMatchObject({ kept: false, corroborating: ['NPHI'] });
+
+    const reversed = [...depth].reverse();
+    const flipped = { RHOB: [49, 19], NPHI: [49], DT: [48] };
+    expect(spikeConsensus(reversed, flipped, groups, { enabled: true, minCurves: 3 }).RHOB.map(d => d.kept)).toEqual([true, false]);
+  });
+
+  it('should keep nothing when more curves must agree than the group has', () => {
+    const decisions = spikeConsensus(depth, spikes, groups, { enabled: true, minCurves: 4 });
+    expect(Object.values(decisions).flat().some(decision => decision.kept)).toBe(false);
+    expect(decisions.RHOB[0]).toMatchObject({ reason: 'uncorroborated', corroborating: ['NPHI', 'DT'] });
+  });
+
+  it('should decide on a single sample and on curves with no spikes', () => {
+    const single = spikeConsensus([1000], { RHOB: [0], NPHI: [0] }, groups, { enabled: true });
+    expect(single.RHOB).toEqual([{ index: 0, kept: true, reason: 'corroborated', corroborating: ['NPHI'] }]);
+
+    expect(spikeConsensus(depth, { RHOB: [], NPHI: [] }, groups, { enabled: true })).toEqual({ RHOB: [], NPHI: [] });
+  });
+
+  it('should group the formation curves present, or the groups given', () => {
+    const curves = ['RHOB', 'NPHI', 'GR', 'CALI', 'DRHO'].map(mnemonic => curve(mnemonic));
+    expect(relatedCurveGroups(curves)).toEqual([['RHOB', 'NPHI', 'GR']]);
+    expect(relatedCurveGroups(curves, [['rhob', 'nphi'], ['GR', 'DT']])).toEqual([['RHOB', 'NPHI']]);
+    expect(relatedCurveGroups([curve('RHOB'), curve('NPHI', 'computed')])).toEqual([]);
+  });
+
+  it('should reject options that can never be met', () => {
+    expect(validateSpikeConsensusOptions({ enabled: true, minCurves: 1, depthTolerance: -1, groups: [[]] })).toHaveLength(3);
+    expect(validateSpikeConsensusOptions({ enabled: false, minCurves: 1 })).toEqual([]);
+    expect(validateSpikeConsensusOptions({ enabled: true, minCurves: 2, depthTolerance: 0 })).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * POLISH Spike Consensus
+ *
+ * Despiking judges each curve on its own, so a thin bed that shows on every
+ * porosity tool at once, such as a coal, looks like a spike on each of them.
+ * In consensus mode a spike is kept as geology when enough physically
+ * related curves spike at the same depth, and replaced only when it stands
+ * alone. Every spike's fate is reported with the reason for it.
+ */
+
+import { BoreholeCurveRole, curveRole } from './environmentalCorrections';
+import { LASCurve } from './types';
+
+export interface SpikeConsensusOptions {
+  enabled: boolean;
+  /** Curves of a group that must spike together for the event to be kept, counting the curve itself; default 2 */
+  minCurves?: number;
+  /** How far apart, in depth units, spikes on different curves can be and still be one event; default one sample */
+  depthTolerance?: number;
+  /** Related curves by mnemonic; by default the formation measurements form one group */
+  groups?: string[][];
+}
+
+/**
+ * Why a spike was kept or replaced: corroborated by enough related curves,
+ * uncorroborated, or on a curve with no related curves to check against
+ */
+export type SpikeReason = 'corroborated' | 'uncorroborated' | 'ungrouped';
+
+export interface SpikeRecord {
+  curve: string;
+  depth: number;
+  value: number;
+  /** The value it was replaced with; absent when kept */
+  replacement?: number;
+  kept: boolean;
+  reason: SpikeReason;
+  /** Related curves spiking at the same depth */
+  corroborating: string[];
+}
+
+export interface SpikeReport {
+  kept: number;
+  replaced: number;
+  spikes: SpikeRecord[];
+}
+
+export const DEFAULT_CONSENSUS_MIN_CURVES = 2;
+
+// Formation measurements that all respond to a change of rock; caliper, bit size and DRHO don't
+const FORMATION_ROLES: BoreholeCurveRole[] = [
+  'density',
+  'neutron',
+  'sonic',
+  'photoelectric',
+  'gammaRay',
+  'resistivity',
+  'microresistivity'
+];
+
+/**
+ * Problems with consensus options, or none when they are valid or consensus is off
+ */
+export function validateSpikeConsensusOptions(options: Partial<SpikeConsensusOptions> | undefined): string[] {
+  if (!options?.enabled) return [];
+
+  const errors: string[] = [];
+  if (options.minCurves !== undefined && !(Number.isInteger(options.minCurves) && options.minCurves >= 2)) {
+    errors.push('Spike consensus needs at least 2 curves to agree');
+  }
+  if (options.depthTolerance !== undefined && !(options.depthTolerance >= 0)) {
+    errors.push('Spike consensus depth tolerance must be zero or more');
+  }
+  if (options.groups !== undefined &&
+      !(Array.isArray(options.groups) && options.groups.every(group => Array.isArray(group) && group.length > 0))) {
+    errors.push('Spike consensus groups must be lists of curve mnemonics');
+  }
+  return errors;
+}
+
+/**
+ * The groups of related curves present in a file, by mnemonic
+ */
+export function relatedCurveGroups(curves: LASCurve[], groups?: string[][]): string[][] {
+  const logCurves = curves.filter(c => c.dataType === 'log');
+  if (groups) {
+    return groups
+      .map(group => logCurves
+        .filter(c => group.some(mnemonic => mnemonic.toUpperCase() === c.mnemonic.toUpperCase()))
+        .map(c => c.mnemonic))
+      .filter(group => group.length > 1);
+  }
+  const formation = logCurves.filter(c => FORMATION_ROLES.includes(curveRole(c)!)).map(c => c.mnemonic);
+  return formation.length > 1 ? [formation] : [];
+}
+
+/**
+ * Decide which spikes to keep. `spikes` holds each curve's spike sample
+ * indices into `depth`; a spike is kept when, with the curve itself, at
+ * least `minCurves` curves sharing a group with it spike within the tolerance.
+ */
+export function spikeConsensus(
+  depth: ArrayLike<number>,
+  spikes: Record<string, number[]>,
+  groups: string[][],
+  options: SpikeConsensusOptions
+): Record<string, Array<{ index: number; kept: boolean; reason: SpikeReason; corroborating: string[] }>> {
+  const minCurves = options.minCurves ?? DEFAULT_CONSENSUS_MIN_CURVES;
+  const tolerance = options.depthTolerance ?? sampleStep(depth);
+  // A little slack so a tolerance of one step isn't lost to rounding in the depths
+  const near = (a: number, b: number) => Math.abs(depth[a] - depth[b]) <= tolerance * (1 + 1e-9);
+
+  const decisions: ReturnType<typeof spikeConsensus> = {};
+  for (const [curve, indices] of Object.entries(spikes)) {
+    const related = [...new Set(groups.filter(group => group.includes(curve)).flat())].filter(c => c !== curve);
+    decisions[curve] = indices.map(index => {
+      if (related.length === 0) {
+        return { index, kept: false, reason: 'ungrouped', corroborating: [] };
+      }
+      const corroborating = related.filter(other => (spikes[other] || []).some(j => near(index, j)));
+      const kept = corroborating.length + 1 >= minCurves;
+      return { index, kept, reason: kept ? 'corroborated' : 'uncorroborated', corroborating };
+    });
+  }
+  return decisions;
+}
+
+// Median spacing between samples, so one irregular step doesn't set the tolerance
+function sampleStep(depth: ArrayLike<number>): number {
+  const steps: number[] = [];
+  for (let i = 1; i < depth.length; i++) {
+    const step = Math.abs(depth[i] - depth[i - 1]);
+    if (step > 0) steps.push(step);
+  }
+  steps.sort((a, b) => a - b);
+  return steps.length > 0 ? steps[Math.floor(steps.length / 2)] : 0;
+}
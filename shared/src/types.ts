@@ -0,0 +1,109 @@
+/**
+ * POLISH Shared LAS Types
+ *
+ * The LAS file model produced by the parser and read by the processing
+ * algorithms, in the browser and on the server alike.
+ */
+
+import type { WellLog } from './wellLog';
+
+/**
+ * A LAS file as parsed. The browser and server extend it with their own
+ * processing and QC state.
+ */
+export interface LASFile {
+  id: string;
+  name: string;
+  size: number;
+  uploadedAt: Date;
+  processed: boolean;
+  version: string;
+  header: LASHeader;
+  curves: LASCurve[];
+  /** Curve data by column; rows are built from it only to render or export */
+  log: WellLog;
+  qualityScore?: number;
+  wellItems?: LASHeaderItem[];
+  parameters?: LASHeaderItem[];
+  otherInformation?: string;
+  dataSets?: LASDataSet[];
+}
+
+export interface LASHeader {
+  version: string;
+  wrap: boolean;
+  startDepth: number;
+  stopDepth: number;
+  step: number;
+  nullValue: number;
+  company: string;
+  well: string;
+  field: string;
+  location: string;
+  date: string;
+  uwi: string;
+  serviceCompany?: string;
+  logDate?: string;
+  elevation?: number;
+  delimiter?: LASDelimiter;
+  depthUnit?: string;
+  indexMnemonic?: string; // first ~Curve entry, e.g. DEPT
+}
+
+export type LASDelimiter = 'SPACE' | 'COMMA' | 'TAB';
+
+/**
+ * A single `MNEM.UNIT  VALUE : DESCRIPTION {FORMAT} | ASSOCIATION` line
+ * from a LAS header section (~Version, ~Well, ~Parameter, ~Curve and the
+ * LAS 3.0 *_Parameter / *_Definition sections).
+ */
+export interface LASHeaderItem {
+  mnemonic: string;
+  unit: string;
+  value: string;
+  description: string;
+  format?: string;
+  association?: string;
+}
+
+/**
+ * A LAS 3.0 data section group other than the primary log data,
+ * e.g. ~Core_Parameter / ~Core_Definition / ~Core_Data or ~Tops_*.
+ */
+export interface LASDataSet {
+  name: string;
+  parameters: LASHeaderItem[];
+  definitions: LASHeaderItem[];
+  rows: Array<Array<number | string | null>>;
+}
+
+export interface LASCurve {
+  mnemonic: string;
+  unit: string;
+  description: string;
+  standardMnemonic?: string;
+  dataType: 'depth' | 'log' | 'computed';
+  /** Values are codes, such as quality flags, rather than measurements, so they are never interpolated */
+  categorical?: boolean;
+  curveType: 'gamma_ray' | 'resistivity' | 'porosity' | 'caliper' | 'sp' | 'drilling' | 'custom';
+  track: number;
+  color: string;
+  scale: 'linear' | 'logarithmic';
+  minValue?: number;
+  maxValue?: number;
+  visible: boolean;
+  statistics?: {
+    min: number;
+    max: number;
+    mean: number;
+    std: number;
+    nullCount: number;
+    outliers: number;
+    qualityScore: number;
+  };
+}
+
+export interface LASData {
+  depth: number;
+  [key: string]: number | null;
+}
@@ -0,0 +1,42 @@
+/**
+ * Tests for wavelet decomposition and shrinkage
+ */
+
+import { decompose, estimateThreshold, reconstruct, WAVELET_NAMES, waveletDenoise } from './wavelets';
+import { describe, it, expect } from '@jest/globals';
+
+describe('Wavelet transforms', () => {
+  const signal = Array.from({ length: 101 }, (_, i) => 50 + Math.sin(i / 5) * 10 + (i % 7));
+
+  it('should reconstruct every wavelet exactly in every boundary mode', () => {
+    for (const wavelet of WAVELET_NAMES) {
+      for (const mode of ['symmetric', 'reflect', 'periodic', 'constant', 'zero'] as const) {
+        for (const transform of ['dwt', 'swt'] as const) {
+          const restored = reconstruct(decompose(signal, wavelet, 2, transform, mode));
+          restored.forEach((value, i) => expect(value).toBeCloseTo(signal[i], 9));
+        }
+      }
+    }
+  });
+
+  it('should scale thresholds, leaving the signal unchanged at zero', () => {
+    const gentle = waveletDenoise(signal, { waveletType: 'db4', thresholdScale: 0.5 });
+    const strong = waveletDenoise(signal, { waveletType: 'db4', thresholdScale: 2 });
+    const change = (values: number[]) => values.reduce((sum, v, i) => sum + Math.abs(v - signal[i]), 0);
+
+    expect(waveletDenoise(signal, { waveletType: 'db4', thresholdScale: 0 })).toEqual(signal);
+    expect(change(strong)).toBeGreaterThan(change(gentle));
+  });
+
+  it('should pass through signals too short to decompose or with no noise', () => {
+    // A curve with every sample null has no valid values left to denoise
+    expect(waveletDenoise([])).toEqual([]);
+    expect(waveletDenoise([42])).toEqual([42]);
+    expect(waveletDenoise(Array(64).fill(7))).toEqual(Array(64).fill(7));
+  });
+
+  it('should remove a BayesShrink level that is all noise, however long', () => {
+    const detail = Array.from({ length: 200000 }, (_, i) => (i % 2 === 0 ? 1 : -1.5));
+    expect(estimateThreshold('bayesshrink', detail, 10, detail.length * 2)).toBe(1.5);
+  });
+});
@@ -0,0 +1,450 @@
+/**
+ * POLISH Wavelets
+ *
+ * Multi-level discrete (DWT) and stationary (SWT) wavelet transforms over
+ * orthogonal wavelet families, and wavelet shrinkage denoising built on them.
+ *
+ * Reference: Donoho & Johnstone (1994), "Ideal spatial adaptation by wavelet
+ * shrinkage"; Donoho & Johnstone (1995), "Adapting to unknown smoothness via
+ * wavelet shrinkage"; Chang, Yu & Vetterli (2000), "Adaptive wavelet
+ * thresholding for image denoising and compression".
+ */
+
+type DaubechiesOrder = 2 | 3 | 4 | 5 | 6 | 7 | 8;
+
+export type WaveletName =
+  | 'haar'
+  | `db${DaubechiesOrder}`
+  | `sym${DaubechiesOrder}`
+  | `coif${1 | 2 | 3 | 4}`;
+
+/**
+ * How a signal is extended past its ends
+ * - symmetric: mirrored about the edge, repeating the edge sample
+ * - reflect: mirrored about the edge sample
+ * - periodic: wrapped around
+ * - constant: the edge sample repeated
+ * - zero: zeros
+ */
+export type BoundaryMode = 'symmetric' | 'reflect' | 'periodic' | 'constant' | 'zero';
+
+export type WaveletTransform = 'dwt' | 'swt';
+export type ThresholdMode = 'soft' | 'hard';
+export type ThresholdRule = 'visushrink' | 'sureshrink' | 'bayesshrink';
+
+export interface WaveletDenoiseOptions {
+  waveletType: WaveletName;
+  /** Decomposition levels; defaults to, and is capped at, the most the signal length allows */
+  waveletLevel?: number;
+  waveletTransform: WaveletTransform;
+  thresholdMode: ThresholdMode;
+  thresholdRule: ThresholdRule;
+  boundaryMode: BoundaryMode;
+  /** Multiplies the estimated thresholds; 0 leaves the signal unchanged */
+  thresholdScale: number;
+}
+
+export interface WaveletDecomposition {
+  transform: WaveletTransform;
+  wavelet: WaveletName;
+  /** Coarsest approximation coefficients */
+  approximation: number[];
+  /** Detail coefficients, finest level first */
+  details: number[][];
+  /** Length of the signal entering each level, finest first */
+  lengths: number[];
+  /** Samples added at each end before an SWT */
+  padding: number;
+}
+
+export const DEFAULT_WAVELET_OPTIONS: WaveletDenoiseOptions = {
+  waveletType: 'haar',
+  waveletTransform: 'dwt',
+  thresholdMode: 'soft',
+  thresholdRule: 'visushrink',
+  boundaryMode: 'symmetric',
+  thresholdScale: 1
+};
+
+// Orthonormal scaling filters (summing to √2), derived by spectral
+// factorization (Daubechies, Symlets) and from the coiflet moment conditions
+const SCALING_FILTERS: Record<WaveletName, number[]> = {
+  haar: [
+    0.7071067811865475, 0.7071067811865475
+  ],
+  db2: [
+    0.48296291314453427, 0.836516303737808, 0.2241438680420133, -0.12940952255126045
+  ],
+  db3: [
+    0.3326705529500827, 0.8068915093110927, 0.45987750211849154, -0.13501102001025464,
+    -0.08544127388202664, 0.03522629188570957
+  ],
+  db4: [
+    0.23037781330889656, 0.7148465705529159, 0.630880767929859, -0.02798376941685991,
+    -0.18703481171909314, 0.030841381835560764, 0.032883011666885203, -0.010597401785069037
+  ],
+  db5: [
+    0.16010239797419298, 0.6038292697971899, 0.7243085284377733, 0.13842814590132022,
+    -0.24229488706638208, -0.03224486958463836, 0.07757149384004577, -0.006241490212798298,
+    -0.01258075199908201, 0.003335725285473777
+  ],
+  db6: [
+    0.11154074335010952, 0.4946238903984533, 0.7511339080210956, 0.3152503517091976,
+    -0.2262646939654401, -0.12976686756726194, 0.09750160558732315, 0.027522865530305723,
+    -0.031582039317486064, 0.000553842201161505, 0.004777257510945514, -0.0010773010853084813
+  ],
+  db7: [
+    0.0778520540850091, 0.396539319481917, 0.7291320908462348, 0.4697822874051931,
+    -0.14390600392856429, -0.2240361849938748, 0.07130921926683015, 0.08061260915108297,
+    -0.038029936935014316, -0.016574541630666878, 0.012550998556099821, 0.0004295779729213697,
+    -0.0018016407040474878, 0.0003537137999745192
+  ],
+  db8: [
+    0.05441584224310399, 0.3128715909142999, 0.6756307362972898, 0.5853546836542063,
+    -0.015829105256348466, -0.28401554296154746, 0.00047248457391377215, 0.12874742662047806,
+    -0.017369301001807308, -0.0440882539307948, 0.013981027917398274, 0.008746094047405771,
+    -0.004870352993451569, -0.00039174037337694716, 0.0006754494064505686, -0.00011747678412476937
+  ],
+  sym2: [
+    0.48296291314453427, 0.836516303737808, 0.2241438680420133, -0.12940952255126045
+  ],
+  sym3: [
+    0.03522629188570953, -0.08544127388202666, -0.13501102001025456, 0.4598775021184915,
+    0.8068915093110927, 0.3326705529500826
+  ],
+  sym4: [
+    0.032223100604051466, -0.012603967262031317, -0.09921954357663355, 0.2978577956053061,
+    0.8037387518051319, 0.49761866763277507, -0.0296355276460026, -0.07576571478950224
+  ],
+  sym5: [
+    0.01953888273524983, -0.021101834024689042, -0.17532808990805618, 0.016602105764510607,
+    0.6339789634567923, 0.7234076904040406, 0.19939753397685567, -0.039134249302313795,
+    0.029519490925706274, 0.02733306834499877
+  ],
+  sym6: [
+    -0.007800708325032382, 0.0017677118642540099, 0.044724901770781395, -0.021060292512370852,
+    -0.07263752278637661, 0.33792942172816587, 0.7876411410286508, 0.4910559419279738,
+    -0.04831174258569826, -0.11799011114852004, 0.0034907120842221973, 0.015404109327044837
+  ],
+  sym7: [
+    0.012015419283549177, 0.017213376300804488, -0.06490800354718838, -0.06413128980738586,
+    0.3602184609062599, 0.7819215932917275, 0.48361091568226755, -0.056804476889665896,
+    -0.10101092086842044, 0.04474234946835253, 0.020464207577545968, -0.01812660513133842,
+    -0.0032832978474668143, 0.0022918339540537653
+  ],
+  sym8: [
+    -0.0033824159510050023, -0.0005421323318000144, 0.03169508781152598, 0.0076074873249766355,
+    -0.14329423835127264, -0.06127335906781101, 0.48135965125905333, 0.7771857516996274,
+    0.36444189483617995, -0.051945838107882565, -0.027219029917103076, 0.0491371796737301,
+    0.0038087520138945555, -0.014952258337062195, -0.00030292051472413564, 0.0018899503327676878
+  ],
+  coif1: [
+    -0.07273261951252655, 0.3378976624574829, 0.8525720202116008, 0.3848648468648559,
+    -0.07273261951252653, -0.015655728135791053
+  ],
+  coif2: [
+    0.016387336463204137, -0.041464936786872596, -0.06737255472372715, 0.38611006682276616,
+    0.8127236354494147, 0.41700518442323414, -0.07648859907828004, -0.05943441864642775,
+    0.02368017194684646, 0.005611434819367959, -0.0018232088709105813, -0.0007205494455203316
+  ],
+  coif3: [
+    -0.003793512864654507, 0.0077825964261524876, 0.023452696143465773, -0.06577191128429419,
+    -0.06112339000555828, 0.4051769024160051, 0.7937772226277692, 0.42848347636850503,
+    -0.07179982161822031, -0.08230192709999178, 0.0345550275711819, 0.01588054486135256,
+    -0.009007976135519381, -0.002574517687798965, 0.0011175187705923715, 0.00046621695980287843,
+    -7.098330250901695e-05, -3.4599773185520144e-05
+  ],
+  coif4: [
+    0.0008923139102943443, -0.0016294924384266723, -0.007346167991126141, 0.016068947235504186,
+    0.02668230482938654, -0.08126671060582658, -0.056077319837660955, 0.41530842769631665,
+    0.7822389345679084, 0.4343860322725042, -0.06662747230300628, -0.09622042389039138,
+    0.03933442242355585, 0.02508225303187871, -0.015211728047403603, -0.005658283716199349,
+    0.0037514346436608044, 0.001266561065627087, -0.0005890202145272384, -0.0002599743344272259,
+    6.233885325036771e-05, 3.12298608591192e-05, -3.259647784681603e-06, -1.7849908713239036e-06
+  ]
+};
+
+export const WAVELET_NAMES = Object.keys(SCALING_FILTERS) as WaveletName[];
+
+export const isWaveletName = (name: string): name is WaveletName => name in SCALING_FILTERS;
+
+/**
+ * Low-pass and high-pass filters of an orthogonal filter bank; the same
+ * filters analyse and synthesise
+ */
+function filterBank(wavelet: WaveletName): { low: number[]; high: number[] } {
+  const low = SCALING_FILTERS[wavelet];
+  const high = low.map((_, n) => (n % 2 === 0 ? 1 : -1) * low[low.length - 1 - n]);
+  return { low, high };
+}
+
+/**
+ * The most levels a signal of this length supports without the filter
+ * outgrowing the coarsest level
+ */
+export function maxWaveletLevel(length: number, wavelet: WaveletName): number {
+  const filterLength = SCALING_FILTERS[wavelet].length;
+  if (length < filterLength - 1) return 0;
+  return Math.floor(Math.log2(length / (filterLength - 1)));
+}
+
+/**
+ * Sample of the extended signal at index i, which may lie outside it
+ */
+function extendedSample(signal: number[], i: number, mode: BoundaryMode): number {
+  const n = signal.length;
+  if (i >= 0 && i < n) return signal[i];
+
+  switch (mode) {
+    case 'zero':
+      return 0;
+    case 'constant':
+      return signal[i < 0 ? 0 : n - 1];
+    case 'periodic':
+      return signal[((i % n) + n) % n];
+    case 'reflect': {
+      if (n === 1) return signal[0];
+      const period = 2 * n - 2;
+      const j = ((i % period) + period) % period;
+      return signal[j < n ? j : period - j];
+    }
+    case 'symmetric':
+    default: {
+      const period = 2 * n;
+      const j = ((i % period) + period) % period;
+      return signal[j < n ? j : period - 1 - j];
+    }
+  }
+}
+
+/**
+ * Split a signal into approximation and detail halves. Coefficients are
+ * kept wherever the filter overlaps the signal, so the signal is recovered
+ * exactly whatever the boundary mode.
+ */
+function dwtStep(signal: number[], low: number[], high: number[], mode: BoundaryMode): { approximation: number[]; detail: number[] } {
+  const filterLength = low.length;
+  const size = Math.floor((signal.length + filterLength) / 2);
+  const approximation = new Array<number>(size);
+  const detail = new Array<number>(size);
+
+  for (let k = 0; k < size; k++) {
+    let a = 0;
+    let d = 0;
+    for (let j = 0; j < filterLength; j++) {
+      const sample = extendedSample(signal, 2 * k + j - (filterLength - 1), mode);
+      a += low[j] * sample;
+      d += high[j] * sample;
+    }
+    approximation[k] = a;
+    detail[k] = d;
+  }
+
+  return { approximation, detail };
+}
+
+function idwtStep(approximation: number[], detail: number[], low: number[], high: number[], length: number): number[] {
+  const filterLength = low.length;
+  const signal = new Array<number>(length).fill(0);
+
+  for (let k = 0; k < approximation.length; k++) {
+    for (let j = 0; j < filterLength; j++) {
+      const i = 2 * k + j - (filterLength - 1);
+      if (i >= 0 && i < length) {
+        signal[i] += low[j] * approximation[k] + high[j] * detail[k];
+      }
+    }
+  }
+
+  return signal;
+}
+
+/**
+ * One undecimated level with the filters dilated by `step`, wrapping at the ends
+ */
+function swtStep(signal: number[], low: number[], high: number[], step: number): { approximation: number[]; detail: number[] } {
+  const n = signal.length;
+  const approximation = new Array<number>(n);
+  const detail = new Array<number>(n);
+
+  for (let k = 0; k < n; k++) {
+    let a = 0;
+    let d = 0;
+    for (let j = 0; j < low.length; j++) {
+      const sample = signal[(k + step * j) % n];
+      a += low[j] * sample;
+      d += high[j] * sample;
+    }
+    approximation[k] = a;
+    detail[k] = d;
+  }
+
+  return { approximation, detail };
+}
+
+function iswtStep(approximation: number[], detail: number[], low: number[], high: number[], step: number): number[] {
+  const n = approximation.length;
+  const signal = new Array<number>(n);
+
+  for (let m = 0; m < n; m++) {
+    let sum = 0;
+    for (let j = 0; j < low.length; j++) {
+      const k = (((m - step * j) % n) + n) % n;
+      sum += low[j] * approximation[k] + high[j] * detail[k];
+    }
+    signal[m] = sum / 2;
+  }
+
+  return signal;
+}
+
+/**
+ * Decompose a signal over the given number of levels
+ */
+export function decompose(
+  signal: number[],
+  wavelet: WaveletName,
+  level: number,
+  transform: WaveletTransform = 'dwt',
+  mode: BoundaryMode = 'symmetric'
+): WaveletDecomposition {
+  const { low, high } = filterBank(wavelet);
+  const details: number[][] = [];
+  const lengths: number[] = [];
+
+  // The SWT wraps around, so other boundary modes pad the signal far enough
+  // that the coarsest filter never reaches the far end
+  const padding = transform === 'swt' && mode !== 'periodic'
+    ? (low.length - 1) * (2 ** level - 1)
+    : 0;
+  let approximation = padding > 0
+    ? Array.from({ length: signal.length + 2 * padding }, (_, i) => extendedSample(signal, i - padding, mode))
+    : signal.slice();
+
+  for (let j = 0; j < level; j++) {
+    lengths.push(approximation.length);
+    const step = transform === 'swt'
+      ? swtStep(approximation, low, high, 2 ** j)
+      : dwtStep(approximation, low, high, mode);
+    details.push(step.detail);
+    approximation = step.approximation;
+  }
+
+  return { transform, wavelet, approximation, details, lengths, padding };
+}
+
+/**
+ * Rebuild a signal from its decomposition
+ */
+export function reconstruct(decomposition: WaveletDecomposition): number[] {
+  const { low, high } = filterBank(decomposition.wavelet);
+  const { details, lengths, padding } = decomposition;
+  let signal = decomposition.approximation;
+
+  for (let j = details.length - 1; j >= 0; j--) {
+    signal = decomposition.transform === 'swt'
+      ? iswtStep(signal, details[j], low, high, 2 ** j)
+      : idwtStep(signal, details[j], low, high, lengths[j]);
+  }
+
+  return padding > 0 ? signal.slice(padding, signal.length - padding) : signal;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+/**
+ * Noise standard deviation from the finest detail coefficients (MAD / 0.6745)
+ */
+export function estimateNoise(finestDetail: number[]): number {
+  return median(finestDetail.map(Math.abs)) / 0.6745;
+}
+
+/**
+ * Threshold minimising Stein's unbiased risk estimate for soft thresholding,
+ * falling back to the universal threshold for sparse levels
+ */
+function sureThreshold(detail: number[], sigma: number): number {
+  const n = detail.length;
+  const normalized = detail.map(d => d / sigma);
+  const universal = Math.sqrt(2 * Math.log(n));
+
+  const energy = normalized.reduce((sum, x) => sum + x * x, 0);
+  const sparsity = (energy - n) / n;
+  if (sparsity <= Math.pow(Math.log2(n), 1.5) / Math.sqrt(n)) {
+    return sigma * universal;
+  }
+
+  const squares = normalized.map(x => x * x).sort((a, b) => a - b);
+  let best = universal;
+  let bestRisk = Infinity;
+  let below = 0;
+  for (let k = 0; k < n; k++) {
+    below += squares[k];
+    const t = Math.sqrt(squares[k]);
+    if (t > universal) break;
+    // Risk with threshold t: n - 2·#{|x| <= t} + Σ min(x², t²)
+    const risk = n - 2 * (k + 1) + below + (n - k - 1) * squares[k];
+    if (risk < bestRisk) {
+      bestRisk = risk;
+      best = t;
+    }
+  }
+
+  return sigma * best;
+}
+
+/**
+ * Threshold for one level's detail coefficients
+ */
+export function estimateThreshold(rule: ThresholdRule, detail: number[], sigma: number, signalLength: number): number {
+  switch (rule) {
+    case 'sureshrink':
+      return sureThreshold(detail, sigma);
+
+    case 'bayesshrink': {
+      const variance = detail.reduce((sum, d) => sum + d * d, 0) / detail.length;
+      const signalSigma = Math.sqrt(Math.max(variance - sigma * sigma, 0));
+      // A level that is all noise is removed entirely
+      return signalSigma > 0 ? (sigma * sigma) / signalSigma : detail.reduce((max, d) => Math.max(max, Math.abs(d)), 0);
+    }
+
+    case 'visushrink':
+    default:
+      return sigma * Math.sqrt(2 * Math.log(signalLength));
+  }
+}
+
+export function applyThreshold(values: number[], threshold: number, mode: ThresholdMode): number[] {
+  return mode === 'hard'
+    ? values.map(v => (Math.abs(v) > threshold ? v : 0))
+    : values.map(v => Math.sign(v) * Math.max(Math.abs(v) - threshold, 0));
+}
+
+/**
+ * Wavelet shrinkage: decompose, threshold the detail coefficients at every
+ * level, and reconstruct
+ */
+export function waveletDenoise(signal: number[], options: Partial<WaveletDenoiseOptions> = {}): number[] {
+  const settings: WaveletDenoiseOptions = { ...DEFAULT_WAVELET_OPTIONS };
+  for (const [key, value] of Object.entries(options)) {
+    if (value !== undefined) Object.assign(settings, { [key]: value });
+  }
+  const maxLevel = maxWaveletLevel(signal.length, settings.waveletType);
+  const level = Math.min(settings.waveletLevel ?? maxLevel, maxLevel);
+  if (level < 1 || settings.thresholdScale <= 0) return signal.slice();
+
+  const decomposition = decompose(signal, settings.waveletType, level, settings.waveletTransform, settings.boundaryMode);
+  const sigma = estimateNoise(decomposition.details[0]);
+  if (sigma === 0) return signal.slice();
+
+  decomposition.details = decomposition.details.map(detail => {
+    const threshold = estimateThreshold(settings.thresholdRule, detail, sigma, signal.length);
+    return applyThreshold(detail, threshold * settings.thresholdScale, settings.thresholdMode);
+  });
+
+  return reconstruct(decomposition);
+}
@@ -0,0 +1,32 @@
+/**
+ * Tests for storing well logs as encoded columns
+ */
+
+import { WellLog } from './wellLog';
+import { describe, it, expect } from '@jest/globals';
+
+describe('WellLog encoding', () => {
+  it('should round trip columns through JSON with nulls kept', () => {
+    const log = new WellLog([1000, 1000.5, 1001]);
+    log.setCurve('GR', [45.25, null, 1e-300]);
+    log.setCurve('GR_FILL', [0, 1, 0]);
+
+    const stored = JSON.parse(JSON.stringify(log.toEncoded()));
+    const decoded = WellLog.fromEncoded(stored);
+
+    expect(decoded.mnemonics).toEqual(['GR', 'GR_FILL']);
+    expect(decoded.isNull('GR', 1)).toBe(true);
+    expect(decoded.toLASData()).toEqual(log.toLASData());
+  });
+
+  it('should encode columns longer than one chunk and empty logs', () => {
+    const depth = Array.from({ length: 10000 }, (_, i) => 500 + i * 0.1524);
+    const log = new WellLog(depth);
+    log.setCurve('DT', depth.map(d => (Math.round(d) % 7 === 0 ? null : Math.sin(d))));
+
+    const decoded = WellLog.fromEncoded(log.toEncoded());
+    expect(Array.from(decoded.depth)).toEqual(depth);
+    expect(decoded.getNullMask('DT')).toEqual(log.getNullMask('DT'));
+    expect(WellLog.fromEncoded(new WellLog([]).toEncoded()).length).toBe(0);
+  });
+});
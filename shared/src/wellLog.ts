@@ -0,0 +1,315 @@
+/**
+ * POLISH Well Log Container
+ *
+ * Columnar in-memory representation of LAS curve data: a depth index plus
+ * one Float64Array and null mask per curve. Processing, QC and analysis work
+ * on whole columns instead of re-extracting arrays from LASData rows.
+ */
+
+import { LASData } from './types';
+
+export interface LASDataChunk {
+  offset: number; // index of the first row within the data section
+  length: number;
+  depth: Float64Array;
+  curves: Record<string, Float64Array>; // null values are NaN
+}
+
+/**
+ * A log stored as JSON: each column is the base64 of its float64 bytes, NaN
+ * where null, so storing and reading it builds no object per sample
+ */
+export interface EncodedWellLog {
+  depth: string;
+  curves: Record<string, string>;
+}
+
+export interface WellLogColumn {
+  values: Float64Array; // NaN where null
+  nullMask: Uint8Array; // 1 where null
+}
+
+export class WellLog {
+  readonly depth: Float64Array;
+  private columns = new Map<string, WellLogColumn>();
+
+  constructor(depth: Float64Array | number[]) {
+    this.depth = depth instanceof Float64Array ? depth : Float64Array.from(depth);
+  }
+
+  /**
+   * Build a WellLog from row-oriented LAS data. Curves missing from the rows
+   * become all-null columns.
+   */
+  static fromLASData(data: LASData[], mnemonics: string[]): WellLog {
+    const log = new WellLog(data.map(d => d.depth));
+    for (const mnemonic of mnemonics) {
+      const values = new Float64Array(data.length);
+      for (let i = 0; i < data.length; i++) {
+        const value = data[i][mnemonic];
+        values[i] = value === null || value === undefined ? NaN : value;
+      }
+      log.setCurve(mnemonic, values);
+    }
+    return log;
+  }
+
+  /**
+   * Rebuild a log from its encoded columns
+   */
+  static fromEncoded(encoded: EncodedWellLog): WellLog {
+    const log = new WellLog(decodeColumn(encoded.depth));
+    for (const [mnemonic, values] of Object.entries(encoded.curves)) {
+      log.setCurve(mnemonic, decodeColumn(values));
+    }
+    return log;
+  }
+
+  /**
+   * Number of depth samples
+   */
+  get length(): number {
+    return this.depth.length;
+  }
+
+  get mnemonics(): string[] {
+    return Array.from(this.columns.keys());
+  }
+
+  hasCurve(mnemonic: string): boolean {
+    return this.columns.has(mnemonic);
+  }
+
+  /**
+   * Raw column values; null samples are NaN
+   */
+  getValues(mnemonic: string): Float64Array {
+    return this.getColumn(mnemonic).values;
+  }
+
+  getNullMask(mnemonic: string): Uint8Array {
+    return this.getColumn(mnemonic).nullMask;
+  }
+
+  isNull(mnemonic: string, index: number): boolean {
+    return this.getColumn(mnemonic).nullMask[index] === 1;
+  }
+
+  /**
+   * Count of null samples in a curve
+   */
+  nullCount(mnemonic: string): number {
+    const mask = this.getColumn(mnemonic).nullMask;
+    let count = 0;
+    for (let i = 0; i < mask.length; i++) count += mask[i];
+    return count;
+  }
+
+  /**
+   * Indices of non-null samples
+   */
+  getValidIndices(mnemonic: string): number[] {
+    const mask = this.getColumn(mnemonic).nullMask;
+    const indices: number[] = [];
+    for (let i = 0; i < mask.length; i++) {
+      if (mask[i] === 0) indices.push(i);
+    }
+    return indices;
+  }
+
+  /**
+   * Non-null samples in depth order, with nulls dropped
+   */
+  getValidValues(mnemonic: string): number[] {
+    const { values, nullMask } = this.getColumn(mnemonic);
+    const result: number[] = [];
+    for (let i = 0; i < values.length; i++) {
+      if (nullMask[i] === 0) result.push(values[i]);
+    }
+    return result;
+  }
+
+  /**
+   * Replace a curve's values. NaN, null and undefined become null samples.
+   */
+  setCurve(mnemonic: string, values: ArrayLike<number | null | undefined>): void {
+    if (values.length !== this.length) {
+      throw new Error(`Curve ${mnemonic} has ${values.length} samples, expected ${this.length}`);
+    }
+    const column: WellLogColumn = {
+      values: new Float64Array(this.length),
+      nullMask: new Uint8Array(this.length)
+    };
+    for (let i = 0; i < this.length; i++) {
+      const value = values[i];
+      if (value === null || value === undefined || isNaN(value)) {
+        column.values[i] = NaN;
+        column.nullMask[i] = 1;
+      } else {
+        column.values[i] = value;
+      }
+    }
+    this.columns.set(mnemonic, column);
+  }
+
+  /**
+   * Write values back into the non-null positions of a curve, in order.
+   * The counterpart of getValidValues for algorithms that skip nulls.
+   */
+  setValidValues(mnemonic: string, validValues: ArrayLike<number>): void {
+    const { values, nullMask } = this.getColumn(mnemonic);
+    let valueIndex = 0;
+    for (let i = 0; i < values.length; i++) {
+      if (nullMask[i] === 0) {
+        const value = validValues[valueIndex++];
+        if (isNaN(value)) {
+          values[i] = NaN;
+          nullMask[i] = 1;
+        } else {
+          values[i] = value;
+        }
+      }
+    }
+  }
+
+  /**
+   * Move a curve's column to a new mnemonic, such as its standardized one
+   */
+  renameCurve(mnemonic: string, newMnemonic: string): void {
+    const column = this.getColumn(mnemonic);
+    this.columns.delete(mnemonic);
+    this.columns.set(newMnemonic, column);
+  }
+
+  removeCurve(mnemonic: string): void {
+    this.columns.delete(mnemonic);
+  }
+
+  /**
+   * Deep copy, so a processing step can modify columns without touching its input
+   */
+  clone(): WellLog {
+    const copy = new WellLog(this.depth.slice());
+    for (const [mnemonic, column] of this.columns) {
+      copy.columns.set(mnemonic, {
+        values: column.values.slice(),
+        nullMask: column.nullMask.slice()
+      });
+    }
+    return copy;
+  }
+
+  /**
+   * Convert back to row-oriented LAS data. When `baseRows` is given, each row
+   * starts as a copy of the matching base row, so curves that are not in the
+   * log are carried through unchanged.
+   */
+  toLASData(baseRows?: LASData[]): LASData[] {
+    const data: LASData[] = new Array(this.length);
+    const entries = Array.from(this.columns.entries());
+    for (let i = 0; i < this.length; i++) {
+      const dataPoint: LASData = baseRows
+        ? { ...baseRows[i], depth: this.depth[i] }
+        : { depth: this.depth[i] };
+      for (const [mnemonic, column] of entries) {
+        dataPoint[mnemonic] = column.nullMask[i] === 1 ? null : column.values[i];
+      }
+      data[i] = dataPoint;
+    }
+    return data;
+  }
+
+  /**
+   * The log's columns encoded to store as JSON
+   */
+  toEncoded(): EncodedWellLog {
+    const curves: Record<string, string> = {};
+    for (const [mnemonic, column] of this.columns) {
+      curves[mnemonic] = encodeColumn(column.values);
+    }
+    return { depth: encodeColumn(this.depth), curves };
+  }
+
+  private getColumn(mnemonic: string): WellLogColumn {
+    const column = this.columns.get(mnemonic);
+    if (!column) {
+      throw new Error(`Curve ${mnemonic} not found in well log`);
+    }
+    return column;
+  }
+}
+
+/**
+ * Builds a WellLog from streamed column chunks as they arrive. Each chunk is
+ * copied into columns that grow by doubling, so it can be dropped as soon as
+ * it is appended instead of every chunk being held until the end.
+ */
+export class WellLogBuilder {
+  private length = 0;
+  private depth: Float64Array;
+  private columns: Float64Array[];
+
+  constructor(private readonly mnemonics: string[], capacity = 1024) {
+    this.depth = new Float64Array(capacity);
+    this.columns = mnemonics.map(() => new Float64Array(capacity));
+  }
+
+  append(chunk: LASDataChunk): void {
+    this.reserve(this.length + chunk.length);
+    this.depth.set(chunk.depth.subarray(0, chunk.length), this.length);
+    this.mnemonics.forEach((mnemonic, i) => {
+      this.columns[i].set(chunk.curves[mnemonic].subarray(0, chunk.length), this.length);
+    });
+    this.length += chunk.length;
+  }
+
+  /**
+   * The log of every chunk appended. The builder is empty afterwards.
+   */
+  build(): WellLog {
+    const log = new WellLog(this.depth.slice(0, this.length));
+    this.depth = new Float64Array(0);
+    this.mnemonics.forEach((mnemonic, i) => {
+      log.setCurve(mnemonic, this.columns[i].subarray(0, this.length));
+      // Freed curve by curve, so only one spare column is alive at a time
+      this.columns[i] = new Float64Array(0);
+    });
+    this.length = 0;
+    return log;
+  }
+
+  private reserve(length: number): void {
+    if (length <= this.depth.length) return;
+
+    let capacity = Math.max(this.depth.length, 1);
+    while (capacity < length) capacity *= 2;
+    const grow = (values: Float64Array) => {
+      const grown = new Float64Array(capacity);
+      grown.set(values.subarray(0, this.length));
+      return grown;
+    };
+    this.depth = grow(this.depth);
+    this.columns = this.columns.map(grow);
+  }
+}
+
+// Bytes per String.fromCharCode call, well under the engines' argument limits
+const ENCODE_CHUNK = 0x8000;
+
+function encodeColumn(values: Float64Array): string {
+  const bytes = new Uint8Array(values.buffer, values.byteOffset, values.byteLength);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += ENCODE_CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + ENCODE_CHUNK));
+  }
+  return btoa(binary);
+}
+
+function decodeColumn(encoded: string): Float64Array {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Float64Array(bytes.buffer);
+}
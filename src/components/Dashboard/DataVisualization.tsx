@@ -3,6 +3,7 @@ import { useState } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Brush, ReferenceLine } from 'recharts';
 import { Eye, EyeOff, Zap, Filter } from 'lucide-react';
 import { useAppStore } from '../../store';
+import { logRows } from '../../utils/logRows';
 
 export const DataVisualization: React.FC = () => {
   const { activeFile } = useAppStore();
@@ -19,7 +20,8 @@ export const DataVisualization: React.FC = () => {
     );
   }
 
-  const { curves, data } = activeFile;
+  const { curves } = activeFile;
+  const data = logRows(activeFile.log);
   const logCurves = curves.filter(c => c.dataType === 'log');
 
   // Debug logging
@@ -3,10 +3,20 @@ import { useState } from 'react';
 import { Calendar, MapPin, Building, Database, Layers, Clock, User, Download, Lock, Settings, Sliders, RotateCcw, Mountain, AlertTriangle } from 'lucide-react';
 import { useAppStore } from '../../store';
 import { GeologicalContext } from './GeologicalContext';
-import { performGeologicalAnalysis } from '../../utils/geologicalAnalysis';
+import { GeologicalContext as GeologicalAnalysis } from '../../types';
+import { ProcessingAlgorithms, sampleStep, WellLog } from '../../../shared/src';
+
+const algorithms = new ProcessingAlgorithms();
+
+// Depths run one way down a log, so its ends are its range; spreading every depth into Math.min overflows the stack
+const depthRange = (log: WellLog): [number, number] => {
+  const first = log.depth[0] ?? 0;
+  const last = log.depth[log.length - 1] ?? 0;
+  return [Math.min(first, last), Math.max(first, last)];
+};
 
 export const FileInfo: React.FC = () => {
-  const { activeFile, setShowExportModal, updateFile, files } = useAppStore();
+  const { activeFile, setShowExportModal, updateFile, files, analyzeGeology } = useAppStore();
   const [showDepthControls, setShowDepthControls] = useState(false);
   const [showGeologicalContext, setShowGeologicalContext] = useState(false);
   const [depthSettings, setDepthSettings] = useState({
@@ -29,29 +39,66 @@ export const FileInfo: React.FC = () => {
     }
   }, [activeFile, files.length]);
 
-  // Perform geological analysis when file is available
-  const geologicalContext = React.useMemo(() => {
-    if (!activeFile || !activeFile.data || activeFile.data.length === 0) {
-      return null;
-    }
-    return performGeologicalAnalysis(activeFile.data, activeFile.curves);
-  }, [activeFile]);
+  // Perform geological analysis in a worker when file is available
+  const [geologicalContext, setGeologicalContext] = useState<GeologicalAnalysis | null>(null);
+  React.useEffect(() => {
+    setGeologicalContext(null);
+    if (!activeFile || activeFile.log.length === 0) return;
+
+    const controller = new AbortController();
+    analyzeGeology(activeFile, controller.signal)
+      .then(setGeologicalContext)
+      .catch(error => {
+        if (error.name !== 'AbortError') console.warn('Geological analysis failed:', error);
+      });
+    return () => controller.abort();
+  }, [activeFile, analyzeGeology]);
 
   React.useEffect(() => {
     if (activeFile) {
-      const minDepth = Math.min(...activeFile.data.map(d => d.depth));
-      const maxDepth = Math.max(...activeFile.data.map(d => d.depth));
+      const [minDepth, maxDepth] = depthRange(activeFile.log);
       const originalStep = activeFile.header.step;
       
       setDepthSettings({
         startDepth: minDepth.toString(),
         endDepth: maxDepth.toString(),
         samplingInterval: originalStep.toString(),
-        totalPoints: activeFile.data.length
+        totalPoints: activeFile.log.length
       });
     }
   }, [activeFile]);
 
+  // Regrid the original data over the range; coarser steps are decimated so they don't alias
+  const applyDepthSettings = async (startNum: number, endNum: number, samplingNum: number) => {
+    if (!activeFile) return;
+
+    const originalLog = activeFile.originalLog || activeFile.log;
+    const step = sampleStep(originalLog.depth);
+    const ascending = step >= 0;
+    const [minDepth, maxDepth] = depthRange(originalLog);
+    const top = Math.max(startNum, minDepth);
+    const bottom = Math.min(endNum, maxDepth);
+    if (top > bottom) return;
+
+    const result = await algorithms.resample(
+      { header: activeFile.header, curves: activeFile.curves, log: originalLog },
+      {
+        enabled: true,
+        step: samplingNum,
+        method: samplingNum > Math.abs(step) ? 'decimate' : 'pchip',
+        startDepth: ascending ? top : bottom,
+        stopDepth: ascending ? bottom : top
+      }
+    );
+    if (!result.success) {
+      console.warn('Resampling failed:', result.error);
+      return;
+    }
+
+    updateFile(activeFile.id, { log: result.data.log, header: result.data.header });
+    setDepthSettings(prev => ({ ...prev, totalPoints: result.data.log.length }));
+  };
+
   const handleDepthRangeChange = (field: 'startDepth' | 'endDepth', value: string) => {
     if (!activeFile) return;
 
@@ -61,36 +108,13 @@ export const FileInfo: React.FC = () => {
     // Only apply changes if both values are valid numbers
     const startNum = parseFloat(newSettings.startDepth);
     const endNum = parseFloat(newSettings.endDepth);
-    
-    if (isNaN(startNum) || isNaN(endNum) || startNum >= endNum) {
-      return; // Don't apply invalid ranges
-    }
-
-    // Filter data based on new range
-    const originalData = activeFile.originalData || activeFile.data;
-    const filteredData = originalData.filter(d => 
-      d.depth >= startNum && d.depth <= endNum
-    );
-
-    // Apply sampling
     const samplingNum = parseFloat(newSettings.samplingInterval);
-    if (!isNaN(samplingNum) && samplingNum > 0) {
-      const step = Math.round(samplingNum / activeFile.header.step);
-      const sampledData = filteredData.filter((_, index) => index % Math.max(1, step) === 0);
-
-      // Update the file with filtered data
-      updateFile(activeFile.id, {
-        data: sampledData,
-        header: {
-          ...activeFile.header,
-          startDepth: startNum,
-          stopDepth: endNum,
-          step: samplingNum
-        }
-      });
 
-      setDepthSettings(prev => ({ ...prev, totalPoints: sampledData.length }));
+    if (isNaN(startNum) || isNaN(endNum) || startNum >= endNum || isNaN(samplingNum) || samplingNum <= 0) {
+      return; // Don't apply invalid ranges
     }
+
+    applyDepthSettings(startNum, endNum, samplingNum);
   };
 
   const handleSamplingChange = (value: string) => {
@@ -107,46 +131,26 @@ export const FileInfo: React.FC = () => {
       return;
     }
 
-    // Filter data based on current depth range
-    const originalData = activeFile.originalData || activeFile.data;
-    const filteredData = originalData.filter(d => 
-      d.depth >= startNum && d.depth <= endNum
-    );
-
-    // Apply new sampling
-    const step = Math.round(samplingNum / activeFile.header.step);
-    const sampledData = filteredData.filter((_, index) => index % Math.max(1, step) === 0);
-
-    // Update the file
-    updateFile(activeFile.id, {
-      data: sampledData,
-      header: {
-        ...activeFile.header,
-        step: samplingNum
-      }
-    });
-
-    setDepthSettings(prev => ({ ...prev, totalPoints: sampledData.length }));
+    applyDepthSettings(startNum, endNum, samplingNum);
   };
 
   const resetDepthSettings = () => {
     if (!activeFile) return;
 
     // Reset to original data
-    const originalData = activeFile.originalData || activeFile.data;
-    const minDepth = Math.min(...originalData.map(d => d.depth));
-    const maxDepth = Math.max(...originalData.map(d => d.depth));
+    const originalLog = activeFile.originalLog || activeFile.log;
+    const [minDepth, maxDepth] = depthRange(originalLog);
     const originalStep = activeFile.header.step;
 
     setDepthSettings({
       startDepth: minDepth.toString(),
       endDepth: maxDepth.toString(),
       samplingInterval: originalStep.toString(),
-      totalPoints: originalData.length
+      totalPoints: originalLog.length
     });
 
     updateFile(activeFile.id, {
-      data: originalData,
+      log: originalLog,
       header: {
         ...activeFile.header,
         startDepth: minDepth,
@@ -172,7 +176,7 @@ export const FileInfo: React.FC = () => {
     );
   }
 
-  const { header, curves, data } = activeFile;
+  const { header, curves } = activeFile;
 
   return (
     <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden h-full flex flex-col">
@@ -4,6 +4,7 @@ import { Eye, EyeOff, Settings, ZoomIn, ZoomOut, RotateCcw, Maximize2, BarChart3
 import { useAppStore } from '../../store';
 import { LineChart as RechartsLineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, ScatterChart, Scatter, AreaChart, Area, BarChart, Bar, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar } from 'recharts';
 import { VisualizationSettingsModal } from './VisualizationSettingsModal';
+import { logRows } from '../../utils/logRows';
 
 type VisualizationType = 'multi-track' | 'line-chart' | 'scatter-plot' | 'histogram' | 'crossplot' | 'radar-chart' | 'area-chart' | 'correlation-matrix' | 'before-after-overlay';
 
@@ -25,10 +26,10 @@ export const MultiTrackVisualization: React.FC = () => {
   useEffect(() => {
     if (activeFile) {
       setSelectedWells([activeFile.id]);
-      const currentData = showOriginalData && activeFile.originalData ? activeFile.originalData : activeFile.data;
+      const currentLog = showOriginalData && activeFile.originalLog ? activeFile.originalLog : activeFile.log;
       const fileDepthRange: [number, number] = [
-        Math.min(...currentData.map(d => d.depth)),
-        Math.max(...currentData.map(d => d.depth))
+        Math.min(...currentLog.depth),
+        Math.max(...currentLog.depth)
       ];
       setDepthRange(fileDepthRange);
     }
@@ -319,8 +320,10 @@ export const MultiTrackVisualization: React.FC = () => {
     );
   }
 
-  const { curves, data } = activeFile;
-  const currentData = showOriginalData && activeFile.originalData ? activeFile.originalData : data;
+  const { curves } = activeFile;
+  const data = logRows(activeFile.log);
+  const originalData = activeFile.originalLog && logRows(activeFile.originalLog);
+  const currentData = showOriginalData && originalData ? originalData : data;
   const visibleCurves = curves.filter(c => c.visible && c.dataType === 'log');
   
   // Debug logging
@@ -349,7 +352,7 @@ export const MultiTrackVisualization: React.FC = () => {
     selectedWells.forEach(wellId => {
       const well = files.find(f => f.id === wellId);
       if (well) {
-        const wellCurrentData = showOriginalData && well.originalData ? well.originalData : well.data;
+        const wellCurrentData = logRows(showOriginalData && well.originalLog ? well.originalLog : well.log);
         wellCurrentData.forEach(point => {
           if (!depthRange || (point.depth >= depthRange[0] && point.depth <= depthRange[1])) {
             wellData.push({
@@ -451,7 +454,7 @@ export const MultiTrackVisualization: React.FC = () => {
     { id: 'radar-chart', name: 'Radar Chart', icon: Activity, description: 'Multi-dimensional view' },
     { id: 'area-chart', name: 'Area Chart', icon: TrendingUp, description: 'Filled curves' },
     { id: 'correlation-matrix', name: 'Correlation', icon: Grid3X3, description: 'Statistical correlation' },
-    ...(activeFile?.originalData && activeFile?.processed ? [
+    ...(originalData && activeFile?.processed ? [
       { id: 'before-after-overlay', name: 'Before/After Overlay', icon: GitCompare, description: 'Compare original and processed data' }
     ] : [])
   ];
@@ -757,7 +760,7 @@ export const MultiTrackVisualization: React.FC = () => {
       
       case 'before-after-overlay':
         // Check if we have both original and processed data
-        if (!activeFile.originalData || !activeFile.processed) {
+        if (!originalData || !activeFile.processed) {
           return (
             <div className="flex items-center justify-center h-full text-slate-400">
               <div className="text-center">
@@ -770,8 +773,8 @@ export const MultiTrackVisualization: React.FC = () => {
         }
 
         // Create combined data with both original and processed values
-        const overlayData = activeFile.originalData.map((originalPoint, index) => {
-          const processedPoint = activeFile.data[index];
+        const overlayData = originalData.map((originalPoint, index) => {
+          const processedPoint = data[index];
           const combinedPoint: any = { depth: originalPoint.depth };
           
           selectedCurves.forEach(curve => {
@@ -851,7 +854,7 @@ export const MultiTrackVisualization: React.FC = () => {
 
   const renderMultiTrackView = () => {
     // Render side-by-side comparison if in comparison mode and we have both datasets
-    if (comparisonMode === 'side-by-side' && activeFile.processed && activeFile.originalData) {
+    if (comparisonMode === 'side-by-side' && activeFile.processed && originalData) {
       return (
         <div className="grid grid-cols-2 gap-4 h-full">
           {/* Original Data */}
@@ -860,7 +863,7 @@ export const MultiTrackVisualization: React.FC = () => {
               Original Data
             </div>
             <div className="flex-1 border border-orange-600 rounded-b-lg overflow-hidden">
-              {renderSingleMultiTrack(activeFile.originalData, 'original')}
+              {renderSingleMultiTrack(originalData, 'original')}
             </div>
           </div>
           
@@ -870,7 +873,7 @@ export const MultiTrackVisualization: React.FC = () => {
               Processed Data
             </div>
             <div className="flex-1 border border-green-600 rounded-b-lg overflow-hidden">
-              {renderSingleMultiTrack(activeFile.data, 'processed')}
+              {renderSingleMultiTrack(data, 'processed')}
             </div>
           </div>
         </div>
@@ -960,18 +963,18 @@ export const MultiTrackVisualization: React.FC = () => {
 
               {track.curves.map((curve) => {
                 // Overlay mode: draw both original and processed if available
-                if (overlayMode && activeFile.originalData && activeFile.processed) {
+                if (overlayMode && originalData && activeFile.processed) {
                   // Draw original (dashed orange)
-                  const originalCurveData = activeFile.originalData.map(d => ({
+                  const originalCurveData = originalData.map(d => ({
                     depth: d.depth,
                     value: d[curve.mnemonic],
                     wellId: d.wellId || activeFile.id
-                  })).filter(d => d.value !== null && d.value !== undefined);
-                  const processedCurveData = activeFile.data.map(d => ({
+                  })).filter((d): d is typeof d & { value: number } => d.value !== null && d.value !== undefined);
+                  const processedCurveData = data.map(d => ({
                     depth: d.depth,
                     value: d[curve.mnemonic],
                     wellId: d.wellId || activeFile.id
-                  })).filter(d => d.value !== null && d.value !== undefined);
+                  })).filter((d): d is typeof d & { value: number } => d.value !== null && d.value !== undefined);
                   // Calculate min/max for scaling
                   const allValues = [...originalCurveData.map(d => d.value), ...processedCurveData.map(d => d.value)];
                   const minVal = curve.minValue ?? Math.min(...allValues);
@@ -1017,7 +1020,7 @@ export const MultiTrackVisualization: React.FC = () => {
                     depth: d.depth,
                     value: d[curve.mnemonic],
                     wellId: d.wellId || activeFile.id
-                  })).filter(d => d.value !== null && d.value !== undefined);
+                  })).filter((d): d is typeof d & { value: number } => d.value !== null && d.value !== undefined);
                   if (curveData.length === 0) return null;
                   const values = curveData.map(d => d.value);
                   const minVal = curve.minValue ?? Math.min(...values);
@@ -1111,7 +1114,7 @@ export const MultiTrackVisualization: React.FC = () => {
           
           <div className="flex items-center space-x-2">
             {/* Side-by-Side Comparison Toggle */}
-            {activeFile.processed && activeFile.originalData && visualizationType === 'multi-track' && (
+            {activeFile.processed && originalData && visualizationType === 'multi-track' && (
               <button
                 onClick={() => setComparisonMode(comparisonMode === 'single' ? 'side-by-side' : 'single')}
                 className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-all duration-200 ${
@@ -1129,7 +1132,7 @@ export const MultiTrackVisualization: React.FC = () => {
             )}
 
             {/* Before/After Toggle (only for single view) - Made more prominent */}
-            {activeFile.processed && activeFile.originalData && comparisonMode === 'single' && (
+            {activeFile.processed && originalData && comparisonMode === 'single' && (
               <button
                 onClick={() => setShowOriginalData(!showOriginalData)}
                 className={`flex items-center space-x-2 px-4 py-3 rounded-lg transition-all duration-200 font-semibold text-sm ${
@@ -1153,7 +1156,7 @@ export const MultiTrackVisualization: React.FC = () => {
               </button>
             )}
 
-            {activeFile.processed && activeFile.originalData && (
+            {activeFile.processed && originalData && (
               <button
                 onClick={() => setOverlayMode(!overlayMode)}
                 className={`flex items-center space-x-2 px-3 py-2 rounded-lg transition-all duration-200 ${
@@ -32,7 +32,7 @@ export const ExportModal: React.FC = () => {
 
   const handleExport = () => {
     // Validate file before export
-    if (!activeFile || !activeFile.data || activeFile.data.length === 0) {
+    if (!activeFile || activeFile.log.length === 0) {
       alert('Export failed: No data available for export. Please ensure your file has been processed successfully.');
       return;
     }
@@ -50,10 +50,8 @@ export const ExportModal: React.FC = () => {
       }
 
       // Check for data consistency
-      const hasValidData = activeFile.data.some(point => 
-        point.depth !== null && point.depth !== undefined && 
-        Object.keys(point).some(key => key !== 'depth' && point[key] !== null && point[key] !== undefined)
-      );
+      const { log } = activeFile;
+      const hasValidData = log.mnemonics.some(mnemonic => log.nullCount(mnemonic) < log.length);
 
       if (!hasValidData) {
         alert('Export failed: The file contains no valid data points. Please check your file and ensure it contains depth and curve data.');
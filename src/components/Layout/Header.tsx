@@ -50,7 +50,7 @@ export const Header: React.FC = () => {
       summary: {
         totalFiles: files.length,
         processedFiles: files.filter(f => f.processed).length,
-        totalDataPoints: files.reduce((sum, f) => sum + f.data.length, 0),
+        totalDataPoints: files.reduce((sum, f) => sum + f.log.length, 0),
         averageQualityScore: files.length > 0 
           ? files.reduce((sum, f) => sum + (f.qcResults?.overallQualityScore || 0), 0) / files.length 
           : 0
@@ -62,8 +62,8 @@ export const Header: React.FC = () => {
         qualityScore: file.qcResults?.overallQualityScore,
         curves: file.curves.length,
         depthRange: [
-          Math.min(...file.data.map(d => d.depth)),
-          Math.max(...file.data.map(d => d.depth))
+          Math.min(...file.log.depth),
+          Math.max(...file.log.depth)
         ],
         processingHistory: file.processingHistory || []
       })),
@@ -2,6 +2,16 @@ import * as React from 'react';
 import { useState } from 'react';
 import { Upload, FileText, Trash2, CheckCircle, AlertTriangle, Clock, Layers, AlertCircle } from 'lucide-react';
 import { useAppStore } from '../../store';
+import { apiService } from '../../services/api';
+import { LASFile } from '../../types';
+
+const getWellItem = (file: LASFile, mnemonic: string) =>
+  file.wellItems?.find(item => item.mnemonic.toUpperCase() === mnemonic)?.value;
+
+const getDisplayName = (file: LASFile) => {
+  const name = file.header.well || file.header.uwi || file.name;
+  return file.header.field && file.header.field !== file.header.well ? `${name} (${file.header.field})` : name;
+};
 
 export const Sidebar: React.FC = () => {
   const { files, activeFile, setActiveFile, removeFile } = useAppStore();
@@ -63,7 +73,7 @@ export const Sidebar: React.FC = () => {
                 <div className="flex items-start justify-between mb-3">
                   <div className="flex-1 min-w-0">
                     <h3 className="text-sm font-semibold text-white truncate mb-1">
-                      {file.header?.displayName || file.name}
+                      {getDisplayName(file)}
                     </h3>
                     <div className="flex items-center space-x-3 text-xs text-slate-400 mb-1">
                       <span>{formatFileSize(file.size)}</span>
@@ -74,8 +84,8 @@ export const Sidebar: React.FC = () => {
                     </div>
                     {file.header && (
                       <div className="text-xs text-slate-500 space-y-0.5">
-                        {file.header.operator && (
-                          <div>Operator: {file.header.operator}</div>
+                        {(getWellItem(file, 'OPER') || file.header.company) && (
+                          <div>Operator: {getWellItem(file, 'OPER') || file.header.company}</div>
                         )}
                         {file.header.field && file.header.field !== file.header.well && (
                           <div>Field: {file.header.field}</div>
@@ -143,43 +153,21 @@ export const Sidebar: React.FC = () => {
 };
 
 const FileUploadZone: React.FC = () => {
-  const { addFile } = useAppStore();
+  const { addFile, updateFile, loadLASFile, fileLoadProgress, cancelLocalWork } = useAppStore();
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
 
-  const getCurveTypeAndTrack = (mnemonic: string) => {
-    const upperMnemonic = mnemonic.toUpperCase();
-    
-    // Gamma Ray and SP
-    if (['GR', 'CGR', 'SGR', 'SP'].includes(upperMnemonic)) {
-      return { 
-        curveType: upperMnemonic === 'SP' ? 'sp' : 'gamma_ray', 
-        track: 1,
-        color: upperMnemonic === 'GR' ? '#22c55e' : upperMnemonic === 'SP' ? '#8b5cf6' : '#16a34a'
-      };
-    }
-    
-    // Resistivity
-    if (['RT', 'RXO', 'MSFL', 'LLS', 'LLD', 'ILD', 'SFL'].includes(upperMnemonic)) {
-      return { curveType: 'resistivity', track: 2, color: '#ef4444' };
-    }
-    
-    // Porosity
-    if (['NPHI', 'RHOB', 'PEF', 'DT', 'DPHI'].includes(upperMnemonic)) {
-      return { 
-        curveType: 'porosity', 
-        track: 3,
-        color: upperMnemonic === 'NPHI' ? '#3b82f6' : upperMnemonic === 'RHOB' ? '#f59e0b' : '#8b5cf6'
-      };
-    }
-    
-    // Caliper and Drilling
-    if (['CALI', 'BS', 'ROP', 'WOB', 'HKLA'].includes(upperMnemonic)) {
-      return { curveType: 'caliper', track: 4, color: '#06b6d4' };
+  const uploadForServerProcessing = async (id: string, file: File) => {
+    try {
+      const upload = await apiService.uploadFile(file);
+      if (upload.success && upload.data?.id) {
+        updateFile(id, { serverFileId: upload.data.id });
+      } else {
+        console.warn(`${file.name} was not uploaded for server processing:`, upload.error);
+      }
+    } catch (error) {
+      console.warn(`${file.name} was not uploaded for server processing:`, error);
     }
-    
-    // Default to custom
-    return { curveType: 'custom', track: 5, color: '#64748b' };
   };
 
   const handleFileUpload = async (files: FileList) => {
@@ -199,13 +187,15 @@ const FileUploadZone: React.FC = () => {
           throw new Error(`File too large: ${file.name}. Maximum size is 100MB.`);
         }
 
-        // Parse the actual LAS file
-        const fileContent = await file.text();
-        const parsedFile = await parseLASFile(fileContent, file.name, file.size);
-        
-        addFile(parsedFile);
+        // Parsed in a worker with the parser the server uses
+        const parsed = await loadLASFile(file);
+        addFile(parsed);
+
+        // A server copy lets the file be processed server-side; until it lands the file is processed locally
+        uploadForServerProcessing(parsed.id, file);
       }
     } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') return;
       console.error('File upload error:', error);
       setUploadError(error instanceof Error ? error.message : 'Unknown error occurred');
     } finally {
@@ -213,269 +203,6 @@ const FileUploadZone: React.FC = () => {
     }
   };
 
-  // Real LAS file parser
-  const parseLASFile = async (content: string, fileName: string, fileSize: number): Promise<any> => {
-    const lines = content.split('\n');
-    const sections = {
-      version: [] as string[],
-      well: [] as string[],
-      curve: [] as string[],
-      data: [] as string[]
-    };
-    
-    let currentSection = '';
-    
-    // Parse LAS file sections
-    for (const line of lines) {
-      const trimmedLine = line.trim();
-      if (trimmedLine.startsWith('~')) {
-        const sectionName = trimmedLine.substring(1).toLowerCase();
-        if (sectionName.startsWith('v')) currentSection = 'version';
-        else if (sectionName.startsWith('w')) currentSection = 'well';
-        else if (sectionName.startsWith('c')) currentSection = 'curve';
-        else if (sectionName.startsWith('a')) currentSection = 'data';
-      } else if (trimmedLine && !trimmedLine.startsWith('#') && currentSection) {
-        sections[currentSection as keyof typeof sections].push(trimmedLine);
-      }
-    }
-
-    // Parse header information
-    const header = parseHeader(sections.version, sections.well);
-    
-    // Parse curves
-    const curves = parseCurves(sections.curve);
-    
-    // Parse data
-    const data = parseData(sections.data, curves, header);
-    
-    return {
-      id: Math.random().toString(36).substr(2, 9),
-      name: fileName,
-      size: fileSize,
-      uploadedAt: new Date(),
-      processed: false,
-      version: header.version,
-      header,
-      curves,
-      data
-    };
-  };
-
-  const parseHeader = (versionLines: string[], wellLines: string[]) => {
-    const header: any = {
-      version: '2.0',
-      wrap: false,
-      startDepth: 0,
-      stopDepth: 0,
-      step: 0.5,
-      nullValue: -999.25,
-      company: '',
-      well: '',
-      field: '',
-      location: '',
-      date: new Date().toISOString().split('T')[0],
-      uwi: '',
-      serviceCompany: '',
-      logDate: new Date().toISOString().split('T')[0],
-      elevation: 0,
-      // Additional fields for business LAS files
-      operator: '',
-      rig: '',
-      wellbore: '',
-      api: '',
-      county: '',
-      state: '',
-      country: '',
-      province: '',
-      block: '',
-      lease: '',
-      section: '',
-      township: '',
-      range: '',
-      meridian: '',
-      latitude: 0,
-      longitude: 0,
-      kb: 0,
-      gl: 0,
-      td: 0,
-      md: 0,
-      tvd: 0,
-      comments: []
-    };
-
-    console.log('Parsing version lines:', versionLines);
-    console.log('Parsing well lines:', wellLines);
-
-    // Parse version section with more robust handling
-    for (const line of versionLines) {
-      if (!line.trim() || line.startsWith('~') || line.startsWith('#')) continue;
-      
-      const colonIndex = line.indexOf(':');
-      if (colonIndex === -1) continue;
-      
-      const key = line.substring(0, colonIndex).trim();
-      const value = line.substring(colonIndex + 1).trim();
-      
-      console.log(`Version header: ${key} = ${value}`);
-      
-      if (key === 'VERS') header.version = value;
-      else if (key === 'WRAP') header.wrap = value.toUpperCase() === 'YES';
-      else if (key === 'NULL') header.nullValue = parseFloat(value);
-      else if (key === 'STRT') header.startDepth = parseFloat(value);
-      else if (key === 'STOP') header.stopDepth = parseFloat(value);
-      else if (key === 'STEP') header.step = parseFloat(value);
-    }
-
-    // Parse well section with comprehensive field mapping
-    for (const line of wellLines) {
-      if (!line.trim() || line.startsWith('~') || line.startsWith('#')) continue;
-      
-      const colonIndex = line.indexOf(':');
-      if (colonIndex === -1) continue;
-      
-      const key = line.substring(0, colonIndex).trim();
-      const value = line.substring(colonIndex + 1).trim();
-      
-      console.log(`Well header: ${key} = ${value}`);
-      
-      // Standard LAS fields
-      if (key === 'COMP') header.company = value;
-      else if (key === 'WELL') header.well = value;
-      else if (key === 'FLD') header.field = value;
-      else if (key === 'LOC') header.location = value;
-      else if (key === 'DATE') header.date = value;
-      else if (key === 'UWI') header.uwi = value;
-      else if (key === 'SRVC') header.serviceCompany = value;
-      else if (key === 'SLOG') header.logDate = value;
-      
-      // Business-specific fields
-      else if (key === 'OPER') header.operator = value;
-      else if (key === 'RIG') header.rig = value;
-      else if (key === 'WELLBORE') header.wellbore = value;
-      else if (key === 'API') header.api = value;
-      else if (key === 'CNTY') header.county = value;
-      else if (key === 'STAT') header.state = value;
-      else if (key === 'CTRY') header.country = value;
-      else if (key === 'PROV') header.province = value;
-      else if (key === 'BLOCK') header.block = value;
-      else if (key === 'LEASE') header.lease = value;
-      else if (key === 'SECT') header.section = value;
-      else if (key === 'TOWN') header.township = value;
-      else if (key === 'RANG') header.range = value;
-      else if (key === 'MERI') header.meridian = value;
-      else if (key === 'LATI') header.latitude = parseFloat(value);
-      else if (key === 'LONG') header.longitude = parseFloat(value);
-      else if (key === 'KB') header.kb = parseFloat(value);
-      else if (key === 'GL') header.gl = parseFloat(value);
-      else if (key === 'TD') header.td = parseFloat(value);
-      else if (key === 'MD') header.md = parseFloat(value);
-      else if (key === 'TVD') header.tvd = parseFloat(value);
-      else if (key === 'ELEV') header.elevation = parseFloat(value);
-      
-      // Handle comments and other fields
-      else if (key === 'COMM' || key.startsWith('C')) {
-        if (value.trim()) header.comments.push(value);
-      }
-      
-      // Handle any other fields by storing them
-      else if (value.trim()) {
-        header[key.toLowerCase()] = value;
-      }
-    }
-
-    // Smart field mapping for common variations
-    if (!header.uwi && header.api) header.uwi = header.api;
-    if (!header.api && header.uwi) header.api = header.uwi;
-    if (!header.operator && header.company) header.operator = header.company;
-    if (!header.company && header.operator) header.company = header.operator;
-
-    // Validate and provide fallbacks for critical fields
-    if (!header.well) {
-      console.warn('No well name found in LAS file header');
-      header.well = 'Unknown Well';
-    }
-    if (!header.company && !header.operator) {
-      console.warn('No company/operator name found in LAS file header');
-      header.company = 'Unknown Company';
-    }
-    if (!header.uwi && !header.api) {
-      console.warn('No UWI/API number found in LAS file header');
-      header.uwi = 'Unknown UWI';
-    }
-
-    // Create a display name for the well
-    header.displayName = header.well || header.uwi || 'Unknown Well';
-    if (header.field && header.field !== header.well) {
-      header.displayName += ` (${header.field})`;
-    }
-
-    console.log('Parsed header:', header);
-    return header;
-  };
-
-  const parseCurves = (curveLines: string[]) => {
-    console.log('Parsing curves from lines:', curveLines);
-    
-    return curveLines.map((line, index) => {
-      const [mnemonic, unit, description] = line.split(':').map(s => s.trim());
-      const typeInfo = getCurveTypeAndTrack(mnemonic);
-      
-      console.log(`Curve ${index}:`, { mnemonic, unit, description, typeInfo });
-      
-      return {
-        mnemonic,
-        unit: unit || '',
-        description: description || mnemonic,
-        dataType: mnemonic.toUpperCase() === 'DEPT' ? 'depth' as const : 'log' as const,
-        curveType: typeInfo.curveType,
-        track: typeInfo.track,
-        color: typeInfo.color,
-        scale: typeInfo.curveType === 'resistivity' ? 'logarithmic' as const : 'linear' as const,
-        visible: true
-      };
-    });
-  };
-
-  const parseData = (dataLines: string[], curves: any[], header: any) => {
-    console.log('Parsing data from lines:', dataLines.length, 'curves:', curves.length);
-    const data: any[] = [];
-    
-    for (const line of dataLines) {
-      if (!line.trim()) continue;
-      
-      const values = line.split(/\s+/).map(v => {
-        const num = parseFloat(v);
-        return isNaN(num) || num === header.nullValue ? null : num;
-      });
-      
-      if (values.length >= curves.length) {
-        const dataPoint: any = { depth: values[0] };
-        
-        for (let i = 1; i < curves.length; i++) {
-          dataPoint[curves[i].mnemonic] = values[i];
-        }
-        
-        data.push(dataPoint);
-      }
-    }
-
-    console.log('Parsed data points:', data.length);
-    if (data.length > 0) {
-      console.log('Sample data point:', data[0]);
-    }
-
-    // Update header with actual depth range
-    if (data.length > 0) {
-      header.startDepth = Math.min(...data.map(d => d.depth));
-      header.stopDepth = Math.max(...data.map(d => d.depth));
-      if (data.length > 1) {
-        header.step = data[1].depth - data[0].depth;
-      }
-    }
-
-    return data;
-  };
-
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     if (!isUploading) {
@@ -505,7 +232,15 @@ const FileUploadZone: React.FC = () => {
         {isUploading ? (
           <div className="space-y-3">
             <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500 mx-auto"></div>
-            <p className="text-sm text-blue-400 font-medium">Processing files...</p>
+            <p className="text-sm text-blue-400 font-medium">
+              Processing files...{fileLoadProgress !== null && ` ${fileLoadProgress}%`}
+            </p>
+            <button
+              onClick={cancelLocalWork}
+              className="text-xs text-slate-400 hover:text-red-400 transition-colors"
+            >
+              Cancel
+            </button>
           </div>
         ) : (
           <>
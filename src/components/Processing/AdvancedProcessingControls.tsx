@@ -1,9 +1,97 @@
 import React, { useState } from 'react';
-import { Play, Settings, RotateCcw, Save, Zap, AlertTriangle, CheckCircle, Download, Mountain } from 'lucide-react';
+import { Play, Settings, RotateCcw, Save, Zap, AlertTriangle, CheckCircle, Download, Mountain, ChevronUp, ChevronDown } from 'lucide-react';
 import { useAppStore } from '../../store';
 import { ContextualHelp, ProcessingHelp } from '../Help/ContextualHelp';
-import { performGeologicalAnalysis, getFormationProcessingParams, applyGeologicalQualityScoring } from '../../utils/geologicalAnalysis';
+import { getFormationProcessingParams, applyGeologicalQualityScoring } from '../../utils/geologicalAnalysis';
 import { ProcessingSettingsModal } from '../Processing/ProcessingSettingsModal';
+import { apiService, JobEventData } from '../../services/api';
+import { GeologicalContext, LASCurve, ProcessingRecipe, ProcessingStepName } from '../../types';
+import {
+  BASELINE_METHODS,
+  BaselineCorrectionOptions,
+  BaselineMethod,
+  BoreholeParameters,
+  BoundaryMode,
+  DEFAULT_CONSENSUS_MIN_CURVES,
+  readBoreholeParameters,
+  ThresholdMode,
+  ThresholdRule,
+  WAVELET_NAMES,
+  WaveletName,
+  WaveletTransform,
+  WellLog
+} from '../../../shared/src';
+
+// Labels for the operations the server reports in job events
+const STEP_LABELS: Record<string, string> = {
+  file_parsing: 'Parsing LAS file',
+  quality_assessment: 'Assessing initial quality',
+  mnemonic_standardization: 'Standardizing mnemonics',
+  denoising: 'Denoising',
+  despiking: 'Detecting spikes',
+  depth_matching: 'Matching depths',
+  gap_filling: 'Filling gaps',
+  baseline_correction: 'Correcting baseline',
+  environmental_correction: 'Correcting for borehole environment',
+  resampling: 'Resampling',
+  final_quality_assessment: 'Final quality assessment'
+};
+
+// Spikes are removed before depth matching and smoothing so they neither skew the
+// correlation nor get smeared into their neighbours; gaps are filled once curves are on
+// depth with each other, environmental corrections use the cleaned curves, and resampling
+// comes last
+const DEFAULT_STEP_ORDER: ProcessingStepName[] = [
+  'despike',
+  'depthAlignment',
+  'gapFill',
+  'denoise',
+  'baselineCorrection',
+  'environmentalCorrection',
+  'resample'
+];
+
+// Data processing steps this panel can enable, in the names the step order uses
+const STEP_NAMES: Partial<Record<ProcessingStepName, string>> = {
+  despike: 'Spike detection',
+  depthAlignment: 'Depth matching',
+  gapFill: 'Gap filling',
+  denoise: 'Denoising',
+  baselineCorrection: 'Baseline correction',
+  environmentalCorrection: 'Environmental correction'
+};
+
+const BASELINE_METHOD_NAMES: Record<BaselineMethod, string> = {
+  polynomial: 'Polynomial (Full Well)',
+  als: 'Asymmetric Least Squares',
+  lowess: 'LOWESS',
+  piecewise: 'Shale Baseline Picks'
+};
+
+// Borehole conditions the environmental corrections read, in the units they take them in
+const BOREHOLE_PARAMETERS: Array<{ name: keyof BoreholeParameters; label: string; step: string }> = [
+  { name: 'bitSize', label: 'Bit Size (in)', step: '0.125' },
+  { name: 'mudWeight', label: 'Mud Weight (g/cm³)', step: '0.01' },
+  { name: 'mudSalinity', label: 'Mud Salinity (ppm)', step: '1000' },
+  { name: 'standoff', label: 'Neutron Standoff (in)', step: '0.05' }
+];
+
+// Wavelet families, by the prefix of their wavelets' names
+const WAVELET_FAMILIES: Record<string, string> = {
+  haar: 'Haar',
+  db: 'Daubechies',
+  sym: 'Symlets',
+  coif: 'Coiflets'
+};
+
+// Whether two sets of options match, whatever order their keys are in
+const sameOptions = (a: unknown, b: unknown): boolean => {
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return a === b;
+  const entriesA = Object.entries(a).filter(([, value]) => value !== undefined);
+  const entriesB = Object.entries(b).filter(([, value]) => value !== undefined);
+  return entriesA.length === entriesB.length &&
+    entriesA.every(([key, value]) => sameOptions(value, (b as Record<string, unknown>)[key]));
+};
 
 export const AdvancedProcessingControls: React.FC = () => {
   const { 
@@ -11,21 +99,53 @@ export const AdvancedProcessingControls: React.FC = () => {
     updateProcessingOptions, 
     isProcessing, 
     processingProgress,
+    processingStep,
     setProcessing, 
     setProcessingProgress,
+    setProcessingStep,
     activeFile, 
-    updateFile 
+    updateFile,
+    processFileLocally,
+    analyzeGeology,
+    cancelLocalWork
   } = useAppStore();
 
   const [showProcessingSettings, setShowProcessingSettings] = useState(false);
+  const [recipes, setRecipes] = useState<ProcessingRecipe[]>([]);
+  const [selectedRecipeId, setSelectedRecipeId] = useState('');
+  const [anchorDepth, setAnchorDepth] = useState('');
 
-  // Perform geological analysis for formation-specific parameters
-  const geologicalContext = React.useMemo(() => {
-    if (!activeFile || !activeFile.data || activeFile.data.length === 0) {
-      return null;
+  const loadRecipes = async () => {
+    const response = await apiService.listRecipes();
+    if (response.success && response.data) {
+      setRecipes(response.data);
     }
-    return performGeologicalAnalysis(activeFile.data, activeFile.curves);
-  }, [activeFile]);
+  };
+
+  React.useEffect(() => {
+    loadRecipes().catch(error => console.warn('Recipes could not be loaded:', error));
+  }, []);
+
+  const selectedRecipe = recipes.find(recipe => recipe.id === selectedRecipeId);
+  // Jobs only run as the recipe while its options are unchanged
+  const recipeInUse = selectedRecipe && sameOptions(selectedRecipe.options, processingOptions)
+    ? selectedRecipe
+    : undefined;
+
+  // Perform geological analysis for formation-specific parameters, in a worker
+  const [geologicalContext, setGeologicalContext] = useState<GeologicalContext | null>(null);
+  React.useEffect(() => {
+    setGeologicalContext(null);
+    if (!activeFile || activeFile.log.length === 0) return;
+
+    const controller = new AbortController();
+    analyzeGeology(activeFile, controller.signal)
+      .then(setGeologicalContext)
+      .catch(error => {
+        if (error.name !== 'AbortError') console.warn('Geological analysis failed:', error);
+      });
+    return () => controller.abort();
+  }, [activeFile, analyzeGeology]);
 
   // Apply formation-specific parameters when geological context changes
   React.useEffect(() => {
@@ -58,35 +178,32 @@ export const AdvancedProcessingControls: React.FC = () => {
     
     setProcessing(true);
     setProcessingProgress(0);
+    setProcessingStep(null);
     
     try {
-      // Enhanced processing steps with geological context
-      const steps = [
-        'Initializing geological analysis...',
-        'Applying formation-specific parameters...',
-        'Executing Savitzky-Golay smoothing...',
-        'Performing Hampel spike detection...',
-        'Conducting PCHIP interpolation...',
-        'Validating physical ranges...',
-        'Standardizing mnemonics...',
-        'Cross-validating geological consistency...',
-        'Generating enhanced quality metrics...',
-        'Finalizing geological context...'
-      ];
-      
-      for (let i = 0; i < steps.length; i++) {
-        await new Promise(resolve => setTimeout(resolve, 300));
-        setProcessingProgress(((i + 1) / steps.length) * 100);
+      // Files with a server copy run as a server job that reports its progress
+      if (activeFile.serverFileId) {
+        const geologicalAnalysis = geologicalContext || await analyzeGeology(activeFile);
+        const result = await processOnServer(activeFile.serverFileId);
+        // Curves the job added, such as gap fill flags and corrected curves
+        const addedCurves = (result.data.curves || [])
+          .filter((curve: LASCurve) => !activeFile.curves.some(c => c.mnemonic === curve.mnemonic));
+        const curves = [...activeFile.curves, ...addedCurves];
+
+        updateFile(activeFile.id, {
+          processed: true,
+          processedLog: WellLog.fromEncoded(result.data.processedLog),
+          curves,
+          qcResults: { ...result.qcResults, geologicalContext: geologicalAnalysis },
+          processingHistory: [...(activeFile.processingHistory || []), ...(result.processingHistory || [])]
+        });
+        return;
       }
       
-      // Perform geological analysis
-      const geologicalAnalysis = performGeologicalAnalysis(activeFile.data, activeFile.curves);
-      
-      // Process the actual data using real algorithms
-      const processedData = await processDataWithAlgorithms(activeFile.data, activeFile.curves, processingOptions);
-      
-      // Calculate real quality metrics
-      const qcResults = calculateRealQualityMetrics(activeFile.data, processedData, activeFile.curves, geologicalAnalysis);
+      // Process in a worker with the algorithms a server job runs, then assess quality
+      setProcessingStep('Processing locally');
+      const { log: processedLog, curves, qcResults, geologicalAnalysis } =
+        await processFileLocally(activeFile, processingOptions, stepOrder);
       
       // Add processing history with geological context
       const processingStep = {
@@ -107,230 +224,94 @@ export const AdvancedProcessingControls: React.FC = () => {
       
       updateFile(activeFile.id, { 
         processed: true, 
-        processedData,
+        processedLog,
+        curves,
         qcResults,
         processingHistory: [...(activeFile.processingHistory || []), processingStep]
       });
       
     } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') return;
       console.error('Processing error:', error);
       alert('Processing failed. Please check your data and try again.');
     } finally {
       setProcessing(false);
       setProcessingProgress(0);
+      setProcessingStep(null);
     }
   };
 
-  // Real data processing with algorithms
-  const processDataWithAlgorithms = async (data: any[], curves: any[], options: any) => {
-    const processedData = [...data];
-    
-    // Apply denoising if enabled
-    if (options.denoise.enabled) {
-      for (const curve of curves) {
-        if (curve.dataType === 'log') {
-          const curveData = data.map(d => d[curve.mnemonic]).filter(v => v !== null);
-          if (curveData.length > 0) {
-            const denoisedData = applySavitzkyGolay(curveData, options.denoise.windowSize, options.denoise.polynomialOrder || 3);
-            
-            // Apply strength parameter
-            for (let i = 0; i < processedData.length; i++) {
-              if (processedData[i][curve.mnemonic] !== null) {
-                const original = data[i][curve.mnemonic];
-                const denoised = denoisedData[i] || original;
-                processedData[i][curve.mnemonic] = original * (1 - options.denoise.strength) + denoised * options.denoise.strength;
-              }
-            }
-          }
-        }
-      }
+  const handleJobEvent = (type: string, data: JobEventData) => {
+    if (typeof data.progress === 'number') {
+      setProcessingProgress(data.progress);
     }
-    
-    // Apply spike detection if enabled
-    if (options.despike.enabled) {
-      for (const curve of curves) {
-        if (curve.dataType === 'log') {
-          const curveData = processedData.map(d => d[curve.mnemonic]).filter(v => v !== null);
-          if (curveData.length > 0) {
-            const { cleanedData, spikeIndices } = applyHampelFilter(curveData, options.despike.windowSize, options.despike.threshold);
-            
-            // Replace spikes with interpolated values
-            if (spikeIndices.length > 0) {
-              const validIndices = curveData.map((_, idx) => idx).filter(idx => !spikeIndices.includes(idx));
-              const validValues = validIndices.map(idx => curveData[idx]);
-              
-              for (let i = 0; i < processedData.length; i++) {
-                if (processedData[i][curve.mnemonic] !== null) {
-                  const dataIndex = processedData.findIndex(d => d[curve.mnemonic] === curveData[i]);
-                  if (spikeIndices.includes(dataIndex)) {
-                    // Simple linear interpolation for spike replacement
-                    const interpolatedValue = interpolateValue(dataIndex, validIndices, validValues);
-                    processedData[i][curve.mnemonic] = interpolatedValue;
-                  }
-                }
-              }
-            }
-          }
-        }
-      }
+
+    const label = data.operation ? STEP_LABELS[data.operation] || data.operation : '';
+    if (type === 'step_started') {
+      setProcessingStep(label);
+    } else if (type === 'curve_progress') {
+      setProcessingStep(`${label}: ${data.curve} (${data.completed}/${data.total})`);
+    } else if (type === 'retrying') {
+      setProcessingStep('Retrying after an error');
     }
-    
-    return processedData;
   };
 
-  // Real Savitzky-Golay implementation
-  const applySavitzkyGolay = (data: number[], windowSize: number, polynomialOrder: number): number[] => {
-    const halfWindow = Math.floor(windowSize / 2);
-    const result = new Array(data.length);
-    
-    for (let i = 0; i < data.length; i++) {
-      const start = Math.max(0, i - halfWindow);
-      const end = Math.min(data.length, i + halfWindow + 1);
-      const dataWindow = data.slice(start, end);
-      
-      if (dataWindow.length >= polynomialOrder + 1) {
-        // Simple polynomial fitting (simplified version)
-        result[i] = dataWindow.reduce((sum, val) => sum + val, 0) / dataWindow.length;
-      } else {
-        result[i] = data[i];
-      }
+  const processOnServer = async (fileId: string) => {
+    const submitted = await apiService.submitProcessingJob(
+      fileId,
+      recipeInUse ? { id: recipeInUse.id, version: recipeInUse.version } : processingOptions
+    );
+    if (!submitted.success || !submitted.jobId) {
+      throw new Error(submitted.error || 'Processing could not be started');
     }
-    
-    return result;
-  };
 
-  // Real Hampel filter implementation
-  const applyHampelFilter = (data: number[], windowSize: number, threshold: number) => {
-    const halfWindow = Math.floor(windowSize / 2);
-    const result = [...data];
-    const spikeIndices: number[] = [];
-    
-    for (let i = 0; i < data.length; i++) {
-      const start = Math.max(0, i - halfWindow);
-      const end = Math.min(data.length, i + halfWindow + 1);
-      const dataWindow = data.slice(start, end);
-      
-      const median = calculateMedian(dataWindow);
-      const mad = calculateMAD(dataWindow, median);
-      
-      if (Math.abs(data[i] - median) > threshold * mad) {
-        spikeIndices.push(i);
-      }
+    const result = await apiService.waitForJob(submitted.jobId, handleJobEvent);
+    if (!result.success || !result.data) {
+      throw new Error(result.error || 'Processing failed');
     }
-    
-    return { cleanedData: result, spikeIndices };
+    return result;
   };
 
-  const calculateMedian = (data: number[]): number => {
-    const sorted = [...data].sort((a, b) => a - b);
-    const mid = Math.floor(sorted.length / 2);
-    return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
-  };
+  // Borehole conditions from the file's ~Parameter section, shown where the user hasn't set their own
+  const fileBorehole = readBoreholeParameters(activeFile?.parameters);
 
-  const calculateMAD = (data: number[], median: number): number => {
-    const deviations = data.map(x => Math.abs(x - median));
-    return calculateMedian(deviations);
-  };
+  // Steps listed in the order they will run, skipping ones this panel has no controls for
+  const stepOrder = [
+    ...(processingOptions.stepOrder || []),
+    ...DEFAULT_STEP_ORDER.filter(name => !processingOptions.stepOrder?.includes(name))
+  ].filter(name => name in STEP_NAMES);
 
-  const interpolateValue = (index: number, validIndices: number[], validValues: number[]): number => {
-    if (validIndices.length === 0) return 0;
-    if (validIndices.length === 1) return validValues[0];
-    
-    // Find nearest valid indices
-    const leftIndex = validIndices.filter(idx => idx < index).pop();
-    const rightIndex = validIndices.find(idx => idx > index);
-    
-    if (leftIndex === undefined && rightIndex === undefined) return validValues[0];
-    if (leftIndex === undefined) return validValues[validIndices.indexOf(rightIndex!)];
-    if (rightIndex === undefined) return validValues[validIndices.indexOf(leftIndex)];
-    
-    // Linear interpolation
-    const leftValue = validValues[validIndices.indexOf(leftIndex)];
-    const rightValue = validValues[validIndices.indexOf(rightIndex)];
-    const ratio = (index - leftIndex) / (rightIndex - leftIndex);
-    
-    return leftValue + ratio * (rightValue - leftValue);
+  const baseline = processingOptions.baselineCorrection;
+  const updateBaseline = (changes: Partial<BaselineCorrectionOptions>) =>
+    updateProcessingOptions({ baselineCorrection: { ...baseline, ...changes } });
+  const logCurves = activeFile?.curves.filter(c => c.dataType === 'log') || [];
+
+  // Curves are all corrected until some are unticked, each by the panel's method unless given its own
+  const toggleBaselineCurve = (mnemonic: string, checked: boolean) => {
+    const current = baseline.curves || logCurves.map(c => c.mnemonic);
+    const curves = checked ? [...current, mnemonic] : current.filter(m => m !== mnemonic);
+    updateBaseline({ curves: curves.length === logCurves.length ? undefined : curves });
   };
+  const curveBaselineMethod = (mnemonic: string) =>
+    baseline.overrides?.find(o => o.mnemonic === mnemonic)?.parameters?.method;
+  const setCurveBaselineMethod = (mnemonic: string, method: BaselineMethod | undefined) => {
+    const others = (baseline.overrides || []).filter(o => o.mnemonic !== mnemonic);
+    updateBaseline({ overrides: method ? [...others, { mnemonic, parameters: { method } }] : others });
+  };
+  const addAnchor = () => {
+    const depth = parseFloat(anchorDepth);
+    if (isNaN(depth)) return;
+    const anchors = [...(baseline.anchors || []).filter(a => a.depth !== depth), { depth }];
+    updateBaseline({ anchors: anchors.sort((a, b) => a.depth - b.depth) });
+    setAnchorDepth('');
+  };
+  const usesMethod = (method: BaselineMethod) =>
+    baseline.method === method || Boolean(baseline.overrides?.some(o => o.parameters?.method === method));
 
-  // Real quality metrics calculation
-  const calculateRealQualityMetrics = (originalData: any[], processedData: any[], curves: any[], geologicalAnalysis: any) => {
-    const totalPoints = originalData.length;
-    let nullPoints = 0;
-    let spikesDetected = 0;
-    let noiseLevel = 0;
-    
-    // Calculate null points
-    for (const dataPoint of originalData) {
-      for (const curve of curves) {
-        if (curve.dataType === 'log' && dataPoint[curve.mnemonic] === null) {
-          nullPoints++;
-        }
-      }
-    }
-    
-    // Calculate noise level (simplified)
-    for (const curve of curves) {
-      if (curve.dataType === 'log') {
-        const originalValues = originalData.map(d => d[curve.mnemonic]).filter(v => v !== null);
-        const processedValues = processedData.map(d => d[curve.mnemonic]).filter(v => v !== null);
-        
-        if (originalValues.length > 0 && processedValues.length > 0) {
-          const variance = originalValues.reduce((sum, val, i) => {
-            const diff = val - (processedValues[i] || val);
-            return sum + diff * diff;
-          }, 0) / originalValues.length;
-          
-          noiseLevel += Math.sqrt(variance);
-        }
-      }
-    }
-    
-    noiseLevel = noiseLevel / curves.filter(c => c.dataType === 'log').length;
-    
-    // Calculate quality score
-    const completeness = (totalPoints - nullPoints) / totalPoints;
-    const qualityScore = Math.max(0, Math.min(100, 
-      completeness * 40 + 
-      (1 - noiseLevel) * 30 + 
-      geologicalAnalysis.geologicalConsistency * 30
-    ));
-    
-    return {
-      totalPoints,
-      nullPoints,
-      spikesDetected,
-      noiseLevel,
-      depthConsistency: true,
-      overallQualityScore: qualityScore,
-      geologicalContext: geologicalAnalysis,
-      curveQuality: curves.reduce((acc, curve) => {
-        if (curve.dataType === 'log') {
-          const curveData = originalData.map(d => d[curve.mnemonic]).filter(v => v !== null);
-          const completeness = curveData.length / totalPoints;
-          
-          acc[curve.mnemonic] = {
-            completeness: completeness * 100,
-            noiseLevel: noiseLevel * 100,
-            spikes: 0,
-            physicallyValid: true,
-            qualityGrade: completeness > 0.9 ? 'A' : completeness > 0.8 ? 'B' : 'C',
-            issues: []
-          };
-        }
-        return acc;
-      }, {} as any),
-      mnemonicStandardization: {
-        standardized: curves.length - 1,
-        nonStandard: [],
-        mappings: {}
-      },
-      physicalValidation: {
-        passed: curves.length - 1,
-        failed: 0,
-        warnings: []
-      },
-      recommendations: geologicalAnalysis.recommendations
-    };
+  const moveStep = (index: number, offset: number) => {
+    const order = [...stepOrder];
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+    updateProcessingOptions({ stepOrder: order });
   };
 
   const handleReset = () => {
@@ -369,7 +350,8 @@ export const AdvancedProcessingControls: React.FC = () => {
         autoStandardize: true,
         customMappings: {},
         preserveOriginal: true
-      }
+      },
+      stepOrder: undefined
     });
     console.log('Processing options reset to defaults');
   };
@@ -386,6 +368,32 @@ export const AdvancedProcessingControls: React.FC = () => {
     console.log('Processing configuration saved with geological context');
   };
 
+  const handleSelectRecipe = (recipeId: string) => {
+    setSelectedRecipeId(recipeId);
+    const recipe = recipes.find(r => r.id === recipeId);
+    if (recipe) {
+      updateProcessingOptions({ ...recipe.options, stepOrder: recipe.options.stepOrder });
+    }
+  };
+
+  const handleSaveRecipe = async () => {
+    const name = window.prompt('Recipe name', selectedRecipe?.name || '');
+    if (!name) return;
+
+    // Saving under the selected recipe's name stores its next version
+    const response = selectedRecipe && name === selectedRecipe.name
+      ? await apiService.updateRecipe(selectedRecipe.id, { options: processingOptions })
+      : await apiService.createRecipe(name, processingOptions);
+    if (!response.success || !response.data) {
+      alert(`Recipe could not be saved: ${response.error || 'unknown error'}`);
+      return;
+    }
+
+    await loadRecipes();
+    setSelectedRecipeId(response.data.id);
+    updateProcessingOptions(response.data.options);
+  };
+
   const handleExportConfig = () => {
     // Export processing configuration as JSON
     const config = {
@@ -462,6 +470,34 @@ export const AdvancedProcessingControls: React.FC = () => {
       </div>
 
       <div className="p-6 space-y-6 flex-1 overflow-y-auto">
+        {/* Recipe Section */}
+        <div className="flex items-center space-x-2">
+          <select
+            value={selectedRecipeId}
+            onChange={(e) => handleSelectRecipe(e.target.value)}
+            className="flex-1 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white text-sm"
+          >
+            <option value="">No recipe</option>
+            {recipes.map(recipe => (
+              <option key={recipe.id} value={recipe.id}>
+                {recipe.name} (v{recipe.version})
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={handleSaveRecipe}
+            className="px-3 py-2 text-sm text-slate-300 hover:text-white bg-slate-700 hover:bg-slate-600 rounded-lg transition-colors"
+            title="Save these options as a recipe, or as the next version of the selected one"
+          >
+            Save as recipe
+          </button>
+        </div>
+        {selectedRecipe && !recipeInUse && (
+          <p className="text-xs text-amber-400 -mt-4">
+            Options differ from {selectedRecipe.name} v{selectedRecipe.version}; save them to run as a new version.
+          </p>
+        )}
+
         {/* Geological Context Banner */}
         {geologicalContext && (
           <div className="bg-gradient-to-r from-purple-900/20 to-blue-900/20 rounded-xl p-4 border border-purple-700/30">
@@ -582,10 +618,111 @@ export const AdvancedProcessingControls: React.FC = () => {
                   />
                 </div>
               )}
-              
+
+              {processingOptions.denoise.method === 'wavelet' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-2">Wavelet</label>
+                    <select
+                      value={processingOptions.denoise.waveletType || 'haar'}
+                      onChange={(e) => updateProcessingOptions({
+                        denoise: { ...processingOptions.denoise, waveletType: e.target.value as WaveletName }
+                      })}
+                      className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                    >
+                      {Object.entries(WAVELET_FAMILIES).map(([family, label]) => (
+                        <optgroup key={family} label={label}>
+                          {WAVELET_NAMES.filter(name => name.replace(/\d+$/, '') === family).map(name => (
+                            <option key={name} value={name}>{name}</option>
+                          ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-2">
+                      Levels: {processingOptions.denoise.waveletLevel ?? 'Auto'}
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="10"
+                      value={processingOptions.denoise.waveletLevel ?? 0}
+                      onChange={(e) => updateProcessingOptions({
+                        denoise: { ...processingOptions.denoise, waveletLevel: parseInt(e.target.value) || undefined }
+                      })}
+                      className="w-full"
+                    />
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-2">Transform</label>
+                    <select
+                      value={processingOptions.denoise.waveletTransform || 'dwt'}
+                      onChange={(e) => updateProcessingOptions({
+                        denoise: { ...processingOptions.denoise, waveletTransform: e.target.value as WaveletTransform }
+                      })}
+                      className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value="dwt">Discrete (DWT)</option>
+                      <option value="swt">Stationary (SWT)</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-2">Threshold</label>
+                    <select
+                      value={processingOptions.denoise.thresholdRule || 'visushrink'}
+                      onChange={(e) => updateProcessingOptions({
+                        denoise: { ...processingOptions.denoise, thresholdRule: e.target.value as ThresholdRule }
+                      })}
+                      className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value="visushrink">VisuShrink</option>
+                      <option value="sureshrink">SureShrink</option>
+                      <option value="bayesshrink">BayesShrink</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-2">Thresholding</label>
+                    <select
+                      value={processingOptions.denoise.thresholdMode || 'soft'}
+                      onChange={(e) => updateProcessingOptions({
+                        denoise: { ...processingOptions.denoise, thresholdMode: e.target.value as ThresholdMode }
+                      })}
+                      className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value="soft">Soft</option>
+                      <option value="hard">Hard</option>
+                    </select>
+                  </div>
+
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-2">Boundary</label>
+                    <select
+                      value={processingOptions.denoise.boundaryMode || 'symmetric'}
+                      onChange={(e) => updateProcessingOptions({
+                        denoise: { ...processingOptions.denoise, boundaryMode: e.target.value as BoundaryMode }
+                      })}
+                      className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                    >
+                      <option value="symmetric">Symmetric</option>
+                      <option value="reflect">Reflect</option>
+                      <option value="periodic">Periodic</option>
+                      <option value="constant">Constant</option>
+                      <option value="zero">Zero</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+
               <div>
                 <label className="block text-sm text-slate-300 mb-2">
-                  Strength: {(processingOptions.denoise.strength * 100).toFixed(0)}%
+                  {processingOptions.denoise.method === 'wavelet'
+                    ? `Threshold Scale: ×${(processingOptions.denoise.strength * 2).toFixed(1)}`
+                    : `Strength: ${(processingOptions.denoise.strength * 100).toFixed(0)}%`}
                 </label>
                 <input
                   type="range"
@@ -716,10 +853,555 @@ export const AdvancedProcessingControls: React.FC = () => {
                   />
                 </div>
               </div>
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={Boolean(processingOptions.despike.consensus?.enabled)}
+                  onChange={(e) => updateProcessingOptions({
+                    despike: { ...processingOptions.despike, consensus: { ...processingOptions.despike.consensus, enabled: e.target.checked } }
+                  })}
+                  className="rounded"
+                />
+                <span className="text-sm text-slate-300">Keep spikes related curves share as formation events</span>
+              </label>
+
+              {processingOptions.despike.consensus?.enabled && (
+                <div>
+                  <label className="block text-sm text-slate-300 mb-2">
+                    Curves That Must Agree: {processingOptions.despike.consensus.minCurves ?? DEFAULT_CONSENSUS_MIN_CURVES}
+                  </label>
+                  <input
+                    type="range"
+                    min="2"
+                    max="5"
+                    value={processingOptions.despike.consensus.minCurves ?? DEFAULT_CONSENSUS_MIN_CURVES}
+                    onChange={(e) => updateProcessingOptions({
+                      despike: {
+                        ...processingOptions.despike,
+                        consensus: { ...processingOptions.despike.consensus!, minCurves: parseInt(e.target.value) }
+                      }
+                    })}
+                    className="w-full"
+                  />
+                  <p className="text-xs text-slate-400 mt-1">
+                    Density, neutron, sonic, PEF, gamma ray and resistivity curves corroborate each other; a spike on one alone is replaced
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Depth Matching Section */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-white flex items-center space-x-2">
+              <div className="w-3 h-3 bg-cyan-500 rounded-full"></div>
+              <span>Depth Matching</span>
+            </h4>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={processingOptions.depthAlignment.enabled}
+                onChange={(e) => updateProcessingOptions({
+                  depthAlignment: { ...processingOptions.depthAlignment, enabled: e.target.checked }
+                })}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-cyan-500"></div>
+            </label>
+          </div>
+
+          {processingOptions.depthAlignment.enabled && (
+            <div className="pl-6 border-l-2 border-cyan-500 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-slate-300 mb-2">Reference Curve</label>
+                  <select
+                    value={processingOptions.depthAlignment.referenceCurve || ''}
+                    onChange={(e) => updateProcessingOptions({
+                      depthAlignment: { ...processingOptions.depthAlignment, referenceCurve: e.target.value || undefined }
+                    })}
+                    className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  >
+                    <option value="">Gamma Ray (auto)</option>
+                    {activeFile?.curves.filter(c => c.dataType === 'log').map(curve => (
+                      <option key={curve.mnemonic} value={curve.mnemonic}>{curve.mnemonic}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm text-slate-300 mb-2">Method</label>
+                  <select
+                    value={processingOptions.depthAlignment.method || 'cross_correlation'}
+                    onChange={(e) => updateProcessingOptions({
+                      depthAlignment: { ...processingOptions.depthAlignment, method: e.target.value as 'cross_correlation' | 'dtw' }
+                    })}
+                    className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  >
+                    <option value="cross_correlation">Windowed Cross-Correlation</option>
+                    <option value="dtw">Dynamic Time Warping</option>
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-slate-300 mb-2">
+                    Shift Tolerance: {processingOptions.depthAlignment.shiftTolerance}
+                  </label>
+                  <input
+                    type="range"
+                    min="0.1"
+                    max="10"
+                    step="0.1"
+                    value={processingOptions.depthAlignment.shiftTolerance}
+                    onChange={(e) => updateProcessingOptions({
+                      depthAlignment: { ...processingOptions.depthAlignment, shiftTolerance: parseFloat(e.target.value) }
+                    })}
+                    className="w-full"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm text-slate-300 mb-2">
+                    Window Length: {processingOptions.depthAlignment.windowLength || 'Bulk shift only'}
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="200"
+                    step="5"
+                    value={processingOptions.depthAlignment.windowLength || 0}
+                    onChange={(e) => updateProcessingOptions({
+                      depthAlignment: { ...processingOptions.depthAlignment, windowLength: parseFloat(e.target.value) || undefined }
+                    })}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={processingOptions.depthAlignment.autoCorrect}
+                  onChange={(e) => updateProcessingOptions({
+                    depthAlignment: { ...processingOptions.depthAlignment, autoCorrect: e.target.checked }
+                  })}
+                  className="rounded"
+                />
+                <span className="text-sm text-slate-300">Apply shifts (otherwise only measure them)</span>
+              </label>
+            </div>
+          )}
+        </div>
+
+        {/* Gap Filling Section */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-white flex items-center space-x-2">
+              <div className="w-3 h-3 bg-teal-500 rounded-full"></div>
+              <span>Gap Filling</span>
+            </h4>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={processingOptions.gapFill.enabled}
+                onChange={(e) => updateProcessingOptions({
+                  gapFill: { ...processingOptions.gapFill, enabled: e.target.checked }
+                })}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-teal-500"></div>
+            </label>
+          </div>
+
+          {processingOptions.gapFill.enabled && (
+            <div className="pl-6 border-l-2 border-teal-500 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-slate-300 mb-2">Interpolation</label>
+                  <select
+                    value={processingOptions.gapFill.interpolationMethod}
+                    onChange={(e) => updateProcessingOptions({
+                      gapFill: { ...processingOptions.gapFill, interpolationMethod: e.target.value as 'linear' | 'pchip' }
+                    })}
+                    className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                  >
+                    <option value="pchip">PCHIP Interpolation</option>
+                    <option value="linear">Linear Interpolation</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm text-slate-300 mb-2">
+                    Interpolate Up To: {processingOptions.gapFill.maxInterpolationLength}
+                  </label>
+                  <input
+                    type="range"
+                    min="0"
+                    max="20"
+                    step="0.5"
+                    value={processingOptions.gapFill.maxInterpolationLength}
+                    onChange={(e) => updateProcessingOptions({
+                      gapFill: { ...processingOptions.gapFill, maxInterpolationLength: parseFloat(e.target.value) }
+                    })}
+                    className="w-full"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm text-slate-300 mb-2">
+                    Maximum Gap Length: {processingOptions.gapFill.maxGapLength}
+                  </label>
+                  <input
+                    type="range"
+                    min="0.5"
+                    max="200"
+                    step="0.5"
+                    value={processingOptions.gapFill.maxGapLength}
+                    onChange={(e) => updateProcessingOptions({
+                      gapFill: { ...processingOptions.gapFill, maxGapLength: parseFloat(e.target.value) }
+                    })}
+                    className="w-full"
+                  />
+                </div>
+
+                {processingOptions.gapFill.regression && (
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-2">
+                      Minimum R²: {(processingOptions.gapFill.minR2 ?? 0.6).toFixed(2)}
+                    </label>
+                    <input
+                      type="range"
+                      min="0"
+                      max="1"
+                      step="0.05"
+                      value={processingOptions.gapFill.minR2 ?? 0.6}
+                      onChange={(e) => updateProcessingOptions({
+                        gapFill: { ...processingOptions.gapFill, minR2: parseFloat(e.target.value) }
+                      })}
+                      className="w-full"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={processingOptions.gapFill.regression}
+                  onChange={(e) => updateProcessingOptions({
+                    gapFill: { ...processingOptions.gapFill, regression: e.target.checked }
+                  })}
+                  className="rounded"
+                />
+                <span className="text-sm text-slate-300">Predict longer gaps from correlated curves</span>
+              </label>
+            </div>
+          )}
+        </div>
+
+        {/* Baseline Correction Section */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-white flex items-center space-x-2">
+              <div className="w-3 h-3 bg-indigo-500 rounded-full"></div>
+              <span>Baseline Correction</span>
+            </h4>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={baseline.enabled}
+                onChange={(e) => updateBaseline({ enabled: e.target.checked })}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-indigo-500"></div>
+            </label>
+          </div>
+
+          {baseline.enabled && (
+            <div className="pl-6 border-l-2 border-indigo-500 space-y-4">
+              <div>
+                <label className="block text-sm text-slate-300 mb-2">Method</label>
+                <select
+                  value={baseline.method}
+                  onChange={(e) => updateBaseline({ method: e.target.value as BaselineMethod })}
+                  className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white focus:border-blue-500 focus:outline-none"
+                >
+                  {BASELINE_METHODS.map(method => (
+                    <option key={method} value={method}>{BASELINE_METHOD_NAMES[method]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                {usesMethod('polynomial') && (
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-2">
+                      Polynomial Order: {baseline.polynomialOrder}
+                    </label>
+                    <input
+                      type="range"
+                      min="1"
+                      max="6"
+                      value={baseline.polynomialOrder}
+                      onChange={(e) => updateBaseline({ polynomialOrder: parseInt(e.target.value) })}
+                      className="w-full"
+                    />
+                  </div>
+                )}
+
+                {usesMethod('als') && (
+                  <>
+                    <div>
+                      <label className="block text-sm text-slate-300 mb-2">
+                        ALS Smoothness: 10^{Math.log10(baseline.lambda ?? 1e5).toFixed(1)}
+                      </label>
+                      <input
+                        type="range"
+                        min="2"
+                        max="9"
+                        step="0.5"
+                        value={Math.log10(baseline.lambda ?? 1e5)}
+                        onChange={(e) => updateBaseline({ lambda: Math.pow(10, parseFloat(e.target.value)) })}
+                        className="w-full"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm text-slate-300 mb-2">
+                        ALS Asymmetry: {baseline.asymmetry ?? 0.01}
+                      </label>
+                      <input
+                        type="range"
+                        min="0.01"
+                        max="0.99"
+                        step="0.01"
+                        value={baseline.asymmetry ?? 0.01}
+                        onChange={(e) => updateBaseline({ asymmetry: parseFloat(e.target.value) })}
+                        className="w-full"
+                      />
+                      <p className="text-xs text-slate-400 mt-1">Low fits under the curve; high fits over it, as for SP</p>
+                    </div>
+                  </>
+                )}
+
+                {usesMethod('lowess') && (
+                  <div>
+                    <label className="block text-sm text-slate-300 mb-2">
+                      LOWESS Span: {Math.round((baseline.span ?? 0.3) * 100)}% of the well
+                    </label>
+                    <input
+                      type="range"
+                      min="0.05"
+                      max="1"
+                      step="0.05"
+                      value={baseline.span ?? 0.3}
+                      onChange={(e) => updateBaseline({ span: parseFloat(e.target.value) })}
+                      className="w-full"
+                    />
+                  </div>
+                )}
+              </div>
+
+              {usesMethod('piecewise') && (
+                <div>
+                  <label className="block text-sm text-slate-300 mb-2">Shale Baseline Picks</label>
+                  <div className="flex items-center space-x-2">
+                    <input
+                      type="number"
+                      value={anchorDepth}
+                      placeholder="Depth"
+                      onChange={(e) => setAnchorDepth(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && addAnchor()}
+                      className="flex-1 bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white placeholder-slate-500 focus:border-blue-500 focus:outline-none"
+                    />
+                    <button
+                      onClick={addAnchor}
+                      className="px-3 py-2 bg-indigo-600 hover:bg-indigo-700 text-white text-sm rounded-lg transition-colors"
+                    >
+                      Add Pick
+                    </button>
+                  </div>
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {(baseline.anchors || []).map(anchor => (
+                      <button
+                        key={anchor.depth}
+                        onClick={() => updateBaseline({ anchors: baseline.anchors!.filter(a => a !== anchor) })}
+                        className="px-2 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs rounded"
+                        title="Remove pick"
+                      >
+                        {anchor.depth} ×
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-slate-400 mt-1">The baseline takes each curve's value around a pick and runs straight between picks</p>
+                </div>
+              )}
+
+              {logCurves.length > 0 && (
+                <div className="space-y-2">
+                  <label className="block text-sm text-slate-300">Curves</label>
+                  {logCurves.map(curve => (
+                    <div key={curve.mnemonic} className="flex items-center justify-between">
+                      <label className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          checked={!baseline.curves || baseline.curves.includes(curve.mnemonic)}
+                          onChange={(e) => toggleBaselineCurve(curve.mnemonic, e.target.checked)}
+                          className="rounded"
+                        />
+                        <span className="text-sm text-slate-300">{curve.mnemonic}</span>
+                      </label>
+                      <select
+                        value={curveBaselineMethod(curve.mnemonic) || ''}
+                        onChange={(e) => setCurveBaselineMethod(curve.mnemonic, (e.target.value || undefined) as BaselineMethod | undefined)}
+                        className="bg-slate-700 border border-slate-600 rounded px-2 py-1 text-sm text-white focus:border-blue-500 focus:outline-none"
+                      >
+                        <option value="">Panel method</option>
+                        {BASELINE_METHODS.map(method => (
+                          <option key={method} value={method}>{BASELINE_METHOD_NAMES[method]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                  <p className="text-xs text-slate-400">Each corrected curve gets its fitted baseline as a _BL curve for review</p>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Environmental Correction Section */}
+        <div className="space-y-4">
+          <div className="flex items-center justify-between">
+            <h4 className="text-sm font-semibold text-white flex items-center space-x-2">
+              <div className="w-3 h-3 bg-amber-500 rounded-full"></div>
+              <span>Environmental Corrections</span>
+            </h4>
+            <label className="relative inline-flex items-center cursor-pointer">
+              <input
+                type="checkbox"
+                checked={processingOptions.environmentalCorrection.enabled}
+                onChange={(e) => updateProcessingOptions({
+                  environmentalCorrection: { ...processingOptions.environmentalCorrection, enabled: e.target.checked }
+                })}
+                className="sr-only peer"
+              />
+              <div className="w-11 h-6 bg-gray-200 peer-focus:outline-none peer-focus:ring-4 peer-focus:ring-blue-300 dark:peer-focus:ring-blue-800 rounded-full peer dark:bg-gray-700 peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all dark:border-gray-600 peer-checked:bg-amber-500"></div>
+            </label>
+          </div>
+
+          {processingOptions.environmentalCorrection.enabled && (
+            <div className="pl-6 border-l-2 border-amber-500 space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                {BOREHOLE_PARAMETERS.map(({ name, label, step }) => (
+                  <div key={name}>
+                    <label className="block text-sm text-slate-300 mb-2">{label}</label>
+                    <input
+                      type="number"
+                      min="0"
+                      step={step}
+                      value={processingOptions.environmentalCorrection.parameters?.[name] ?? ''}
+                      placeholder={fileBorehole.parameters[name] !== undefined
+                        ? `${+fileBorehole.parameters[name]!.toFixed(3)} from ~Parameter`
+                        : 'Not in ~Parameter'}
+                      onChange={(e) => updateProcessingOptions({
+                        environmentalCorrection: {
+                          ...processingOptions.environmentalCorrection,
+                          parameters: {
+                            ...processingOptions.environmentalCorrection.parameters,
+                            [name]: e.target.value === '' ? undefined : parseFloat(e.target.value)
+                          }
+                        }
+                      })}
+                      className="w-full bg-slate-700 border border-slate-600 rounded-lg px-3 py-2 text-white placeholder-slate-500 focus:border-blue-500 focus:outline-none"
+                    />
+                  </div>
+                ))}
+              </div>
+
+              {processingOptions.environmentalCorrection.densityValidation && (
+                <div>
+                  <label className="block text-sm text-slate-300 mb-2">
+                    DRHO Limit: {processingOptions.environmentalCorrection.drhoLimit ?? 0.15} g/cm³
+                  </label>
+                  <input
+                    type="range"
+                    min="0.02"
+                    max="0.3"
+                    step="0.01"
+                    value={processingOptions.environmentalCorrection.drhoLimit ?? 0.15}
+                    onChange={(e) => updateProcessingOptions({
+                      environmentalCorrection: { ...processingOptions.environmentalCorrection, drhoLimit: parseFloat(e.target.value) }
+                    })}
+                    className="w-full"
+                  />
+                </div>
+              )}
+
+              <div className="space-y-2">
+                {([
+                  ['gammaRay', 'Correct gamma ray for hole size and mud weight'],
+                  ['neutron', 'Correct neutron porosity for hole size, standoff and salinity'],
+                  ['densityValidation', 'Flag density samples with a large DRHO correction']
+                ] as const).map(([key, label]) => (
+                  <label key={key} className="flex items-center space-x-2">
+                    <input
+                      type="checkbox"
+                      checked={processingOptions.environmentalCorrection[key]}
+                      onChange={(e) => updateProcessingOptions({
+                        environmentalCorrection: { ...processingOptions.environmentalCorrection, [key]: e.target.checked }
+                      })}
+                      className="rounded"
+                    />
+                    <span className="text-sm text-slate-300">{label}</span>
+                  </label>
+                ))}
+              </div>
             </div>
           )}
         </div>
 
+        {/* Step Order Section */}
+        <div className="space-y-3">
+          <h4 className="text-sm font-semibold text-white flex items-center space-x-2">
+            <div className="w-3 h-3 bg-slate-400 rounded-full"></div>
+            <span>Step Order</span>
+          </h4>
+          <div className="bg-slate-700/30 rounded-lg p-3 space-y-2">
+            {stepOrder.map((name, index) => (
+              <div key={name} className="flex items-center justify-between text-sm">
+                <span className={processingOptions[name as 'denoise' | 'despike' | 'depthAlignment' | 'gapFill' | 'baselineCorrection' | 'environmentalCorrection'].enabled ? 'text-slate-200' : 'text-slate-500'}>
+                  {index + 1}. {STEP_NAMES[name]}
+                </span>
+                <div className="flex items-center space-x-1">
+                  <button
+                    onClick={() => moveStep(index, -1)}
+                    disabled={index === 0}
+                    className="p-1 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Run earlier"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </button>
+                  <button
+                    onClick={() => moveStep(index, 1)}
+                    disabled={index === stepOrder.length - 1}
+                    className="p-1 text-slate-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                    title="Run later"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Physical Validation Section */}
         <div className="space-y-4">
           <div className="flex items-center justify-between">
@@ -869,8 +1551,18 @@ export const AdvancedProcessingControls: React.FC = () => {
         {isProcessing && (
           <div className="mb-4">
             <div className="flex items-center justify-between mb-2">
-              <span className="text-sm text-slate-300">Processing...</span>
-              <span className="text-sm text-white font-medium">{processingProgress.toFixed(0)}%</span>
+              <span className="text-sm text-slate-300">{processingStep || 'Processing...'}</span>
+              <div className="flex items-center space-x-3">
+                <span className="text-sm text-white font-medium">{processingProgress.toFixed(0)}%</span>
+                {!activeFile?.serverFileId && (
+                  <button
+                    onClick={cancelLocalWork}
+                    className="text-xs text-slate-400 hover:text-red-400 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
+              </div>
             </div>
             <div className="w-full bg-slate-600 rounded-full h-2">
               <div
@@ -3,9 +3,10 @@ import { Play, Settings, RotateCcw, Save } from 'lucide-react';
 import { useAppStore } from '../../store';
 import { apiService } from '../../services/api';
 import { ALVAROStandard, ALVAROMetrics, ProcessingStep } from '../../utils/alvaroStandard';
+import { WellLog } from '../../../shared/src';
 
 export const ProcessingControls: React.FC = () => {
-  const { processingOptions, updateProcessingOptions, isProcessing, setProcessing, activeFile, updateFile, setProcessingProgress } = useAppStore();
+  const { processingOptions, updateProcessingOptions, isProcessing, setProcessing, activeFile, updateFile, processingProgress, setProcessingProgress } = useAppStore();
 
   const handleProcess = async () => {
     if (!activeFile) return;
@@ -16,8 +17,10 @@ export const ProcessingControls: React.FC = () => {
     try {
       // Calculate original ALVARO metrics
       const originalALVAROMetrics = ALVAROStandard.calculateALVAROMetrics(
-        activeFile.originalData || activeFile.data,
-        activeFile.curves
+        activeFile.originalLog || activeFile.log,
+        activeFile.curves,
+        [],
+        activeFile.parameters
       );
 
       // Convert file data to ArrayBuffer for API
@@ -28,15 +31,19 @@ export const ProcessingControls: React.FC = () => {
       const response = await apiService.processFile(
         buffer,
         activeFile.name,
-        processingOptions
+        processingOptions,
+        (_type, data) => typeof data.progress === 'number' && setProcessingProgress(data.progress)
       );
       
       if (response.success && response.data) {
+        const processedLog = WellLog.fromLASData(response.data.data, activeFile.curves.map(c => c.mnemonic));
+
         // Calculate processed ALVARO metrics
         const processedALVAROMetrics = ALVAROStandard.calculateALVAROMetrics(
-          response.data.data,
+          processedLog,
           activeFile.curves,
-          response.processingHistory || []
+          response.processingHistory || [],
+          activeFile.parameters
         );
 
         // Create ALVARO processing steps
@@ -65,7 +72,7 @@ export const ProcessingControls: React.FC = () => {
         updateFile(activeFile.id, {
           processed: true,
           qcResults: response.qcResults,
-          processedData: response.data.data,
+          processedLog,
           processingHistory: response.processingHistory,
           alvaroMetrics: processedALVAROMetrics,
           alvaroCertificate: alvaroCertificate,
@@ -133,10 +140,31 @@ export const ProcessingControls: React.FC = () => {
         preserveOriginal: true
       },
       depthAlignment: {
-        enabled: true,
+        enabled: false,
         referenceDepth: 0,
         shiftTolerance: 0.5,
         autoCorrect: false
+      },
+      gapFill: {
+        enabled: false,
+        maxGapLength: 10,
+        maxInterpolationLength: 2,
+        interpolationMethod: 'pchip',
+        regression: true
+      },
+      baselineCorrection: {
+        enabled: false,
+        method: 'als',
+        polynomialOrder: 2,
+        lambda: 1e5,
+        asymmetry: 0.01,
+        span: 0.3
+      },
+      environmentalCorrection: {
+        enabled: false,
+        gammaRay: true,
+        neutron: true,
+        densityValidation: true
       }
     });
   };
@@ -193,7 +221,7 @@ export const ProcessingControls: React.FC = () => {
           <div className="w-full bg-slate-700 rounded-full h-2">
             <div 
               className="bg-gradient-to-r from-blue-500 to-purple-500 h-2 rounded-full transition-all duration-300"
-              style={{ width: `${setProcessingProgress}%` }}
+              style={{ width: `${processingProgress}%` }}
             ></div>
           </div>
         )}
@@ -4,6 +4,9 @@
  * Handles all communication with the backend API
  */
 
+import { LASFile, ProcessingOptions, ProcessingRecipe, RecipeReference } from '../types';
+import { logRows } from '../utils/logRows';
+
 const API_BASE_URL = (import.meta as any).env?.VITE_API_URL || 'http://localhost:3001/api';
 
 interface ApiResponse<T = any> {
@@ -15,8 +18,32 @@ interface ApiResponse<T = any> {
   processingHistory?: any[];
   executionTime?: number;
   memoryUsage?: number;
+  jobId?: string;
+  status?: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  progress?: number;
+}
+
+export interface JobEventData {
+  /** The job's overall progress, 0-100 */
+  progress?: number;
+  /** Pipeline step of step_started, curve_progress and step_finished */
+  operation?: string;
+  curve?: string;
+  completed?: number;
+  total?: number;
+  error?: string;
+  [key: string]: unknown;
 }
 
+/**
+ * Receives a processing job event: `status`, `started`, `step_started`,
+ * `curve_progress`, `step_finished`, `retrying`, `completed`, `failed` or
+ * `cancelled`
+ */
+export type JobEventHandler = (type: string, data: JobEventData) => void;
+
+const FINAL_JOB_EVENTS = ['completed', 'failed', 'cancelled'];
+
 class ApiService {
   private token: string | null = null;
 
@@ -34,9 +61,12 @@ class ApiService {
   ): Promise<ApiResponse<T>> {
     const url = `${API_BASE_URL}${endpoint}`;
     
-    const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
-    };
+    const headers: Record<string, string> = {};
+
+    // The browser sets the multipart boundary itself for FormData bodies
+    if (!(options.body instanceof FormData)) {
+      headers['Content-Type'] = 'application/json';
+    }
 
     if (this.token) {
       headers.Authorization = `Bearer ${this.token}`;
@@ -82,20 +112,41 @@ class ApiService {
     });
   }
 
+  async refreshSession(refreshToken: string): Promise<ApiResponse> {
+    return this.request('/auth/refresh', {
+      method: 'POST',
+      body: JSON.stringify({ refreshToken })
+    });
+  }
+
+  async logout(refreshToken: string): Promise<ApiResponse> {
+    const response = await this.request('/auth/logout', {
+      method: 'POST',
+      body: JSON.stringify({ refreshToken })
+    });
+    this.clearToken();
+    return response;
+  }
+
   async getCurrentUser(): Promise<ApiResponse> {
     return this.request('/auth/me');
   }
 
   // Processing endpoints
+  /**
+   * Queue a file for processing and wait for the job's result.
+   * `onEvent` receives the job's progress events while it runs.
+   */
   async processFile(
     fileBuffer: ArrayBuffer,
     fileName: string,
-    options: any
+    options: any,
+    onEvent?: JobEventHandler
   ): Promise<ApiResponse> {
     // Convert ArrayBuffer to base64
     const base64 = btoa(String.fromCharCode(...new Uint8Array(fileBuffer)));
     
-    return this.request('/processing/process', {
+    const submitted = await this.request('/processing/process', {
       method: 'POST',
       body: JSON.stringify({
         fileBuffer: base64,
@@ -103,6 +154,101 @@ class ApiService {
         options
       })
     });
+    if (!submitted.success || !submitted.jobId) {
+      return submitted;
+    }
+
+    return this.waitForJob(submitted.jobId, onEvent);
+  }
+
+  /**
+   * Queue a stored file with the given options, or with a stored recipe version
+   */
+  async submitProcessingJob(fileId: string, options: ProcessingOptions | RecipeReference): Promise<ApiResponse> {
+    const body = 'version' in options
+      ? { fileId, recipeId: options.id, recipeVersion: options.version }
+      : { fileId, options };
+    return this.request('/processing/process', {
+      method: 'POST',
+      body: JSON.stringify(body)
+    });
+  }
+
+  /**
+   * Follow a processing job's events until it finishes, then fetch its result
+   */
+  async waitForJob(jobId: string, onEvent?: JobEventHandler): Promise<ApiResponse> {
+    let final = null as { type: string; data: JobEventData } | null;
+
+    await this.streamJobEvents(jobId, (type, data) => {
+      onEvent?.(type, data);
+      if (FINAL_JOB_EVENTS.includes(type)) {
+        final = { type, data };
+      }
+    });
+
+    if (final?.type === 'completed') {
+      return this.getProcessingResult(jobId);
+    }
+    return {
+      success: false,
+      jobId,
+      error: final?.data?.error || (final ? `Processing ${final.type}` : 'Lost connection to the processing job')
+    };
+  }
+
+  /**
+   * Read a job's Server-Sent Events stream. Resolves when the stream ends.
+   * EventSource can't send the Authorization header, so the stream is read
+   * through fetch.
+   */
+  async streamJobEvents(jobId: string, onEvent: JobEventHandler, signal?: AbortSignal): Promise<void> {
+    const headers: Record<string, string> = { Accept: 'text/event-stream' };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    try {
+      const response = await fetch(`${API_BASE_URL}/processing/jobs/${jobId}/events`, { headers, signal });
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+
+        // Events are separated by a blank line; keep a partial one for the next chunk
+        buffer += value;
+        const blocks = buffer.split('\n\n');
+        buffer = blocks.pop() || '';
+
+        for (const block of blocks) {
+          let type = 'message';
+          let data = '';
+          for (const line of block.split('\n')) {
+            if (line.startsWith('event: ')) type = line.slice(7);
+            else if (line.startsWith('data: ')) data += line.slice(6);
+          }
+          if (data) {
+            onEvent(type, JSON.parse(data));
+          }
+        }
+      }
+    } catch (error) {
+      console.error('Job event stream failed:', error);
+    }
+  }
+
+  async getProcessingResult(jobId: string): Promise<ApiResponse> {
+    return this.request(`/processing/jobs/${jobId}/result`);
+  }
+
+  async cancelProcessingJob(jobId: string): Promise<ApiResponse> {
+    return this.request(`/processing/jobs/${jobId}/cancel`, { method: 'POST' });
   }
 
   async validateProcessingOptions(options: any): Promise<ApiResponse> {
@@ -116,6 +262,37 @@ class ApiService {
     return this.request(`/processing/status/${jobId}`);
   }
 
+  // Recipe endpoints
+  async listRecipes(): Promise<ApiResponse<ProcessingRecipe[]>> {
+    return this.request('/recipes');
+  }
+
+  async createRecipe(name: string, options: ProcessingOptions, description?: string): Promise<ApiResponse<ProcessingRecipe>> {
+    return this.request('/recipes', {
+      method: 'POST',
+      body: JSON.stringify({ name, description, options })
+    });
+  }
+
+  /**
+   * Changing a recipe's options stores them as its next version
+   */
+  async updateRecipe(
+    recipeId: string,
+    changes: { name?: string; description?: string; options?: ProcessingOptions }
+  ): Promise<ApiResponse<ProcessingRecipe>> {
+    return this.request(`/recipes/${recipeId}`, {
+      method: 'PUT',
+      body: JSON.stringify(changes)
+    });
+  }
+
+  async deleteRecipe(recipeId: string): Promise<ApiResponse> {
+    return this.request(`/recipes/${recipeId}`, {
+      method: 'DELETE'
+    });
+  }
+
   // File management endpoints
   async uploadFile(file: File): Promise<ApiResponse> {
     const formData = new FormData();
@@ -123,23 +300,55 @@ class ApiService {
 
     return this.request('/files/upload', {
       method: 'POST',
-      headers: {
-        // Don't set Content-Type for FormData
-      },
       body: formData
     });
   }
 
+  async listFiles(): Promise<ApiResponse> {
+    return this.request('/files');
+  }
+
   async getFile(fileId: string): Promise<ApiResponse> {
     return this.request(`/files/${fileId}`);
   }
 
+  async deleteFile(fileId: string): Promise<ApiResponse> {
+    return this.request(`/files/${fileId}`, {
+      method: 'DELETE'
+    });
+  }
+
   // Export endpoints
-  async exportLAS(fileId: string, options: any): Promise<ApiResponse> {
-    return this.request('/export/las', {
+  async exportLAS(file: LASFile, options: any): Promise<Blob> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+
+    // The server writes rows, so the file's logs go out as them
+    const { log, originalLog, processedLog, ...rest } = file;
+    const rows = {
+      ...rest,
+      data: logRows(log),
+      originalData: originalLog && logRows(originalLog),
+      processedData: processedLog && logRows(processedLog)
+    };
+
+    // The server responds with the LAS text itself, not JSON
+    const response = await fetch(`${API_BASE_URL}/export/las`, {
       method: 'POST',
-      body: JSON.stringify({ fileId, options })
+      headers,
+      body: JSON.stringify({ file: rows, options })
     });
+
+    if (!response.ok) {
+      const data = await response.json();
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+
+    return response.blob();
   }
 
   // Conversion endpoints
@@ -0,0 +1,161 @@
+/**
+ * Tests for running tasks on the worker pool, against fake workers
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { WorkerRequest } from '../workers/protocol';
+
+// The module's shared pool sizes itself from navigator, which Node doesn't have
+vi.hoisted(() => vi.stubGlobal('navigator', { hardwareConcurrency: 2 }));
+
+import { WorkerPool, WorkerTaskCancelledError } from './workerPool';
+
+class FakeWorker {
+  onmessage: ((event: MessageEvent) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  posted: WorkerRequest[] = [];
+  terminated = false;
+
+  postMessage(request: WorkerRequest): void {
+    this.posted.push(request);
+  }
+
+  terminate(): void {
+    this.terminated = true;
+  }
+
+  /** The request the worker is working on */
+  get current(): WorkerRequest {
+    return this.posted[this.posted.length - 1];
+  }
+
+  reply(data: unknown): void {
+    this.onmessage?.({ data } as MessageEvent);
+  }
+
+  finish(result: unknown): void {
+    this.reply({ id: this.current.id, type: 'result', result });
+  }
+
+  crash(message: string): void {
+    this.onerror?.({ message, preventDefault: () => {} } as ErrorEvent);
+  }
+}
+
+function fakePool(size: number) {
+  const workers: FakeWorker[] = [];
+  const pool = new WorkerPool(() => {
+    const worker = new FakeWorker();
+    workers.push(worker);
+    return worker as unknown as Worker;
+  }, size);
+  return { pool, workers };
+}
+
+const columns = { depth: new Float64Array(0), curves: {} };
+const analyze = (pool: WorkerPool, options?: Parameters<WorkerPool['run']>[2]) =>
+  pool.run('analyze', { columns, curves: [] }, options);
+
+describe('WorkerPool', () => {
+  it('should start workers only up to its size and run waiting tasks in order', async () => {
+    const { pool, workers } = fakePool(1);
+    const first = analyze(pool);
+    const second = analyze(pool);
+    const third = analyze(pool);
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0].posted).toHaveLength(1);
+
+    workers[0].finish('a');
+    await expect(first).resolves.toBe('a');
+    workers[0].finish('b');
+    await expect(second).resolves.toBe('b');
+    workers[0].finish('c');
+    await expect(third).resolves.toBe('c');
+
+    expect(workers).toHaveLength(1);
+    expect(workers[0].posted.map(request => request.id)).toEqual(['task-1', 'task-2', 'task-3']);
+  });
+
+  it('should report progress and reject with the worker\'s error', async () => {
+    const { pool, workers } = fakePool(1);
+    const onProgress = vi.fn();
+    const task = analyze(pool, { onProgress });
+
+    workers[0].reply({ id: workers[0].current.id, type: 'progress', progress: 40, step: 'Despiking' });
+    workers[0].reply({ id: 'someone-else', type: 'result', result: 'stale' });
+    workers[0].reply({ id: workers[0].current.id, type: 'error', error: 'Bad curve' });
+
+    await expect(task).rejects.toThrow('Bad curve');
+    expect(onProgress).toHaveBeenCalledWith({ progress: 40, step: 'Despiking' });
+    expect(workers[0].terminated).toBe(false);
+  });
+
+  it('should drop a cancelled waiting task without touching the running one', async () => {
+    const { pool, workers } = fakePool(1);
+    const controller = new AbortController();
+    const running = analyze(pool);
+    const waiting = analyze(pool, { signal: controller.signal });
+    const next = analyze(pool);
+
+    controller.abort();
+    await expect(waiting).rejects.toBeInstanceOf(WorkerTaskCancelledError);
+    expect(workers[0].terminated).toBe(false);
+
+    workers[0].finish('a');
+    await expect(running).resolves.toBe('a');
+    expect(workers[0].current.id).toBe('task-3');
+    workers[0].finish('c');
+    await expect(next).resolves.toBe('c');
+  });
+
+  it('should terminate the worker of a cancelled running task and run the next on a new one', async () => {
+    const { pool, workers } = fakePool(1);
+    const controller = new AbortController();
+    const running = analyze(pool, { signal: controller.signal });
+    const waiting = analyze(pool);
+
+    controller.abort();
+    await expect(running).rejects.toMatchObject({ name: 'AbortError' });
+    expect(workers[0].terminated).toBe(true);
+    expect(workers).toHaveLength(2);
+    expect(workers[1].current.id).toBe('task-2');
+
+    workers[1].finish('b');
+    await expect(waiting).resolves.toBe('b');
+  });
+
+  it('should reject a task whose signal is already aborted without starting a worker', async () => {
+    const { pool, workers } = fakePool(1);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(analyze(pool, { signal: controller.signal })).rejects.toBeInstanceOf(WorkerTaskCancelledError);
+    expect(workers).toHaveLength(0);
+  });
+
+  it('should replace a worker that fails and carry on with waiting tasks', async () => {
+    const { pool, workers } = fakePool(1);
+    const failed = analyze(pool);
+    const waiting = analyze(pool);
+
+    workers[0].crash('Out of memory');
+    await expect(failed).rejects.toThrow('Out of memory');
+    expect(workers[0].terminated).toBe(true);
+    expect(workers).toHaveLength(2);
+
+    workers[1].finish('b');
+    await expect(waiting).resolves.toBe('b');
+  });
+
+  it('should fail running and waiting tasks when terminated', async () => {
+    const { pool, workers } = fakePool(1);
+    const running = analyze(pool);
+    const waiting = analyze(pool);
+
+    pool.terminate();
+    await expect(running).rejects.toBeInstanceOf(WorkerTaskCancelledError);
+    await expect(waiting).rejects.toBeInstanceOf(WorkerTaskCancelledError);
+    expect(workers[0].terminated).toBe(true);
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * POLISH Worker Pool
+ *
+ * Runs parsing, processing and analysis tasks on a small pool of LAS
+ * workers so the UI stays responsive. Workers start on first use; tasks
+ * beyond the pool size wait in order. Cancelling a waiting task drops it,
+ * and cancelling a running one terminates its worker.
+ */
+
+import { WorkerProgress, WorkerRequest, WorkerResponse, WorkerTasks, WorkerTaskType } from '../workers/protocol';
+
+/**
+ * Raised when a task is cancelled through its AbortSignal
+ */
+export class WorkerTaskCancelledError extends Error {
+  constructor() {
+    super('Task cancelled');
+    this.name = 'AbortError';
+  }
+}
+
+export interface WorkerTaskOptions {
+  /** Buffers handed to the worker rather than copied */
+  transfer?: Transferable[];
+  signal?: AbortSignal;
+  onProgress?: (progress: WorkerProgress) => void;
+}
+
+interface PoolTask {
+  request: WorkerRequest;
+  options: WorkerTaskOptions;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  task?: PoolTask;
+}
+
+export class WorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: PoolTask[] = [];
+  private nextId = 0;
+
+  constructor(private createWorker: () => Worker, private size: number) {}
+
+  /**
+   * Run a task on the next free worker
+   */
+  run<K extends WorkerTaskType>(
+    type: K,
+    payload: WorkerTasks[K]['request'],
+    options: WorkerTaskOptions = {}
+  ): Promise<WorkerTasks[K]['response']> {
+    return new Promise((resolve, reject) => {
+      if (options.signal?.aborted) {
+        reject(new WorkerTaskCancelledError());
+        return;
+      }
+
+      const task: PoolTask = {
+        request: { id: `task-${++this.nextId}`, type, payload } as WorkerRequest,
+        options,
+        resolve: result => resolve(result as WorkerTasks[K]['response']),
+        reject
+      };
+      options.signal?.addEventListener('abort', () => this.cancel(task), { once: true });
+
+      this.queue.push(task);
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop every worker, failing their tasks and any waiting ones
+   */
+  terminate(): void {
+    for (const task of this.queue.splice(0)) {
+      task.reject(new WorkerTaskCancelledError());
+    }
+    for (const poolWorker of this.workers.splice(0)) {
+      poolWorker.worker.terminate();
+      poolWorker.task?.reject(new WorkerTaskCancelledError());
+    }
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const poolWorker = this.workers.find(w => !w.task) ||
+        (this.workers.length < this.size ? this.spawn() : undefined);
+      if (!poolWorker) return;
+
+      const task = this.queue.shift()!;
+      poolWorker.task = task;
+      poolWorker.worker.postMessage(task.request, task.options.transfer || []);
+    }
+  }
+
+  private spawn(): PoolWorker {
+    const poolWorker: PoolWorker = { worker: this.createWorker() };
+
+    poolWorker.worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+      const task = poolWorker.task;
+      const message = event.data;
+      if (!task || message.id !== task.request.id) return;
+
+      if (message.type === 'progress') {
+        task.options.onProgress?.({ progress: message.progress, step: message.step });
+        return;
+      }
+
+      poolWorker.task = undefined;
+      if (message.type === 'result') {
+        task.resolve(message.result);
+      } else {
+        task.reject(new Error(message.error));
+      }
+      this.dispatch();
+    };
+
+    // A worker that fails outside a task's own error handling is replaced
+    poolWorker.worker.onerror = event => {
+      event.preventDefault();
+      this.remove(poolWorker);
+      poolWorker.task?.reject(new Error(event.message || 'Worker failed'));
+      this.dispatch();
+    };
+
+    this.workers.push(poolWorker);
+    return poolWorker;
+  }
+
+  private cancel(task: PoolTask): void {
+    const queued = this.queue.indexOf(task);
+    if (queued !== -1) {
+      this.queue.splice(queued, 1);
+      task.reject(new WorkerTaskCancelledError());
+      return;
+    }
+
+    const poolWorker = this.workers.find(w => w.task === task);
+    if (poolWorker) {
+      this.remove(poolWorker);
+      task.reject(new WorkerTaskCancelledError());
+      this.dispatch();
+    }
+  }
+
+  private remove(poolWorker: PoolWorker): void {
+    poolWorker.worker.terminate();
+    this.workers = this.workers.filter(w => w !== poolWorker);
+  }
+}
+
+// Leave a core for the UI thread
+const poolSize = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1));
+
+export const workerPool = new WorkerPool(
+  () => new Worker(new URL('../workers/lasWorker.ts', import.meta.url), { type: 'module' }),
+  poolSize
+);
@@ -1,6 +1,29 @@
 import { create } from 'zustand';
-import { LASFile, ProcessingOptions, VisualizationSettings, TrackConfiguration, ExportOptions, ConversionJob, AnonymousSession } from '../types';
+import { LASFile, ProcessingOptions, VisualizationSettings, TrackConfiguration, ExportOptions, ConversionJob, AnonymousSession, GeologicalContext, LASCurve, ProcessingStepName, QCResults } from '../types';
 import SessionManager from '../utils/sessionManager';
+import { workerPool } from '../services/workerPool';
+import { columnBuffers, fromColumns, toColumns } from '../workers/protocol';
+import type { WellLog } from '../../shared/src';
+
+interface LocalProcessingResult {
+  log: WellLog;
+  curves: LASCurve[];
+  qcResults: QCResults;
+  geologicalAnalysis: GeologicalContext;
+}
+
+// Controllers for the worker tasks cancelLocalWork stops
+const localWork = new Set<AbortController>();
+
+const runLocalWork = async <T>(run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+  const controller = new AbortController();
+  localWork.add(controller);
+  try {
+    return await run(controller.signal);
+  } finally {
+    localWork.delete(controller);
+  }
+};
 
 interface AppState {
   files: LASFile[];
@@ -9,6 +32,7 @@ interface AppState {
   visualizationSettings: VisualizationSettings;
   isProcessing: boolean;
   processingProgress: number;
+  processingStep: string | null;
   selectedCurves: string[];
   session: AnonymousSession | null;
   showPaymentModal: boolean;
@@ -20,6 +44,7 @@ interface AppState {
   showVisualizationSettingsModal: boolean;
   conversionJobs: ConversionJob[];
   exportPreview: any;
+  fileLoadProgress: number | null;
   
   // Actions
   addFile: (file: LASFile) => void;
@@ -29,6 +54,7 @@ interface AppState {
   updateVisualizationSettings: (settings: Partial<VisualizationSettings>) => void;
   setProcessing: (status: boolean) => void;
   setProcessingProgress: (progress: number) => void;
+  setProcessingStep: (step: string | null) => void;
   updateFile: (id: string, updates: Partial<LASFile>) => void;
   toggleCurveVisibility: (mnemonic: string) => void;
   updateTrackConfiguration: (trackId: number, config: Partial<TrackConfiguration>) => void;
@@ -45,6 +71,12 @@ interface AppState {
   updateConversionJob: (id: string, updates: Partial<ConversionJob>) => void;
   setExportPreview: (preview: any) => void;
   initializeSession: () => void;
+
+  // Client-side work, run in the worker pool
+  loadLASFile: (file: File) => Promise<LASFile>;
+  processFileLocally: (file: LASFile, options: ProcessingOptions, stepOrder: ProcessingStepName[]) => Promise<LocalProcessingResult>;
+  analyzeGeology: (file: LASFile, signal?: AbortSignal) => Promise<GeologicalContext>;
+  cancelLocalWork: () => void;
 }
 
 const defaultTracks: TrackConfiguration[] = [
@@ -100,6 +132,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   activeFile: null,
   isProcessing: false,
   processingProgress: 0,
+  processingStep: null,
   selectedCurves: [],
   session: null,
   showPaymentModal: false,
@@ -111,6 +144,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   showVisualizationSettingsModal: false,
   conversionJobs: [],
   exportPreview: null,
+  fileLoadProgress: null,
   
   visualizationSettings: {
     tracks: defaultTracks,
@@ -158,10 +192,31 @@ export const useAppStore = create<AppState>((set, get) => ({
       preserveOriginal: true
     },
     depthAlignment: {
-      enabled: true,
+      enabled: false,
       referenceDepth: 0,
       shiftTolerance: 0.5,
       autoCorrect: false
+    },
+    gapFill: {
+      enabled: false,
+      maxGapLength: 10,
+      maxInterpolationLength: 2,
+      interpolationMethod: 'pchip',
+      regression: true
+    },
+    baselineCorrection: {
+      enabled: false,
+      method: 'als',
+      polynomialOrder: 2,
+      lambda: 1e5,
+      asymmetry: 0.01,
+      span: 0.3
+    },
+    environmentalCorrection: {
+      enabled: false,
+      gammaRay: true,
+      neutron: true,
+      densityValidation: true
     }
   },
 
@@ -169,7 +224,7 @@ export const useAppStore = create<AppState>((set, get) => ({
     // Store original data for before/after comparison
     const fileWithOriginal = {
       ...file,
-      originalData: [...file.data], // Store original data
+      originalLog: file.log, // Store original data
       displayOriginalData: false // Flag to control which data to display
     };
     
@@ -208,6 +263,7 @@ export const useAppStore = create<AppState>((set, get) => ({
   setProcessing: (status) => set({ isProcessing: status }),
   
   setProcessingProgress: (progress) => set({ processingProgress: progress }),
+  setProcessingStep: (step) => set({ processingStep: step }),
   
   updateFile: (id, updates) => set((state) => {
     const updatedFiles = state.files.map(f => {
@@ -216,10 +272,10 @@ export const useAppStore = create<AppState>((set, get) => ({
         
         // If processing is complete, store the processed data separately
         if (updates.processed && updates.qcResults) {
-          updatedFile.processedData = updatedFile.data;
+          updatedFile.processedLog = updates.processedLog ?? updatedFile.log;
           // Keep original data intact
-          if (!updatedFile.originalData) {
-            updatedFile.originalData = [...f.data];
+          if (!updatedFile.originalLog) {
+            updatedFile.originalLog = f.log;
           }
         }
         
@@ -295,5 +351,55 @@ export const useAppStore = create<AppState>((set, get) => ({
   initializeSession: () => {
     const sessionManager = SessionManager.getInstance();
     set({ session: sessionManager.getSessionData() });
+  },
+
+  loadLASFile: (file) => runLocalWork(async (signal) => {
+    set({ fileLoadProgress: 0 });
+    try {
+      const bytes = await file.arrayBuffer();
+      const { file: parsed, columns } = await workerPool.run('parse', { bytes, fileName: file.name }, {
+        transfer: [bytes],
+        signal,
+        onProgress: ({ progress }) => set({ fileLoadProgress: progress })
+      });
+      return { ...parsed, log: fromColumns(columns) };
+    } finally {
+      set({ fileLoadProgress: null });
+    }
+  }),
+
+  processFileLocally: (file, options, stepOrder) => runLocalWork(async (signal) => {
+    const columns = toColumns(file.log);
+    const result = await workerPool.run('process', {
+      columns,
+      curves: file.curves,
+      parameters: file.parameters,
+      options,
+      stepOrder
+    }, {
+      transfer: columnBuffers(columns),
+      signal,
+      onProgress: ({ progress, step }) => set({ processingProgress: progress, processingStep: step })
+    });
+    return {
+      log: fromColumns(result.columns),
+      curves: result.curves,
+      qcResults: result.qcResults,
+      geologicalAnalysis: result.geologicalAnalysis
+    };
+  }),
+
+  analyzeGeology: (file, signal) => {
+    const columns = toColumns(file.log);
+    return workerPool.run('analyze', { columns, curves: file.curves }, {
+      transfer: columnBuffers(columns),
+      signal
+    });
+  },
+
+  cancelLocalWork: () => {
+    for (const controller of localWork) {
+      controller.abort();
+    }
   }
 }));
\ No newline at end of file
@@ -1,75 +1,45 @@
 import { ALVAROMetrics, ALVAROCertificate } from '../utils/alvaroStandard';
+import type {
+  BadHoleInterval,
+  BaselineCorrectionOptions,
+  CurveOverride,
+  DenoiseOptions,
+  DepthAlignmentOptions,
+  DepthZone,
+  DespikeOptions,
+  EnvironmentalCorrectionOptions,
+  GapFillOptions,
+  ResampleOptions,
+  SpikeConsensusOptions,
+  WellLog,
+  LASFile as ParsedLASFile
+} from '../../shared/src';
 
-export interface LASFile {
-  id: string;
-  name: string;
-  size: number;
-  uploadedAt: Date;
-  processed: boolean;
-  version: string;
-  header: LASHeader;
-  curves: LASCurve[];
-  data: LASData[];
-  originalData?: LASData[]; // Store original data for before/after comparison
-  processedData?: LASData[]; // Store processed data separately
+export type {
+  CurveOverride,
+  DepthZone,
+  LASCurve,
+  LASData,
+  LASDataSet,
+  LASDelimiter,
+  LASHeader,
+  LASHeaderItem
+} from '../../shared/src';
+
+export interface LASFile extends ParsedLASFile {
+  originalLog?: WellLog; // Store original data for before/after comparison
+  processedLog?: WellLog; // Store processed data separately
   displayOriginalData?: boolean; // Flag to control which data to display
   qcResults?: QCResults;
   processingHistory?: ProcessingStep[];
   exportStatus?: 'free' | 'premium' | 'exported';
-  qualityScore?: number;
+  serverFileId?: string; // Id of the copy uploaded for server-side processing
   // ALVARO Standard properties
   alvaroMetrics?: ALVAROMetrics;
   alvaroCertificate?: ALVAROCertificate;
   originalALVAROMetrics?: ALVAROMetrics;
 }
 
-export interface LASHeader {
-  version: string;
-  wrap: boolean;
-  startDepth: number;
-  stopDepth: number;
-  step: number;
-  nullValue: number;
-  company: string;
-  well: string;
-  field: string;
-  location: string;
-  date: string;
-  uwi: string;
-  serviceCompany?: string;
-  logDate?: string;
-  elevation?: number;
-}
-
-export interface LASCurve {
-  mnemonic: string;
-  unit: string;
-  description: string;
-  standardMnemonic?: string;
-  dataType: 'depth' | 'log' | 'computed';
-  curveType: 'gamma_ray' | 'resistivity' | 'porosity' | 'caliper' | 'sp' | 'drilling' | 'custom';
-  track: number;
-  color: string;
-  scale: 'linear' | 'logarithmic';
-  minValue?: number;
-  maxValue?: number;
-  visible: boolean;
-  statistics?: {
-    min: number;
-    max: number;
-    mean: number;
-    std: number;
-    nullCount: number;
-    outliers: number;
-    qualityScore: number;
-  };
-}
-
-export interface LASData {
-  depth: number;
-  [key: string]: number;
-}
-
 export interface QCResults {
   totalPoints: number;
   nullPoints: number;
@@ -90,6 +60,8 @@ export interface QCResults {
     warnings: string[];
   };
   recommendations: QCRecommendation[];
+  // Washed out or poor pad contact intervals; absent when there was no caliper or DRHO to judge by
+  badHole?: BadHoleInterval[];
 }
 
 export interface CurveQuality {
@@ -115,6 +87,7 @@ export interface ProcessingStep {
   parameters: Record<string, any>;
   curvesAffected: string[];
   description: string;
+  recipe?: RecipeReference;
 }
 
 export interface ProcessingOptions {
@@ -123,9 +96,16 @@ export interface ProcessingOptions {
     method: 'savitzky_golay' | 'wavelet' | 'moving_average' | 'gaussian';
     windowSize: number;
     polynomialOrder?: number;
-    waveletType?: string;
+    waveletType?: DenoiseOptions['waveletType'];
+    waveletLevel?: number;
+    waveletTransform?: DenoiseOptions['waveletTransform'];
+    thresholdMode?: DenoiseOptions['thresholdMode'];
+    thresholdRule?: DenoiseOptions['thresholdRule'];
+    boundaryMode?: DenoiseOptions['boundaryMode'];
     strength: number;
     preserveSpikes: boolean;
+    overrides?: CurveOverride<DenoiseOptions>[];
+    zones?: DepthZone<DenoiseOptions>[];
   };
   despike: {
     enabled: boolean;
@@ -134,6 +114,9 @@ export interface ProcessingOptions {
     windowSize: number;
     replacementMethod: 'pchip' | 'linear' | 'median' | 'null';
     manualSpikes?: Array<{ depth: number; curve: string }>;
+    overrides?: CurveOverride<DespikeOptions>[];
+    zones?: DepthZone<DespikeOptions>[];
+    consensus?: SpikeConsensusOptions;
   };
   validation: {
     enabled: boolean;
@@ -148,14 +131,41 @@ export interface ProcessingOptions {
     customMappings: Record<string, string>;
     preserveOriginal: boolean;
   };
-  depthAlignment: {
-    enabled: boolean;
-    referenceDepth: number;
-    shiftTolerance: number;
-    autoCorrect: boolean;
-  };
+  depthAlignment: DepthAlignmentOptions;
+  gapFill: GapFillOptions;
+  baselineCorrection: BaselineCorrectionOptions;
+  environmentalCorrection: EnvironmentalCorrectionOptions;
+  // Regrid to a regular depth step; runs on the server
+  resample?: ResampleOptions;
+  // Order the data processing steps run in, each on the previous step's output
+  stepOrder?: ProcessingStepName[];
+}
+
+// A stored, versioned set of processing options
+export interface ProcessingRecipe {
+  id: string;
+  name: string;
+  description?: string;
+  version: number;
+  options: ProcessingOptions;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface RecipeReference {
+  id: string;
+  version: number;
 }
 
+export type ProcessingStepName =
+  | 'denoise'
+  | 'despike'
+  | 'depthAlignment'
+  | 'gapFill'
+  | 'baselineCorrection'
+  | 'environmentalCorrection'
+  | 'resample';
+
 export interface TrackConfiguration {
   id: number;
   name: string;
@@ -5,6 +5,8 @@
  * This module implements the ALVARO quality assessment framework for LAS files.
  */
 
+import { BadHoleResult, badHoleWeights, detectBadHole, LASHeaderItem, WellLog } from '../../shared/src';
+
 export interface ALVAROMetrics {
   completenessIndex: number;
   noiseLevelAssessment: number;
@@ -53,21 +55,20 @@ export class ALVAROStandard {
   /**
    * Calculate Completeness Index (CI)
    * CI = (Valid Data Points / Total Expected Data Points) × 100
+   * Valid points of curves affected by bad hole count at their bad hole weight
    */
-  static calculateCompletenessIndex(data: any[], curves: any[]): number {
-    if (!data || data.length === 0 || !curves || curves.length === 0) {
+  static calculateCompletenessIndex(log: WellLog, curves: any[], badHole: BadHoleResult | null = null): number {
+    if (log.length === 0 || !curves || curves.length === 0) {
       return 0;
     }
 
-    const totalExpectedPoints = data.length * curves.length;
+    const totalExpectedPoints = log.length * curves.length;
     let validDataPoints = 0;
 
-    for (const dataPoint of data) {
-      for (const curve of curves) {
-        const value = dataPoint[curve.mnemonic];
-        if (value !== null && value !== undefined && !isNaN(value)) {
-          validDataPoints++;
-        }
+    for (const curve of curves) {
+      const weights = badHoleWeights(badHole, curve.mnemonic);
+      for (let i = 0; i < log.length; i++) {
+        if (!log.isNull(curve.mnemonic, i)) validDataPoints += weights ? weights[i] : 1;
       }
     }
 
@@ -78,8 +79,8 @@ export class ALVAROStandard {
    * Calculate Noise Level Assessment (NLA)
    * NLA = 20 × log₁₀(Signal_RMS / Noise_RMS)
    */
-  static calculateNoiseLevelAssessment(data: any[], curves: any[]): number {
-    if (!data || data.length === 0 || !curves || curves.length === 0) {
+  static calculateNoiseLevelAssessment(log: WellLog, curves: any[]): number {
+    if (log.length === 0 || !curves || curves.length === 0) {
       return 0;
     }
 
@@ -87,9 +88,7 @@ export class ALVAROStandard {
     let validCurves = 0;
 
     for (const curve of curves) {
-      const values = data
-        .map(d => d[curve.mnemonic])
-        .filter(v => v !== null && v !== undefined && !isNaN(v));
+      const values = log.getValidValues(curve.mnemonic);
 
       if (values.length > 10) {
         // Calculate signal RMS (overall trend)
@@ -120,10 +119,11 @@ export class ALVAROStandard {
 
   /**
    * Calculate Physical Consistency Score (PCS)
-   * Validates data against industry-standard ranges
+   * Validates data against industry-standard ranges; in-range points of
+   * curves affected by bad hole count at their bad hole weight
    */
-  static calculatePhysicalConsistencyScore(data: any[], curves: any[]): number {
-    if (!data || data.length === 0 || !curves || curves.length === 0) {
+  static calculatePhysicalConsistencyScore(log: WellLog, curves: any[], badHole: BadHoleResult | null = null): number {
+    if (log.length === 0 || !curves || curves.length === 0) {
       return 0;
     }
 
@@ -141,15 +141,15 @@ export class ALVAROStandard {
     for (const curve of curves) {
       const range = physicalRanges[curve.mnemonic as keyof typeof physicalRanges];
       if (range) {
-        for (const dataPoint of data) {
-          const value = dataPoint[curve.mnemonic];
-          if (value !== null && value !== undefined && !isNaN(value)) {
+        const weights = badHoleWeights(badHole, curve.mnemonic);
+        log.getValues(curve.mnemonic).forEach((value, i) => {
+          if (!isNaN(value)) {
             totalPoints++;
             if (value >= range.min && value <= range.max) {
-              validPoints++;
+              validPoints += weights ? weights[i] : 1;
             }
           }
-        }
+        });
       }
     }
 
@@ -160,12 +160,12 @@ export class ALVAROStandard {
    * Calculate Depth Integrity Index (DII)
    * Assessment of depth interval consistency
    */
-  static calculateDepthIntegrityIndex(data: any[]): number {
-    if (!data || data.length < 2) {
+  static calculateDepthIntegrityIndex(log: WellLog): number {
+    if (log.length < 2) {
       return 0;
     }
 
-    const depths = data.map(d => d.depth).filter(d => d !== null && d !== undefined && !isNaN(d));
+    const depths = log.depth.filter(d => !isNaN(d));
     if (depths.length < 2) {
       return 0;
     }
@@ -194,8 +194,8 @@ export class ALVAROStandard {
    * Calculate Cross-Curve Correlation Factor (CCCF)
    * Statistical consistency between curves
    */
-  static calculateCrossCurveCorrelationFactor(data: any[], curves: any[]): number {
-    if (!data || data.length === 0 || !curves || curves.length < 2) {
+  static calculateCrossCurveCorrelationFactor(log: WellLog, curves: any[]): number {
+    if (log.length === 0 || !curves || curves.length < 2) {
       return 0;
     }
 
@@ -216,8 +216,8 @@ export class ALVAROStandard {
         const expectedCorr = expectedCorrelations[key as keyof typeof expectedCorrelations] || 
                            expectedCorrelations[reverseKey as keyof typeof expectedCorrelations] || 0;
 
-        const values1 = data.map(d => d[curve1.mnemonic]).filter(v => v !== null && v !== undefined && !isNaN(v));
-        const values2 = data.map(d => d[curve2.mnemonic]).filter(v => v !== null && v !== undefined && !isNaN(v));
+        const values1 = log.getValidValues(curve1.mnemonic);
+        const values2 = log.getValidValues(curve2.mnemonic);
 
         if (values1.length > 10 && values2.length > 10) {
           const correlation = this.calculatePearsonCorrelation(values1, values2);
@@ -392,14 +392,21 @@ export class ALVAROStandard {
   }
 
   /**
-   * Calculate comprehensive ALVARO metrics for a LAS file
+   * Calculate comprehensive ALVARO metrics for a LAS file. `parameters` is
+   * the file's ~Parameter section, whose bit size bad hole detection reads.
    */
-  static calculateALVAROMetrics(data: any[], curves: any[], processingSteps: ProcessingStep[] = []): ALVAROMetrics {
-    const completenessIndex = this.calculateCompletenessIndex(data, curves);
-    const noiseLevelAssessment = this.calculateNoiseLevelAssessment(data, curves);
-    const physicalConsistencyScore = this.calculatePhysicalConsistencyScore(data, curves);
-    const depthIntegrityIndex = this.calculateDepthIntegrityIndex(data);
-    const crossCurveCorrelationFactor = this.calculateCrossCurveCorrelationFactor(data, curves);
+  static calculateALVAROMetrics(
+    log: WellLog,
+    curves: any[],
+    processingSteps: ProcessingStep[] = [],
+    parameters?: LASHeaderItem[]
+  ): ALVAROMetrics {
+    const badHole = detectBadHole({ curves, log, parameters });
+    const completenessIndex = this.calculateCompletenessIndex(log, curves, badHole);
+    const noiseLevelAssessment = this.calculateNoiseLevelAssessment(log, curves);
+    const physicalConsistencyScore = this.calculatePhysicalConsistencyScore(log, curves, badHole);
+    const depthIntegrityIndex = this.calculateDepthIntegrityIndex(log);
+    const crossCurveCorrelationFactor = this.calculateCrossCurveCorrelationFactor(log, curves);
     const uncertaintyBounds = this.calculateUncertaintyBounds(processingSteps);
 
     const metrics: ALVAROMetrics = {
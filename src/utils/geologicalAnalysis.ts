@@ -5,6 +5,8 @@
  * processing parameters for enhanced petrophysical data analysis.
  */
 
+import { WellLog } from '../../shared/src';
+
 export interface LithologyResult {
   type: 'shale' | 'sandstone' | 'limestone' | 'dolomite' | 'unknown';
   confidence: number;
@@ -41,6 +43,10 @@ export interface ValidationFlag {
   depth?: number;
 }
 
+// Non-null samples of a curve used for analysis, none when the log lacks it
+const validValues = (log: WellLog, mnemonic: string): number[] =>
+  log.hasCurve(mnemonic) ? log.getValidValues(mnemonic) : [];
+
 // Formation-specific processing parameters
 export const FORMATION_PARAMS = {
   shale: {
@@ -166,8 +172,8 @@ export const FORMATION_PARAMS = {
 /**
  * Infer lithology from petrophysical curves using standard relationships
  */
-export function inferLithology(data: any[], curves: any[]): LithologyResult {
-  if (!data || data.length === 0) {
+export function inferLithology(log: WellLog, curves: any[]): LithologyResult {
+  if (log.length === 0) {
     return {
       type: 'unknown',
       confidence: 0,
@@ -176,11 +182,11 @@ export function inferLithology(data: any[], curves: any[]): LithologyResult {
   }
 
   // Extract curve data
-  const grData = extractCurveData(data, 'GR');
-  const nphiData = extractCurveData(data, 'NPHI');
-  const rhobData = extractCurveData(data, 'RHOB');
-  const pefData = extractCurveData(data, 'PEF');
-  const rtData = extractCurveData(data, 'RT');
+  const grData = validValues(log, 'GR');
+  const nphiData = validValues(log, 'NPHI');
+  const rhobData = validValues(log, 'RHOB');
+  const pefData = validValues(log, 'PEF');
+  const rtData = validValues(log, 'RT');
 
   // Calculate statistical measures
   const grMean = calculateMean(grData);
@@ -303,14 +309,14 @@ export function inferLithology(data: any[], curves: any[]): LithologyResult {
 /**
  * Perform comprehensive geological analysis
  */
-export function performGeologicalAnalysis(data: any[], curves: any[]): GeologicalContext {
-  const dominantLithology = inferLithology(data, curves);
+export function performGeologicalAnalysis(log: WellLog, curves: any[]): GeologicalContext {
+  const dominantLithology = inferLithology(log, curves);
   
   // Generate alternative lithologies
   const alternativeLithologies: LithologyResult[] = [];
   
   // Cross-curve validation
-  const crossCurveValidation = performCrossCurveValidation(data, curves, dominantLithology);
+  const crossCurveValidation = performCrossCurveValidation(log, curves, dominantLithology);
   
   // Formation quality assessment
   const formationQuality = assessFormationQuality(dominantLithology, crossCurveValidation);
@@ -339,18 +345,18 @@ export function performGeologicalAnalysis(data: any[], curves: any[]): Geologica
  * Perform cross-curve validation for geological consistency
  */
 export function performCrossCurveValidation(
-  data: any[], 
+  log: WellLog,
   curves: any[], 
   lithology: LithologyResult
 ): CrossCurveValidation {
   const flags: ValidationFlag[] = [];
   
   // Extract curve data
-  const grData = extractCurveData(data, 'GR');
-  const nphiData = extractCurveData(data, 'NPHI');
-  const rhobData = extractCurveData(data, 'RHOB');
-  const pefData = extractCurveData(data, 'PEF');
-  const rtData = extractCurveData(data, 'RT');
+  const grData = validValues(log, 'GR');
+  const nphiData = validValues(log, 'NPHI');
+  const rhobData = validValues(log, 'RHOB');
+  const pefData = validValues(log, 'PEF');
+  const rtData = validValues(log, 'RT');
 
   // Neutron-Density consistency
   let neutronDensityConsistency = 100;
@@ -434,12 +440,6 @@ export function performCrossCurveValidation(
 }
 
 // Helper functions
-function extractCurveData(data: any[], curveName: string): number[] {
-  return data
-    .map(d => d[curveName])
-    .filter(v => v !== null && v !== undefined && !isNaN(v));
-}
-
 function calculateMean(values: number[]): number {
   if (values.length === 0) return 0;
   return values.reduce((sum, val) => sum + val, 0) / values.length;
@@ -0,0 +1,25 @@
+/**
+ * POLISH Log Rows
+ *
+ * Files keep their curve data as a WellLog. Charts and exports take rows,
+ * so each log is converted once, when first drawn or exported, and the rows
+ * are reused for as long as the log lives. Stored logs are never changed in
+ * place; updates replace them, so the cached rows stay current.
+ */
+
+import { WellLog } from '../../shared/src';
+import { LASData } from '../types';
+
+const rowsByLog = new WeakMap<WellLog, LASData[]>();
+
+/**
+ * A log's samples as rows, null where a sample is missing
+ */
+export function logRows(log: WellLog): LASData[] {
+  let rows = rowsByLog.get(log);
+  if (!rows) {
+    rows = log.toLASData();
+    rowsByLog.set(log, rows);
+  }
+  return rows;
+}
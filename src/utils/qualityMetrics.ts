@@ -0,0 +1,110 @@
+/**
+ * POLISH Quality Metrics
+ *
+ * QC results for data processed in the browser, comparing the processed
+ * curves with the originals in the light of the geological analysis.
+ * Valid samples of curves affected by bad hole count only partly towards
+ * completeness.
+ */
+
+import { badHoleRecommendations, BadHoleResult, badHoleWeights, WellLog } from '../../shared/src';
+import { CurveQuality, GeologicalContext, LASCurve, QCResults } from '../types';
+
+export function calculateQualityMetrics(
+  original: WellLog,
+  processed: WellLog,
+  curves: LASCurve[],
+  geologicalAnalysis: GeologicalContext,
+  badHole: BadHoleResult | null = null
+): QCResults {
+  const totalPoints = original.length;
+  const logCurves = curves.filter(c => c.dataType === 'log');
+  let nullPoints = 0;
+  let noiseLevel = 0;
+
+  // Calculate null points
+  for (const curve of logCurves) {
+    nullPoints += original.nullCount(curve.mnemonic);
+  }
+
+  // How much bad hole discounts each curve's valid samples
+  const badHoleDiscount: Record<string, number> = {};
+  for (const curve of logCurves) {
+    const weights = badHoleWeights(badHole, curve.mnemonic);
+    if (weights) {
+      badHoleDiscount[curve.mnemonic] = weights.reduce(
+        (sum, w, i) => sum + (original.isNull(curve.mnemonic, i) ? 0 : 1 - w),
+        0
+      );
+    }
+  }
+  const badHolePoints = Object.values(badHoleDiscount).reduce((sum, d) => sum + d, 0);
+
+  // Calculate noise level (simplified)
+  for (const curve of logCurves) {
+    const originalValues = original.getValidValues(curve.mnemonic);
+    const processedValues = processed.getValidValues(curve.mnemonic);
+
+    if (originalValues.length > 0 && processedValues.length > 0) {
+      const variance = originalValues.reduce((sum, val, i) => {
+        const diff = val - (processedValues[i] || val);
+        return sum + diff * diff;
+      }, 0) / originalValues.length;
+
+      noiseLevel += Math.sqrt(variance);
+    }
+  }
+
+  noiseLevel = noiseLevel / logCurves.length;
+
+  // Calculate quality score
+  const completeness = (totalPoints - nullPoints - badHolePoints) / totalPoints;
+  const qualityScore = Math.max(0, Math.min(100,
+    completeness * 40 +
+    (1 - noiseLevel) * 30 +
+    geologicalAnalysis.geologicalConsistency * 30
+  ));
+
+  const curveQuality: Record<string, CurveQuality> = {};
+  for (const curve of logCurves) {
+    const validPoints = totalPoints - original.nullCount(curve.mnemonic);
+    const curveCompleteness = (validPoints - (badHoleDiscount[curve.mnemonic] || 0)) / totalPoints;
+
+    curveQuality[curve.mnemonic] = {
+      completeness: curveCompleteness * 100,
+      noiseLevel: noiseLevel * 100,
+      spikes: 0,
+      physicallyValid: true,
+      qualityGrade: curveCompleteness > 0.9 ? 'A' : curveCompleteness > 0.8 ? 'B' : 'C',
+      issues: (badHole?.intervals || [])
+        .filter(interval => interval.curves.includes(curve.mnemonic))
+        .map(interval => `Bad hole from ${interval.top} to ${interval.bottom}`)
+    };
+  }
+
+  return {
+    totalPoints,
+    nullPoints,
+    spikesDetected: 0,
+    noiseLevel,
+    depthConsistency: true,
+    overallQualityScore: qualityScore,
+    geologicalContext: geologicalAnalysis,
+    curveQuality,
+    mnemonicStandardization: {
+      standardized: curves.length - 1,
+      nonStandard: [],
+      mappings: {}
+    },
+    physicalValidation: {
+      passed: curves.length - 1,
+      failed: 0,
+      warnings: []
+    },
+    recommendations: [
+      ...geologicalAnalysis.recommendations.map(message => ({ type: 'info' as const, message })),
+      ...badHoleRecommendations(badHole)
+    ],
+    badHole: badHole?.intervals
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * POLISH LAS Worker
+ *
+ * Parses, processes and analyzes LAS data off the main thread. Each request
+ * runs to completion; the pool cancels a running task by terminating the
+ * worker.
+ */
+
+import {
+  BAD_HOLE_CURVE,
+  badHoleFlagCurve,
+  CurveProgressCallback,
+  detectBadHole,
+  LASParser,
+  ProcessingAlgorithms,
+  WellLog
+} from '../../shared/src';
+import { performGeologicalAnalysis } from '../utils/geologicalAnalysis';
+import { calculateQualityMetrics } from '../utils/qualityMetrics';
+import { LASCurve, ProcessingStepName } from '../types';
+import {
+  columnBuffers,
+  fromColumns,
+  toColumns,
+  WorkerProgress,
+  WorkerRequest,
+  WorkerResponse,
+  WorkerTasks
+} from './protocol';
+
+type ProgressCallback = (progress: WorkerProgress) => void;
+
+const parser = new LASParser();
+const algorithms = new ProcessingAlgorithms();
+
+// The data processing steps that run in the browser
+type LocalStep = 'denoise' | 'despike' | 'depthAlignment' | 'gapFill' | 'baselineCorrection' | 'environmentalCorrection';
+
+const STEP_LABELS: Record<LocalStep, string> = {
+  despike: 'Spike detection',
+  depthAlignment: 'Depth matching',
+  gapFill: 'Gap filling',
+  baselineCorrection: 'Baseline correction',
+  denoise: 'Denoising',
+  environmentalCorrection: 'Environmental correction'
+};
+
+const isLocalStep = (name: ProcessingStepName): name is LocalStep => name in STEP_LABELS;
+
+// Steps that add curves, such as gap fill flags and corrected curves, pass them on with the data
+type StepData = { curves: LASCurve[]; log: WellLog };
+
+async function parse(
+  { bytes, fileName }: WorkerTasks['parse']['request'],
+  onProgress: ProgressCallback
+): Promise<WorkerTasks['parse']['response']> {
+  onProgress({ progress: 10, step: `Parsing ${fileName}` });
+  const result = await parser.parse(new Uint8Array(bytes), fileName);
+  if (!result.success || !result.data) {
+    throw new Error(`Could not read ${fileName}: ${result.error}`);
+  }
+
+  onProgress({ progress: 90, step: 'Preparing curves' });
+  const { log, ...file } = result.data;
+  return { file, columns: toColumns(log) };
+}
+
+async function processData(
+  { columns, curves, parameters, options, stepOrder }: WorkerTasks['process']['request'],
+  onProgress: ProgressCallback
+): Promise<WorkerTasks['process']['response']> {
+  const original = fromColumns(columns);
+
+  onProgress({ progress: 5, step: 'Analyzing geology' });
+  const geologicalAnalysis = performGeologicalAnalysis(original, curves);
+
+  // Same algorithms a server job runs; each step works on the previous step's output
+  const steps: Record<LocalStep, (input: StepData, onCurve: CurveProgressCallback) => Promise<StepData>> = {
+    denoise: async (input, onCurve) => {
+      const result = await algorithms.denoise(input, options.denoise, onCurve);
+      if (!result.success) throw new Error('Denoising failed');
+      return result.data;
+    },
+    despike: async (input, onCurve) => {
+      const result = await algorithms.despike(input, options.despike, onCurve);
+      if (!result.success) throw new Error('Despiking failed');
+      return result.data;
+    },
+    // Matches curves within this file; a reference run from another file needs the server
+    depthAlignment: async (input, onCurve) => {
+      const result = await algorithms.depthMatch(input, options.depthAlignment, onCurve);
+      if (!result.success) throw new Error(result.error || 'Depth matching failed');
+      return result.data;
+    },
+    gapFill: async (input, onCurve) => {
+      const result = await algorithms.fillGaps(input, options.gapFill, onCurve);
+      if (!result.success) throw new Error(result.error || 'Gap filling failed');
+      return result.data;
+    },
+    baselineCorrection: async (input, onCurve) => {
+      const result = await algorithms.baselineCorrection(input, options.baselineCorrection, onCurve);
+      if (!result.success) throw new Error(result.error || 'Baseline correction failed');
+      return result.data;
+    },
+    environmentalCorrection: async (input, onCurve) => {
+      const result = await algorithms.correctEnvironment({ ...input, parameters }, options.environmentalCorrection, onCurve);
+      if (!result.success) throw new Error(result.error || 'Environmental correction failed');
+      return { curves: result.data.curves, log: result.data.log };
+    }
+  };
+
+  const enabled = stepOrder.filter(isLocalStep).filter(name => options[name].enabled);
+  let processed: StepData = { curves, log: original };
+  for (const [index, name] of enabled.entries()) {
+    processed = await steps[name](processed, (curve, completed, total) => {
+      onProgress({
+        progress: 10 + Math.round(((index + completed / total) / enabled.length) * 80),
+        step: `${STEP_LABELS[name]}: ${curve} (${completed}/${total})`
+      });
+    });
+  }
+
+  onProgress({ progress: 90, step: 'Final quality assessment' });
+  const badHole = detectBadHole({ ...processed, parameters });
+  if (badHole) {
+    // With no steps enabled the log is still the original, which stays unflagged
+    const log = processed.log === original ? original.clone() : processed.log;
+    log.setCurve(BAD_HOLE_CURVE, badHole.flags);
+    processed = {
+      curves: [...processed.curves.filter(c => c.mnemonic !== BAD_HOLE_CURVE), badHoleFlagCurve()],
+      log
+    };
+  }
+  const qcResults = calculateQualityMetrics(original, processed.log, curves, geologicalAnalysis, badHole);
+  return {
+    columns: toColumns(processed.log),
+    curves: processed.curves,
+    qcResults,
+    geologicalAnalysis
+  };
+}
+
+async function analyze({ columns, curves }: WorkerTasks['analyze']['request']): Promise<WorkerTasks['analyze']['response']> {
+  return performGeologicalAnalysis(fromColumns(columns), curves);
+}
+
+const post = (message: WorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  const onProgress: ProgressCallback = progress => post({ id: request.id, type: 'progress', ...progress });
+
+  try {
+    if (request.type === 'parse') {
+      const result = await parse(request.payload, onProgress);
+      post({ id: request.id, type: 'result', result }, columnBuffers(result.columns));
+    } else if (request.type === 'process') {
+      const result = await processData(request.payload, onProgress);
+      post({ id: request.id, type: 'result', result }, columnBuffers(result.columns));
+    } else {
+      post({ id: request.id, type: 'result', result: await analyze(request.payload) });
+    }
+  } catch (error) {
+    post({ id: request.id, type: 'error', error: error instanceof Error ? error.message : 'Worker task failed' });
+  }
+};
@@ -0,0 +1,55 @@
+/**
+ * Tests for sending logs between threads as columns
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WellLog } from '../../shared/src';
+import { columnBuffers, fromColumns, toColumns } from './protocol';
+
+function sampleLog(): WellLog {
+  const log = new WellLog([1000, 1000.5, 1001]);
+  log.setCurve('GR', [45, null, 60]);
+  log.setCurve('RHOB', [2.3, 2.4, null]);
+  return log;
+}
+
+describe('Worker protocol', () => {
+  it('should round trip a log through columns with nulls as NaN', () => {
+    const columns = toColumns(sampleLog());
+
+    expect(Array.from(columns.depth)).toEqual([1000, 1000.5, 1001]);
+    expect(Number.isNaN(columns.curves.GR[1])).toBe(true);
+    expect(Number.isNaN(columns.curves.RHOB[2])).toBe(true);
+
+    const log = fromColumns(columns);
+    expect(log.mnemonics).toEqual(['GR', 'RHOB']);
+    expect(log.isNull('GR', 1)).toBe(true);
+    expect(log.isNull('RHOB', 2)).toBe(true);
+    expect(log.toLASData()).toEqual(sampleLog().toLASData());
+    expect(log.toLASData()[1].GR).toBeNull();
+  });
+
+  it('should copy columns so the log stays usable after they are transferred', () => {
+    const log = sampleLog();
+    const columns = toColumns(log);
+
+    expect(columns.depth).not.toBe(log.depth);
+    expect(columns.curves.GR.buffer).not.toBe(log.getValues('GR').buffer);
+
+    // Transferring detaches the buffers, just as posting them to a worker would
+    structuredClone(columns, { transfer: columnBuffers(columns) });
+    expect(columns.depth.length).toBe(0);
+    expect(Array.from(log.depth)).toEqual([1000, 1000.5, 1001]);
+    expect(log.getValues('GR')[0]).toBe(45);
+  });
+
+  it('should list every column\'s buffer for transfer', () => {
+    const columns = toColumns(sampleLog());
+
+    expect(columnBuffers(columns)).toEqual([
+      columns.depth.buffer,
+      columns.curves.GR.buffer,
+      columns.curves.RHOB.buffer
+    ]);
+  });
+});
@@ -0,0 +1,94 @@
+/**
+ * POLISH Worker Protocol
+ *
+ * Messages exchanged between the worker pool and the LAS worker. Curve data
+ * crosses the thread boundary as typed arrays, one Float64Array per curve
+ * with NaN for nulls, so its buffers can be transferred instead of copied.
+ */
+
+import { WellLog } from '../../shared/src';
+import {
+  GeologicalContext,
+  LASCurve,
+  LASFile,
+  LASHeaderItem,
+  ProcessingOptions,
+  ProcessingStepName,
+  QCResults
+} from '../types';
+
+export interface ColumnarData {
+  depth: Float64Array;
+  curves: Record<string, Float64Array>;
+}
+
+export interface WorkerTasks {
+  parse: {
+    request: { bytes: ArrayBuffer; fileName: string };
+    response: { file: Omit<LASFile, 'log'>; columns: ColumnarData };
+  };
+  process: {
+    /** `parameters` is the file's ~Parameter section, read for borehole conditions */
+    request: {
+      columns: ColumnarData;
+      curves: LASCurve[];
+      parameters?: LASHeaderItem[];
+      options: ProcessingOptions;
+      stepOrder: ProcessingStepName[];
+    };
+    /** `curves` includes any the steps added, such as gap fill flags and corrected curves */
+    response: { columns: ColumnarData; curves: LASCurve[]; qcResults: QCResults; geologicalAnalysis: GeologicalContext };
+  };
+  analyze: {
+    request: { columns: ColumnarData; curves: LASCurve[] };
+    response: GeologicalContext;
+  };
+}
+
+export type WorkerTaskType = keyof WorkerTasks;
+
+export type WorkerRequest = {
+  [K in WorkerTaskType]: { id: string; type: K; payload: WorkerTasks[K]['request'] };
+}[WorkerTaskType];
+
+export interface WorkerProgress {
+  /** 0-100 */
+  progress: number;
+  step: string;
+}
+
+export type WorkerResponse =
+  | ({ id: string; type: 'progress' } & WorkerProgress)
+  | { id: string; type: 'result'; result: unknown }
+  | { id: string; type: 'error'; error: string };
+
+/**
+ * Copy a log's columns out to send. The copies are what get transferred, so
+ * the log itself stays usable.
+ */
+export function toColumns(log: WellLog): ColumnarData {
+  const curves: Record<string, Float64Array> = {};
+  for (const mnemonic of log.mnemonics) {
+    curves[mnemonic] = log.getValues(mnemonic).slice();
+  }
+  return { depth: log.depth.slice(), curves };
+}
+
+/**
+ * Rebuild a log from received columns; NaN samples are null
+ */
+export function fromColumns(columns: ColumnarData): WellLog {
+  const log = new WellLog(columns.depth);
+  for (const [mnemonic, values] of Object.entries(columns.curves)) {
+    log.setCurve(mnemonic, values);
+  }
+  return log;
+}
+
+/**
+ * The buffers to transfer with a message carrying these columns. Once sent,
+ * the arrays are unusable on the sending side.
+ */
+export function columnBuffers(columns: ColumnarData): ArrayBuffer[] {
+  return [columns.depth, ...Object.values(columns.curves)].map(values => values.buffer as ArrayBuffer);
+}
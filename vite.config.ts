@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 
@@ -10,4 +11,8 @@ export default defineConfig({
   build: {
     sourcemap: true, // Enable source maps for debugging
   },
+  test: {
+    // shared/ and server/ tests run under the server's jest, with `npm test` in server/
+    include: ['src/**/*.test.ts'],
+  },
 });